@@ -3,17 +3,23 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
 
 import configuration, { validationSchema } from './config/configuration';
 import { CommonModule } from './common/common.module';
 import { MessageModule } from './message/message.module';
+import { ConversationModule } from './conversation/conversation.module';
 import { ElasticConsumerModule } from './elastic-consumer/elastic-consumer.module';
 import { SearchModule } from './search/search.module';
 import { SharedModule } from './shared/shared.module';
+import { AttachmentModule } from './attachment/attachment.module';
+import { ImportModule } from './import/import.module';
+import { TemplateModule } from './template/template.module';
 
 import { TenantMiddleware } from './common/middlewares/tenant.middleware';
 import { LoggerMiddleware } from './common/middlewares/logger.middleware';
 import { AuthGuard } from './common/guards/auth.guard';
+import { RolesGuard } from './common/guards/roles.guard';
 
 /**
  * Root Application Module
@@ -40,6 +46,15 @@ import { AuthGuard } from './common/guards/auth.guard';
       inject: [ConfigService],
     }),
 
+    // Token verification for the AuthGuard
+    JwtModule.registerAsync({
+      useFactory: (configService: ConfigService) => ({
+        secret: configService.get<string>('auth.jwtSecret'),
+        verifyOptions: { algorithms: ['HS256'] },
+      }),
+      inject: [ConfigService],
+    }),
+
     // Throttling setup
     ThrottlerModule.forRoot({
       throttlers: [
@@ -52,7 +67,11 @@ import { AuthGuard } from './common/guards/auth.guard';
 
     // Feature modules
     CommonModule,
+    ConversationModule,
+    AttachmentModule,
+    TemplateModule,
     MessageModule,
+    ImportModule,
     ElasticConsumerModule,
     SearchModule,
     SharedModule,
@@ -67,6 +86,11 @@ import { AuthGuard } from './common/guards/auth.guard';
       provide: APP_GUARD,
       useClass: AuthGuard,
     },
+    // Runs after the AuthGuard, which attaches the user
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
   ],
 })
 export class AppModule {
@@ -0,0 +1,73 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
+import { ConversationModule } from '../conversation/conversation.module';
+import { AttachmentModel, AttachmentSchema } from './schemas/attachment.schema';
+import { AttachmentRepository } from './repositories/mongodb-attachment.repository';
+import { AttachmentController } from './controllers/attachment.controller';
+import { AttachmentApplicationService } from './services/attachment-application.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from './storage/storage-driver.interface';
+import { LocalStorageDriver } from './storage/local-storage.driver';
+import { S3StorageDriver, S3StorageOptions } from './storage/s3-storage.driver';
+
+/**
+ * Attachment module
+ *
+ * Owns attachment uploads and downloads. The storage driver is selected by
+ * the `ATTACHMENT_STORAGE_DRIVER` setting. Exports the application service so
+ * the message module can validate attachment references, and the storage
+ * driver so the import module can keep uploaded archives.
+ */
+@Module({
+  imports: [
+    ConversationModule,
+    MongooseModule.forFeature([
+      { name: AttachmentModel.name, schema: AttachmentSchema },
+    ]),
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        // Hard cap on what is buffered in memory; per-tenant limits are
+        // checked by the service and can only be lower than the largest one
+        const tenantLimits = Object.values(
+          configService.get<Record<string, { maxSizeBytes?: number }>>(
+            'attachments.tenantLimits',
+            {},
+          ),
+        );
+        const fileSize = Math.max(
+          configService.get<number>('attachments.maxSizeBytes', 10485760),
+          ...tenantLimits.map((limits) => limits.maxSizeBytes ?? 0),
+        );
+        return { limits: { fileSize, files: 1 } };
+      },
+    }),
+  ],
+  controllers: [AttachmentController],
+  providers: [
+    AttachmentApplicationService,
+    AttachmentRepository,
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): StorageDriver => {
+        if (configService.get<string>('attachments.driver') === 's3') {
+          return new S3StorageDriver(
+            configService.get<S3StorageOptions>(
+              'attachments.s3',
+            ) as S3StorageOptions,
+          );
+        }
+        return new LocalStorageDriver(
+          configService.get<string>('attachments.local.directory', './uploads'),
+        );
+      },
+    },
+  ],
+  exports: [AttachmentApplicationService, STORAGE_DRIVER],
+})
+export class AttachmentModule {}
@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AttachmentApplicationService } from '../services/attachment-application.service';
+import { AttachmentResponseDto } from '../dto/attachment-response.dto';
+import { UploadAttachmentDto } from '../dto/upload-attachment.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthUser } from '../../common/guards/auth.guard';
+
+/**
+ * Attachment Controller
+ *
+ * Implements API endpoints for uploading and downloading attachments.
+ */
+@ApiTags('Attachments')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class AttachmentController {
+  private readonly logger = new Logger(AttachmentController.name);
+
+  constructor(
+    private readonly attachmentApplicationService: AttachmentApplicationService,
+  ) {
+    this.logger.log('AttachmentController initialized');
+  }
+
+  /**
+   * Upload an attachment to a conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('conversations/:conversationId/attachments')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: UploadAttachmentDto })
+  @ApiOperation({
+    summary: 'Upload an attachment',
+    description:
+      'Uploads a file to a conversation as multipart/form-data in the "file" field. The returned ID can be referenced in attachmentIds when creating a message. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The attachment has been successfully uploaded.',
+    type: AttachmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'No file provided.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Conversation is closed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    description: 'File exceeds the size limit of the tenant.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    description: 'MIME type not allowed for the tenant.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async uploadAttachment(
+    @Param('conversationId') conversationId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @CurrentUser() user: AuthUser,
+  ): Promise<AttachmentResponseDto> {
+    if (!file) {
+      throw new BadRequestException('A file must be provided in field "file"');
+    }
+
+    const attachment = await this.attachmentApplicationService.uploadAttachment(
+      conversationId,
+      file,
+      user.id,
+    );
+
+    this.logger.log(`Attachment uploaded with ID: ${attachment.id}`);
+    return AttachmentResponseDto.fromEntity(attachment);
+  }
+
+  /**
+   * Get the metadata of an attachment
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('attachments/:id')
+  @ApiOperation({
+    summary: 'Get an attachment by ID',
+    description:
+      'Retrieves the metadata of an attachment. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the attachment',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attachment retrieved successfully.',
+    type: AttachmentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Attachment not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getAttachmentById(
+    @Param('id') id: string,
+  ): Promise<AttachmentResponseDto> {
+    const attachment =
+      await this.attachmentApplicationService.getAttachmentById(id);
+
+    if (!attachment) {
+      this.logger.warn(`Attachment with ID: ${id} not found`);
+      throw new NotFoundException(`Attachment with ID "${id}" not found`);
+    }
+
+    return AttachmentResponseDto.fromEntity(attachment);
+  }
+
+  /**
+   * Download the content of an attachment
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('attachments/:id/content')
+  @ApiOperation({
+    summary: 'Download an attachment',
+    description:
+      'Streams the content of an attachment. Attachments of other tenants are not found. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the attachment',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The attachment content.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Attachment not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async downloadAttachment(@Param('id') id: string): Promise<StreamableFile> {
+    const result =
+      await this.attachmentApplicationService.downloadAttachment(id);
+
+    if (!result) {
+      this.logger.warn(`Attachment with ID: ${id} not found`);
+      throw new NotFoundException(`Attachment with ID "${id}" not found`);
+    }
+
+    const { attachment, content } = result;
+    return new StreamableFile(content, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `attachment; filename="${encodeURIComponent(attachment.filename)}"`,
+    });
+  }
+}
@@ -0,0 +1,65 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Attachment } from '../entities/attachment.entity';
+
+/**
+ * Data Transfer Object for attachment responses
+ */
+export class AttachmentResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the attachment',
+    example: '550e8400-e29b-41d4-a716-446655440010',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The ID of the conversation the attachment was uploaded to',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  conversationId: string;
+
+  @ApiProperty({
+    description: 'The ID of the uploading user',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  uploaderId: string;
+
+  @ApiProperty({
+    description: 'The original file name',
+    example: 'report.pdf',
+  })
+  filename: string;
+
+  @ApiProperty({
+    description: 'The MIME type of the file',
+    example: 'application/pdf',
+  })
+  mimeType: string;
+
+  @ApiProperty({
+    description: 'The size of the file in bytes',
+    example: 48213,
+  })
+  size: number;
+
+  @ApiProperty({
+    description: 'The timestamp when the attachment was uploaded',
+    example: '2023-08-15T10:30:00Z',
+  })
+  createdAt: Date;
+
+  /**
+   * Creates an AttachmentResponseDto from an Attachment entity
+   */
+  static fromEntity(attachment: Attachment): AttachmentResponseDto {
+    const dto = new AttachmentResponseDto();
+    dto.id = attachment.id;
+    dto.conversationId = attachment.conversationId;
+    dto.uploaderId = attachment.uploaderId;
+    dto.filename = attachment.filename;
+    dto.mimeType = attachment.mimeType;
+    dto.size = attachment.size;
+    dto.createdAt = attachment.createdAt;
+
+    return dto;
+  }
+}
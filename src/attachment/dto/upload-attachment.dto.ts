@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Multipart body of an attachment upload, used to document the endpoint
+ */
+export class UploadAttachmentDto {
+  @ApiProperty({
+    description: 'The file to upload',
+    type: 'string',
+    format: 'binary',
+  })
+  file: any;
+}
@@ -0,0 +1,95 @@
+/**
+ * Attachment entity
+ *
+ * Represents a file uploaded to a conversation. The file content lives in the
+ * storage driver under `storageKey`; this entity only holds its metadata.
+ */
+export class Attachment {
+  id: string;
+  tenantId: string;
+  conversationId: string;
+  uploaderId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  storageKey: string;
+  createdAt: Date;
+
+  private constructor(props: {
+    id: string;
+    tenantId: string;
+    conversationId: string;
+    uploaderId: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+    storageKey: string;
+    createdAt: Date;
+  }) {
+    this.id = props.id;
+    this.tenantId = props.tenantId;
+    this.conversationId = props.conversationId;
+    this.uploaderId = props.uploaderId;
+    this.filename = props.filename;
+    this.mimeType = props.mimeType;
+    this.size = props.size;
+    this.storageKey = props.storageKey;
+    this.createdAt = props.createdAt;
+  }
+
+  /**
+   * Creates a new Attachment instance
+   *
+   * The storage key is namespaced by tenant and conversation so that
+   * files of different tenants never share a prefix.
+   */
+  static create(props: {
+    id: string;
+    tenantId: string;
+    conversationId: string;
+    uploaderId: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+  }): Attachment {
+    return new Attachment({
+      ...props,
+      storageKey: `${props.tenantId}/${props.conversationId}/${props.id}`,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Creates an Attachment instance from database record
+   */
+  static fromDatabase(data: any): Attachment {
+    return new Attachment({
+      id: data.id,
+      tenantId: data.tenantId,
+      conversationId: data.conversationId,
+      uploaderId: data.uploaderId,
+      filename: data.filename,
+      mimeType: data.mimeType,
+      size: data.size,
+      storageKey: data.storageKey,
+      createdAt: data.createdAt,
+    });
+  }
+
+  /**
+   * Converts the Attachment to a database record
+   */
+  toDatabase(): any {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      conversationId: this.conversationId,
+      uploaderId: this.uploaderId,
+      filename: this.filename,
+      mimeType: this.mimeType,
+      size: this.size,
+      storageKey: this.storageKey,
+      createdAt: this.createdAt,
+    };
+  }
+}
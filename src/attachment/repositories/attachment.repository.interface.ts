@@ -0,0 +1,34 @@
+import { Attachment } from '../entities/attachment.entity';
+
+/**
+ * Attachment Repository Interface
+ *
+ * Defines the contract for storing attachment metadata.
+ */
+export interface IAttachmentRepository {
+  /**
+   * Save a new attachment
+   *
+   * @param attachment The attachment entity to save
+   * @returns Promise resolving to the saved attachment entity
+   */
+  save(attachment: Attachment): Promise<Attachment>;
+
+  /**
+   * Find an attachment by its ID and tenant
+   *
+   * @param id The unique identifier of the attachment
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the attachment entity or null if not found
+   */
+  findById(id: string, tenantId: string): Promise<Attachment | null>;
+
+  /**
+   * Find attachments by their IDs within a tenant
+   *
+   * @param ids The unique identifiers of the attachments
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the attachments that exist for the tenant
+   */
+  findByIds(ids: string[], tenantId: string): Promise<Attachment[]>;
+}
@@ -0,0 +1,103 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Attachment } from '../entities/attachment.entity';
+import { IAttachmentRepository } from './attachment.repository.interface';
+import {
+  AttachmentModel,
+  AttachmentDocument,
+} from '../schemas/attachment.schema';
+
+/**
+ * MongoDB implementation of the Attachment Repository
+ */
+@Injectable()
+export class AttachmentRepository implements IAttachmentRepository {
+  private readonly logger = new Logger(AttachmentRepository.name);
+
+  constructor(
+    @InjectModel(AttachmentModel.name)
+    private attachmentModel: Model<AttachmentDocument>,
+  ) {
+    this.logger.log('AttachmentRepository initialized');
+  }
+
+  /**
+   * Save a new attachment
+   *
+   * @param attachment The attachment entity to save
+   * @returns Promise resolving to the saved attachment entity
+   */
+  async save(attachment: Attachment): Promise<Attachment> {
+    this.logger.debug(`Saving attachment with ID: ${attachment.id}`);
+    try {
+      const attachmentDocument = new this.attachmentModel(
+        attachment.toDatabase(),
+      );
+      await attachmentDocument.save();
+      return attachment;
+    } catch (error) {
+      this.logger.error(
+        `Failed to save attachment: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find an attachment by its ID and tenant
+   *
+   * @param id The unique identifier of the attachment
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the attachment entity or null if not found
+   */
+  async findById(id: string, tenantId: string): Promise<Attachment | null> {
+    this.logger.debug(
+      `Finding attachment with ID: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const attachmentDocument = await this.attachmentModel
+        .findOne({ id, tenantId })
+        .exec();
+
+      return attachmentDocument
+        ? Attachment.fromDatabase(attachmentDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Error finding attachment: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find attachments by their IDs within a tenant
+   *
+   * @param ids The unique identifiers of the attachments
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the attachments that exist for the tenant
+   */
+  async findByIds(ids: string[], tenantId: string): Promise<Attachment[]> {
+    this.logger.debug(
+      `Finding ${ids.length} attachments for tenant: ${tenantId}`,
+    );
+    try {
+      const attachmentDocuments = await this.attachmentModel
+        .find({ id: { $in: ids }, tenantId })
+        .exec();
+
+      return attachmentDocuments.map((doc) =>
+        Attachment.fromDatabase(doc.toObject()),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error finding attachments: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Type definition for AttachmentDocument combining AttachmentModel with Mongoose Document
+ */
+export type AttachmentDocument = AttachmentModel & Document;
+
+/**
+ * Mongoose schema for attachment metadata
+ *
+ * The file content itself is kept by the configured storage driver.
+ */
+@Schema({
+  collection: 'attachments',
+})
+export class AttachmentModel {
+  /**
+   * Unique identifier for the attachment
+   */
+  @Prop({ required: true })
+  id: string;
+
+  /**
+   * Identifier of the tenant the attachment belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Identifier of the conversation the attachment was uploaded to
+   */
+  @Prop({ required: true })
+  conversationId: string;
+
+  /**
+   * Identifier of the uploading user
+   */
+  @Prop({ required: true })
+  uploaderId: string;
+
+  /**
+   * Original file name
+   */
+  @Prop({ required: true })
+  filename: string;
+
+  /**
+   * MIME type of the file
+   */
+  @Prop({ required: true })
+  mimeType: string;
+
+  /**
+   * Size of the file in bytes
+   */
+  @Prop({ required: true })
+  size: number;
+
+  /**
+   * Key of the file in the storage driver
+   */
+  @Prop({ required: true })
+  storageKey: string;
+
+  /**
+   * Timestamp when the attachment was uploaded
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+}
+
+// Create the schema from the class
+export const AttachmentSchema = SchemaFactory.createForClass(AttachmentModel);
+
+// Attachment IDs are unique per tenant
+AttachmentSchema.index({ tenantId: 1, id: 1 }, { unique: true });
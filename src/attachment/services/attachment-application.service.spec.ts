@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Readable } from 'stream';
+import {
+  AttachmentApplicationService,
+  UploadedAttachmentFile,
+} from './attachment-application.service';
+import { AttachmentRepository } from '../repositories/mongodb-attachment.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
+import { Attachment } from '../entities/attachment.entity';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from '../storage/storage-driver.interface';
+
+jest.mock('../repositories/mongodb-attachment.repository');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../conversation/services/conversation-application.service');
+
+describe('AttachmentApplicationService', () => {
+  let service: AttachmentApplicationService;
+  let attachmentRepository: jest.Mocked<AttachmentRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+  const storageDriver: jest.Mocked<StorageDriver> = {
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+  const config: Record<string, unknown> = {
+    'attachments.maxSizeBytes': 1024,
+    'attachments.allowedMimeTypes': ['image/png', 'text/plain'],
+    'attachments.tenantLimits': {
+      bigTenant: { maxSizeBytes: 4096, allowedMimeTypes: ['application/pdf'] },
+    },
+  };
+
+  const file = (
+    overrides: Partial<UploadedAttachmentFile> = {},
+  ): UploadedAttachmentFile => ({
+    originalname: 'notes.txt',
+    mimetype: 'text/plain',
+    size: 5,
+    buffer: Buffer.from('hello'),
+    ...overrides,
+  });
+
+  const buildAttachment = (id: string, conversationId = 'conv1') =>
+    Attachment.create({
+      id,
+      tenantId: 'tenant123',
+      conversationId,
+      uploaderId: 'user1',
+      filename: 'notes.txt',
+      mimeType: 'text/plain',
+      size: 5,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentApplicationService,
+        AttachmentRepository,
+        TenantContext,
+        ConversationApplicationService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: storageDriver,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AttachmentApplicationService>(
+      AttachmentApplicationService,
+    );
+    attachmentRepository = module.get(AttachmentRepository);
+    tenantContext = module.get(TenantContext);
+    conversationService = module.get(ConversationApplicationService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    conversationService.getConversationById.mockResolvedValue(
+      Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1', 'user2'],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getLimits', () => {
+    it('should use the defaults for tenants without overrides', () => {
+      expect(service.getLimits('tenant123')).toEqual({
+        maxSizeBytes: 1024,
+        allowedMimeTypes: ['image/png', 'text/plain'],
+      });
+    });
+
+    it('should apply tenant overrides', () => {
+      expect(service.getLimits('bigTenant')).toEqual({
+        maxSizeBytes: 4096,
+        allowedMimeTypes: ['application/pdf'],
+      });
+    });
+  });
+
+  describe('uploadAttachment', () => {
+    it('should store the content and save the attachment', async () => {
+      attachmentRepository.save.mockImplementation((a) => Promise.resolve(a));
+
+      const result = await service.uploadAttachment('conv1', file(), 'user1');
+
+      expect(storageDriver.put).toHaveBeenCalledWith(
+        `tenant123/conv1/${result.id}`,
+        Buffer.from('hello'),
+        'text/plain',
+      );
+      expect(attachmentRepository.save).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        tenantId: 'tenant123',
+        conversationId: 'conv1',
+        uploaderId: 'user1',
+        filename: 'notes.txt',
+        mimeType: 'text/plain',
+        size: 5,
+      });
+    });
+
+    it('should reject uploads to an unknown conversation', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      await expect(
+        service.uploadAttachment('missing', file(), 'user1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(storageDriver.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject uploads to a closed conversation', async () => {
+      const conversation = Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1'],
+      });
+      conversation.close();
+      conversationService.getConversationById.mockResolvedValue(conversation);
+
+      await expect(
+        service.uploadAttachment('conv1', file(), 'user1'),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject files over the size limit', async () => {
+      await expect(
+        service.uploadAttachment('conv1', file({ size: 2048 }), 'user1'),
+      ).rejects.toThrow(PayloadTooLargeException);
+      expect(storageDriver.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject MIME types that are not allowed', async () => {
+      await expect(
+        service.uploadAttachment(
+          'conv1',
+          file({ mimetype: 'application/x-msdownload' }),
+          'user1',
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(storageDriver.put).not.toHaveBeenCalled();
+    });
+
+    it('should remove the stored content when saving fails', async () => {
+      attachmentRepository.save.mockRejectedValue(new Error('write failed'));
+      storageDriver.delete.mockResolvedValue(undefined);
+
+      await expect(
+        service.uploadAttachment('conv1', file(), 'user1'),
+      ).rejects.toThrow('write failed');
+      expect(storageDriver.delete).toHaveBeenCalledWith(
+        storageDriver.put.mock.calls[0][0],
+      );
+    });
+  });
+
+  describe('downloadAttachment', () => {
+    it('should return the attachment with its content', async () => {
+      const attachment = buildAttachment('att1');
+      const content = Readable.from(['hello']);
+      attachmentRepository.findById.mockResolvedValue(attachment);
+      storageDriver.get.mockResolvedValue(content);
+
+      const result = await service.downloadAttachment('att1');
+
+      expect(attachmentRepository.findById).toHaveBeenCalledWith(
+        'att1',
+        'tenant123',
+      );
+      expect(storageDriver.get).toHaveBeenCalledWith(attachment.storageKey);
+      expect(result).toEqual({ attachment, content });
+    });
+
+    it('should return null for attachments of other tenants', async () => {
+      attachmentRepository.findById.mockResolvedValue(null);
+
+      const result = await service.downloadAttachment('att1');
+
+      expect(result).toBeNull();
+      expect(storageDriver.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertAttachable', () => {
+    it('should accept attachments of the conversation', async () => {
+      attachmentRepository.findByIds.mockResolvedValue([
+        buildAttachment('att1'),
+        buildAttachment('att2'),
+      ]);
+
+      await expect(
+        service.assertAttachable(['att1', 'att2'], 'conv1'),
+      ).resolves.toBeUndefined();
+      expect(attachmentRepository.findByIds).toHaveBeenCalledWith(
+        ['att1', 'att2'],
+        'tenant123',
+      );
+    });
+
+    it('should skip the lookup when there are no attachments', async () => {
+      await service.assertAttachable([], 'conv1');
+
+      expect(attachmentRepository.findByIds).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown attachments', async () => {
+      attachmentRepository.findByIds.mockResolvedValue([
+        buildAttachment('att1'),
+      ]);
+
+      await expect(
+        service.assertAttachable(['att1', 'att2'], 'conv1'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject attachments of another conversation', async () => {
+      attachmentRepository.findByIds.mockResolvedValue([
+        buildAttachment('att1', 'conv2'),
+      ]);
+
+      await expect(service.assertAttachable(['att1'], 'conv1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { Attachment } from '../entities/attachment.entity';
+import { AttachmentRepository } from '../repositories/mongodb-attachment.repository';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from '../storage/storage-driver.interface';
+
+/**
+ * A file received from a multipart upload
+ */
+export interface UploadedAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Upload limits applying to a tenant
+ */
+export interface AttachmentLimits {
+  maxSizeBytes: number;
+  allowedMimeTypes: string[];
+}
+
+/**
+ * Attachment Application Service
+ *
+ * Handles uploads and downloads of attachments while enforcing tenant
+ * separation and per-tenant size and MIME type limits. File content is
+ * delegated to the configured storage driver.
+ */
+@Injectable()
+export class AttachmentApplicationService {
+  private readonly logger = new Logger(AttachmentApplicationService.name);
+
+  constructor(
+    private readonly attachmentRepository: AttachmentRepository,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly tenantContext: TenantContext,
+    private readonly configService: ConfigService,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+  ) {
+    this.logger.log('AttachmentApplicationService initialized');
+  }
+
+  /**
+   * Get the upload limits of a tenant
+   *
+   * Tenant overrides take precedence over the defaults field by field.
+   *
+   * @param tenantId Tenant ID
+   * @returns The size and MIME type limits of the tenant
+   */
+  getLimits(tenantId: string): AttachmentLimits {
+    const overrides =
+      this.configService.get<Record<string, Partial<AttachmentLimits>>>(
+        'attachments.tenantLimits',
+      )?.[tenantId] || {};
+
+    return {
+      maxSizeBytes:
+        overrides.maxSizeBytes ??
+        this.configService.get<number>('attachments.maxSizeBytes', 10485760),
+      allowedMimeTypes:
+        overrides.allowedMimeTypes ??
+        this.configService.get<string[]>('attachments.allowedMimeTypes', []),
+    };
+  }
+
+  /**
+   * Upload an attachment to a conversation
+   *
+   * @param conversationId The conversation the file is uploaded to
+   * @param file The uploaded file
+   * @param uploaderId The uploading user
+   * @returns Promise resolving to the created Attachment entity
+   * @throws NotFoundException if the conversation does not exist
+   * @throws ConflictException if the conversation is closed
+   * @throws PayloadTooLargeException if the file exceeds the tenant's size limit
+   * @throws UnsupportedMediaTypeException if the MIME type is not allowed for the tenant
+   */
+  async uploadAttachment(
+    conversationId: string,
+    file: UploadedAttachmentFile,
+    uploaderId: string,
+  ): Promise<Attachment> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Uploading attachment to conversation: ${conversationId} for tenant: ${tenantId}`,
+    );
+
+    const conversation =
+      await this.conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+    if (conversation.isClosed()) {
+      throw new ConflictException(
+        `Conversation with ID "${conversationId}" is closed`,
+      );
+    }
+
+    const limits = this.getLimits(tenantId);
+    if (file.size > limits.maxSizeBytes) {
+      throw new PayloadTooLargeException(
+        `Attachment exceeds the maximum size of ${limits.maxSizeBytes} bytes`,
+      );
+    }
+    if (!limits.allowedMimeTypes.includes(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `Attachments of type "${file.mimetype}" are not allowed`,
+      );
+    }
+
+    const attachment = Attachment.create({
+      id: uuidv4(),
+      tenantId,
+      conversationId,
+      uploaderId,
+      filename: file.originalname,
+      mimeType: file.mimetype,
+      size: file.size,
+    });
+
+    await this.storageDriver.put(
+      attachment.storageKey,
+      file.buffer,
+      attachment.mimeType,
+    );
+
+    try {
+      const savedAttachment = await this.attachmentRepository.save(attachment);
+      this.logger.log(`Uploaded attachment with ID: ${savedAttachment.id}`);
+      return savedAttachment;
+    } catch (error) {
+      // Do not leave unreferenced files behind
+      await this.storageDriver
+        .delete(attachment.storageKey)
+        .catch((cleanupError: Error) =>
+          this.logger.warn(
+            `Failed to clean up attachment content: ${cleanupError.message}`,
+          ),
+        );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the metadata of an attachment
+   *
+   * @param id The unique identifier of the attachment
+   * @returns Promise resolving to the Attachment entity or null if not found
+   */
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Retrieving attachment ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const attachment = await this.attachmentRepository.findById(id, tenantId);
+    if (!attachment) {
+      this.logger.warn(
+        `Attachment with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    return attachment;
+  }
+
+  /**
+   * Open the content of an attachment for download
+   *
+   * Attachments of other tenants are reported as not found, the same way
+   * messages are.
+   *
+   * @param id The unique identifier of the attachment
+   * @returns Promise resolving to the attachment and its content, or null if not found
+   */
+  async downloadAttachment(
+    id: string,
+  ): Promise<{ attachment: Attachment; content: Readable } | null> {
+    const attachment = await this.getAttachmentById(id);
+    if (!attachment) {
+      return null;
+    }
+
+    const content = await this.storageDriver.get(attachment.storageKey);
+    return { attachment, content };
+  }
+
+  /**
+   * Ensure attachments exist and were uploaded to a conversation
+   *
+   * Used when creating a message that references attachments.
+   *
+   * @param ids IDs of the referenced attachments
+   * @param conversationId Conversation the message is posted to
+   * @throws BadRequestException if an attachment does not exist for the tenant or belongs to another conversation
+   */
+  async assertAttachable(ids: string[], conversationId: string): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    const tenantId = this.tenantContext.getCurrentTenant();
+    const uniqueIds = [...new Set(ids)];
+    const attachments = await this.attachmentRepository.findByIds(
+      uniqueIds,
+      tenantId,
+    );
+
+    const found = new Map(
+      attachments.map((attachment) => [attachment.id, attachment]),
+    );
+    for (const id of uniqueIds) {
+      const attachment = found.get(id);
+      if (!attachment) {
+        throw new BadRequestException(`Attachment with ID "${id}" not found`);
+      }
+      if (attachment.conversationId !== conversationId) {
+        throw new BadRequestException(
+          `Attachment with ID "${id}" belongs to another conversation`,
+        );
+      }
+    }
+  }
+}
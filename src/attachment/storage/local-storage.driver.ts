@@ -0,0 +1,54 @@
+import { Logger } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Storage driver keeping attachments on the local filesystem
+ *
+ * Suitable for development and single-node deployments.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly logger = new Logger(LocalStorageDriver.name);
+  private readonly root: string;
+
+  /**
+   * @param directory Directory that holds all stored objects
+   */
+  constructor(directory: string) {
+    this.root = resolve(directory);
+    this.logger.log(`Storing attachments in ${this.root}`);
+  }
+
+  /**
+   * Resolve the path of an object, refusing keys that escape the root
+   */
+  private pathOf(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathOf(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+    this.logger.debug(`Stored object: ${key}`);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.pathOf(key);
+    // Fail before streaming so a missing file is not reported mid-response
+    await stat(path);
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+    this.logger.debug(`Deleted object: ${key}`);
+  }
+}
@@ -0,0 +1,78 @@
+import { Logger } from '@nestjs/common';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StorageDriver } from './storage-driver.interface';
+
+/**
+ * Connection settings of an S3-compatible object store
+ */
+export interface S3StorageOptions {
+  /** Custom endpoint, e.g. a local MinIO; AWS is used when omitted */
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Storage driver keeping attachments in an S3-compatible object store
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly logger = new Logger(S3StorageDriver.name);
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region,
+      forcePathStyle: options.forcePathStyle,
+      // Fall back to the default AWS credential chain when no keys are configured
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            }
+          : undefined,
+    });
+    this.logger.log(
+      `Storing attachments in bucket ${this.bucket}${options.endpoint ? ` at ${options.endpoint}` : ''}`,
+    );
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+    this.logger.debug(`Stored object: ${key}`);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    // The SDK returns a Node.js stream when running on Node.js
+    return result.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+    this.logger.debug(`Deleted object: ${key}`);
+  }
+}
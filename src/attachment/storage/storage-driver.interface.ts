@@ -0,0 +1,41 @@
+import { Readable } from 'stream';
+
+/**
+ * Injection token of the configured storage driver
+ */
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+/**
+ * Storage Driver Interface
+ *
+ * Defines the contract for storing attachment content, allowing different
+ * backends (local filesystem, S3-compatible object stores) to be swapped
+ * through configuration.
+ */
+export interface StorageDriver {
+  /**
+   * Store an object
+   *
+   * @param key Key of the object, unique across tenants
+   * @param body Content of the object
+   * @param contentType MIME type of the content
+   * @returns Promise resolving when the object is stored
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Open an object for reading
+   *
+   * @param key Key of the object
+   * @returns Promise resolving to a stream of the object content
+   */
+  get(key: string): Promise<Readable>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   *
+   * @param key Key of the object
+   * @returns Promise resolving when the object is deleted
+   */
+  delete(key: string): Promise<void>;
+}
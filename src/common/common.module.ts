@@ -1,5 +1,6 @@
 import { Module, Global } from '@nestjs/common';
 import { TenantContext } from './contexts/tenant.context';
+import { RedactionService } from './redaction/redaction.service';
 
 /**
  * Global module providing common services and contexts across the application
@@ -8,12 +9,14 @@ import { TenantContext } from './contexts/tenant.context';
  * throughout the application without needing to import the CommonModule in each feature module.
  *
  * @remarks
- * Currently provides the TenantContext for multi-tenancy support. Additional common
- * services, providers, and utilities can be added here as the application grows.
+ * Currently provides the TenantContext for multi-tenancy support and the
+ * RedactionService, which both the message and search modules use. Additional
+ * common services, providers, and utilities can be added here as the
+ * application grows.
  */
 @Global()
 @Module({
-  providers: [TenantContext],
-  exports: [TenantContext],
+  providers: [TenantContext, RedactionService],
+  exports: [TenantContext, RedactionService],
 })
 export class CommonModule {}
@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthUser } from '../guards/auth.guard';
+
+/**
+ * Parameter decorator resolving the authenticated user of the request
+ *
+ * @remarks
+ * Relies on the AuthGuard having attached the user to the request.
+ *
+ * @example
+ * ```typescript
+ * async addReaction(@CurrentUser() user: AuthUser) { ... }
+ * ```
+ */
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser => {
+    const request = context.switchToHttp().getRequest<{ user: AuthUser }>();
+    return request.user;
+  },
+);
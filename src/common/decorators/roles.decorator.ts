@@ -0,0 +1,22 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../guards/auth.guard';
+
+/**
+ * Metadata key holding the roles of a route
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Decorator restricting a controller or route to users with one of the roles
+ *
+ * @remarks
+ * Enforced by the RolesGuard, after the AuthGuard attached the user.
+ *
+ * @example
+ * ```typescript
+ * @Roles(Role.MODERATOR)
+ * @Controller({ path: 'api', version: ['1'] })
+ * export class ModerationQueueController { ... }
+ * ```
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
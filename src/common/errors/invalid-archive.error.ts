@@ -0,0 +1,12 @@
+/**
+ * Error thrown when an uploaded archive cannot be read
+ *
+ * Raised for corrupt archives as well as for archives using features that
+ * are not supported, e.g. encryption.
+ */
+export class InvalidArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidArchiveError';
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Error thrown by an entity asked for a state change its lifecycle forbids
+ *
+ * Entities stay free of HTTP concerns; the GlobalExceptionFilter maps this
+ * error to 409 Conflict.
+ */
+export class InvalidStateTransitionError extends Error {
+  constructor(
+    /** The state the entity is in */
+    readonly from: string,
+    /** The state that was requested */
+    readonly to: string,
+    message?: string,
+  ) {
+    super(message ?? `Cannot change state from "${from}" to "${to}"`);
+    this.name = 'InvalidStateTransitionError';
+  }
+}
@@ -7,6 +7,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
+import { InvalidStateTransitionError } from '../errors/invalid-state-transition.error';
 
 /**
  * Standard error response structure returned by the API
@@ -81,6 +82,15 @@ export class GlobalExceptionFilter implements ExceptionFilter {
           `HTTP exception ${status}: ${message} at ${request.method} ${request.url}`,
         );
       }
+    } else if (exception instanceof InvalidStateTransitionError) {
+      // State changes rejected by the lifecycle of an entity
+      status = HttpStatus.CONFLICT;
+      message = exception.message;
+      error = 'Conflict';
+
+      this.logger.warn(
+        `Invalid state transition: ${message} at ${request.method} ${request.url}`,
+      );
     } else if (exception instanceof Error) {
       // Unhandled JavaScript errors
       status = HttpStatus.INTERNAL_SERVER_ERROR;
@@ -5,27 +5,75 @@ import {
   UnauthorizedException,
   Logger,
 } from '@nestjs/common';
-import { Observable } from 'rxjs';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+
+/**
+ * Roles a user can be assigned
+ */
+export enum Role {
+  USER = 'user',
+  /** Can delete and relabel messages of others in bulk */
+  MODERATOR = 'moderator',
+  /** Can import messages with their original timestamps */
+  IMPORTER = 'importer',
+  /** Can read the original content of messages personal data was redacted from */
+  COMPLIANCE = 'compliance',
+}
 
 /**
  * User information extracted from the authentication token
  */
-interface AuthUser {
+export interface AuthUser {
   /** Unique identifier for the authenticated user */
   id: string;
   /** List of roles assigned to the user */
   roles: string[];
 }
 
+/**
+ * Claims of a verified authentication token that are read
+ */
+interface TokenClaims {
+  /** ID of the user */
+  sub?: unknown;
+  /** Roles assigned to the user */
+  roles?: unknown;
+}
+
+/**
+ * Checks if a value names a role
+ */
+function isRole(value: unknown): value is Role {
+  return Object.values(Role).includes(value as Role);
+}
+
 /**
  * Authentication guard that validates bearer tokens in request headers
  *
  * This guard checks for the presence of a valid Bearer token in the Authorization
  * header and attaches user information to the request object when authenticated.
+ * With a secret configured, the token must be a JWT whose signature and expiry
+ * verify, and the user's ID and roles are read from its `sub` and `roles`
+ * claims. Without one, tokens cannot be verified, so no claim is trusted and
+ * every user gets the user role only.
  */
 @Injectable()
 export class AuthGuard implements CanActivate {
   private readonly logger = new Logger(AuthGuard.name);
+  private readonly verifyTokens: boolean;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+  ) {
+    this.verifyTokens = !!this.configService.get<string>('auth.jwtSecret');
+    if (!this.verifyTokens) {
+      this.logger.warn(
+        'No JWT secret configured: tokens are not verified and grant the user role only',
+      );
+    }
+  }
 
   /**
    * Validates the authentication token from the request header
@@ -33,9 +81,7 @@ export class AuthGuard implements CanActivate {
    * @param context - The execution context provided by NestJS
    * @returns True if authentication is successful, throws UnauthorizedException otherwise
    */
-  canActivate(
-    context: ExecutionContext,
-  ): boolean | Promise<boolean> | Observable<boolean> {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const authHeader = request.headers.authorization;
     const requestPath = `${request.method} ${request.url}`;
@@ -72,14 +118,24 @@ export class AuthGuard implements CanActivate {
       throw new UnauthorizedException('Invalid token');
     }
 
-    // In a real application, you would validate the token here
-    // For example, verify JWT signature, check expiration, etc.
+    let user: AuthUser = { id: 'user-id-from-token', roles: [Role.USER] };
+    if (this.verifyTokens) {
+      const claims = await this.verifyClaims(token);
+      if (!claims || typeof claims.sub !== 'string' || !claims.sub) {
+        this.logger.warn(
+          `Authentication failed: Token does not verify for ${requestPath}`,
+        );
+        throw new UnauthorizedException('Invalid token');
+      }
 
-    // Create user object from token claims
-    const user: AuthUser = {
-      id: 'user-id-from-token',
-      roles: ['user'],
-    };
+      // Create user object from token claims
+      user = {
+        id: claims.sub,
+        roles: Array.isArray(claims.roles)
+          ? claims.roles.filter(isRole)
+          : [Role.USER],
+      };
+    }
 
     // Attach the user info to the request for use in controllers
     request.user = user;
@@ -91,4 +147,18 @@ export class AuthGuard implements CanActivate {
 
     return true;
   }
+
+  /**
+   * Verifies the signature and expiry of a token and reads its claims
+   *
+   * @returns The claims, or undefined if the token does not verify
+   * @private
+   */
+  private async verifyClaims(token: string): Promise<TokenClaims | undefined> {
+    try {
+      return await this.jwtService.verifyAsync<TokenClaims>(token);
+    } catch {
+      return undefined;
+    }
+  }
 }
@@ -0,0 +1,53 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { AuthUser, Role } from './auth.guard';
+
+/**
+ * Authorization guard that restricts routes to the roles set with @Roles()
+ *
+ * Routes without roles are open to every authenticated user. Runs after the
+ * AuthGuard, which attaches the user to the request.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  /**
+   * Checks that the user has one of the roles of the route
+   *
+   * @param context - The execution context provided by NestJS
+   * @returns True if the user may access the route, throws ForbiddenException otherwise
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!roles?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{
+      method: string;
+      url: string;
+      user?: AuthUser;
+    }>();
+    if (!request.user?.roles.some((role) => roles.includes(role as Role))) {
+      this.logger.warn(
+        `Authorization failed: User ${request.user?.id} lacks the ${roles.join(' or ')} role for ${request.method} ${request.url}`,
+      );
+      throw new ForbiddenException(`Requires the ${roles.join(' or ')} role`);
+    }
+
+    return true;
+  }
+}
@@ -4,6 +4,7 @@ import {
   Injectable,
   NestInterceptor,
   Logger,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -30,6 +31,7 @@ export interface Response<T> {
  *
  * This interceptor wraps the response data in a standard structure with status code
  * and data fields, providing consistent API responses across the application.
+ * File downloads (StreamableFile) are passed through unchanged.
  *
  * @template T Type of the data being intercepted and transformed
  */
@@ -57,7 +59,11 @@ export class TransformInterceptor<T>
       `Applying standard response transformation for ${originalUrl}`,
     );
     return next.handle().pipe(
-      map((data) => {
+      map((data: T) => {
+        if (data instanceof StreamableFile) {
+          return data;
+        }
+
         const response = context.switchToHttp().getResponse();
         const statusCode = response.statusCode;
 
@@ -0,0 +1,175 @@
+/**
+ * Kinds of personal data the redaction engine detects
+ */
+export enum PiiType {
+  EMAIL = 'email',
+  CARD = 'card',
+  PHONE = 'phone',
+}
+
+/**
+ * Finds one kind of personal data in a text
+ */
+export interface PiiDetector {
+  readonly type: PiiType;
+
+  /**
+   * Replaces every occurrence in a text with a placeholder
+   *
+   * @returns The redacted text, and whether anything was found
+   */
+  redact(text: string): { text: string; found: boolean };
+}
+
+/**
+ * Checks a card number against the Luhn checksum
+ *
+ * @param digits The digits of the number, without separators
+ */
+export function passesLuhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Detects matches of a pattern that pass a check, e.g. a checksum
+ */
+class PatternDetector implements PiiDetector {
+  constructor(
+    readonly type: PiiType,
+    private readonly pattern: RegExp,
+    private readonly accept: (match: string) => boolean = () => true,
+  ) {}
+
+  redact(text: string): { text: string; found: boolean } {
+    let found = false;
+    const redacted = text.replace(this.pattern, (match) => {
+      if (!this.accept(match)) {
+        return match;
+      }
+      found = true;
+      return `[redacted ${this.type}]`;
+    });
+    return { text: redacted, found };
+  }
+}
+
+/**
+ * Detects card numbers in runs of digits
+ *
+ * A run may hold more than the card number, e.g. an expiry date or a CVV
+ * written right after it, so each run of digit groups is searched for card
+ * numbers spanning whole groups, trying the longest one first.
+ */
+class CardDetector implements PiiDetector {
+  readonly type = PiiType.CARD;
+
+  // At least 13 digits, optionally grouped by spaces or dashes
+  private readonly pattern = /(?<![\d-])\d(?:[ -]?\d){12,}(?![\d-])/g;
+
+  redact(text: string): { text: string; found: boolean } {
+    let found = false;
+    const redacted = text.replace(this.pattern, (run) => {
+      const groups = [...run.matchAll(/\d+/g)].map((group) => ({
+        start: group.index,
+        end: group.index + group[0].length,
+        digits: group[0],
+      }));
+
+      let result = '';
+      let position = 0;
+      let first = 0;
+      while (first < groups.length) {
+        const last = this.findCardEnd(groups, first);
+        if (last === undefined) {
+          first++;
+          continue;
+        }
+        result +=
+          run.slice(position, groups[first].start) + `[redacted ${this.type}]`;
+        position = groups[last].end;
+        first = last + 1;
+        found = true;
+      }
+      return result + run.slice(position);
+    });
+    return { text: redacted, found };
+  }
+
+  /**
+   * Finds the longest card number starting with a group
+   *
+   * Only spans of up to 19 digits are considered, so that a long run of
+   * digit groups takes linear time.
+   *
+   * @returns The index of the last group of the card number, if there is one
+   * @private
+   */
+  private findCardEnd(
+    groups: { digits: string }[],
+    first: number,
+  ): number | undefined {
+    let cardEnd: number | undefined;
+    let digits = '';
+    for (let last = first; last < groups.length; last++) {
+      digits += groups[last].digits;
+      if (digits.length > 19) {
+        break;
+      }
+      if (digits.length >= 13 && passesLuhnCheck(digits)) {
+        cardEnd = last;
+      }
+    }
+    return cardEnd;
+  }
+}
+
+/**
+ * Counts the digits of a text
+ */
+function countDigits(text: string): number {
+  return text.replace(/\D/g, '').length;
+}
+
+/**
+ * The detectors, in the order they are applied
+ *
+ * Emails go first, as they may contain digits that look like a phone number,
+ * and cards before phones, as card numbers are the more specific pattern.
+ */
+export const PII_DETECTORS: Record<PiiType, PiiDetector> = {
+  [PiiType.EMAIL]: new PatternDetector(
+    PiiType.EMAIL,
+    /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  ),
+  [PiiType.CARD]: new CardDetector(),
+  // An international number, or a number with 10 to 15 digits written in
+  // groups, so that plain numbers such as IDs and timestamps are left alone
+  [PiiType.PHONE]: new PatternDetector(
+    PiiType.PHONE,
+    /(?<![\w+])(?:\+\d|\(\d)[\d ().-]{5,}\d(?![\w])|(?<![\w.-])\d{2,4}(?:[ .-]\d{2,4}){2,4}(?![\w.-])/g,
+    (match) => {
+      const digits = countDigits(match);
+      return match.startsWith('+')
+        ? digits >= 8 && digits <= 15
+        : digits >= 10 && digits <= 15;
+    },
+  ),
+};
+
+/**
+ * Checks if a value names a detector
+ */
+export function isPiiType(value: unknown): value is PiiType {
+  return Object.values(PiiType).includes(value as PiiType);
+}
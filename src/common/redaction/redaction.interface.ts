@@ -0,0 +1,38 @@
+import { PiiType } from './pii-detectors';
+
+/**
+ * How the messages of a tenant are redacted
+ */
+export interface RedactionPolicy {
+  /** The kinds of personal data to redact; none disables redaction */
+  detectors: PiiType[];
+  /** Whether the original content is kept, encrypted, for privileged roles */
+  keepOriginal: boolean;
+}
+
+/**
+ * A value encrypted with AES-256-GCM, each part base64 encoded
+ */
+export interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * The content of a message before or after redaction
+ */
+export interface RedactableContent<T = unknown> {
+  content: string;
+  body?: T;
+}
+
+/**
+ * What was redacted from a message
+ */
+export interface RedactionRecord {
+  /** The kinds of personal data found, in detector order */
+  detected: PiiType[];
+  /** The content as sent, if the tenant keeps originals */
+  original?: EncryptedValue;
+}
@@ -0,0 +1,264 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { RedactionService } from './redaction.service';
+import { PiiType, passesLuhnCheck } from './pii-detectors';
+
+describe('RedactionService', () => {
+  const encryptionKey = randomBytes(32).toString('base64');
+
+  const buildService = async (
+    redaction: Record<string, unknown>,
+  ): Promise<RedactionService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RedactionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) => {
+              const field = key.replace('redaction.', '');
+              return redaction[field] ?? defaultValue;
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<RedactionService>(RedactionService);
+  };
+
+  const allDetectors = [PiiType.EMAIL, PiiType.CARD, PiiType.PHONE];
+
+  describe('passesLuhnCheck', () => {
+    it('should accept valid card numbers and reject others', () => {
+      expect(passesLuhnCheck('4111111111111111')).toBe(true);
+      expect(passesLuhnCheck('5500005555555559')).toBe(true);
+      expect(passesLuhnCheck('4111111111111112')).toBe(false);
+    });
+  });
+
+  describe('redactText', () => {
+    let service: RedactionService;
+
+    beforeEach(async () => {
+      service = await buildService({ detectors: allDetectors });
+    });
+
+    it.each([
+      [
+        'an email address',
+        'Write to jane.doe+work@mail.example.com today',
+        'Write to [redacted email] today',
+        [PiiType.EMAIL],
+      ],
+      [
+        'a card number',
+        'My card is 4111 1111 1111 1111.',
+        'My card is [redacted card].',
+        [PiiType.CARD],
+      ],
+      [
+        'a card number with dashes',
+        'Use 5500-0055-5555-5559 please',
+        'Use [redacted card] please',
+        [PiiType.CARD],
+      ],
+      [
+        'a card number followed by its expiry date',
+        'card 4111 1111 1111 1111 12/26',
+        'card [redacted card] 12/26',
+        [PiiType.CARD],
+      ],
+      [
+        'a card number followed by its CVV',
+        '4111111111111111 123',
+        '[redacted card] 123',
+        [PiiType.CARD],
+      ],
+      [
+        'two card numbers in a row',
+        '4111 1111 1111 1111 5500 0055 5555 5559',
+        '[redacted card] [redacted card]',
+        [PiiType.CARD],
+      ],
+      [
+        'an international phone number',
+        'Call +44 20 7946 0958',
+        'Call [redacted phone]',
+        [PiiType.PHONE],
+      ],
+      [
+        'a grouped phone number',
+        'Call (555) 123-4567 or 555.123.4567',
+        'Call [redacted phone] or [redacted phone]',
+        [PiiType.PHONE],
+      ],
+    ])('should redact %s', (_description, text, redacted, detected) => {
+      expect(service.redactText('tenant123', text)).toEqual({
+        text: redacted,
+        detected,
+      });
+    });
+
+    it.each([
+      ['a number failing the Luhn check', 'Order 4111 1111 1111 1112'],
+      ['a date', 'Due on 2024-01-31'],
+      ['a timestamp', 'Logged at 1706700000'],
+      ['an IP address', 'Server 192.168.1.10'],
+      ['a UUID', 'See 550e8400-e29b-41d4-a716-446655440000'],
+    ])('should leave %s alone', (_description, text) => {
+      expect(service.redactText('tenant123', text)).toEqual({
+        text,
+        detected: [],
+      });
+    });
+
+    it('should scan long runs of digit groups quickly', () => {
+      const text = '1 '.repeat(10000);
+      const started = Date.now();
+
+      service.redactText('tenant123', text);
+
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should change nothing when redacting twice', () => {
+      const once = service.redactText('tenant123', 'jane@example.com');
+
+      expect(service.redactText('tenant123', once.text)).toEqual({
+        text: once.text,
+        detected: [],
+      });
+    });
+  });
+
+  describe('policies', () => {
+    it('should only apply the detectors of the tenant', async () => {
+      const service = await buildService({
+        detectors: allDetectors,
+        tenantPolicies: { tenant123: { detectors: [PiiType.CARD] } },
+      });
+      const text = 'jane@example.com 4111111111111111';
+
+      expect(service.redactText('tenant123', text).text).toBe(
+        'jane@example.com [redacted card]',
+      );
+      expect(service.redactText('tenant456', text).text).toBe(
+        '[redacted email] [redacted card]',
+      );
+    });
+
+    it('should redact nothing without detectors', async () => {
+      const service = await buildService({});
+
+      expect(service.redactText('tenant123', 'jane@example.com')).toEqual({
+        text: 'jane@example.com',
+        detected: [],
+      });
+    });
+
+    it.each([
+      [
+        'an unknown detector',
+        { detectors: ['ssn'] },
+        'Redaction policy "default" has an unknown detector "ssn"',
+      ],
+      [
+        'detectors that are not a list',
+        { tenantPolicies: { tenant123: { detectors: 'card' } } },
+        'Redaction policy "tenant123" needs a list of detectors',
+      ],
+      [
+        'originals kept without a key',
+        { detectors: [PiiType.CARD], keepOriginal: true },
+        'Keeping original message content requires a redaction encryption key',
+      ],
+      [
+        'a key of the wrong length',
+        { encryptionKey: randomBytes(16).toString('base64') },
+        'The redaction encryption key must be 32 bytes',
+      ],
+    ])(
+      'should refuse to start with %s',
+      async (_description, redaction, message) => {
+        await expect(buildService(redaction)).rejects.toThrow(message);
+      },
+    );
+  });
+
+  describe('redactForStorage', () => {
+    it('should redact the text fields of a structured body', async () => {
+      const service = await buildService({ detectors: allDetectors });
+
+      const result = service.redactForStorage('tenant123', {
+        content: 'Contact',
+        body: {
+          title: 'Contact',
+          fields: [{ label: 'Email', value: 'jane@example.com' }],
+        },
+      });
+
+      expect(result).toEqual({
+        content: 'Contact',
+        body: {
+          title: 'Contact',
+          fields: [{ label: 'Email', value: '[redacted email]' }],
+        },
+        redaction: { detected: [PiiType.EMAIL], original: undefined },
+      });
+    });
+
+    it('should leave attachment references alone', async () => {
+      const service = await buildService({ detectors: allDetectors });
+      const body = { attachmentId: '4111111111111111', name: 'scan.pdf' };
+
+      expect(
+        service.redactForStorage('tenant123', { content: 'scan.pdf', body }),
+      ).toEqual({ content: 'scan.pdf', body });
+    });
+
+    it('should keep the original encrypted if the tenant keeps originals', async () => {
+      const service = await buildService({
+        detectors: allDetectors,
+        keepOriginal: true,
+        encryptionKey,
+      });
+      const message = { content: 'Call +1 555 123 4567', body: undefined };
+
+      const result = service.redactForStorage('tenant123', message);
+
+      expect(result.content).toBe('Call [redacted phone]');
+      expect(result.redaction?.detected).toEqual([PiiType.PHONE]);
+      expect(JSON.stringify(result.redaction)).not.toContain('555');
+      expect(
+        service.decryptOriginal(
+          result.redaction?.original as NonNullable<
+            NonNullable<typeof result.redaction>['original']
+          >,
+        ),
+      ).toEqual({ content: 'Call +1 555 123 4567' });
+    });
+
+    it('should not decrypt an original that was tampered with', async () => {
+      const service = await buildService({
+        detectors: allDetectors,
+        keepOriginal: true,
+        encryptionKey,
+      });
+      const { redaction } = service.redactForStorage('tenant123', {
+        content: 'jane@example.com',
+      });
+      const original = redaction?.original as NonNullable<
+        NonNullable<typeof redaction>['original']
+      >;
+
+      expect(() =>
+        service.decryptOriginal({
+          ...original,
+          data: Buffer.from('tampered').toString('base64'),
+        }),
+      ).toThrow();
+    });
+  });
+});
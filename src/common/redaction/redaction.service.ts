@@ -0,0 +1,273 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { PII_DETECTORS, PiiType, isPiiType } from './pii-detectors';
+import {
+  EncryptedValue,
+  RedactableContent,
+  RedactionPolicy,
+  RedactionRecord,
+} from './redaction.interface';
+
+/**
+ * Fields of structured bodies that hold references rather than text
+ */
+const UNREDACTED_BODY_FIELDS = new Set(['attachmentId']);
+
+/**
+ * Redaction Service
+ *
+ * Replaces personal data in message content with placeholders before it is
+ * stored or indexed, following the policy of the tenant. Tenants without a
+ * policy of their own get the default policy. The configuration is checked
+ * when the service starts, so a misconfigured policy stops the application
+ * instead of letting personal data through.
+ */
+@Injectable()
+export class RedactionService {
+  private static readonly CIPHER = 'aes-256-gcm';
+
+  private readonly logger = new Logger(RedactionService.name);
+
+  private readonly defaultPolicy: RedactionPolicy;
+  private readonly tenantPolicies: Map<string, RedactionPolicy>;
+  private readonly encryptionKey?: Buffer;
+
+  constructor(private readonly configService: ConfigService) {
+    this.defaultPolicy = this.toPolicy('default', {
+      detectors: this.configService.get<PiiType[]>('redaction.detectors', []),
+      keepOriginal: this.configService.get<boolean>(
+        'redaction.keepOriginal',
+        false,
+      ),
+    });
+    this.tenantPolicies = new Map(
+      Object.entries(
+        this.configService.get<Record<string, Partial<RedactionPolicy>>>(
+          'redaction.tenantPolicies',
+          {},
+        ),
+      ).map(([tenantId, policy]) => [
+        tenantId,
+        this.toPolicy(tenantId, {
+          keepOriginal: this.defaultPolicy.keepOriginal,
+          ...policy,
+        }),
+      ]),
+    );
+
+    const key = this.configService.get<string>('redaction.encryptionKey');
+    if (key) {
+      this.encryptionKey = Buffer.from(key, 'base64');
+      if (this.encryptionKey.length !== 32) {
+        throw new Error('The redaction encryption key must be 32 bytes');
+      }
+    } else if (
+      [this.defaultPolicy, ...this.tenantPolicies.values()].some(
+        (policy) => policy.keepOriginal && policy.detectors.length > 0,
+      )
+    ) {
+      throw new Error(
+        'Keeping original message content requires a redaction encryption key',
+      );
+    }
+
+    this.logger.log(
+      `RedactionService initialized with default detectors [${this.defaultPolicy.detectors.join(', ')}] and policies for ${this.tenantPolicies.size} tenants`,
+    );
+  }
+
+  /**
+   * Validates a configured policy
+   *
+   * @private
+   */
+  private toPolicy(
+    name: string,
+    policy: Partial<RedactionPolicy>,
+  ): RedactionPolicy {
+    const detectors = policy.detectors ?? [];
+    if (!Array.isArray(detectors)) {
+      throw new Error(`Redaction policy "${name}" needs a list of detectors`);
+    }
+    const unknown = detectors.find((detector) => !isPiiType(detector));
+    if (unknown !== undefined) {
+      throw new Error(
+        `Redaction policy "${name}" has an unknown detector "${unknown}"`,
+      );
+    }
+    return { detectors, keepOriginal: policy.keepOriginal === true };
+  }
+
+  /**
+   * Get the policy the messages of a tenant are redacted with
+   *
+   * @param tenantId Tenant ID
+   * @returns The tenant's own policy, or the default policy
+   */
+  getPolicy(tenantId: string): RedactionPolicy {
+    return this.tenantPolicies.get(tenantId) ?? this.defaultPolicy;
+  }
+
+  /**
+   * Redact a text
+   *
+   * Redacting a text twice changes nothing, so already redacted content can
+   * safely go through again.
+   *
+   * @param tenantId Tenant ID
+   * @param text The text to redact
+   * @returns The redacted text and the kinds of personal data found in it
+   */
+  redactText(
+    tenantId: string,
+    text: string,
+  ): { text: string; detected: PiiType[] } {
+    const detected: PiiType[] = [];
+    let redacted = text;
+
+    for (const type of Object.values(PiiType)) {
+      if (!this.getPolicy(tenantId).detectors.includes(type)) {
+        continue;
+      }
+      const result = PII_DETECTORS[type].redact(redacted);
+      if (result.found) {
+        detected.push(type);
+        redacted = result.text;
+      }
+    }
+
+    return { text: redacted, detected };
+  }
+
+  /**
+   * Redact the content and structured body of a message
+   *
+   * @param tenantId Tenant ID
+   * @param message The content and body to redact
+   * @returns The redacted content and body, and the kinds of personal data found in either
+   */
+  redact<T>(
+    tenantId: string,
+    message: RedactableContent<T>,
+  ): RedactableContent<T> & { detected: PiiType[] } {
+    const detected = new Set<PiiType>();
+    const redactString = (text: string): string => {
+      const result = this.redactText(tenantId, text);
+      result.detected.forEach((type) => detected.add(type));
+      return result.text;
+    };
+    const redactValue = (value: unknown, field?: string): unknown => {
+      if (typeof value === 'string') {
+        return field && UNREDACTED_BODY_FIELDS.has(field)
+          ? value
+          : redactString(value);
+      }
+      if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item));
+      }
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            redactValue(item, key),
+          ]),
+        );
+      }
+      return value;
+    };
+
+    const content = redactString(message.content);
+    const body =
+      message.body === undefined ? undefined : (redactValue(message.body) as T);
+
+    return {
+      content,
+      body,
+      // In detector order, whichever field they were found in
+      detected: Object.values(PiiType).filter((type) => detected.has(type)),
+    };
+  }
+
+  /**
+   * Redact the content and structured body of a message before it is stored
+   *
+   * If the tenant keeps originals and personal data was found, the content
+   * as sent is returned encrypted alongside.
+   *
+   * @param tenantId Tenant ID
+   * @param message The content and body as sent
+   * @returns The redacted content and body, and what was redacted if anything was
+   */
+  redactForStorage<T>(
+    tenantId: string,
+    message: RedactableContent<T>,
+  ): RedactableContent<T> & { redaction?: RedactionRecord } {
+    const { content, body, detected } = this.redact(tenantId, message);
+    if (detected.length === 0) {
+      return { content, body };
+    }
+
+    return {
+      content,
+      body,
+      redaction: {
+        detected,
+        original: this.getPolicy(tenantId).keepOriginal
+          ? this.encrypt(message)
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * Decrypt the original content of a redacted message
+   *
+   * @param original The encrypted original
+   * @returns The content and body as sent
+   * @throws Error if no encryption key is configured or the original cannot be decrypted with it
+   */
+  decryptOriginal<T>(original: EncryptedValue): RedactableContent<T> {
+    if (!this.encryptionKey) {
+      throw new Error('No redaction encryption key is configured');
+    }
+
+    const decipher = createDecipheriv(
+      RedactionService.CIPHER,
+      this.encryptionKey,
+      Buffer.from(original.iv, 'base64'),
+    );
+    decipher.setAuthTag(Buffer.from(original.tag, 'base64'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(original.data, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+    return JSON.parse(plaintext) as RedactableContent<T>;
+  }
+
+  /**
+   * Encrypt the original content of a message
+   *
+   * @private
+   */
+  private encrypt(message: RedactableContent<unknown>): EncryptedValue {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+      RedactionService.CIPHER,
+      this.encryptionKey as Buffer,
+      iv,
+    );
+    const data = Buffer.concat([
+      cipher.update(
+        JSON.stringify({ content: message.content, body: message.body }),
+        'utf8',
+      ),
+      cipher.final(),
+    ]);
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Formats the version of a resource as a strong ETag
+ *
+ * @param version The version of the resource
+ * @returns The ETag, e.g. `"3"`
+ */
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Reads the version a client expects from an `If-Match` header
+ *
+ * Only a single strong ETag is supported. A weak, malformed or listed ETag
+ * never matches, as required by the strong comparison of `If-Match`.
+ *
+ * @param header The `If-Match` header
+ * @returns The expected version, undefined if the header is absent or `*`, or NaN if it names no version
+ */
+export function parseIfMatch(header?: string): number | undefined {
+  const value = header?.trim();
+  if (!value || value === '*') {
+    return undefined;
+  }
+
+  const match = /^"(\d+)"$/.exec(value);
+  return match ? parseInt(match[1], 10) : NaN;
+}
+
+/**
+ * Checks whether an `If-None-Match` header names the current ETag
+ *
+ * Uses the weak comparison of `If-None-Match`, so `W/"3"` matches `"3"`.
+ *
+ * @param header The `If-None-Match` header
+ * @param etag The current ETag of the resource
+ */
+export function matchesIfNoneMatch(
+  header: string | undefined,
+  etag: string,
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
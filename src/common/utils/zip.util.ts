@@ -0,0 +1,203 @@
+import { inflateRawSync } from 'zlib';
+import { InvalidArchiveError } from '../errors/invalid-archive.error';
+
+// Signatures of the ZIP records that are read
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Compression methods that can be read
+const STORED = 0;
+const DEFLATED = 8;
+
+// Marks sizes and offsets stored in ZIP64 extra fields instead
+const ZIP64_MARKER = 0xffffffff;
+
+/**
+ * A file of a ZIP archive, as listed in its central directory
+ */
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Maximum uncompressed sizes of the files of an archive
+ */
+export interface ZipLimits {
+  /** Maximum size of a single file, in bytes */
+  maxEntryBytes: number;
+  /** Maximum size of all files together, in bytes */
+  maxTotalBytes: number;
+}
+
+/**
+ * Read-only view of a ZIP archive held in memory
+ *
+ * Reads the central directory when opened and inflates files on demand, so
+ * only the files that are read take up extra memory. Supports stored and
+ * deflated files; encrypted and ZIP64 archives are rejected, as are archives
+ * whose files declare more than the limits allow.
+ */
+export class ZipArchive {
+  private constructor(
+    private readonly buffer: Buffer,
+    private readonly entries: Map<string, ZipEntry>,
+  ) {}
+
+  /**
+   * Opens an archive
+   *
+   * @param buffer Content of the archive
+   * @param limits Maximum uncompressed sizes of the files
+   * @throws InvalidArchiveError if the content is not a supported ZIP archive or exceeds the limits
+   */
+  static open(buffer: Buffer, limits: ZipLimits): ZipArchive {
+    const end = ZipArchive.findEndOfCentralDirectory(buffer);
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    const entries = new Map<string, ZipEntry>();
+    let totalSize = 0;
+    for (let index = 0; index < count; index++) {
+      if (
+        offset + 46 > buffer.length ||
+        buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+      ) {
+        throw new InvalidArchiveError('Corrupt ZIP central directory');
+      }
+
+      const flags = buffer.readUInt16LE(offset + 8);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const name = buffer.toString(
+        'utf8',
+        offset + 46,
+        offset + 46 + nameLength,
+      );
+      const entry: ZipEntry = {
+        method: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        size: buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      };
+
+      if (flags & 0x1) {
+        throw new InvalidArchiveError(
+          'Encrypted ZIP archives are not supported',
+        );
+      }
+      if (
+        [entry.compressedSize, entry.size, entry.localHeaderOffset].includes(
+          ZIP64_MARKER,
+        )
+      ) {
+        throw new InvalidArchiveError('ZIP64 archives are not supported');
+      }
+      if (entry.size > limits.maxEntryBytes) {
+        throw new InvalidArchiveError(
+          `ZIP entry "${name}" exceeds ${limits.maxEntryBytes} bytes uncompressed`,
+        );
+      }
+      totalSize += entry.size;
+      if (totalSize > limits.maxTotalBytes) {
+        throw new InvalidArchiveError(
+          `ZIP archive exceeds ${limits.maxTotalBytes} bytes uncompressed`,
+        );
+      }
+
+      // Directories are implied by the names of their files
+      if (!name.endsWith('/')) {
+        entries.set(name, entry);
+      }
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipArchive(buffer, entries);
+  }
+
+  /**
+   * Finds the end of central directory record, which may be followed by a
+   * comment of up to 64 KiB
+   *
+   * @private
+   */
+  private static findEndOfCentralDirectory(buffer: Buffer): number {
+    const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+    for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+      if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new InvalidArchiveError('Not a ZIP archive');
+  }
+
+  /**
+   * Names of the files in the archive, with their directories
+   */
+  names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Reads a file of the archive
+   *
+   * @param name Name of the file, with its directories
+   * @returns The uncompressed content, or undefined if there is no such file
+   * @throws InvalidArchiveError if the file is corrupt or compressed with an unsupported method
+   */
+  read(name: string): Buffer | undefined {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      return undefined;
+    }
+
+    const header = entry.localHeaderOffset;
+    if (
+      header + 30 > this.buffer.length ||
+      this.buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER
+    ) {
+      throw new InvalidArchiveError(`Corrupt ZIP entry "${name}"`);
+    }
+
+    const start =
+      header +
+      30 +
+      this.buffer.readUInt16LE(header + 26) +
+      this.buffer.readUInt16LE(header + 28);
+    const data = this.buffer.subarray(start, start + entry.compressedSize);
+    if (data.length !== entry.compressedSize) {
+      throw new InvalidArchiveError(`Corrupt ZIP entry "${name}"`);
+    }
+
+    let content: Buffer;
+    switch (entry.method) {
+      case STORED:
+        content = data;
+        break;
+
+      case DEFLATED:
+        try {
+          // Inflating stops at the declared size, which was checked against
+          // the limits when the archive was opened
+          content = inflateRawSync(data, { maxOutputLength: entry.size || 1 });
+        } catch {
+          throw new InvalidArchiveError(`Corrupt ZIP entry "${name}"`);
+        }
+        break;
+
+      default:
+        throw new InvalidArchiveError(
+          `ZIP entry "${name}" uses unsupported compression method ${entry.method}`,
+        );
+    }
+
+    if (content.length !== entry.size) {
+      throw new InvalidArchiveError(`Corrupt ZIP entry "${name}"`);
+    }
+    return content;
+  }
+}
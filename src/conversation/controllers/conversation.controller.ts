@@ -0,0 +1,312 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Patch,
+  Delete,
+  Query,
+  ValidationPipe,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { ConversationApplicationService } from '../services/conversation-application.service';
+import { CreateConversationDto } from '../dto/create-conversation.dto';
+import { UpdateConversationDto } from '../dto/update-conversation.dto';
+import { ConversationQueryDto } from '../dto/conversation-query.dto';
+import { ConversationResponseDto } from '../dto/conversation-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+
+/**
+ * Conversation Controller
+ *
+ * Implements API endpoints for conversation management.
+ * Provides functionality for creating, reading, updating and deleting conversations.
+ */
+@ApiTags('Conversations')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class ConversationController {
+  private readonly logger = new Logger(ConversationController.name);
+
+  constructor(
+    private readonly conversationApplicationService: ConversationApplicationService,
+  ) {
+    this.logger.log('ConversationController initialized');
+  }
+
+  /**
+   * Create a new conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('conversations')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a new conversation',
+    description:
+      'Creates a new conversation with a title, type and participants. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The conversation has been successfully created.',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async createConversation(
+    @Body() createConversationDto: CreateConversationDto,
+  ): Promise<ConversationResponseDto> {
+    this.logger.debug(
+      `Creating conversation: ${JSON.stringify(createConversationDto)}`,
+    );
+
+    const conversation =
+      await this.conversationApplicationService.createConversation(
+        createConversationDto,
+      );
+
+    this.logger.log(`Conversation created with ID: ${conversation.id}`);
+    return ConversationResponseDto.fromEntity(conversation);
+  }
+
+  /**
+   * List conversations
+   *
+   * Retrieves the conversations of the tenant, most recently active first.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('conversations')
+  @ApiOperation({
+    summary: 'List conversations',
+    description:
+      'Retrieves conversations with pagination, most recently active first. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Conversations retrieved successfully.',
+    type: PaginatedResponseDto<ConversationResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async listConversations(
+    @Query(new ValidationPipe({ transform: true }))
+    queryDto: ConversationQueryDto,
+  ): Promise<PaginatedResponseDto<ConversationResponseDto>> {
+    const { page = 1, limit = 10, participantId } = queryDto;
+
+    const result = await this.conversationApplicationService.listConversations({
+      page,
+      limit,
+      participantId,
+    });
+
+    return {
+      data: result.conversations.map((conversation) =>
+        ConversationResponseDto.fromEntity(conversation),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a specific conversation by ID
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('conversations/:conversationId')
+  @ApiOperation({
+    summary: 'Get a conversation by ID',
+    description:
+      'Retrieves a specific conversation by its ID. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Conversation retrieved successfully.',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getConversationById(
+    @Param('conversationId') conversationId: string,
+  ): Promise<ConversationResponseDto> {
+    const conversation =
+      await this.conversationApplicationService.getConversationById(
+        conversationId,
+      );
+
+    if (!conversation) {
+      this.logger.warn(`Conversation with ID: ${conversationId} not found`);
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+
+    return ConversationResponseDto.fromEntity(conversation);
+  }
+
+  /**
+   * Update a conversation
+   *
+   * Updates the title, participants, status or metadata of a conversation.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Patch('conversations/:conversationId')
+  @ApiOperation({
+    summary: 'Update a conversation',
+    description:
+      'Updates the title, participants, status or metadata of a conversation. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation to update',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The conversation has been successfully updated.',
+    type: ConversationResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async updateConversation(
+    @Param('conversationId') conversationId: string,
+    @Body() updateConversationDto: UpdateConversationDto,
+  ): Promise<ConversationResponseDto> {
+    const conversation =
+      await this.conversationApplicationService.updateConversation(
+        conversationId,
+        updateConversationDto,
+      );
+
+    if (!conversation) {
+      this.logger.warn(`Conversation with ID: ${conversationId} not found`);
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+
+    this.logger.log(`Updated conversation with ID: ${conversationId}`);
+    return ConversationResponseDto.fromEntity(conversation);
+  }
+
+  /**
+   * Delete a conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Delete('conversations/:conversationId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a conversation',
+    description:
+      'Deletes a conversation by its ID. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation to delete',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The conversation has been successfully deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async deleteConversation(
+    @Param('conversationId') conversationId: string,
+  ): Promise<void> {
+    const result =
+      await this.conversationApplicationService.deleteConversation(
+        conversationId,
+      );
+
+    if (!result) {
+      this.logger.warn(`Conversation with ID: ${conversationId} not found`);
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+
+    this.logger.log(`Deleted conversation with ID: ${conversationId}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CacheModule } from '@nestjs/cache-manager';
+import { redisStore } from 'cache-manager-redis-store';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConversationModel,
+  ConversationSchema,
+} from './schemas/conversation.schema';
+import { ConversationRepository } from './repositories/mongodb-conversation.repository';
+import { ConversationController } from './controllers/conversation.controller';
+import { ConversationApplicationService } from './services/conversation-application.service';
+
+/**
+ * Conversation module
+ *
+ * Owns the Conversation aggregate. Exports the application service so the
+ * message module can verify a conversation before accepting messages for it.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ConversationModel.name, schema: ConversationSchema },
+    ]),
+    CacheModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const redisConfig = configService.get('redis');
+        return {
+          store: redisStore,
+          host: redisConfig.host,
+          port: redisConfig.port,
+          password: redisConfig.password || undefined,
+          ttl: redisConfig.ttl,
+        };
+      },
+    }),
+  ],
+  controllers: [ConversationController],
+  providers: [ConversationApplicationService, ConversationRepository],
+  exports: [ConversationApplicationService],
+})
+export class ConversationModule {}
@@ -0,0 +1,55 @@
+import { IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+/**
+ * DTO for listing conversations with pagination
+ */
+export class ConversationQueryDto {
+  /**
+   * Page number for pagination (1-based indexing).
+   *
+   * @default 1
+   * @minimum 1
+   */
+  @ApiProperty({
+    description: 'Page number for pagination (1-based indexing)',
+    default: 1,
+    required: false,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page: number = 1;
+
+  /**
+   * Number of items per page.
+   *
+   * @default 10
+   * @minimum 1
+   */
+  @ApiProperty({
+    description: 'Number of items to retrieve per page',
+    default: 10,
+    required: false,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  limit: number = 10;
+
+  /**
+   * Only return conversations this user takes part in.
+   */
+  @ApiProperty({
+    description: 'Only return conversations this user takes part in',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  participantId?: string;
+}
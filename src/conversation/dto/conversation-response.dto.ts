@@ -0,0 +1,81 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  Conversation,
+  ConversationStatus,
+  ConversationType,
+} from '../entities/conversation.entity';
+
+/**
+ * Data Transfer Object for conversation responses
+ */
+export class ConversationResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the conversation',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The title of the conversation',
+    example: 'Project kickoff',
+  })
+  title: string;
+
+  @ApiProperty({
+    description: 'The kind of conversation',
+    enum: ConversationType,
+    example: ConversationType.GROUP,
+  })
+  type: ConversationType;
+
+  @ApiProperty({
+    description: 'IDs of the users taking part in the conversation',
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  participants: string[];
+
+  @ApiProperty({
+    description: 'Lifecycle status of the conversation',
+    enum: ConversationStatus,
+    example: ConversationStatus.ACTIVE,
+  })
+  status: ConversationStatus;
+
+  @ApiProperty({
+    description: 'The timestamp when the conversation was created',
+    example: '2023-08-15T10:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'The timestamp of the latest message in the conversation',
+    example: '2023-08-15T10:30:00Z',
+    required: false,
+  })
+  lastMessageAt?: Date;
+
+  @ApiProperty({
+    description: 'Additional metadata for the conversation',
+    example: { team: 'platform' },
+    required: false,
+  })
+  metadata?: Record<string, any>;
+
+  /**
+   * Creates a ConversationResponseDto from a Conversation entity
+   */
+  static fromEntity(conversation: Conversation): ConversationResponseDto {
+    const dto = new ConversationResponseDto();
+    dto.id = conversation.id;
+    dto.title = conversation.title;
+    dto.type = conversation.type;
+    dto.participants = conversation.participants;
+    dto.status = conversation.status;
+    dto.createdAt = conversation.createdAt;
+    dto.lastMessageAt = conversation.lastMessageAt;
+    dto.metadata = conversation.metadata;
+
+    return dto;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { ConversationType } from '../entities/conversation.entity';
+
+/**
+ * Data Transfer Object for creating a conversation
+ */
+export class CreateConversationDto {
+  @ApiProperty({
+    description: 'The title of the conversation',
+    example: 'Project kickoff',
+  })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiProperty({
+    description: 'The kind of conversation',
+    enum: ConversationType,
+    example: ConversationType.GROUP,
+  })
+  @IsEnum(ConversationType)
+  type: ConversationType;
+
+  @ApiProperty({
+    description: 'IDs of the users taking part in the conversation',
+    example: [
+      '123e4567-e89b-12d3-a456-426614174001',
+      '123e4567-e89b-12d3-a456-426614174002',
+    ],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  participants: string[];
+
+  @ApiProperty({
+    description: 'Additional metadata for the conversation',
+    example: { team: 'platform' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
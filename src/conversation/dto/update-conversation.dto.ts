@@ -0,0 +1,57 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ConversationStatus } from '../entities/conversation.entity';
+
+/**
+ * Data Transfer Object for updating a conversation
+ */
+export class UpdateConversationDto {
+  @ApiProperty({
+    description: 'The title of the conversation',
+    example: 'Project retrospective',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  title?: string;
+
+  @ApiProperty({
+    description: 'IDs of the users taking part in the conversation',
+    example: ['123e4567-e89b-12d3-a456-426614174001'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  participants?: string[];
+
+  @ApiProperty({
+    description: 'Lifecycle status; closed conversations reject new messages',
+    enum: ConversationStatus,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ConversationStatus)
+  status?: ConversationStatus;
+
+  @ApiProperty({
+    description: 'Additional metadata for the conversation',
+    example: { team: 'platform' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
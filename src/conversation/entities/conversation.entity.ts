@@ -0,0 +1,169 @@
+/**
+ * Kinds of conversations supported by the system
+ */
+export enum ConversationType {
+  DIRECT = 'direct',
+  GROUP = 'group',
+  CHANNEL = 'channel',
+}
+
+/**
+ * Lifecycle status of a conversation
+ */
+export enum ConversationStatus {
+  ACTIVE = 'active',
+  CLOSED = 'closed',
+}
+
+/**
+ * Conversation entity
+ *
+ * Represents a conversation that messages belong to
+ */
+export class Conversation {
+  id: string;
+  tenantId: string;
+  title: string;
+  type: ConversationType;
+  participants: string[];
+  status: ConversationStatus;
+  createdAt: Date;
+  lastMessageAt?: Date;
+  metadata?: Record<string, any>;
+
+  private constructor(props: {
+    id: string;
+    tenantId: string;
+    title: string;
+    type: ConversationType;
+    participants: string[];
+    status: ConversationStatus;
+    createdAt: Date;
+    lastMessageAt?: Date;
+    metadata?: Record<string, any>;
+  }) {
+    this.id = props.id;
+    this.tenantId = props.tenantId;
+    this.title = props.title;
+    this.type = props.type;
+    this.participants = props.participants;
+    this.status = props.status;
+    this.createdAt = props.createdAt;
+    this.lastMessageAt = props.lastMessageAt;
+    this.metadata = props.metadata;
+  }
+
+  /**
+   * Creates a new, active Conversation instance
+   */
+  static create(props: {
+    id: string;
+    tenantId: string;
+    title: string;
+    type: ConversationType;
+    participants: string[];
+    metadata?: Record<string, any>;
+  }): Conversation {
+    return new Conversation({
+      ...props,
+      participants: Array.from(new Set(props.participants)),
+      status: ConversationStatus.ACTIVE,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Updates the title of the conversation
+   */
+  updateTitle(title: string): void {
+    this.title = title;
+  }
+
+  /**
+   * Replaces the participant list, dropping duplicates
+   */
+  updateParticipants(participants: string[]): void {
+    this.participants = Array.from(new Set(participants));
+  }
+
+  /**
+   * Updates the metadata of the conversation
+   */
+  updateMetadata(metadata: Record<string, any>): void {
+    this.metadata = {
+      ...this.metadata,
+      ...metadata,
+    };
+  }
+
+  /**
+   * Closes the conversation so that it no longer accepts messages
+   */
+  close(): void {
+    this.status = ConversationStatus.CLOSED;
+  }
+
+  /**
+   * Reopens a closed conversation
+   */
+  reopen(): void {
+    this.status = ConversationStatus.ACTIVE;
+  }
+
+  /**
+   * Whether the conversation has been closed
+   */
+  isClosed(): boolean {
+    return this.status === ConversationStatus.CLOSED;
+  }
+
+  /**
+   * Whether the given user takes part in the conversation
+   */
+  hasParticipant(userId: string): boolean {
+    return this.participants.includes(userId);
+  }
+
+  /**
+   * Records the time of the latest message in the conversation
+   */
+  recordMessageAt(timestamp: Date): void {
+    if (!this.lastMessageAt || timestamp > this.lastMessageAt) {
+      this.lastMessageAt = timestamp;
+    }
+  }
+
+  /**
+   * Creates a Conversation instance from database record
+   */
+  static fromDatabase(data: any): Conversation {
+    return new Conversation({
+      id: data.id,
+      tenantId: data.tenantId,
+      title: data.title,
+      type: data.type,
+      participants: data.participants || [],
+      status: data.status,
+      createdAt: data.createdAt,
+      lastMessageAt: data.lastMessageAt,
+      metadata: data.metadata,
+    });
+  }
+
+  /**
+   * Converts the Conversation to a database record
+   */
+  toDatabase(): any {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      title: this.title,
+      type: this.type,
+      participants: this.participants,
+      status: this.status,
+      createdAt: this.createdAt,
+      lastMessageAt: this.lastMessageAt,
+      metadata: this.metadata,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { Conversation } from '../entities/conversation.entity';
+
+/**
+ * Conversation Repository Interface
+ *
+ * Defines the contract for conversation repositories, allowing for different
+ * storage implementations while keeping behavior consistent.
+ */
+export interface IConversationRepository {
+  /**
+   * Save a new conversation
+   *
+   * @param conversation The conversation entity to save
+   * @returns Promise resolving to the saved conversation entity
+   */
+  save(conversation: Conversation): Promise<Conversation>;
+
+  /**
+   * Find a conversation by its ID and tenant
+   *
+   * @param id The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the conversation entity or null if not found
+   */
+  findById(id: string, tenantId: string): Promise<Conversation | null>;
+
+  /**
+   * Find conversations of a tenant with pagination
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options and optional participant filter
+   * @returns Promise resolving to paginated conversation results
+   */
+  findByTenant(
+    tenantId: string,
+    options: { page: number; limit: number; participantId?: string },
+  ): Promise<{ conversations: Conversation[]; total: number }>;
+
+  /**
+   * Update an existing conversation
+   *
+   * @param conversation The conversation entity with updated values
+   * @returns Promise resolving to the updated conversation entity
+   */
+  update(conversation: Conversation): Promise<Conversation>;
+
+  /**
+   * Advance the last message timestamp of a conversation
+   *
+   * @param id The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param timestamp Timestamp of the newest message
+   * @returns Promise resolving when the conversation is updated
+   */
+  updateLastMessageAt(
+    id: string,
+    tenantId: string,
+    timestamp: Date,
+  ): Promise<void>;
+
+  /**
+   * Delete a conversation by its ID and tenant
+   *
+   * @param id The unique identifier of the conversation to delete
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving when the conversation is deleted
+   */
+  delete(id: string, tenantId: string): Promise<void>;
+}
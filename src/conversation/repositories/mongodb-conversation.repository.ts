@@ -0,0 +1,237 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Conversation } from '../entities/conversation.entity';
+import { IConversationRepository } from './conversation.repository.interface';
+import {
+  ConversationModel,
+  ConversationDocument,
+} from '../schemas/conversation.schema';
+
+/**
+ * MongoDB implementation of the Conversation Repository
+ *
+ * Handles persistence operations for conversations in MongoDB,
+ * implementing the IConversationRepository interface for domain consistency.
+ */
+@Injectable()
+export class ConversationRepository implements IConversationRepository {
+  private readonly logger = new Logger(ConversationRepository.name);
+
+  constructor(
+    @InjectModel(ConversationModel.name)
+    private conversationModel: Model<ConversationDocument>,
+  ) {
+    this.logger.log('ConversationRepository initialized');
+  }
+
+  /**
+   * Save a new conversation to the database
+   *
+   * @param conversation The conversation entity to save
+   * @returns Promise resolving to the saved conversation entity
+   */
+  async save(conversation: Conversation): Promise<Conversation> {
+    this.logger.debug(`Saving conversation with ID: ${conversation.id}`);
+    try {
+      const conversationDocument = new this.conversationModel(
+        conversation.toDatabase(),
+      );
+      await conversationDocument.save();
+      this.logger.debug(`Conversation saved successfully: ${conversation.id}`);
+      return conversation;
+    } catch (error) {
+      this.logger.error(
+        `Failed to save conversation: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a conversation by its ID and tenant
+   *
+   * @param id The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the conversation entity or null if not found
+   */
+  async findById(id: string, tenantId: string): Promise<Conversation | null> {
+    this.logger.debug(
+      `Finding conversation with ID: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const conversationDocument = await this.conversationModel
+        .findOne({
+          id,
+          tenantId,
+        })
+        .exec();
+
+      if (!conversationDocument) {
+        this.logger.debug(`Conversation not found: ${id}`);
+        return null;
+      }
+
+      return Conversation.fromDatabase(conversationDocument.toObject());
+    } catch (error) {
+      this.logger.error(
+        `Error finding conversation: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find conversations of a tenant with pagination
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options and optional participant filter
+   * @returns Promise resolving to paginated conversation results
+   */
+  async findByTenant(
+    tenantId: string,
+    options: { page: number; limit: number; participantId?: string },
+  ): Promise<{ conversations: Conversation[]; total: number }> {
+    this.logger.debug(
+      `Finding conversations for tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    try {
+      const page = Math.max(1, options.page);
+      const limit = Math.max(1, options.limit);
+      const skip = (page - 1) * limit;
+
+      const filter: Record<string, any> = { tenantId };
+      if (options.participantId) {
+        filter.participants = options.participantId;
+      }
+
+      // Most recently active conversations first
+      const conversationDocuments = await this.conversationModel
+        .find(filter)
+        .sort({ lastMessageAt: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .exec();
+
+      const total = await this.conversationModel.countDocuments(filter).exec();
+
+      const conversations = conversationDocuments.map((doc) =>
+        Conversation.fromDatabase(doc.toObject()),
+      );
+
+      this.logger.debug(
+        `Found ${conversations.length} conversations out of ${total} total`,
+      );
+
+      return { conversations, total };
+    } catch (error) {
+      this.logger.error(
+        `Error finding conversations: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing conversation
+   *
+   * @param conversation The conversation entity with updated values
+   * @returns Promise resolving to the updated conversation entity
+   */
+  async update(conversation: Conversation): Promise<Conversation> {
+    this.logger.debug(`Updating conversation with ID: ${conversation.id}`);
+    try {
+      const result = await this.conversationModel.updateOne(
+        {
+          id: conversation.id,
+          tenantId: conversation.tenantId,
+        },
+        conversation.toDatabase(),
+      );
+
+      if (result.matchedCount === 0) {
+        this.logger.warn(
+          `No conversation found to update with ID: ${conversation.id}`,
+        );
+      } else {
+        this.logger.debug(
+          `Conversation updated successfully: ${conversation.id}`,
+        );
+      }
+
+      return conversation;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update conversation: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Advance the last message timestamp of a conversation
+   *
+   * Only moves the timestamp forward so that out-of-order writes cannot
+   * rewind it.
+   *
+   * @param id The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param timestamp Timestamp of the newest message
+   */
+  async updateLastMessageAt(
+    id: string,
+    tenantId: string,
+    timestamp: Date,
+  ): Promise<void> {
+    this.logger.debug(
+      `Updating lastMessageAt of conversation: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      await this.conversationModel.updateOne(
+        { id, tenantId },
+        { $max: { lastMessageAt: timestamp } },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to update lastMessageAt: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a conversation by its ID and tenant
+   *
+   * @param id The unique identifier of the conversation to delete
+   * @param tenantId The tenant identifier for multi-tenancy
+   */
+  async delete(id: string, tenantId: string): Promise<void> {
+    this.logger.debug(
+      `Deleting conversation with ID: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const result = await this.conversationModel.deleteOne({
+        id,
+        tenantId,
+      });
+
+      if (result.deletedCount === 0) {
+        this.logger.warn(`No conversation found to delete with ID: ${id}`);
+      } else {
+        this.logger.debug(`Conversation deleted successfully: ${id}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete conversation: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
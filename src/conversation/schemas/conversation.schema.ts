@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  ConversationStatus,
+  ConversationType,
+} from '../entities/conversation.entity';
+
+/**
+ * Type definition for ConversationDocument combining ConversationModel with Mongoose Document
+ */
+export type ConversationDocument = ConversationModel & Document;
+
+/**
+ * Mongoose schema for conversation data
+ *
+ * Represents a conversation that groups messages in a multi-tenant system
+ */
+@Schema({
+  timestamps: true,
+  collection: 'conversations',
+})
+export class ConversationModel {
+  /**
+   * Unique identifier for the conversation
+   * @example "conv_987654321"
+   */
+  @Prop({ required: true, index: true })
+  id: string;
+
+  /**
+   * Identifier of the tenant this conversation belongs to
+   * @example "tenant_54321"
+   */
+  @Prop({ required: true, index: true })
+  tenantId: string;
+
+  /**
+   * Human readable title of the conversation
+   */
+  @Prop({ required: true })
+  title: string;
+
+  /**
+   * Kind of conversation (direct, group, channel)
+   */
+  @Prop({ required: true, enum: Object.values(ConversationType) })
+  type: ConversationType;
+
+  /**
+   * Identifiers of the users taking part in the conversation
+   */
+  @Prop({ type: [String], default: [] })
+  participants: string[];
+
+  /**
+   * Lifecycle status of the conversation
+   */
+  @Prop({
+    required: true,
+    enum: Object.values(ConversationStatus),
+    default: ConversationStatus.ACTIVE,
+  })
+  status: ConversationStatus;
+
+  /**
+   * Timestamp when the conversation was created
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+
+  /**
+   * Timestamp of the latest message posted in the conversation
+   */
+  @Prop()
+  lastMessageAt?: Date;
+
+  /**
+   * Optional metadata associated with the conversation
+   */
+  @Prop({ type: Object })
+  metadata?: Record<string, any>;
+}
+
+// Create the schema from the class
+export const ConversationSchema =
+  SchemaFactory.createForClass(ConversationModel);
+
+// Create compound indexes for efficient queries
+ConversationSchema.index({ tenantId: 1, id: 1 }, { unique: true });
+ConversationSchema.index({ tenantId: 1, participants: 1, lastMessageAt: -1 });
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConversationApplicationService } from './conversation-application.service';
+import { ConversationRepository } from '../repositories/mongodb-conversation.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import {
+  Conversation,
+  ConversationStatus,
+  ConversationType,
+} from '../entities/conversation.entity';
+
+jest.mock('../repositories/mongodb-conversation.repository');
+jest.mock('../../common/contexts/tenant.context');
+
+describe('ConversationApplicationService', () => {
+  let service: ConversationApplicationService;
+  let conversationRepository: jest.Mocked<ConversationRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  const mockCacheManager = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const buildConversation = () =>
+    Conversation.create({
+      id: 'conv1',
+      tenantId: 'tenant123',
+      title: 'General',
+      type: ConversationType.GROUP,
+      participants: ['user1', 'user2', 'user1'],
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationApplicationService,
+        ConversationRepository,
+        TenantContext,
+        {
+          provide: CACHE_MANAGER,
+          useValue: mockCacheManager,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ConversationApplicationService>(
+      ConversationApplicationService,
+    );
+    conversationRepository = module.get(ConversationRepository);
+    tenantContext = module.get(TenantContext);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createConversation', () => {
+    it('should create an active conversation with unique participants', async () => {
+      conversationRepository.save.mockImplementation((c) => Promise.resolve(c));
+
+      const result = await service.createConversation({
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1', 'user2', 'user1'],
+      });
+
+      expect(conversationRepository.save).toHaveBeenCalled();
+      expect(result.tenantId).toBe('tenant123');
+      expect(result.status).toBe(ConversationStatus.ACTIVE);
+      expect(result.participants).toEqual(['user1', 'user2']);
+      expect(result.createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('getConversationById', () => {
+    it('should return a conversation from the repository and cache it', async () => {
+      const conversation = buildConversation();
+      mockCacheManager.get.mockResolvedValue(null);
+      conversationRepository.findById.mockResolvedValue(conversation);
+
+      const result = await service.getConversationById('conv1');
+
+      expect(conversationRepository.findById).toHaveBeenCalledWith(
+        'conv1',
+        'tenant123',
+      );
+      expect(mockCacheManager.set).toHaveBeenCalled();
+      expect(result).toEqual(conversation);
+    });
+
+    it('should rehydrate a cached conversation into an entity', async () => {
+      mockCacheManager.get.mockResolvedValue(buildConversation().toDatabase());
+
+      const result = await service.getConversationById('conv1');
+
+      expect(conversationRepository.findById).not.toHaveBeenCalled();
+      expect(result).toBeInstanceOf(Conversation);
+      expect(result?.isClosed()).toBe(false);
+    });
+
+    it('should restore the dates of a conversation cached as JSON', async () => {
+      const conversation = buildConversation();
+      conversation.recordMessageAt(new Date('2024-01-31T10:00:00Z'));
+      mockCacheManager.get.mockResolvedValue(
+        JSON.parse(JSON.stringify(conversation.toDatabase())),
+      );
+
+      const result = await service.getConversationById('conv1');
+
+      expect(result?.createdAt).toEqual(conversation.createdAt);
+      expect(result?.lastMessageAt).toEqual(new Date('2024-01-31T10:00:00Z'));
+    });
+
+    it('should return null if conversation not found', async () => {
+      mockCacheManager.get.mockResolvedValue(null);
+      conversationRepository.findById.mockResolvedValue(null);
+
+      const result = await service.getConversationById('missing');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('updateConversation', () => {
+    it('should update fields, close the conversation and invalidate cache', async () => {
+      const conversation = buildConversation();
+      conversationRepository.findById.mockResolvedValue(conversation);
+      conversationRepository.update.mockImplementation((c) =>
+        Promise.resolve(c),
+      );
+
+      const result = await service.updateConversation('conv1', {
+        title: 'Renamed',
+        status: ConversationStatus.CLOSED,
+      });
+
+      expect(result?.title).toBe('Renamed');
+      expect(result?.isClosed()).toBe(true);
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'conversation:tenant123:conv1',
+      );
+    });
+
+    it('should return null if conversation does not exist', async () => {
+      conversationRepository.findById.mockResolvedValue(null);
+
+      const result = await service.updateConversation('missing', {
+        title: 'Renamed',
+      });
+
+      expect(result).toBeNull();
+      expect(conversationRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteConversation', () => {
+    it('should delete an existing conversation', async () => {
+      conversationRepository.findById.mockResolvedValue(buildConversation());
+
+      const result = await service.deleteConversation('conv1');
+
+      expect(conversationRepository.delete).toHaveBeenCalledWith(
+        'conv1',
+        'tenant123',
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should return false if conversation not found', async () => {
+      conversationRepository.findById.mockResolvedValue(null);
+
+      const result = await service.deleteConversation('missing');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('recordMessageActivity', () => {
+    it('should advance lastMessageAt and invalidate the cache', async () => {
+      const timestamp = new Date();
+
+      await service.recordMessageActivity('conv1', timestamp);
+
+      expect(conversationRepository.updateLastMessageAt).toHaveBeenCalledWith(
+        'conv1',
+        'tenant123',
+        timestamp,
+      );
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'conversation:tenant123:conv1',
+      );
+    });
+  });
+});
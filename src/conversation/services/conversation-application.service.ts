@@ -0,0 +1,327 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Inject } from '@nestjs/common';
+import { Cache } from 'cache-manager';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import {
+  Conversation,
+  ConversationStatus,
+  ConversationType,
+} from '../entities/conversation.entity';
+import { ConversationRepository } from '../repositories/mongodb-conversation.repository';
+import { CreateConversationDto } from '../dto/create-conversation.dto';
+import { UpdateConversationDto } from '../dto/update-conversation.dto';
+
+/**
+ * A conversation as cached; dates come back as ISO strings from the Redis
+ * store
+ */
+interface CachedConversation {
+  id: string;
+  tenantId: string;
+  title: string;
+  type: ConversationType;
+  participants: string[];
+  status: ConversationStatus;
+  createdAt: Date | string;
+  lastMessageAt?: Date | string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Conversation Application Service
+ *
+ * Handles business logic for conversation operations including creating,
+ * reading, updating and deleting conversations while enforcing tenant
+ * separation. Implements caching for single conversation lookups, which are
+ * performed on every message write.
+ */
+@Injectable()
+export class ConversationApplicationService {
+  private readonly logger = new Logger(ConversationApplicationService.name);
+
+  // Cache key prefix for single conversations
+  private readonly CONVERSATION_CACHE_KEY_PREFIX = 'conversation:';
+
+  // Cache TTL in seconds (override default from module when needed)
+  private readonly CONVERSATION_CACHE_TTL = 3600; // 1 hour
+
+  constructor(
+    private readonly conversationRepository: ConversationRepository,
+    private readonly tenantContext: TenantContext,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+  ) {
+    this.logger.log(
+      'ConversationApplicationService initialized with cache manager',
+    );
+  }
+
+  /**
+   * Generate a cache key for a single conversation
+   *
+   * @param id Conversation ID
+   * @param tenantId Tenant ID
+   * @returns Formatted cache key
+   */
+  private getConversationCacheKey(id: string, tenantId: string): string {
+    return `${this.CONVERSATION_CACHE_KEY_PREFIX}${tenantId}:${id}`;
+  }
+
+  /**
+   * Invalidate the cache entry of a conversation
+   *
+   * @param id Conversation ID
+   * @param tenantId Tenant ID
+   */
+  private async invalidateConversationCache(
+    id: string,
+    tenantId: string,
+  ): Promise<void> {
+    try {
+      const cacheKey = this.getConversationCacheKey(id, tenantId);
+      await this.cacheManager.del(cacheKey);
+      this.logger.debug(`Invalidated cache for conversation: ${cacheKey}`);
+    } catch (error) {
+      this.logger.warn(
+        `Cache invalidation error: ${error.message}`,
+        error.stack,
+      );
+      // Continue execution even if cache operations fail
+    }
+  }
+
+  /**
+   * Create a new conversation
+   *
+   * @param createConversationDto DTO containing conversation creation data
+   * @param id ID of the conversation, generated if not given
+   * @returns Promise resolving to the created Conversation entity
+   */
+  async createConversation(
+    createConversationDto: CreateConversationDto,
+    id: string = uuidv4(),
+  ): Promise<Conversation> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Creating conversation for tenant: ${tenantId}`);
+
+    const conversation = Conversation.create({
+      id,
+      tenantId,
+      title: createConversationDto.title,
+      type: createConversationDto.type,
+      participants: createConversationDto.participants,
+      metadata: createConversationDto.metadata,
+    });
+
+    const savedConversation =
+      await this.conversationRepository.save(conversation);
+
+    this.logger.log(`Created conversation with ID: ${savedConversation.id}`);
+    return savedConversation;
+  }
+
+  /**
+   * Get a conversation by its ID
+   *
+   * @param id The unique identifier of the conversation
+   * @returns Promise resolving to the Conversation entity or null if not found
+   */
+  async getConversationById(id: string): Promise<Conversation | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Retrieving conversation ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const cacheKey = this.getConversationCacheKey(id, tenantId);
+
+    try {
+      const cachedConversation =
+        await this.cacheManager.get<CachedConversation>(cacheKey);
+
+      if (cachedConversation) {
+        this.logger.debug(`Cache hit for conversation ID: ${id}`);
+        // Cached values are plain objects, restore the entity behavior
+        return Conversation.fromDatabase({
+          ...cachedConversation,
+          createdAt: new Date(cachedConversation.createdAt),
+          lastMessageAt: cachedConversation.lastMessageAt
+            ? new Date(cachedConversation.lastMessageAt)
+            : undefined,
+        });
+      }
+
+      this.logger.debug(
+        `Cache miss for conversation ID: ${id}, fetching from repository`,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
+      // Continue to repository on cache error
+    }
+
+    const conversation = await this.conversationRepository.findById(
+      id,
+      tenantId,
+    );
+
+    if (!conversation) {
+      this.logger.warn(
+        `Conversation with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    try {
+      await this.cacheManager.set(
+        cacheKey,
+        conversation.toDatabase(),
+        this.CONVERSATION_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
+      );
+      this.logger.debug(`Cached conversation ID: ${id}`);
+    } catch (error) {
+      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+
+    return conversation;
+  }
+
+  /**
+   * List conversations of the current tenant with pagination
+   *
+   * @param options Pagination options and optional participant filter
+   * @returns Promise resolving to paginated conversation results
+   */
+  async listConversations(options: {
+    page: number;
+    limit: number;
+    participantId?: string;
+  }): Promise<{ conversations: Conversation[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Listing conversations for tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    const result = await this.conversationRepository.findByTenant(
+      tenantId,
+      options,
+    );
+
+    this.logger.log(
+      `Retrieved ${result.conversations.length} conversations for tenant: ${tenantId} (total: ${result.total})`,
+    );
+    return result;
+  }
+
+  /**
+   * Update an existing conversation
+   *
+   * @param id The unique identifier of the conversation to update
+   * @param updateConversationDto DTO containing conversation update data
+   * @returns Promise resolving to the updated Conversation entity or null if not found
+   */
+  async updateConversation(
+    id: string,
+    updateConversationDto: UpdateConversationDto,
+  ): Promise<Conversation | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Updating conversation ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const conversation = await this.conversationRepository.findById(
+      id,
+      tenantId,
+    );
+    if (!conversation) {
+      this.logger.warn(
+        `Conversation with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    if (updateConversationDto.title) {
+      conversation.updateTitle(updateConversationDto.title);
+    }
+
+    if (updateConversationDto.participants) {
+      conversation.updateParticipants(updateConversationDto.participants);
+    }
+
+    if (updateConversationDto.metadata) {
+      conversation.updateMetadata(updateConversationDto.metadata);
+    }
+
+    if (updateConversationDto.status) {
+      if (updateConversationDto.status === ConversationStatus.CLOSED) {
+        conversation.close();
+      } else {
+        conversation.reopen();
+      }
+    }
+
+    const updatedConversation =
+      await this.conversationRepository.update(conversation);
+    await this.invalidateConversationCache(id, tenantId);
+
+    this.logger.log(`Updated conversation with ID: ${id}`);
+    return updatedConversation;
+  }
+
+  /**
+   * Delete a conversation by its ID
+   *
+   * @param id The unique identifier of the conversation to delete
+   * @returns Promise resolving to a boolean indicating success
+   */
+  async deleteConversation(id: string): Promise<boolean> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Deleting conversation ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const conversation = await this.conversationRepository.findById(
+      id,
+      tenantId,
+    );
+    if (!conversation) {
+      this.logger.warn(
+        `Conversation with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return false;
+    }
+
+    await this.conversationRepository.delete(id, tenantId);
+    await this.invalidateConversationCache(id, tenantId);
+
+    this.logger.log(`Deleted conversation with ID: ${id}`);
+    return true;
+  }
+
+  /**
+   * Record that a message was posted to a conversation
+   *
+   * Called by the message module after a message is persisted so that
+   * `lastMessageAt` reflects the latest activity.
+   *
+   * @param conversationId The conversation the message was posted to
+   * @param timestamp Timestamp of the message
+   */
+  async recordMessageActivity(
+    conversationId: string,
+    timestamp: Date,
+  ): Promise<void> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+
+    await this.conversationRepository.updateLastMessageAt(
+      conversationId,
+      tenantId,
+      timestamp,
+    );
+    await this.invalidateConversationCache(conversationId, tenantId);
+
+    this.logger.debug(
+      `Recorded message activity for conversation: ${conversationId}`,
+    );
+  }
+}
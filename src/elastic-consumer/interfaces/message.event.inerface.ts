@@ -7,6 +7,17 @@ export enum MessageEventType {
   CREATED = 'message.created',
   UPDATED = 'message.updated',
   DELETED = 'message.deleted',
+  RESTORED = 'message.restored',
+  PURGED = 'message.purged',
+  EXPIRED = 'message.expired',
+  REJECTED = 'message.rejected',
+  REACTION_ADDED = 'message.reaction.added',
+  REACTION_REMOVED = 'message.reaction.removed',
+  PINNED = 'message.pinned',
+  UNPINNED = 'message.unpinned',
+  STATUS_CHANGED = 'message.status_changed',
+  POLL_VOTED = 'poll.voted',
+  POLL_CLOSED = 'poll.closed',
 }
 
 /**
@@ -107,6 +107,54 @@ export class MessageConsumerService extends BaseKafkaConsumer {
           });
           break;
 
+        case MessageEventType.RESTORED:
+          // Deleted messages are removed from the index, restoring re-adds them
+          await this.searchService.indexMessage(event.payload);
+          this.logger.log(
+            `Re-indexed restored message with ID: ${event.payload.id}`,
+            { correlationId },
+          );
+          break;
+
+        case MessageEventType.EXPIRED:
+          await this.searchService.deleteMessage(event.payload.id);
+          this.logger.log(
+            `Deleted expired message with ID: ${event.payload.id}`,
+            { correlationId },
+          );
+          break;
+
+        case MessageEventType.REJECTED:
+          // The rejected edit is still indexed from before it was held
+          await this.searchService.deleteMessage(event.payload.id);
+          this.logger.log(
+            `Deleted rejected message with ID: ${event.payload.id}`,
+            { correlationId },
+          );
+          break;
+
+        case MessageEventType.PURGED:
+          // Already removed from the index when the message was deleted
+          this.logger.debug(
+            `Skipping ${event.type} event for message ID: ${event.payload.id}`,
+            { correlationId },
+          );
+          break;
+
+        case MessageEventType.REACTION_ADDED:
+        case MessageEventType.REACTION_REMOVED:
+        case MessageEventType.PINNED:
+        case MessageEventType.UNPINNED:
+        case MessageEventType.STATUS_CHANGED:
+        case MessageEventType.POLL_VOTED:
+        case MessageEventType.POLL_CLOSED:
+          // Reactions, pins, delivery status and poll votes are not part of the search index
+          this.logger.debug(
+            `Skipping ${event.type} event for message ID: ${event.payload.id}`,
+            { correlationId },
+          );
+          break;
+
         default:
           this.logger.warn(`Unknown event type: ${event.type}`, {
             messageId,
@@ -0,0 +1,161 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ImportApplicationService } from '../services/import-application.service';
+import { StartSlackImportDto } from '../dto/start-slack-import.dto';
+import { ImportJobResponseDto } from '../dto/import-job-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AuthUser, Role } from '../../common/guards/auth.guard';
+
+/**
+ * Import Controller
+ *
+ * Implements API endpoints for importing conversations exported from other
+ * chat tools. Imports run as background jobs whose progress can be followed.
+ */
+@ApiTags('Imports')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Roles(Role.IMPORTER)
+@Controller({ path: 'api', version: ['1'] })
+export class ImportController {
+  private readonly logger = new Logger(ImportController.name);
+
+  constructor(
+    private readonly importApplicationService: ImportApplicationService,
+  ) {
+    this.logger.log('ImportController initialized');
+  }
+
+  /**
+   * Import a Slack export
+   *
+   * Starts a job importing the channels and messages of a Slack export archive.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('imports/slack')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({ type: StartSlackImportDto })
+  @ApiOperation({
+    summary: 'Import a Slack export',
+    description:
+      'Uploads a Slack export archive as multipart/form-data in the "file" field, with the user and channel mapping as JSON in the "mapping" field, and starts a background job importing it. Channels become conversations and messages keep their original timestamps and threads. Follow the progress with `GET /imports/:id`. Requires the importer role and tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'The import has been started.',
+    type: ImportJobResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Bad Request - No file, not a Slack export, or an invalid mapping',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'A channel is mapped to a conversation that does not exist.',
+  })
+  @ApiResponse({
+    status: HttpStatus.PAYLOAD_TOO_LARGE,
+    description: 'The archive exceeds the size limit.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not an importer',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async startSlackImport(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() startSlackImportDto: StartSlackImportDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ImportJobResponseDto> {
+    if (!file) {
+      throw new BadRequestException('A file must be provided in field "file"');
+    }
+
+    const job = await this.importApplicationService.startSlackImport(
+      file,
+      startSlackImportDto.mapping,
+      user.id,
+    );
+
+    this.logger.log(`Started Slack import with ID: ${job.id}`);
+    return ImportJobResponseDto.fromEntity(job);
+  }
+
+  /**
+   * Get an import
+   *
+   * Returns the progress and the summary of an import.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('imports/:id')
+  @ApiOperation({
+    summary: 'Get an import',
+    description:
+      'Returns the status and progress of an import, with the number of imported, skipped and failed records, the reasons records were skipped, the users missing from the mapping and the first failures. Requires the importer role and tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the import',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The import.',
+    type: ImportJobResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Import not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not an importer',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async getImport(@Param('id') id: string): Promise<ImportJobResponseDto> {
+    const job = await this.importApplicationService.getImport(id);
+
+    if (!job) {
+      this.logger.warn(`Import with ID: ${id} not found`);
+      throw new NotFoundException(`Import with ID "${id}" not found`);
+    }
+
+    return ImportJobResponseDto.fromEntity(job);
+  }
+}
@@ -0,0 +1,187 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ImportJob,
+  ImportJobStatus,
+  ImportSkipReason,
+  ImportSource,
+} from '../entities/import-job.entity';
+
+/**
+ * A record of the archive that could not be imported
+ */
+export class ImportRecordErrorDto {
+  @ApiProperty({
+    description: 'The file of the archive holding the record',
+    example: 'general/2024-01-31.json',
+  })
+  file: string;
+
+  @ApiProperty({
+    description: 'The Slack timestamp identifying the record, if it has one',
+    example: '1706695200.000100',
+    required: false,
+  })
+  ts?: string;
+
+  @ApiProperty({
+    description: 'Why the record could not be imported',
+    example: 'content: content should not be empty',
+  })
+  error: string;
+}
+
+/**
+ * Data Transfer Object for import responses
+ */
+export class ImportJobResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the import',
+    example: '550e8400-e29b-41d4-a716-446655440030',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The tool the archive was exported from',
+    enum: ImportSource,
+    example: ImportSource.SLACK,
+  })
+  source: ImportSource;
+
+  @ApiProperty({
+    description: 'The status of the import',
+    enum: ImportJobStatus,
+    example: ImportJobStatus.RUNNING,
+  })
+  status: ImportJobStatus;
+
+  @ApiProperty({
+    description: 'The ID of the user who started the import',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  requestedBy: string;
+
+  @ApiProperty({
+    description: 'The name of the uploaded archive',
+    example: 'Acme Slack export Jan 1 2020 - Jan 31 2024.zip',
+  })
+  filename: string;
+
+  @ApiProperty({
+    description:
+      'The channels of the archive mapped to the conversations they are imported to, known once the import has started',
+    example: { C024BE91L: '123e4567-e89b-12d3-a456-426614174000' },
+  })
+  conversations: Record<string, string>;
+
+  @ApiProperty({
+    description:
+      'The number of message files in the archive, counted when the import starts',
+    example: 730,
+    required: false,
+  })
+  totalFiles?: number;
+
+  @ApiProperty({ description: 'Message files processed so far', example: 365 })
+  processedFiles: number;
+
+  @ApiProperty({
+    description: 'Percentage of the message files processed',
+    example: 50,
+  })
+  progress: number;
+
+  @ApiProperty({ description: 'Messages imported so far', example: 12000 })
+  imported: number;
+
+  @ApiProperty({
+    description: 'Records deliberately not imported so far',
+    example: 340,
+  })
+  skipped: number;
+
+  @ApiProperty({
+    description: 'Records that could not be imported so far',
+    example: 2,
+  })
+  failed: number;
+
+  @ApiProperty({
+    description: 'Skipped records per reason',
+    example: {
+      [ImportSkipReason.UNSUPPORTED_SUBTYPE]: 300,
+      [ImportSkipReason.UNMAPPED_USER]: 40,
+    },
+  })
+  skippedByReason: Partial<Record<ImportSkipReason, number>>;
+
+  @ApiProperty({
+    description:
+      'Slack users missing from the mapping, whose messages were skipped',
+    example: ['U0G9QF9C6'],
+    type: [String],
+  })
+  unmappedUsers: string[];
+
+  @ApiProperty({
+    description: 'The first records that could not be imported',
+    type: [ImportRecordErrorDto],
+  })
+  failures: ImportRecordErrorDto[];
+
+  @ApiProperty({
+    description: 'Why the import stopped the last time it did',
+    required: false,
+  })
+  lastError?: string;
+
+  @ApiProperty({
+    description: 'When the import was requested',
+    example: '2024-02-01T10:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the import started',
+    example: '2024-02-01T10:00:05Z',
+    required: false,
+  })
+  startedAt?: Date;
+
+  @ApiProperty({
+    description: 'When the import completed or failed',
+    required: false,
+  })
+  completedAt?: Date;
+
+  static fromEntity(job: ImportJob): ImportJobResponseDto {
+    const dto = new ImportJobResponseDto();
+    dto.id = job.id;
+    dto.source = job.source;
+    dto.status = job.status;
+    dto.requestedBy = job.requestedBy;
+    dto.filename = job.filename;
+    dto.conversations = job.conversations;
+    dto.totalFiles = job.totalFiles;
+    dto.processedFiles = job.processedFiles;
+    dto.progress =
+      job.status === ImportJobStatus.COMPLETED
+        ? 100
+        : job.totalFiles
+          ? Math.min(
+              99,
+              Math.floor((job.processedFiles / job.totalFiles) * 100),
+            )
+          : 0;
+    dto.imported = job.imported;
+    dto.skipped = job.skipped;
+    dto.failed = job.failed;
+    dto.skippedByReason = job.skippedByReason;
+    dto.unmappedUsers = job.unmappedUsers;
+    dto.failures = job.failures;
+    dto.lastError = job.lastError;
+    dto.createdAt = job.createdAt;
+    dto.startedAt = job.startedAt;
+    dto.completedAt = job.completedAt;
+    return dto;
+  }
+}
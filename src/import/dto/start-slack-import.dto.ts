@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Multipart body of a Slack import
+ *
+ * The archive itself is read from the `file` field by the upload
+ * interceptor; it is only declared here to document the endpoint.
+ */
+export class StartSlackImportDto {
+  @ApiProperty({
+    description: 'The Slack export archive (ZIP)',
+    type: 'string',
+    format: 'binary',
+  })
+  file?: any;
+
+  @ApiProperty({
+    description:
+      'JSON mapping the Slack user IDs to sender IDs, and optionally Slack channel IDs to existing conversations. Unmapped channels are imported as new conversations; messages of unmapped users are skipped.',
+    example:
+      '{"users":{"U024BE7LH":"user-1","U0G9QF9C6":"user-2"},"channels":{"C024BE91L":"123e4567-e89b-12d3-a456-426614174000"}}',
+  })
+  @IsString()
+  @IsNotEmpty()
+  mapping: string;
+}
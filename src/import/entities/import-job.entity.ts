@@ -0,0 +1,288 @@
+/**
+ * Tool an imported archive was exported from
+ */
+export enum ImportSource {
+  SLACK = 'slack',
+}
+
+/**
+ * Lifecycle status of an import
+ */
+export enum ImportJobStatus {
+  /** Waiting for a runner */
+  PENDING = 'pending',
+  /** Claimed by a runner that is working through the archive */
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  /** Stopped before the whole archive was imported, see `lastError` */
+  FAILED = 'failed',
+}
+
+/**
+ * Why a record of the archive was deliberately not imported
+ */
+export enum ImportSkipReason {
+  /** Not a message, e.g. a member joining or a topic change */
+  UNSUPPORTED_SUBTYPE = 'unsupported-subtype',
+  /** Sent by a user missing from the user mapping */
+  UNMAPPED_USER = 'unmapped-user',
+  /** Without text, e.g. a file shared without comment */
+  EMPTY = 'empty',
+  /** Imported before, by this import or an earlier one */
+  ALREADY_IMPORTED = 'already-imported',
+}
+
+/**
+ * How the users and channels of the archive are mapped
+ */
+export interface ImportMapping {
+  /** IDs of the users in the archive mapped to the sender IDs to import as */
+  users: Record<string, string>;
+  /** IDs of channels in the archive mapped to existing conversations */
+  channels: Record<string, string>;
+}
+
+/**
+ * A record of the archive that could not be imported
+ */
+export interface ImportRecordError {
+  file: string;
+  ts?: string;
+  error: string;
+}
+
+/**
+ * Number of failed records kept on an import; the failed count goes on
+ */
+const MAX_RECORDED_FAILURES = 100;
+
+/**
+ * Number of unmapped users kept on an import
+ */
+const MAX_RECORDED_UNMAPPED_USERS = 100;
+
+/**
+ * ImportJob entity
+ *
+ * Imports the conversations of an archive uploaded from another chat tool.
+ * The archive is kept in storage until the import completes. Its message
+ * files are processed in a fixed order and the number of processed files is
+ * stored with the progress, so an import taken over by another runner
+ * resumes after the last completed file.
+ */
+export class ImportJob {
+  id: string;
+  tenantId: string;
+  source: ImportSource;
+  requestedBy: string;
+  filename: string;
+  archiveKey: string;
+  mapping: ImportMapping;
+  status: ImportJobStatus;
+  conversations: Record<string, string>;
+  totalFiles?: number;
+  processedFiles: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  skippedByReason: Partial<Record<ImportSkipReason, number>>;
+  unmappedUsers: string[];
+  failures: ImportRecordError[];
+  attempts: number;
+  lockedUntil?: Date;
+  lastError?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+
+  private constructor(props: {
+    id: string;
+    tenantId: string;
+    source: ImportSource;
+    requestedBy: string;
+    filename: string;
+    archiveKey: string;
+    mapping: ImportMapping;
+    status: ImportJobStatus;
+    conversations?: Record<string, string>;
+    totalFiles?: number;
+    processedFiles?: number;
+    imported?: number;
+    skipped?: number;
+    failed?: number;
+    skippedByReason?: Partial<Record<ImportSkipReason, number>>;
+    unmappedUsers?: string[];
+    failures?: ImportRecordError[];
+    attempts?: number;
+    lockedUntil?: Date;
+    lastError?: string;
+    createdAt: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+  }) {
+    this.id = props.id;
+    this.tenantId = props.tenantId;
+    this.source = props.source;
+    this.requestedBy = props.requestedBy;
+    this.filename = props.filename;
+    this.archiveKey = props.archiveKey;
+    this.mapping = props.mapping;
+    this.status = props.status;
+    this.conversations = props.conversations ?? {};
+    this.totalFiles = props.totalFiles;
+    this.processedFiles = props.processedFiles ?? 0;
+    this.imported = props.imported ?? 0;
+    this.skipped = props.skipped ?? 0;
+    this.failed = props.failed ?? 0;
+    this.skippedByReason = props.skippedByReason ?? {};
+    this.unmappedUsers = props.unmappedUsers ?? [];
+    this.failures = props.failures ?? [];
+    this.attempts = props.attempts ?? 0;
+    this.lockedUntil = props.lockedUntil;
+    this.lastError = props.lastError;
+    this.createdAt = props.createdAt;
+    this.startedAt = props.startedAt;
+    this.completedAt = props.completedAt;
+  }
+
+  /**
+   * Creates a new pending import
+   */
+  static create(props: {
+    id: string;
+    tenantId: string;
+    source: ImportSource;
+    requestedBy: string;
+    filename: string;
+    mapping: ImportMapping;
+  }): ImportJob {
+    return new ImportJob({
+      ...props,
+      archiveKey: `imports/${props.tenantId}/${props.id}`,
+      status: ImportJobStatus.PENDING,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Checks if the import has stopped, successfully or not
+   */
+  isFinished(): boolean {
+    return [ImportJobStatus.COMPLETED, ImportJobStatus.FAILED].includes(
+      this.status,
+    );
+  }
+
+  /**
+   * Records an imported message
+   */
+  recordImported(): void {
+    this.imported++;
+  }
+
+  /**
+   * Records a record that was deliberately not imported
+   *
+   * @param reason Why the record was skipped
+   * @param slackUserId The unmapped user, if skipped for that reason
+   */
+  recordSkipped(reason: ImportSkipReason, slackUserId?: string): void {
+    this.skipped++;
+    this.skippedByReason[reason] = (this.skippedByReason[reason] ?? 0) + 1;
+
+    if (
+      slackUserId !== undefined &&
+      !this.unmappedUsers.includes(slackUserId) &&
+      this.unmappedUsers.length < MAX_RECORDED_UNMAPPED_USERS
+    ) {
+      this.unmappedUsers.push(slackUserId);
+    }
+  }
+
+  /**
+   * Records a record that could not be imported
+   *
+   * @param error The file and `ts` of the record with the reason
+   */
+  recordFailed(error: ImportRecordError): void {
+    this.failed++;
+    if (this.failures.length < MAX_RECORDED_FAILURES) {
+      this.failures.push(error);
+    }
+  }
+
+  /**
+   * Records that all records of the next message file were processed
+   */
+  completeFile(): void {
+    this.processedFiles++;
+  }
+
+  /**
+   * Creates an ImportJob instance from database record
+   */
+  static fromDatabase(data: any): ImportJob {
+    return new ImportJob({
+      id: data.id,
+      tenantId: data.tenantId,
+      source: data.source,
+      requestedBy: data.requestedBy,
+      filename: data.filename,
+      archiveKey: data.archiveKey,
+      mapping: {
+        users: data.mapping?.users ?? {},
+        channels: data.mapping?.channels ?? {},
+      },
+      status: data.status,
+      conversations: data.conversations,
+      totalFiles: data.totalFiles,
+      processedFiles: data.processedFiles,
+      imported: data.imported,
+      skipped: data.skipped,
+      failed: data.failed,
+      skippedByReason: data.skippedByReason,
+      unmappedUsers: data.unmappedUsers,
+      failures: data.failures?.map((error: ImportRecordError) => ({
+        file: error.file,
+        ts: error.ts,
+        error: error.error,
+      })),
+      attempts: data.attempts,
+      lockedUntil: data.lockedUntil,
+      lastError: data.lastError,
+      createdAt: data.createdAt,
+      startedAt: data.startedAt,
+      completedAt: data.completedAt,
+    });
+  }
+
+  /**
+   * Converts the ImportJob to a database record
+   *
+   * The progress and the run state are only written on insert; afterwards
+   * they are maintained by the repository on behalf of the runner holding
+   * the import.
+   */
+  toDatabase(): any {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      source: this.source,
+      requestedBy: this.requestedBy,
+      filename: this.filename,
+      archiveKey: this.archiveKey,
+      mapping: this.mapping,
+      status: this.status,
+      conversations: this.conversations,
+      processedFiles: this.processedFiles,
+      imported: this.imported,
+      skipped: this.skipped,
+      failed: this.failed,
+      skippedByReason: this.skippedByReason,
+      unmappedUsers: this.unmappedUsers,
+      failures: this.failures,
+      attempts: this.attempts,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MulterModule } from '@nestjs/platform-express';
+import { ConfigService } from '@nestjs/config';
+import { ConversationModule } from '../conversation/conversation.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { MessageModule } from '../message/message.module';
+import { ImportJobModel, ImportJobSchema } from './schemas/import-job.schema';
+import { ImportJobRepository } from './repositories/mongodb-import-job.repository';
+import { ImportController } from './controllers/import.controller';
+import { ImportApplicationService } from './services/import-application.service';
+import { ImportJobRunner } from './services/import-job-runner.service';
+
+/**
+ * Import module
+ *
+ * Imports conversations from archives exported from other chat tools.
+ * Archives are kept in the attachment storage until they are imported, and
+ * messages are created through the message module.
+ */
+@Module({
+  imports: [
+    ConversationModule,
+    AttachmentModule,
+    MessageModule,
+    MongooseModule.forFeature([
+      { name: ImportJobModel.name, schema: ImportJobSchema },
+    ]),
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize: configService.get<number>(
+            'imports.maxArchiveBytes',
+            104857600,
+          ),
+          files: 1,
+        },
+      }),
+    }),
+  ],
+  controllers: [ImportController],
+  providers: [ImportApplicationService, ImportJobRunner, ImportJobRepository],
+})
+export class ImportModule {}
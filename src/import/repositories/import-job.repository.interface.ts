@@ -0,0 +1,72 @@
+import { ImportJob } from '../entities/import-job.entity';
+
+/**
+ * Import Job Repository Interface
+ *
+ * Defines the contract for storing imports and for running them
+ * safely from several application instances. A claim is identified by the
+ * attempt it started, so a runner whose claim was taken over can no longer
+ * record progress.
+ */
+export interface IImportJobRepository {
+  /**
+   * Save a new import
+   *
+   * @param job The import entity to save
+   * @returns Promise resolving to the saved import
+   */
+  save(job: ImportJob): Promise<ImportJob>;
+
+  /**
+   * Find an import by its ID and tenant
+   *
+   * @param id The unique identifier of the import
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the import or null if not found
+   */
+  findById(id: string, tenantId: string): Promise<ImportJob | null>;
+
+  /**
+   * Claim the oldest pending or abandoned import of any tenant
+   *
+   * @param now Current time
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to the claimed import or null if there is none
+   */
+  claimNext(now: Date, lockedUntil: Date): Promise<ImportJob | null>;
+
+  /**
+   * Store the progress of a claimed import and extend the claim
+   *
+   * @param job The import with its progress
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to false if the claim was lost
+   */
+  saveProgress(job: ImportJob, lockedUntil: Date): Promise<boolean>;
+
+  /**
+   * Mark a claimed import as completed, storing its final progress
+   *
+   * @param job The import with its progress
+   * @param completedAt When the import completed
+   * @returns Promise resolving to false if the claim was lost
+   */
+  complete(job: ImportJob, completedAt: Date): Promise<boolean>;
+
+  /**
+   * Release a claimed import so that it is resumed by the next claim
+   *
+   * @param job The import with its progress
+   * @param error Reason the run stopped
+   */
+  release(job: ImportJob, error: string): Promise<void>;
+
+  /**
+   * Mark a claimed import as failed for good
+   *
+   * @param job The import with its progress
+   * @param error Reason of the failure
+   * @param failedAt When the import failed
+   */
+  markFailed(job: ImportJob, error: string, failedAt: Date): Promise<void>;
+}
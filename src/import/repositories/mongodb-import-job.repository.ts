@@ -0,0 +1,244 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ImportJob, ImportJobStatus } from '../entities/import-job.entity';
+import { IImportJobRepository } from './import-job.repository.interface';
+import {
+  ImportJobModel,
+  ImportJobDocument,
+} from '../schemas/import-job.schema';
+
+/**
+ * MongoDB implementation of the Import Job Repository
+ */
+@Injectable()
+export class ImportJobRepository implements IImportJobRepository {
+  private readonly logger = new Logger(ImportJobRepository.name);
+
+  constructor(
+    @InjectModel(ImportJobModel.name)
+    private importJobModel: Model<ImportJobDocument>,
+  ) {
+    this.logger.log('ImportJobRepository initialized');
+  }
+
+  /**
+   * Filter matching an import while the runner still holds its claim
+   */
+  private claimFilter(job: ImportJob): Record<string, any> {
+    return {
+      id: job.id,
+      tenantId: job.tenantId,
+      status: ImportJobStatus.RUNNING,
+      attempts: job.attempts,
+    };
+  }
+
+  /**
+   * Progress of an import as stored
+   */
+  private progress(job: ImportJob): Record<string, any> {
+    return {
+      conversations: job.conversations,
+      totalFiles: job.totalFiles,
+      processedFiles: job.processedFiles,
+      imported: job.imported,
+      skipped: job.skipped,
+      failed: job.failed,
+      skippedByReason: job.skippedByReason,
+      unmappedUsers: job.unmappedUsers,
+      failures: job.failures,
+    };
+  }
+
+  /**
+   * Save a new import
+   *
+   * @param job The import entity to save
+   * @returns Promise resolving to the saved import
+   */
+  async save(job: ImportJob): Promise<ImportJob> {
+    this.logger.debug(`Saving ${job.source} import: ${job.id}`);
+    try {
+      const importJobDocument = new this.importJobModel(job.toDatabase());
+      const savedDocument = await importJobDocument.save();
+      return ImportJob.fromDatabase(savedDocument.toObject());
+    } catch (error) {
+      this.logger.error(`Failed to save import: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find an import by its ID and tenant
+   *
+   * @param id The unique identifier of the import
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the import or null if not found
+   */
+  async findById(id: string, tenantId: string): Promise<ImportJob | null> {
+    this.logger.debug(`Finding import: ${id} for tenant: ${tenantId}`);
+    try {
+      const importJobDocument = await this.importJobModel
+        .findOne({ id, tenantId })
+        .exec();
+      return importJobDocument
+        ? ImportJob.fromDatabase(importJobDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(`Error finding import: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the oldest pending or abandoned import of any tenant
+   *
+   * @param now Current time
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to the claimed import or null if there is none
+   */
+  async claimNext(now: Date, lockedUntil: Date): Promise<ImportJob | null> {
+    try {
+      const importJobDocument = await this.importJobModel
+        .findOneAndUpdate(
+          {
+            $or: [
+              { status: ImportJobStatus.PENDING },
+              // Claimed by a runner that stopped reporting progress
+              {
+                status: ImportJobStatus.RUNNING,
+                lockedUntil: { $lte: now },
+              },
+            ],
+          },
+          {
+            $set: { status: ImportJobStatus.RUNNING, lockedUntil },
+            $inc: { attempts: 1 },
+            // Only set by the first claim
+            $min: { startedAt: now },
+          },
+          { sort: { createdAt: 1 }, new: true },
+        )
+        .exec();
+      return importJobDocument
+        ? ImportJob.fromDatabase(importJobDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to claim import: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store the progress of a claimed import and extend the claim
+   *
+   * @param job The import with its progress
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to false if the claim was lost
+   */
+  async saveProgress(job: ImportJob, lockedUntil: Date): Promise<boolean> {
+    try {
+      const result = await this.importJobModel.updateOne(
+        this.claimFilter(job),
+        { $set: { ...this.progress(job), lockedUntil } },
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to save progress of import: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a claimed import as completed, storing its final progress
+   *
+   * @param job The import with its progress
+   * @param completedAt When the import completed
+   * @returns Promise resolving to false if the claim was lost
+   */
+  async complete(job: ImportJob, completedAt: Date): Promise<boolean> {
+    try {
+      const result = await this.importJobModel.updateOne(
+        this.claimFilter(job),
+        {
+          $set: {
+            ...this.progress(job),
+            status: ImportJobStatus.COMPLETED,
+            completedAt,
+          },
+          $unset: { lockedUntil: '', lastError: '' },
+        },
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete import: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Release a claimed import so that it is resumed by the next claim
+   *
+   * @param job The import with its progress
+   * @param error Reason the run stopped
+   */
+  async release(job: ImportJob, error: string): Promise<void> {
+    try {
+      await this.importJobModel.updateOne(this.claimFilter(job), {
+        $set: {
+          ...this.progress(job),
+          status: ImportJobStatus.PENDING,
+          lastError: error,
+        },
+        $unset: { lockedUntil: '' },
+      });
+    } catch (releaseError) {
+      this.logger.error(
+        `Failed to release import: ${releaseError.message}`,
+        releaseError.stack,
+      );
+      throw releaseError;
+    }
+  }
+
+  /**
+   * Mark a claimed import as failed for good
+   *
+   * @param job The import with its progress
+   * @param error Reason of the failure
+   * @param failedAt When the import failed
+   */
+  async markFailed(
+    job: ImportJob,
+    error: string,
+    failedAt: Date,
+  ): Promise<void> {
+    try {
+      await this.importJobModel.updateOne(this.claimFilter(job), {
+        $set: {
+          ...this.progress(job),
+          status: ImportJobStatus.FAILED,
+          lastError: error,
+          completedAt: failedAt,
+        },
+        $unset: { lockedUntil: '' },
+      });
+    } catch (updateError) {
+      this.logger.error(
+        `Failed to mark import as failed: ${updateError.message}`,
+        updateError.stack,
+      );
+      throw updateError;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ImportJobStatus, ImportSource } from '../entities/import-job.entity';
+
+/**
+ * Type definition for ImportJobDocument combining ImportJobModel with Mongoose Document
+ */
+export type ImportJobDocument = ImportJobModel & Document;
+
+/**
+ * Mongoose schema for imports of archives from other chat tools
+ */
+@Schema({
+  collection: 'import_jobs',
+})
+export class ImportJobModel {
+  /**
+   * Unique identifier for the import
+   */
+  @Prop({ required: true })
+  id: string;
+
+  /**
+   * Identifier of the tenant the import belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Tool the archive was exported from
+   */
+  @Prop({ required: true, enum: Object.values(ImportSource) })
+  source: ImportSource;
+
+  /**
+   * Identifier of the user who started the import
+   */
+  @Prop({ required: true })
+  requestedBy: string;
+
+  /**
+   * Name of the uploaded archive
+   */
+  @Prop({ required: true })
+  filename: string;
+
+  /**
+   * Key of the archive in the storage backend
+   */
+  @Prop({ required: true })
+  archiveKey: string;
+
+  /**
+   * Users and channels of the archive mapped to users and conversations
+   */
+  @Prop({ type: Object, required: true })
+  mapping: Record<string, any>;
+
+  /**
+   * Run status of the import
+   */
+  @Prop({ required: true, enum: Object.values(ImportJobStatus) })
+  status: ImportJobStatus;
+
+  /**
+   * Channels of the archive mapped to the conversations they are imported to
+   */
+  @Prop({ type: Object, default: {} })
+  conversations: Record<string, string>;
+
+  /**
+   * Number of message files in the archive, counted when the import starts
+   */
+  @Prop()
+  totalFiles?: number;
+
+  /**
+   * Number of message files processed, after which a resumed import continues
+   */
+  @Prop({ default: 0 })
+  processedFiles: number;
+
+  /**
+   * Number of messages imported so far
+   */
+  @Prop({ default: 0 })
+  imported: number;
+
+  /**
+   * Number of records deliberately not imported so far
+   */
+  @Prop({ default: 0 })
+  skipped: number;
+
+  /**
+   * Number of records that could not be imported so far
+   */
+  @Prop({ default: 0 })
+  failed: number;
+
+  /**
+   * Number of skipped records per reason
+   */
+  @Prop({ type: Object, default: {} })
+  skippedByReason: Record<string, number>;
+
+  /**
+   * Users of the archive missing from the mapping, whose messages were skipped
+   */
+  @Prop({ type: [String], default: [] })
+  unmappedUsers: string[];
+
+  /**
+   * The first records that could not be imported, with the reason
+   */
+  @Prop({ type: [Object], default: [] })
+  failures: { file: string; ts?: string; error: string }[];
+
+  /**
+   * Number of times the import was claimed by a runner
+   */
+  @Prop({ default: 0 })
+  attempts: number;
+
+  /**
+   * Until when the runner that claimed the import holds it
+   */
+  @Prop()
+  lockedUntil?: Date;
+
+  /**
+   * Reason the last run of the import stopped
+   */
+  @Prop()
+  lastError?: string;
+
+  /**
+   * Timestamp when the import was requested
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+
+  /**
+   * Timestamp when a runner first claimed the import
+   */
+  @Prop()
+  startedAt?: Date;
+
+  /**
+   * Timestamp when the import completed or failed
+   */
+  @Prop()
+  completedAt?: Date;
+}
+
+// Create the schema from the class
+export const ImportJobSchema = SchemaFactory.createForClass(ImportJobModel);
+
+ImportJobSchema.index({ tenantId: 1, id: 1 }, { unique: true });
+// Used by the runner to find pending and abandoned imports of all tenants
+ImportJobSchema.index({ status: 1, createdAt: 1 });
+ImportJobSchema.index({ status: 1, lockedUntil: 1 });
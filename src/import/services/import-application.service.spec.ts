@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ImportApplicationService } from './import-application.service';
+import { ImportJobRepository } from '../repositories/mongodb-import-job.repository';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { STORAGE_DRIVER } from '../../attachment/storage/storage-driver.interface';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { InvalidArchiveError } from '../../common/errors/invalid-archive.error';
+import { ConversationType } from '../../conversation/entities/conversation.entity';
+import { ImportJobStatus, ImportSource } from '../entities/import-job.entity';
+import { SlackArchive } from '../slack/slack-archive';
+
+jest.mock('../repositories/mongodb-import-job.repository');
+jest.mock('../../conversation/services/conversation-application.service');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../slack/slack-archive');
+
+describe('ImportApplicationService', () => {
+  let service: ImportApplicationService;
+  let importJobRepository: jest.Mocked<ImportJobRepository>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  const storageDriver = {
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+  const openArchive = SlackArchive.open as jest.MockedFunction<
+    typeof SlackArchive.open
+  >;
+
+  const file = {
+    originalname: 'export.zip',
+    buffer: Buffer.from('archive'),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportApplicationService,
+        ImportJobRepository,
+        ConversationApplicationService,
+        TenantContext,
+        {
+          provide: STORAGE_DRIVER,
+          useValue: storageDriver,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'imports.maxEntryBytes' ? 1024 : 4096,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportApplicationService>(ImportApplicationService);
+    importJobRepository = module.get(ImportJobRepository);
+    conversationService = module.get(ConversationApplicationService);
+    tenantContext = module.get(TenantContext);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    importJobRepository.save.mockImplementation((job) => Promise.resolve(job));
+    storageDriver.put.mockResolvedValue(undefined);
+    storageDriver.delete.mockResolvedValue(undefined);
+    openArchive.mockReturnValue({
+      channels: () => [
+        {
+          id: 'C1',
+          name: 'general',
+          members: ['U1'],
+          type: ConversationType.CHANNEL,
+          directory: 'general/',
+        },
+      ],
+    } as unknown as SlackArchive);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startSlackImport', () => {
+    it('should store the archive and save a pending import', async () => {
+      conversationService.getConversationById.mockResolvedValue({
+        id: 'conv1',
+      } as any);
+
+      const job = await service.startSlackImport(
+        file,
+        JSON.stringify({ users: { U1: 'alice' }, channels: { C1: 'conv1' } }),
+        'admin1',
+      );
+
+      expect(job).toMatchObject({
+        tenantId: 'tenant123',
+        source: ImportSource.SLACK,
+        status: ImportJobStatus.PENDING,
+        requestedBy: 'admin1',
+        filename: 'export.zip',
+        mapping: { users: { U1: 'alice' }, channels: { C1: 'conv1' } },
+        archiveKey: `imports/tenant123/${job.id}`,
+      });
+      expect(openArchive).toHaveBeenCalledWith(file.buffer, {
+        maxEntryBytes: 1024,
+        maxTotalBytes: 4096,
+      });
+      expect(storageDriver.put).toHaveBeenCalledWith(
+        job.archiveKey,
+        file.buffer,
+        'application/zip',
+      );
+      expect(importJobRepository.save).toHaveBeenCalledWith(job);
+    });
+
+    it.each([
+      ['invalid JSON', '{users', 'mapping must be valid JSON'],
+      ['a list', '[]', 'mapping must be an object'],
+      [
+        'no users',
+        JSON.stringify({ users: {} }),
+        'mapping.users must map at least one user',
+      ],
+      [
+        'an invalid ID',
+        JSON.stringify({ users: { 'U1.name': 'alice' } }),
+        'mapping.users contains the invalid ID "U1.name"',
+      ],
+      [
+        'a non-string value',
+        JSON.stringify({ users: { U1: 'alice' }, channels: { C1: 42 } }),
+        'mapping.channels.C1 must be a non-empty string',
+      ],
+    ])(
+      'should reject a mapping with %s',
+      async (_description, mapping, message) => {
+        await expect(
+          service.startSlackImport(file, mapping, 'admin1'),
+        ).rejects.toThrow(new BadRequestException(message));
+        expect(storageDriver.put).not.toHaveBeenCalled();
+      },
+    );
+
+    it('should reject an archive that is not a Slack export', async () => {
+      openArchive.mockImplementation(() => {
+        throw new InvalidArchiveError('Not a ZIP archive');
+      });
+
+      await expect(
+        service.startSlackImport(
+          file,
+          JSON.stringify({ users: { U1: 'alice' } }),
+          'admin1',
+        ),
+      ).rejects.toThrow(
+        new BadRequestException('Invalid Slack export: Not a ZIP archive'),
+      );
+    });
+
+    it('should reject a mapped channel that is not part of the archive', async () => {
+      await expect(
+        service.startSlackImport(
+          file,
+          JSON.stringify({ users: { U1: 'alice' }, channels: { C2: 'conv1' } }),
+          'admin1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException if a mapped conversation does not exist', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      await expect(
+        service.startSlackImport(
+          file,
+          JSON.stringify({ users: { U1: 'alice' }, channels: { C1: 'conv1' } }),
+          'admin1',
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(storageDriver.put).not.toHaveBeenCalled();
+    });
+
+    it('should delete the stored archive if the import cannot be saved', async () => {
+      importJobRepository.save.mockRejectedValue(new Error('Database error'));
+
+      await expect(
+        service.startSlackImport(
+          file,
+          JSON.stringify({ users: { U1: 'alice' } }),
+          'admin1',
+        ),
+      ).rejects.toThrow('Database error');
+      expect(storageDriver.delete).toHaveBeenCalledWith(
+        storageDriver.put.mock.calls[0][0],
+      );
+    });
+  });
+
+  describe('getImport', () => {
+    it('should look up the import in the current tenant', async () => {
+      importJobRepository.findById.mockResolvedValue(null);
+
+      const result = await service.getImport('import1');
+
+      expect(result).toBeNull();
+      expect(importJobRepository.findById).toHaveBeenCalledWith(
+        'import1',
+        'tenant123',
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { InvalidArchiveError } from '../../common/errors/invalid-archive.error';
+import { ZipLimits } from '../../common/utils/zip.util';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from '../../attachment/storage/storage-driver.interface';
+import {
+  ImportJob,
+  ImportMapping,
+  ImportSource,
+} from '../entities/import-job.entity';
+import { ImportJobRepository } from '../repositories/mongodb-import-job.repository';
+import { SlackArchive } from '../slack/slack-archive';
+
+/**
+ * Keys allowed in a mapping; they are stored as field names
+ */
+const MAPPING_KEY_PATTERN = /^[\w-]+$/;
+
+/**
+ * An uploaded archive, as received from the upload interceptor
+ */
+export interface UploadedArchive {
+  originalname: string;
+  buffer: Buffer;
+}
+
+/**
+ * Import Application Service
+ *
+ * Accepts archives exported from other chat tools and reports the progress
+ * of their import. The archive is checked and stored when it is uploaded;
+ * its messages are imported in the background by the import job runner.
+ */
+@Injectable()
+export class ImportApplicationService {
+  private readonly logger = new Logger(ImportApplicationService.name);
+  private readonly archiveLimits: ZipLimits;
+
+  constructor(
+    private readonly importJobRepository: ImportJobRepository,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly tenantContext: TenantContext,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+    private readonly configService: ConfigService,
+  ) {
+    this.archiveLimits = {
+      maxEntryBytes: this.configService.get<number>(
+        'imports.maxEntryBytes',
+        52428800,
+      ),
+      maxTotalBytes: this.configService.get<number>(
+        'imports.maxUncompressedBytes',
+        1073741824,
+      ),
+    };
+    this.logger.log('ImportApplicationService initialized');
+  }
+
+  /**
+   * Start importing a Slack export
+   *
+   * @param file The uploaded export archive
+   * @param mappingJson The user and channel mapping as JSON
+   * @param requestedBy The user starting the import
+   * @returns Promise resolving to the pending import
+   * @throws BadRequestException if the archive is not a Slack export or the mapping is invalid
+   * @throws NotFoundException if a channel is mapped to a conversation that does not exist
+   */
+  async startSlackImport(
+    file: UploadedArchive,
+    mappingJson: string,
+    requestedBy: string,
+  ): Promise<ImportJob> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Starting Slack import of ${file.originalname} for tenant: ${tenantId}`,
+    );
+
+    const mapping = this.parseMapping(mappingJson);
+
+    let archive: SlackArchive;
+    try {
+      archive = SlackArchive.open(file.buffer, this.archiveLimits);
+    } catch (error) {
+      if (!(error instanceof InvalidArchiveError)) {
+        throw error;
+      }
+      throw new BadRequestException(`Invalid Slack export: ${error.message}`);
+    }
+
+    const channelIds = archive.channels().map((channel) => channel.id);
+    for (const [channelId, conversationId] of Object.entries(
+      mapping.channels,
+    )) {
+      if (!channelIds.includes(channelId)) {
+        throw new BadRequestException(
+          `Channel "${channelId}" is not part of the archive`,
+        );
+      }
+      if (
+        !(await this.conversationService.getConversationById(conversationId))
+      ) {
+        throw new NotFoundException(
+          `Conversation with ID "${conversationId}" not found`,
+        );
+      }
+    }
+
+    const job = ImportJob.create({
+      id: uuidv4(),
+      tenantId,
+      source: ImportSource.SLACK,
+      requestedBy,
+      filename: file.originalname,
+      mapping,
+    });
+
+    await this.storageDriver.put(
+      job.archiveKey,
+      file.buffer,
+      'application/zip',
+    );
+
+    try {
+      const savedJob = await this.importJobRepository.save(job);
+      this.logger.log(
+        `Started Slack import ${savedJob.id} of ${archive.channels().length} channels`,
+      );
+      return savedJob;
+    } catch (error) {
+      // Do not leave unreferenced archives behind
+      await this.storageDriver
+        .delete(job.archiveKey)
+        .catch((cleanupError: Error) =>
+          this.logger.warn(
+            `Failed to clean up import archive: ${cleanupError.message}`,
+          ),
+        );
+      throw error;
+    }
+  }
+
+  /**
+   * Get an import of the current tenant
+   *
+   * @param id The unique identifier of the import
+   * @returns Promise resolving to the import or null if not found
+   */
+  async getImport(id: string): Promise<ImportJob | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Getting import: ${id} for tenant: ${tenantId}`);
+
+    return this.importJobRepository.findById(id, tenantId);
+  }
+
+  /**
+   * Parse and check the mapping sent with an import
+   *
+   * @throws BadRequestException if the mapping is not valid
+   * @private
+   */
+  private parseMapping(mappingJson: string): ImportMapping {
+    let mapping: unknown;
+    try {
+      mapping = JSON.parse(mappingJson);
+    } catch {
+      throw new BadRequestException('mapping must be valid JSON');
+    }
+
+    if (!this.isRecord(mapping)) {
+      throw new BadRequestException('mapping must be an object');
+    }
+
+    const users = this.parseMappingTable(mapping.users, 'users');
+    if (Object.keys(users).length === 0) {
+      throw new BadRequestException('mapping.users must map at least one user');
+    }
+
+    return {
+      users,
+      channels: this.parseMappingTable(mapping.channels ?? {}, 'channels'),
+    };
+  }
+
+  /**
+   * Check a table of the mapping, which maps IDs to IDs
+   *
+   * @private
+   */
+  private parseMappingTable(
+    table: unknown,
+    name: string,
+  ): Record<string, string> {
+    if (!this.isRecord(table)) {
+      throw new BadRequestException(`mapping.${name} must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(table)) {
+      if (!MAPPING_KEY_PATTERN.test(key)) {
+        throw new BadRequestException(
+          `mapping.${name} contains the invalid ID "${key}"`,
+        );
+      }
+      if (typeof value !== 'string' || value.length === 0) {
+        throw new BadRequestException(
+          `mapping.${name}.${key} must be a non-empty string`,
+        );
+      }
+    }
+    return table as Record<string, string>;
+  }
+
+  /**
+   * Checks if a parsed JSON value is an object
+   *
+   * @private
+   */
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,466 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { Readable } from 'stream';
+import { deflateRawSync } from 'zlib';
+import { ImportJobRunner } from './import-job-runner.service';
+import { ImportJobRepository } from '../repositories/mongodb-import-job.repository';
+import { MessageRepository } from '../../message/repositories/mongodb-message.repository';
+import { MessageApplicationService } from '../../message/services/message-application.service';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { STORAGE_DRIVER } from '../../attachment/storage/storage-driver.interface';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationType } from '../../conversation/entities/conversation.entity';
+import {
+  ImportJob,
+  ImportMapping,
+  ImportSkipReason,
+  ImportSource,
+} from '../entities/import-job.entity';
+
+jest.mock('../repositories/mongodb-import-job.repository');
+jest.mock('../../message/repositories/mongodb-message.repository');
+
+/**
+ * Builds a ZIP archive of deflated JSON files; CRCs are left empty as the
+ * reader does not check them
+ */
+const buildZip = (files: Record<string, unknown>): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const raw = Buffer.from(JSON.stringify(content));
+    const data = deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+};
+
+describe('ImportJobRunner', () => {
+  let runner: ImportJobRunner;
+  let importJobRepository: jest.Mocked<ImportJobRepository>;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  const storageDriver = {
+    put: jest.fn(),
+    get: jest.fn(),
+    delete: jest.fn(),
+  };
+  const tenantContext = { setCurrentTenant: jest.fn() };
+  const messageService = { createMessages: jest.fn() };
+  const conversationService = {
+    getConversationById: jest.fn(),
+    createConversation: jest.fn(),
+  };
+  const moduleRef = {
+    resolve: jest.fn((token: unknown) =>
+      Promise.resolve(
+        new Map<unknown, unknown>([
+          [TenantContext, tenantContext],
+          [MessageApplicationService, messageService],
+          [ConversationApplicationService, conversationService],
+        ]).get(token),
+      ),
+    ),
+  };
+  const config: Record<string, unknown> = {
+    'imports.lockSeconds': 300,
+    'imports.maxAttempts': 3,
+    'imports.maxEntryBytes': 1024,
+    'imports.maxUncompressedBytes': 2048,
+  };
+
+  const buildJob = (
+    mapping: Partial<ImportMapping> = {},
+    props: Record<string, unknown> = {},
+  ) =>
+    ImportJob.fromDatabase({
+      ...ImportJob.create({
+        id: 'import1',
+        tenantId: 'tenant123',
+        source: ImportSource.SLACK,
+        requestedBy: 'admin1',
+        filename: 'export.zip',
+        mapping: {
+          users: { U1: 'alice', U2: 'bob' },
+          channels: {},
+          ...mapping,
+        },
+      }).toDatabase(),
+      status: 'running',
+      attempts: 1,
+      ...props,
+    });
+
+  const serveArchive = (files: Record<string, unknown>) =>
+    storageDriver.get.mockResolvedValue(Readable.from([buildZip(files)]));
+
+  const channels = [{ id: 'C1', name: 'general', members: ['U1', 'U2', 'U3'] }];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportJobRunner,
+        ImportJobRepository,
+        MessageRepository,
+        {
+          provide: STORAGE_DRIVER,
+          useValue: storageDriver,
+        },
+        {
+          provide: ModuleRef,
+          useValue: moduleRef,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    runner = module.get<ImportJobRunner>(ImportJobRunner);
+    importJobRepository = module.get(ImportJobRepository);
+    messageRepository = module.get(MessageRepository);
+
+    importJobRepository.saveProgress.mockResolvedValue(true);
+    importJobRepository.complete.mockResolvedValue(true);
+    messageRepository.findExistingIds.mockResolvedValue([]);
+    storageDriver.delete.mockResolvedValue(undefined);
+    conversationService.getConversationById.mockResolvedValue(null);
+    messageService.createMessages.mockImplementation(
+      (items: Record<string, any>[]) =>
+        Promise.resolve(items.map((_, index) => ({ index }))),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('runPending', () => {
+    const now = new Date('2024-01-01T09:00:00Z');
+
+    it('should import channels as conversations and replies into their thread', async () => {
+      const job = buildJob();
+      importJobRepository.claimNext
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      serveArchive({
+        'channels.json': channels,
+        'general/2024-01-01.json': [
+          {
+            type: 'message',
+            user: 'U2',
+            text: 'Thanks <@U1>!',
+            ts: '1704103260.000200',
+            thread_ts: '1704103200.000100',
+          },
+          {
+            type: 'message',
+            user: 'U1',
+            text: 'Release is out &amp; live',
+            ts: '1704103200.000100',
+            thread_ts: '1704103200.000100',
+          },
+          { type: 'message', subtype: 'channel_join', user: 'U3', ts: '1' },
+          { type: 'message', user: 'U3', text: 'Hi', ts: '2' },
+          { type: 'message', user: 'U1', text: ' ', ts: '3' },
+        ],
+      });
+      // The thread starter exists once the top-level messages are created
+      messageRepository.findExistingIds
+        .mockResolvedValueOnce([])
+        .mockImplementationOnce((ids) => Promise.resolve(ids));
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(1);
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant123');
+
+      const conversationId = job.conversations.C1;
+      expect(conversationService.createConversation).toHaveBeenCalledWith(
+        {
+          title: 'general',
+          type: ConversationType.CHANNEL,
+          participants: ['alice', 'bob'],
+          metadata: { importedFrom: 'slack', slackChannelId: 'C1' },
+        },
+        conversationId,
+      );
+
+      expect(messageService.createMessages).toHaveBeenCalledTimes(2);
+      const [[starters, starterOptions], [replies, replyOptions]] =
+        messageService.createMessages.mock.calls as [
+          Record<string, any>[],
+          { canImport: boolean; ids: string[] },
+        ][];
+      expect(starters).toEqual([
+        {
+          conversationId,
+          senderId: 'alice',
+          content: 'Release is out & live',
+          parentMessageId: undefined,
+          timestamp: new Date(1704103200000),
+          metadata: {
+            importedFrom: 'slack',
+            slackChannelId: 'C1',
+            slackTs: '1704103200.000100',
+          },
+        },
+      ]);
+      expect(starterOptions.canImport).toBe(true);
+      expect(replies).toEqual([
+        expect.objectContaining({
+          senderId: 'bob',
+          content: 'Thanks @alice!',
+          parentMessageId: starterOptions.ids[0],
+          metadata: expect.objectContaining({
+            slackThreadTs: '1704103200.000100',
+          }),
+        }),
+      ]);
+      expect(replyOptions.ids[0]).not.toBe(starterOptions.ids[0]);
+
+      expect(job).toMatchObject({
+        totalFiles: 1,
+        processedFiles: 1,
+        imported: 2,
+        skipped: 3,
+        failed: 0,
+        skippedByReason: {
+          [ImportSkipReason.UNSUPPORTED_SUBTYPE]: 1,
+          [ImportSkipReason.UNMAPPED_USER]: 1,
+          [ImportSkipReason.EMPTY]: 1,
+        },
+        unmappedUsers: ['U3'],
+      });
+      expect(importJobRepository.saveProgress).toHaveBeenCalledTimes(1);
+      expect(importJobRepository.complete).toHaveBeenCalledWith(
+        job,
+        expect.any(Date),
+      );
+      expect(storageDriver.delete).toHaveBeenCalledWith(
+        'imports/tenant123/import1',
+      );
+    });
+
+    it('should import mapped channels into their conversation and skip records imported before', async () => {
+      const job = buildJob({ channels: { C1: 'conv1' } });
+      importJobRepository.claimNext
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      serveArchive({
+        'export/channels.json': channels,
+        'export/general/2024-01-01.json': [
+          { type: 'message', user: 'U1', text: 'First', ts: '1' },
+          { type: 'message', user: 'U2', text: 'Second', ts: '2' },
+        ],
+      });
+      messageRepository.findExistingIds
+        .mockImplementationOnce((ids) => Promise.resolve([ids[0]]))
+        .mockResolvedValueOnce([]);
+
+      await runner.runPending(now);
+
+      expect(conversationService.createConversation).not.toHaveBeenCalled();
+      expect(messageService.createMessages).toHaveBeenCalledTimes(1);
+      expect(messageService.createMessages).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            conversationId: 'conv1',
+            content: 'Second',
+          }),
+        ],
+        expect.objectContaining({ canImport: true }),
+      );
+      expect(job).toMatchObject({
+        imported: 1,
+        skipped: 1,
+        skippedByReason: { [ImportSkipReason.ALREADY_IMPORTED]: 1 },
+      });
+    });
+
+    it('should resume after the files processed before', async () => {
+      const job = buildJob(
+        {},
+        { processedFiles: 1, conversations: { C1: 'conv1' }, imported: 5 },
+      );
+      importJobRepository.claimNext
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      serveArchive({
+        'channels.json': channels,
+        'general/2024-01-01.json': [
+          { type: 'message', user: 'U1', text: 'Old', ts: '1' },
+        ],
+        'general/2024-01-02.json': [
+          { type: 'message', user: 'U1', text: 'New', ts: '86401' },
+        ],
+      });
+
+      await runner.runPending(now);
+
+      expect(conversationService.getConversationById).not.toHaveBeenCalled();
+      expect(messageService.createMessages).toHaveBeenCalledTimes(1);
+      expect(messageService.createMessages).toHaveBeenCalledWith(
+        [expect.objectContaining({ content: 'New' })],
+        expect.anything(),
+      );
+      expect(job).toMatchObject({ processedFiles: 2, imported: 6 });
+    });
+
+    it('should record messages that could not be created', async () => {
+      const job = buildJob({ channels: { C1: 'conv1' } });
+      importJobRepository.claimNext
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      serveArchive({
+        'channels.json': channels,
+        'general/2024-01-01.json': [
+          { type: 'message', user: 'U1', text: 'Hello', ts: '1' },
+          { type: 'message', user: 'U1', text: 'No ts' },
+        ],
+      });
+      messageService.createMessages.mockResolvedValue([
+        { index: 0, error: 'Conversation is archived' },
+      ]);
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(1);
+      expect(job).toMatchObject({
+        imported: 0,
+        failed: 2,
+        failures: [
+          {
+            file: 'general/2024-01-01.json',
+            error: 'Record without a valid ts',
+          },
+          {
+            file: 'general/2024-01-01.json',
+            ts: '1',
+            error: 'Conversation is archived',
+          },
+        ],
+      });
+    });
+
+    it('should release the import for a retry when a run fails', async () => {
+      const job = buildJob({ channels: { C1: 'conv1' } });
+      importJobRepository.claimNext.mockResolvedValueOnce(job);
+      serveArchive({
+        'channels.json': channels,
+        'general/2024-01-01.json': [
+          { type: 'message', user: 'U1', text: 'Hello', ts: '1' },
+        ],
+      });
+      messageService.createMessages.mockRejectedValue(
+        new Error('Database unavailable'),
+      );
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(0);
+      expect(importJobRepository.release).toHaveBeenCalledWith(
+        job,
+        'Database unavailable',
+      );
+      expect(importJobRepository.markFailed).not.toHaveBeenCalled();
+      expect(storageDriver.delete).not.toHaveBeenCalled();
+      // Stops so the released import is not claimed again right away
+      expect(importJobRepository.claimNext).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail the import for good when the archive is unreadable', async () => {
+      const job = buildJob();
+      importJobRepository.claimNext
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      storageDriver.get.mockResolvedValue(
+        Readable.from([Buffer.from('not a zip archive at all')]),
+      );
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(0);
+      expect(importJobRepository.markFailed).toHaveBeenCalledWith(
+        job,
+        'Not a ZIP archive',
+        expect.any(Date),
+      );
+      expect(importJobRepository.release).not.toHaveBeenCalled();
+      expect(storageDriver.delete).toHaveBeenCalledWith(job.archiveKey);
+    });
+
+    it.each([
+      [
+        'a file',
+        {
+          'channels.json': channels,
+          'general/2024-01-31.json': 'x'.repeat(1100),
+        },
+        'ZIP entry "general/2024-01-31.json" exceeds 1024 bytes uncompressed',
+      ],
+      [
+        'all files together',
+        {
+          'channels.json': channels,
+          'general/2024-01-30.json': 'x'.repeat(1000),
+          'general/2024-01-31.json': 'x'.repeat(1000),
+        },
+        'ZIP archive exceeds 2048 bytes uncompressed',
+      ],
+    ])(
+      'should fail the import when %s would inflate beyond the limit',
+      async (_description, files, reason) => {
+        const job = buildJob();
+        importJobRepository.claimNext
+          .mockResolvedValueOnce(job)
+          .mockResolvedValueOnce(null);
+        serveArchive(files);
+
+        await runner.runPending(now);
+
+        expect(importJobRepository.markFailed).toHaveBeenCalledWith(
+          job,
+          reason,
+          expect.any(Date),
+        );
+        expect(messageService.createMessages).not.toHaveBeenCalled();
+      },
+    );
+  });
+});
@@ -0,0 +1,569 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ContextIdFactory, ModuleRef } from '@nestjs/core';
+import { v5 as uuidv5 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { InvalidArchiveError } from '../../common/errors/invalid-archive.error';
+import { ZipLimits } from '../../common/utils/zip.util';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from '../../attachment/storage/storage-driver.interface';
+import { MessageApplicationService } from '../../message/services/message-application.service';
+import { MessageRepository } from '../../message/repositories/mongodb-message.repository';
+import { ImportJob, ImportSkipReason } from '../entities/import-job.entity';
+import { ImportJobRepository } from '../repositories/mongodb-import-job.repository';
+import {
+  SlackArchive,
+  SlackChannel,
+  SlackMessage,
+} from '../slack/slack-archive';
+import { renderSlackText } from '../slack/slack-text';
+
+/**
+ * Namespace of the IDs derived from the records of an archive
+ *
+ * Imported conversations and messages get IDs derived from their Slack IDs,
+ * so importing a record again finds what was imported before instead of
+ * creating a duplicate.
+ */
+const SLACK_IMPORT_NAMESPACE = '8f6f7d1e-3c2b-4f0a-9d6e-5b4a3c2d1e0f';
+
+/**
+ * Subtypes of Slack records that are messages; other records, e.g. members
+ * joining or topic changes, are skipped
+ */
+const IMPORTED_SUBTYPES = [
+  undefined,
+  'thread_broadcast',
+  'me_message',
+  'file_share',
+  'bot_message',
+];
+
+/**
+ * A Slack message ready to be created
+ */
+interface ImportCandidate {
+  ts: string;
+  id: string;
+  parentId?: string;
+  item: Record<string, any>;
+}
+
+/**
+ * Import Job Runner
+ *
+ * Background job that imports uploaded archives. Channels become
+ * conversations, unless they are mapped to existing ones, and messages are
+ * created through the message service like a bulk creation, so they are
+ * cached, announced with message.created events and indexed for search like
+ * any other message.
+ *
+ * Message files are imported one at a time and the progress is saved after
+ * each, extending the lease on the import, so several instances can run side
+ * by side and an import whose runner dies is resumed once the lease expires.
+ * Records of a file that was partly imported are recognised by their
+ * derived IDs when the file is imported again.
+ *
+ * Runs outside of any request, so it works across all tenants.
+ */
+@Injectable()
+export class ImportJobRunner implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ImportJobRunner.name);
+
+  private readonly pollIntervalSeconds: number;
+  private readonly lockSeconds: number;
+  private readonly maxAttempts: number;
+  private readonly batchSize: number;
+  private readonly archiveLimits: ZipLimits;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly importJobRepository: ImportJobRepository,
+    private readonly messageRepository: MessageRepository,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalSeconds = this.configService.get<number>(
+      'imports.pollIntervalSeconds',
+      10,
+    );
+    this.lockSeconds = this.configService.get<number>(
+      'imports.lockSeconds',
+      300,
+    );
+    this.maxAttempts = this.configService.get<number>('imports.maxAttempts', 3);
+    // Messages are created in batches as large as a bulk creation allows
+    this.batchSize = this.configService.get<number>(
+      'messages.bulkMaxItems',
+      500,
+    );
+    this.archiveLimits = {
+      maxEntryBytes: this.configService.get<number>(
+        'imports.maxEntryBytes',
+        52428800,
+      ),
+      maxTotalBytes: this.configService.get<number>(
+        'imports.maxUncompressedBytes',
+        1073741824,
+      ),
+    };
+  }
+
+  /**
+   * Schedules the import runner
+   */
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.runPending();
+    }, this.pollIntervalSeconds * 1000);
+    // Do not keep the process alive only for the import runner
+    this.timer.unref();
+
+    this.logger.log(`Running imports every ${this.pollIntervalSeconds}s`);
+  }
+
+  /**
+   * Stops the import runner
+   */
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Run all pending imports and resume abandoned ones
+   *
+   * Skips the run if the previous one is still in progress. An import that
+   * fails is released and resumed on the next run, until it runs out of
+   * attempts.
+   *
+   * @param now Point in time at which abandoned imports are taken over
+   * @returns Promise resolving to the number of completed imports
+   */
+  async runPending(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      this.logger.debug('Previous import run still in progress, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let completed = 0;
+
+    try {
+      for (;;) {
+        // Imports can run long, so the claim counts from the current time
+        const job = await this.importJobRepository.claimNext(
+          now,
+          this.lockedUntil(),
+        );
+        if (!job) {
+          break;
+        }
+
+        const outcome = await this.run(job);
+        if (outcome === 'completed') {
+          completed++;
+        } else if (outcome === 'released') {
+          // Stop so the released import is not claimed again in a loop
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to run imports: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+
+    return completed;
+  }
+
+  /**
+   * Until when a claim taken or extended now holds
+   */
+  private lockedUntil(): Date {
+    return new Date(Date.now() + this.lockSeconds * 1000);
+  }
+
+  /**
+   * Import the archive of a claimed import in the context of its tenant
+   *
+   * @param job The claimed import
+   * @returns Promise resolving to whether the import completed, was released for a retry, failed for good, or was taken over by another runner
+   */
+  private async run(
+    job: ImportJob,
+  ): Promise<'completed' | 'released' | 'failed' | 'lost'> {
+    const { id, tenantId } = job;
+    this.logger.log(
+      `Running ${job.source} import ${id} of tenant: ${tenantId}`,
+    );
+
+    try {
+      // Resolve the request-scoped services for the tenant of the import
+      const contextId = ContextIdFactory.create();
+      const tenantContext = await this.moduleRef.resolve(
+        TenantContext,
+        contextId,
+        { strict: false },
+      );
+      tenantContext.setCurrentTenant(tenantId);
+      const messageService = await this.moduleRef.resolve(
+        MessageApplicationService,
+        contextId,
+        { strict: false },
+      );
+      const conversationService = await this.moduleRef.resolve(
+        ConversationApplicationService,
+        contextId,
+        { strict: false },
+      );
+
+      const archive = SlackArchive.open(
+        await this.readArchive(job),
+        this.archiveLimits,
+      );
+      await this.resolveConversations(job, archive, conversationService);
+
+      const files = archive.files();
+      job.totalFiles = files.length;
+
+      for (const { channel, file } of files.slice(job.processedFiles)) {
+        await this.importFile(job, archive, channel, file, messageService);
+        job.completeFile();
+
+        if (
+          !(await this.importJobRepository.saveProgress(
+            job,
+            this.lockedUntil(),
+          ))
+        ) {
+          this.logger.warn(`Import ${id} was taken over, stopping`);
+          return 'lost';
+        }
+      }
+
+      if (!(await this.importJobRepository.complete(job, new Date()))) {
+        this.logger.warn(`Import ${id} was taken over, stopping`);
+        return 'lost';
+      }
+      await this.deleteArchive(job);
+
+      this.logger.log(
+        `Completed ${job.source} import ${id}: ${job.imported} imported, ${job.skipped} skipped, ${job.failed} failed`,
+      );
+      return 'completed';
+    } catch (error) {
+      this.logger.error(
+        `Failed to run import ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      // An unreadable archive stays unreadable, retrying does not help
+      const outcome =
+        error instanceof InvalidArchiveError || job.attempts >= this.maxAttempts
+          ? 'failed'
+          : 'released';
+
+      try {
+        if (outcome === 'failed') {
+          await this.importJobRepository.markFailed(
+            job,
+            error.message,
+            new Date(),
+          );
+          await this.deleteArchive(job);
+        } else {
+          await this.importJobRepository.release(job, error.message);
+        }
+      } catch (updateError) {
+        this.logger.error(
+          `Failed to update import ${id}: ${updateError.message}`,
+          updateError.stack,
+        );
+        // The claim expires and the import is resumed by the next claim
+        return 'released';
+      }
+      return outcome;
+    }
+  }
+
+  /**
+   * Read the archive of an import from storage
+   *
+   * @private
+   */
+  private async readArchive(job: ImportJob): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.storageDriver.get(job.archiveKey)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Delete the archive of a finished import; a leftover archive is only
+   * logged
+   *
+   * @private
+   */
+  private async deleteArchive(job: ImportJob): Promise<void> {
+    try {
+      await this.storageDriver.delete(job.archiveKey);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete archive of import ${job.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Find or create the conversation of each channel of the archive
+   *
+   * Mapped channels are imported to their conversation. The others get a
+   * conversation of their own, with the mapped members as participants,
+   * which an import of the same channel finds again.
+   *
+   * @private
+   */
+  private async resolveConversations(
+    job: ImportJob,
+    archive: SlackArchive,
+    conversationService: ConversationApplicationService,
+  ): Promise<void> {
+    for (const channel of archive.channels()) {
+      if (job.conversations[channel.id]) {
+        continue;
+      }
+
+      const mappedId = job.mapping.channels[channel.id];
+      if (mappedId) {
+        job.conversations[channel.id] = mappedId;
+        continue;
+      }
+
+      const conversationId = uuidv5(
+        `${job.tenantId}:conversation:${channel.id}`,
+        SLACK_IMPORT_NAMESPACE,
+      );
+      if (!(await conversationService.getConversationById(conversationId))) {
+        const participants = [
+          ...new Set(
+            channel.members
+              .map((member) => job.mapping.users[member])
+              .filter((userId): userId is string => userId !== undefined),
+          ),
+        ];
+        await conversationService.createConversation(
+          {
+            title:
+              channel.name === channel.id && participants.length > 0
+                ? participants.join(', ')
+                : channel.name,
+            type: channel.type,
+            participants,
+            metadata: { importedFrom: job.source, slackChannelId: channel.id },
+          },
+          conversationId,
+        );
+        this.logger.debug(
+          `Created conversation ${conversationId} for channel ${channel.id}`,
+        );
+      }
+      job.conversations[channel.id] = conversationId;
+    }
+  }
+
+  /**
+   * Import the records of a message file
+   *
+   * Thread starters are created before replies, so that replies in the same
+   * file find their parent.
+   *
+   * @throws Error if a message could not be created for another reason than the message itself
+   * @private
+   */
+  private async importFile(
+    job: ImportJob,
+    archive: SlackArchive,
+    channel: SlackChannel,
+    file: string,
+    messageService: MessageApplicationService,
+  ): Promise<void> {
+    let records: SlackMessage[];
+    try {
+      records = archive.messages(file);
+    } catch (error) {
+      // A broken file fails on its own, the rest of the archive is imported
+      if (!(error instanceof InvalidArchiveError)) {
+        throw error;
+      }
+      job.recordFailed({ file, error: error.message });
+      return;
+    }
+
+    const candidates: ImportCandidate[] = [];
+    for (const record of records) {
+      const candidate = this.toCandidate(job, channel, file, record);
+      if (candidate) {
+        candidates.push(candidate);
+      }
+    }
+
+    const existingIds = new Set(
+      await this.messageRepository.findExistingIds(
+        candidates.map((candidate) => candidate.id),
+        job.tenantId,
+      ),
+    );
+    const newCandidates = candidates.filter((candidate) => {
+      if (existingIds.has(candidate.id)) {
+        job.recordSkipped(ImportSkipReason.ALREADY_IMPORTED);
+        return false;
+      }
+      return true;
+    });
+
+    await this.createMessages(
+      job,
+      file,
+      newCandidates.filter((candidate) => !candidate.parentId),
+      messageService,
+    );
+
+    const replies = newCandidates.filter((candidate) => candidate.parentId);
+    const parentIds = new Set(
+      await this.messageRepository.findExistingIds(
+        [...new Set(replies.map((reply) => reply.parentId as string))],
+        job.tenantId,
+      ),
+    );
+    for (const reply of replies) {
+      // Replies to a thread starter that was not imported stand on their own
+      if (!parentIds.has(reply.parentId as string)) {
+        delete reply.item.parentMessageId;
+      }
+    }
+    await this.createMessages(job, file, replies, messageService);
+  }
+
+  /**
+   * Turn a record of the archive into a message to create
+   *
+   * @returns The message, or undefined if the record is skipped or invalid, which is recorded on the import
+   * @private
+   */
+  private toCandidate(
+    job: ImportJob,
+    channel: SlackChannel,
+    file: string,
+    record: SlackMessage,
+  ): ImportCandidate | undefined {
+    const { ts } = record;
+    if (typeof ts !== 'string' || !/^\d+(\.\d+)?$/.test(ts)) {
+      job.recordFailed({ file, error: 'Record without a valid ts' });
+      return undefined;
+    }
+
+    if (
+      (record.type !== undefined && record.type !== 'message') ||
+      !IMPORTED_SUBTYPES.includes(record.subtype)
+    ) {
+      job.recordSkipped(ImportSkipReason.UNSUPPORTED_SUBTYPE);
+      return undefined;
+    }
+
+    const slackUserId = record.user ?? record.bot_id;
+    const senderId =
+      slackUserId === undefined ? undefined : job.mapping.users[slackUserId];
+    if (senderId === undefined) {
+      job.recordSkipped(ImportSkipReason.UNMAPPED_USER, slackUserId);
+      return undefined;
+    }
+
+    const content = renderSlackText(
+      typeof record.text === 'string' ? record.text : '',
+      job.mapping.users,
+    ).trim();
+    if (content.length === 0) {
+      job.recordSkipped(ImportSkipReason.EMPTY);
+      return undefined;
+    }
+
+    const isReply =
+      typeof record.thread_ts === 'string' && record.thread_ts !== ts;
+    const parentId = isReply
+      ? this.messageId(job, channel, record.thread_ts as string)
+      : undefined;
+
+    return {
+      ts,
+      id: this.messageId(job, channel, ts),
+      parentId,
+      item: {
+        conversationId: job.conversations[channel.id],
+        senderId,
+        content,
+        parentMessageId: parentId,
+        timestamp: new Date(Math.floor(Number(ts) * 1000)),
+        metadata: {
+          importedFrom: job.source,
+          slackChannelId: channel.id,
+          slackTs: ts,
+          ...(isReply && { slackThreadTs: record.thread_ts }),
+        },
+      },
+    };
+  }
+
+  /**
+   * ID of the message imported from a record
+   *
+   * @private
+   */
+  private messageId(job: ImportJob, channel: SlackChannel, ts: string): string {
+    return uuidv5(
+      `${job.tenantId}:message:${channel.id}:${ts}`,
+      SLACK_IMPORT_NAMESPACE,
+    );
+  }
+
+  /**
+   * Create messages in batches, recording the outcome of each on the import
+   *
+   * @private
+   */
+  private async createMessages(
+    job: ImportJob,
+    file: string,
+    candidates: ImportCandidate[],
+    messageService: MessageApplicationService,
+  ): Promise<void> {
+    for (let start = 0; start < candidates.length; start += this.batchSize) {
+      const batch = candidates.slice(start, start + this.batchSize);
+      const results = await messageService.createMessages(
+        batch.map((candidate) => candidate.item),
+        { canImport: true, ids: batch.map((candidate) => candidate.id) },
+      );
+
+      for (const { index, error } of results) {
+        if (error === undefined) {
+          job.recordImported();
+        } else {
+          job.recordFailed({ file, ts: batch[index].ts, error });
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { ZipArchive, ZipLimits } from '../../common/utils/zip.util';
+import { InvalidArchiveError } from '../../common/errors/invalid-archive.error';
+import { ConversationType } from '../../conversation/entities/conversation.entity';
+
+/**
+ * A channel, private group or direct conversation of a Slack export
+ */
+export interface SlackChannel {
+  id: string;
+  /** Name of the channel, or the ID of a direct conversation, which has none */
+  name: string;
+  members: string[];
+  /** Kind of conversation the channel is imported as */
+  type: ConversationType;
+  /** Directory of the channel's per-day message files */
+  directory: string;
+}
+
+/**
+ * A message of a Slack export, as far as it is imported
+ *
+ * Read from the export as is, so any field may be missing or malformed.
+ */
+export interface SlackMessage {
+  type?: string;
+  subtype?: string;
+  user?: string;
+  bot_id?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+}
+
+/**
+ * Channel lists of a Slack export, with the kind of conversation they hold
+ * and whether their directories are named after the channel or its ID
+ */
+const CHANNEL_LISTS: {
+  file: string;
+  type: ConversationType;
+  directoryBy: 'name' | 'id';
+}[] = [
+  {
+    file: 'channels.json',
+    type: ConversationType.CHANNEL,
+    directoryBy: 'name',
+  },
+  { file: 'groups.json', type: ConversationType.GROUP, directoryBy: 'name' },
+  { file: 'mpims.json', type: ConversationType.GROUP, directoryBy: 'name' },
+  { file: 'dms.json', type: ConversationType.DIRECT, directoryBy: 'id' },
+];
+
+/**
+ * Per-day message file of a channel, e.g. `general/2024-01-31.json`
+ */
+const DAY_FILE_PATTERN = /^\d{4}-\d{2}-\d{2}\.json$/;
+
+/**
+ * Slack workspace export
+ *
+ * A ZIP archive with the channel lists at its root (`channels.json`, and
+ * `groups.json`, `mpims.json` and `dms.json` for private conversations) and
+ * a directory per channel holding one JSON file of messages per day.
+ */
+export class SlackArchive {
+  private constructor(
+    private readonly archive: ZipArchive,
+    private readonly channelList: SlackChannel[],
+  ) {}
+
+  /**
+   * Opens an export
+   *
+   * @param buffer Content of the export archive
+   * @param limits Maximum uncompressed sizes of the files of the archive
+   * @throws InvalidArchiveError if the content is not a Slack export or exceeds the limits
+   */
+  static open(buffer: Buffer, limits: ZipLimits): SlackArchive {
+    const archive = ZipArchive.open(buffer, limits);
+    const root = SlackArchive.findRoot(archive);
+
+    const channels = CHANNEL_LISTS.flatMap(({ file, type, directoryBy }) => {
+      const list = SlackArchive.readJson(archive, `${root}${file}`) ?? [];
+      if (!Array.isArray(list)) {
+        throw new InvalidArchiveError(`${file} must contain a list`);
+      }
+
+      return list.map((channel: Record<string, any>): SlackChannel => {
+        if (typeof channel?.id !== 'string') {
+          throw new InvalidArchiveError(`${file} lists a channel without ID`);
+        }
+        const name =
+          typeof channel.name === 'string' ? channel.name : channel.id;
+        return {
+          id: channel.id,
+          name,
+          members: Array.isArray(channel.members)
+            ? channel.members.filter(
+                (member: unknown) => typeof member === 'string',
+              )
+            : [],
+          type,
+          directory: `${root}${directoryBy === 'name' ? name : channel.id}/`,
+        };
+      });
+    });
+
+    if (channels.length === 0) {
+      throw new InvalidArchiveError('The archive lists no channels');
+    }
+    return new SlackArchive(archive, channels);
+  }
+
+  /**
+   * Finds the directory holding the channel lists, as some tools wrap the
+   * export in a top-level directory
+   *
+   * @private
+   */
+  private static findRoot(archive: ZipArchive): string {
+    const list = archive
+      .names()
+      .filter((name) =>
+        CHANNEL_LISTS.some(
+          ({ file }) => name === file || name.endsWith(`/${file}`),
+        ),
+      )
+      .sort((a, b) => a.length - b.length)[0];
+
+    if (list === undefined) {
+      throw new InvalidArchiveError(
+        'Not a Slack export: no channels.json, groups.json, mpims.json or dms.json',
+      );
+    }
+    return list.slice(0, list.lastIndexOf('/') + 1);
+  }
+
+  /**
+   * Reads and parses a JSON file of the archive
+   *
+   * @returns The parsed content, or undefined if there is no such file
+   * @throws InvalidArchiveError if the file is not valid JSON
+   * @private
+   */
+  private static readJson(archive: ZipArchive, name: string): unknown {
+    const content = archive.read(name);
+    if (content === undefined) {
+      return undefined;
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(content.toString('utf8'));
+      return parsed;
+    } catch {
+      throw new InvalidArchiveError(`${name} is not valid JSON`);
+    }
+  }
+
+  /**
+   * The channels of the export
+   */
+  channels(): SlackChannel[] {
+    return this.channelList;
+  }
+
+  /**
+   * The message files of all channels, channel by channel and day by day
+   *
+   * The order only depends on the archive, so that an import can resume
+   * after the files it has already processed.
+   */
+  files(): { channel: SlackChannel; file: string }[] {
+    const names = this.archive.names();
+    return this.channelList.flatMap((channel) =>
+      names
+        .filter(
+          (name) =>
+            name.startsWith(channel.directory) &&
+            DAY_FILE_PATTERN.test(name.slice(channel.directory.length)),
+        )
+        .sort()
+        .map((file) => ({ channel, file })),
+    );
+  }
+
+  /**
+   * Reads the records of a per-day file, oldest first
+   *
+   * @param file Name of the file, as listed by `files()`
+   * @throws InvalidArchiveError if the file is not a list of messages
+   */
+  messages(file: string): SlackMessage[] {
+    const list = SlackArchive.readJson(this.archive, file) ?? [];
+    if (!Array.isArray(list)) {
+      throw new InvalidArchiveError(`${file} must contain a list`);
+    }
+
+    // Records without a valid `ts` sort first and are reported by the import
+    const time = (message: SlackMessage) => Number(message.ts) || 0;
+    return list
+      .filter(
+        (message: unknown): message is SlackMessage =>
+          typeof message === 'object' && message !== null,
+      )
+      .sort((a, b) => time(a) - time(b));
+  }
+}
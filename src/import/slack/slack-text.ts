@@ -0,0 +1,39 @@
+/**
+ * Renders the text of a Slack message as plain text
+ *
+ * Slack escapes `&`, `<` and `>` and wraps mentions and links in angle
+ * brackets, e.g. `<@U123>`, `<#C123|general>` or `<https://example.com|site>`.
+ * User mentions become `@user` mentions of the mapped user, so they are
+ * resolved like mentions of any other message.
+ *
+ * @param text Text of the message as exported
+ * @param users Slack user IDs mapped to user IDs
+ */
+export function renderSlackText(
+  text: string,
+  users: Record<string, string>,
+): string {
+  return text
+    .replace(/<([^<>]+)>/g, (_, inner: string) => {
+      const separator = inner.indexOf('|');
+      const target = separator < 0 ? inner : inner.slice(0, separator);
+      const label = separator < 0 ? undefined : inner.slice(separator + 1);
+
+      switch (target[0]) {
+        case '@': {
+          const slackUserId = target.slice(1);
+          return `@${users[slackUserId] ?? label ?? slackUserId}`;
+        }
+        case '#':
+          return `#${label ?? target.slice(1)}`;
+        // Special mentions such as <!here> and user groups
+        case '!':
+          return label ?? `@${target.slice(1).split('^')[0]}`;
+        default:
+          return label ? `${label} (${target})` : target;
+      }
+    })
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
@@ -105,7 +105,8 @@ async function bootstrap() {
   /**
    * CORS SETUP
    */
-  app.enableCors();
+  // Lets browser clients read message versions for conditional requests
+  app.enableCors({ exposedHeaders: ['ETag'] });
 
   /**
    * SERVER STARTUP
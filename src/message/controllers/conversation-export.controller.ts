@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ConversationExportService } from '../services/conversation-export.service';
+import {
+  ExportConversationDto,
+  TranscriptFormat,
+} from '../dto/export-conversation.dto';
+
+/**
+ * Content types of the export formats
+ */
+const TRANSCRIPT_CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  [TranscriptFormat.JSONL]: 'application/x-ndjson; charset=utf-8',
+  [TranscriptFormat.CSV]: 'text/csv; charset=utf-8',
+  [TranscriptFormat.HTML]: 'text/html; charset=utf-8',
+};
+
+/**
+ * Conversation Export Controller
+ *
+ * Implements the API endpoint for downloading conversation transcripts.
+ */
+@ApiTags('Conversation Export')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class ConversationExportController {
+  private readonly logger = new Logger(ConversationExportController.name);
+
+  constructor(
+    private readonly conversationExportService: ConversationExportService,
+  ) {
+    this.logger.log('ConversationExportController initialized');
+  }
+
+  /**
+   * Export the messages of a conversation
+   *
+   * Streams every message of the conversation, oldest first, as a file.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('conversations/:conversationId/export')
+  @ApiOperation({
+    summary: 'Export a conversation',
+    description:
+      'Streams every message of a conversation in timestamp order as a JSON Lines, CSV or HTML file. Unlike the message listing it is not paginated. Deleted and expired messages are left out. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiQuery({
+    name: 'format',
+    description: 'Format of the export',
+    required: false,
+    enum: TranscriptFormat,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The transcript of the conversation.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Unknown format.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async exportConversation(
+    @Param('conversationId') conversationId: string,
+    @Query() exportConversationDto: ExportConversationDto,
+  ): Promise<StreamableFile> {
+    const { format } = exportConversationDto;
+    const result = await this.conversationExportService.exportConversation(
+      conversationId,
+      format,
+    );
+
+    if (!result) {
+      this.logger.warn(`Conversation with ID: ${conversationId} not found`);
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+
+    const filename = `conversation-${conversationId}.${format}`;
+    return new StreamableFile(result.content, {
+      type: TRANSCRIPT_CONTENT_TYPES[format],
+      disposition: `attachment; filename="${encodeURIComponent(filename)}"`,
+    });
+  }
+}
@@ -0,0 +1,274 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Put,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { DraftApplicationService } from '../services/draft-application.service';
+import { SaveDraftDto } from '../dto/save-draft.dto';
+import { MessageDraftResponseDto } from '../dto/message-draft-response.dto';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthUser } from '../../common/guards/auth.guard';
+
+/**
+ * Draft Controller
+ *
+ * Implements API endpoints for the unsent drafts of the current user.
+ */
+@ApiTags('Drafts')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class DraftController {
+  private readonly logger = new Logger(DraftController.name);
+
+  constructor(
+    private readonly draftApplicationService: DraftApplicationService,
+  ) {
+    this.logger.log('DraftController initialized');
+  }
+
+  /**
+   * Save my draft in a conversation
+   *
+   * Replaces the previous draft. Requires tenant ID header (x-tenant-id).
+   */
+  @Put('conversations/:conversationId/drafts/me')
+  @ApiOperation({
+    summary: 'Save my draft',
+    description:
+      'Stores the unsent draft of the current user in a conversation, replacing the previous one. The draft is cleared when the user posts a message to the conversation. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The draft has been saved.',
+    type: MessageDraftResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async saveDraft(
+    @Param('conversationId') conversationId: string,
+    @Body() saveDraftDto: SaveDraftDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageDraftResponseDto> {
+    const draft = await this.draftApplicationService.saveDraft(
+      conversationId,
+      user.id,
+      saveDraftDto,
+    );
+
+    return MessageDraftResponseDto.fromEntity(draft);
+  }
+
+  /**
+   * Get my draft in a conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('conversations/:conversationId/drafts/me')
+  @ApiOperation({
+    summary: 'Get my draft',
+    description:
+      'Returns the unsent draft of the current user in a conversation. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Draft retrieved successfully.',
+    type: MessageDraftResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No draft in this conversation.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getDraft(
+    @Param('conversationId') conversationId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageDraftResponseDto> {
+    const draft = await this.draftApplicationService.getDraft(
+      conversationId,
+      user.id,
+    );
+
+    if (!draft) {
+      this.logger.warn(
+        `Draft of user: ${user.id} in conversation: ${conversationId} not found`,
+      );
+      throw new NotFoundException(
+        `Draft in conversation with ID "${conversationId}" not found`,
+      );
+    }
+
+    return MessageDraftResponseDto.fromEntity(draft);
+  }
+
+  /**
+   * Delete my draft in a conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Delete('conversations/:conversationId/drafts/me')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete my draft',
+    description:
+      'Discards the unsent draft of the current user in a conversation. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The draft has been deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'No draft in this conversation.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async deleteDraft(
+    @Param('conversationId') conversationId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const deleted = await this.draftApplicationService.deleteDraft(
+      conversationId,
+      user.id,
+    );
+
+    if (!deleted) {
+      this.logger.warn(
+        `Draft of user: ${user.id} in conversation: ${conversationId} not found`,
+      );
+      throw new NotFoundException(
+        `Draft in conversation with ID "${conversationId}" not found`,
+      );
+    }
+  }
+
+  /**
+   * List my drafts
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('users/me/drafts')
+  @ApiOperation({
+    summary: 'Get my drafts',
+    description:
+      'Retrieves the drafts of the current user across conversations with pagination, most recently saved first. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number for pagination',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    description: 'Number of items per page',
+    required: false,
+    type: Number,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Drafts retrieved successfully.',
+    type: PaginatedResponseDto<MessageDraftResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getMyDrafts(
+    @CurrentUser() user: AuthUser,
+    @Query(new ValidationPipe({ transform: true }))
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponseDto<MessageDraftResponseDto>> {
+    const { page = 1, limit = 10 } = paginationDto;
+
+    const result = await this.draftApplicationService.getDrafts(user.id, {
+      page,
+      limit,
+    });
+
+    return {
+      data: result.drafts.map((draft) =>
+        MessageDraftResponseDto.fromEntity(draft),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  BulkDeleteMessagesDto,
+  BulkUpdateMessagesDto,
+} from '../dto/bulk-message-job.dto';
+import { MessageJobResponseDto } from '../dto/message-job-response.dto';
+import { MessageJobApplicationService } from '../services/message-job-application.service';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AuthUser, Role } from '../../common/guards/auth.guard';
+
+/**
+ * Message Job Controller
+ *
+ * Implements API endpoints for moderators to delete or relabel many
+ * messages at once. The changes run as background jobs whose progress can
+ * be followed.
+ */
+@ApiTags('Message Jobs')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Roles(Role.MODERATOR)
+@Controller({ path: 'api', version: ['1'] })
+export class MessageJobController {
+  private readonly logger = new Logger(MessageJobController.name);
+
+  constructor(
+    private readonly messageJobApplicationService: MessageJobApplicationService,
+  ) {
+    this.logger.log('MessageJobController initialized');
+  }
+
+  /**
+   * Delete messages in bulk
+   *
+   * Starts a job soft deleting the messages matching a filter or listed by ID.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/bulk-delete')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Delete messages in bulk',
+    description:
+      'Starts a background job soft deleting the messages that match a filter (conversation, sender, time range, metadata) or are listed by ID. Messages sent after the request are not affected. Follow the progress with `GET /jobs/:id`. Requires the moderator role and tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'The job has been started.',
+    type: MessageJobResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Bad Request - Both or neither of filter and ids given, or an empty or invalid filter',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not a moderator',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    description: 'Server error.',
+  })
+  async bulkDeleteMessages(
+    @Body() bulkDeleteMessagesDto: BulkDeleteMessagesDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageJobResponseDto> {
+    const job = await this.messageJobApplicationService.startBulkDelete(
+      bulkDeleteMessagesDto,
+      user.id,
+    );
+
+    this.logger.log(`Started bulk delete job with ID: ${job.id}`);
+    return MessageJobResponseDto.fromEntity(job);
+  }
+
+  /**
+   * Update the metadata of messages in bulk
+   *
+   * Starts a job merging metadata into the messages matching a filter or listed by ID.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/bulk-update')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Update the metadata of messages in bulk',
+    description:
+      'Starts a background job merging the given metadata into the metadata of the messages that match a filter (conversation, sender, time range, metadata) or are listed by ID. Each changed message gets a new revision, as with a single update. Messages sent after the request are not affected. Follow the progress with `GET /jobs/:id`. Requires the moderator role and tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'The job has been started.',
+    type: MessageJobResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Bad Request - Both or neither of filter and ids given, an empty or invalid filter, or empty metadata',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not a moderator',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    description: 'Server error.',
+  })
+  async bulkUpdateMessages(
+    @Body() bulkUpdateMessagesDto: BulkUpdateMessagesDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageJobResponseDto> {
+    const job = await this.messageJobApplicationService.startBulkUpdate(
+      bulkUpdateMessagesDto,
+      user.id,
+    );
+
+    this.logger.log(`Started bulk update job with ID: ${job.id}`);
+    return MessageJobResponseDto.fromEntity(job);
+  }
+
+  /**
+   * Get a job by ID
+   *
+   * Reports the status and progress of a bulk delete or update.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('jobs/:id')
+  @ApiOperation({
+    summary: 'Get a job by ID',
+    description:
+      'Retrieves the status and progress of a bulk delete or update, with the first messages that could not be changed. Requires the moderator role and tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the job',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Job retrieved successfully.',
+    type: MessageJobResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Job not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not a moderator',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  async getJob(@Param('id') id: string): Promise<MessageJobResponseDto> {
+    const job = await this.messageJobApplicationService.getJob(id);
+    if (!job) {
+      this.logger.warn(`Job with ID: ${id} not found`);
+      throw new NotFoundException(`Job with ID "${id}" not found`);
+    }
+
+    return MessageJobResponseDto.fromEntity(job);
+  }
+}
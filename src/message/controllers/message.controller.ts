@@ -12,9 +12,13 @@ import {
   ValidationPipe,
   NotFoundException,
   Logger,
+  Headers,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
   ApiBearerAuth,
+  ApiHeader,
   ApiOperation,
   ApiParam,
   ApiResponse,
@@ -26,8 +30,27 @@ import { CreateMessageDto } from '../dto/create-message.dto';
 import { MessageResponseDto } from '../dto/message-response.dto';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { MessageApplicationService } from '../services/message-application.service';
+import { ScheduledMessageApplicationService } from '../services/scheduled-message-application.service';
+import { ScheduledMessageResponseDto } from '../dto/scheduled-message-response.dto';
+import { IdempotencyService } from '../services/idempotency.service';
 import { UpdateMessageDto } from '../dto/update-message.dto';
+import { BulkCreateMessagesDto } from '../dto/bulk-create-messages.dto';
+import { BulkCreateMessagesResponseDto } from '../dto/bulk-create-messages-response.dto';
 import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+import { ReactionDto } from '../dto/reaction.dto';
+import { CastVoteDto } from '../dto/cast-vote.dto';
+import { ForwardMessageDto } from '../dto/forward-message.dto';
+import { DeliveryReceiptDto } from '../dto/delivery-receipt.dto';
+import { MessageRevisionResponseDto } from '../dto/message-revision-response.dto';
+import { MessageOriginalResponseDto } from '../dto/message-original-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AuthUser, Role } from '../../common/guards/auth.guard';
+import {
+  matchesIfNoneMatch,
+  parseIfMatch,
+  toETag,
+} from '../../common/utils/etag.util';
 
 /**
  * Message Controller
@@ -44,6 +67,8 @@ export class MessageController {
 
   constructor(
     private readonly messageApplicationService: MessageApplicationService,
+    private readonly scheduledMessageApplicationService: ScheduledMessageApplicationService,
+    private readonly idempotencyService: IdempotencyService,
   ) {
     this.logger.log('MessageController initialized');
   }
@@ -52,6 +77,8 @@ export class MessageController {
    * Create a new message
    *
    * Creates a new message and stores it in the database, then publishes a message event to Kafka.
+   * With a `sendAt` in the future, the message is scheduled instead and only created at that time.
+   * With an `Idempotency-Key` header, retries of the request return the first response.
    * Requires tenant ID header (x-tenant-id).
    */
   @Post('messages')
@@ -59,13 +86,30 @@ export class MessageController {
   @ApiOperation({
     summary: 'Create a new message',
     description:
-      'Creates a new message and stores it in the database, then publishes a message event to Kafka. Requires tenant ID header (x-tenant-id).',
+      'Creates a new message and stores it in the database, then publishes a message event to Kafka. With a `sendAt` in the future, the message is scheduled instead and the scheduled message is returned. Requests sent with an `Idempotency-Key` header are processed once; retrying them with the same key and body returns the original response. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description:
+      'Unique key of the request, e.g. a UUID, so that it can be retried safely',
+    required: false,
   })
   @ApiResponse({
     status: HttpStatus.CREATED,
-    description: 'The message has been successfully created.',
+    description:
+      'The message has been successfully created, or scheduled if `sendAt` is in the future.',
     type: MessageResponseDto,
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Conflict - A request with the same idempotency key is still being processed',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    description:
+      'Unprocessable - The idempotency key was already used for a different request',
+  })
   @ApiResponse({
     status: HttpStatus.FORBIDDEN,
     description: 'Forbidden - Missing or invalid tenant ID',
@@ -80,27 +124,149 @@ export class MessageController {
   })
   async createMessage(
     @Body() createMessageDto: CreateMessageDto,
-  ): Promise<MessageResponseDto> {
+    @CurrentUser() user: AuthUser,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ): Promise<MessageResponseDto | ScheduledMessageResponseDto> {
     this.logger.debug(`Creating message: ${JSON.stringify(createMessageDto)}`);
 
-    const message =
-      await this.messageApplicationService.createMessage(createMessageDto);
+    if (idempotencyKey !== undefined) {
+      return this.idempotencyService.execute(
+        idempotencyKey,
+        { route: 'POST /messages', body: createMessageDto },
+        () => this.submitMessage(createMessageDto, user),
+      );
+    }
+
+    return this.submitMessage(createMessageDto, user);
+  }
+
+  /**
+   * Create a message, or schedule it for the user if its `sendAt` is in the
+   * future
+   */
+  private async submitMessage(
+    createMessageDto: CreateMessageDto,
+    user: AuthUser,
+  ): Promise<MessageResponseDto | ScheduledMessageResponseDto> {
+    const { sendAt } = createMessageDto;
+    if (sendAt && sendAt.getTime() > Date.now()) {
+      const scheduledMessage =
+        await this.scheduledMessageApplicationService.scheduleMessage(
+          { ...createMessageDto, sendAt },
+          user.id,
+        );
+
+      this.logger.log(
+        `Message scheduled with ID: ${scheduledMessage.id} for ${sendAt.toISOString()}`,
+      );
+      return ScheduledMessageResponseDto.fromEntity(scheduledMessage);
+    }
+
+    const message = await this.messageApplicationService.createMessage(
+      createMessageDto,
+      { draftOf: user.id },
+    );
 
     this.logger.log(`Message created with ID: ${message.id}`);
     return MessageResponseDto.fromEntity(message);
   }
 
+  /**
+   * Create messages in bulk
+   *
+   * Creates up to the configured number of messages in one request, e.g. to backfill history.
+   * Each message is validated on its own and gets its own result.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/bulk')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Create messages in bulk',
+    description:
+      'Creates several messages at once, e.g. to backfill history. Each message is validated on its own; the response holds the result of each message in the order of the request, so some can be created while others fail. The messages are saved together and their message events are published to Kafka in batches. Messages cannot be scheduled, and replies must refer to existing messages. Only users with the importer role can set the original `timestamp` of the messages. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description:
+      'Unique key of the request, e.g. a UUID, so that it can be retried safely',
+    required: false,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The result of each message of the request.',
+    type: BulkCreateMessagesResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Bad Request - No messages, or more than allowed at once',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or a timestamp was given without the importer role',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Conflict - A request with the same idempotency key is still being processed',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    description:
+      'Unprocessable - The idempotency key was already used for a different request',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    description: 'Server error.',
+  })
+  async createMessages(
+    @Body() bulkCreateMessagesDto: BulkCreateMessagesDto,
+    @CurrentUser() user: AuthUser,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ): Promise<BulkCreateMessagesResponseDto> {
+    this.logger.debug(
+      `Creating ${bulkCreateMessagesDto.messages.length} messages in bulk`,
+    );
+
+    const submit = async () =>
+      BulkCreateMessagesResponseDto.fromResults(
+        await this.messageApplicationService.createMessages(
+          bulkCreateMessagesDto.messages,
+          { canImport: user.roles.includes(Role.IMPORTER) },
+        ),
+      );
+
+    if (idempotencyKey !== undefined) {
+      return this.idempotencyService.execute(
+        idempotencyKey,
+        { route: 'POST /messages/bulk', body: bulkCreateMessagesDto },
+        submit,
+      );
+    }
+
+    return submit();
+  }
+
   /**
    * Get a specific message by ID
    *
-   * Retrieves a single message by its ID.
+   * Retrieves a single message by its ID, with its version as ETag.
    * Requires tenant ID header (x-tenant-id).
    */
   @Get('messages/:id')
   @ApiOperation({
     summary: 'Get a message by ID',
     description:
-      'Retrieves a specific message by its ID. Requires tenant ID header (x-tenant-id).',
+      'Retrieves a specific message by its ID. The `ETag` header carries the version of the message; with a matching `If-None-Match` header, 304 Not Modified is returned instead. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiHeader({
+    name: 'If-None-Match',
+    description: 'ETag of the version of the message the client has',
+    required: false,
   })
   @ApiParam({
     name: 'id',
@@ -113,6 +279,10 @@ export class MessageController {
     description: 'Message retrieved successfully.',
     type: MessageResponseDto,
   })
+  @ApiResponse({
+    status: HttpStatus.NOT_MODIFIED,
+    description: 'The message has not changed since the given ETag.',
+  })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Message not found.',
@@ -129,16 +299,33 @@ export class MessageController {
     status: HttpStatus.FORBIDDEN,
     description: 'Forbidden - Missing or invalid tenant ID',
   })
-  async getMessageById(@Param('id') id: string): Promise<MessageResponseDto> {
+  async getMessageById(
+    @Param('id') id: string,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Res({ passthrough: true }) response: Response,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto | void> {
     this.logger.debug(`Retrieving message with ID: ${id}`);
 
-    const message = await this.messageApplicationService.getMessageById(id);
+    // Served from the cache when possible, so unchanged messages cost no query
+    const message = await this.messageApplicationService.getMessageById(
+      id,
+      user.id,
+    );
 
     if (!message) {
       this.logger.warn(`Message with ID: ${id} not found`);
       throw new NotFoundException(`Message with ID "${id}" not found`);
     }
 
+    const etag = toETag(message.version);
+    response.setHeader('ETag', etag);
+    if (matchesIfNoneMatch(ifNoneMatch, etag)) {
+      this.logger.debug(`Message with ID: ${id} not modified`);
+      response.status(HttpStatus.NOT_MODIFIED);
+      return;
+    }
+
     this.logger.log(`Retrieved message with ID: ${id}`);
     return MessageResponseDto.fromEntity(message);
   }
@@ -153,7 +340,13 @@ export class MessageController {
   @ApiOperation({
     summary: 'Update a message',
     description:
-      'Updates an existing message by its ID. Requires tenant ID header (x-tenant-id).',
+      'Updates an existing message by its ID. With an `If-Match` header, the update only applies to that version of the message; the `ETag` header of the response carries the new version. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    description:
+      'ETag of the version of the message the update applies to; required if MESSAGE_REQUIRE_IF_MATCH is set',
+    required: false,
   })
   @ApiParam({
     name: 'id',
@@ -174,6 +367,19 @@ export class MessageController {
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input data.',
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Conflict - The message changed while it was being updated without If-Match',
+  })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_FAILED,
+    description: 'Precondition failed - The message has changed since the ETag',
+  })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_REQUIRED,
+    description: 'Precondition required - The If-Match header is missing',
+  })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
     description: 'Unauthorized.',
@@ -189,12 +395,17 @@ export class MessageController {
   async updateMessage(
     @Param('id') id: string,
     @Body() updateMessageDto: UpdateMessageDto,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-match') ifMatch: string | undefined,
+    @Res({ passthrough: true }) response: Response,
   ): Promise<MessageResponseDto> {
     this.logger.debug(`Updating message with ID: ${id}`);
 
     const message = await this.messageApplicationService.updateMessage(
       id,
       updateMessageDto,
+      user.id,
+      parseIfMatch(ifMatch),
     );
 
     if (!message) {
@@ -202,6 +413,7 @@ export class MessageController {
       throw new NotFoundException(`Message with ID "${id}" not found`);
     }
 
+    response.setHeader('ETag', toETag(message.version));
     this.logger.log(`Updated message with ID: ${id}`);
     return MessageResponseDto.fromEntity(message);
   }
@@ -209,7 +421,7 @@ export class MessageController {
   /**
    * Delete a message
    *
-   * Deletes a message by its ID.
+   * Soft deletes a message by its ID; it can be restored within the restore window.
    * Requires tenant ID header (x-tenant-id).
    */
   @Delete('messages/:id')
@@ -217,7 +429,13 @@ export class MessageController {
   @ApiOperation({
     summary: 'Delete a message',
     description:
-      'Deletes a message by its ID. Requires tenant ID header (x-tenant-id).',
+      'Soft deletes a message by its ID. The message can be restored within the restore window, after which it is purged. With an `If-Match` header, the message is only deleted at that version. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiHeader({
+    name: 'If-Match',
+    description:
+      'ETag of the version of the message to delete; required if MESSAGE_REQUIRE_IF_MATCH is set',
+    required: false,
   })
   @ApiParam({
     name: 'id',
@@ -233,6 +451,14 @@ export class MessageController {
     status: HttpStatus.NOT_FOUND,
     description: 'Message not found.',
   })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_FAILED,
+    description: 'Precondition failed - The message has changed since the ETag',
+  })
+  @ApiResponse({
+    status: HttpStatus.PRECONDITION_REQUIRED,
+    description: 'Precondition required - The If-Match header is missing',
+  })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
     description: 'Unauthorized.',
@@ -245,10 +471,18 @@ export class MessageController {
     status: HttpStatus.FORBIDDEN,
     description: 'Forbidden - Missing or invalid tenant ID',
   })
-  async deleteMessage(@Param('id') id: string): Promise<void> {
+  async deleteMessage(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+    @Headers('if-match') ifMatch: string | undefined,
+  ): Promise<void> {
     this.logger.debug(`Deleting message with ID: ${id}`);
 
-    const result = await this.messageApplicationService.deleteMessage(id);
+    const result = await this.messageApplicationService.deleteMessage(
+      id,
+      user.id,
+      parseIfMatch(ifMatch),
+    );
 
     if (!result) {
       this.logger.warn(`Message with ID: ${id} not found`);
@@ -258,6 +492,194 @@ export class MessageController {
     this.logger.log(`Deleted message with ID: ${id}`);
   }
 
+  /**
+   * Restore a deleted message
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/:id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore a deleted message',
+    description:
+      'Restores a soft-deleted message while it is within the restore window. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message to restore',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The message has been successfully restored.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Message is not deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.GONE,
+    description: 'Restore window has passed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async restoreMessage(@Param('id') id: string): Promise<MessageResponseDto> {
+    const message = await this.messageApplicationService.restoreMessage(id);
+
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    this.logger.log(`Restored message with ID: ${id}`);
+    return MessageResponseDto.fromEntity(message);
+  }
+
+  /**
+   * Forward a message
+   *
+   * Posts a new message quoting the message to another conversation of the tenant.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/:id/forward')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Forward a message',
+    description:
+      'Posts a new message to the target conversation that quotes a snapshot of the content and sender of the message. The current user must be a participant of both conversations. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message to forward',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The message has been successfully forwarded.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message or target conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Target conversation is closed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or not a participant of the target conversation',
+  })
+  async forwardMessage(
+    @Param('id') id: string,
+    @Body() forwardMessageDto: ForwardMessageDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto> {
+    this.logger.debug(`Forwarding message with ID: ${id}`);
+
+    const message = await this.messageApplicationService.forwardMessage(
+      id,
+      forwardMessageDto,
+      user.id,
+    );
+
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    this.logger.log(`Forwarded message with ID: ${id} as ${message.id}`);
+    return MessageResponseDto.fromEntity(message);
+  }
+
+  /**
+   * Acknowledge the delivery of a message
+   *
+   * Records that the current user has received or read the message.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/:id/delivery-receipts')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Acknowledge the delivery of a message',
+    description:
+      'Records that the current user, a recipient of the message, has received (`delivered`) or read (`read`) it. Statuses only move forward; acknowledging the current status again changes nothing. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message to acknowledge',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The receipt has been recorded.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid status.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'The status would go backwards, e.g. `delivered` after `read`, or the message was not sent.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or not a recipient of the message',
+  })
+  async acknowledgeDelivery(
+    @Param('id') id: string,
+    @Body() deliveryReceiptDto: DeliveryReceiptDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto> {
+    this.logger.debug(
+      `Acknowledging message with ID: ${id} as ${deliveryReceiptDto.status}`,
+    );
+
+    const message = await this.messageApplicationService.acknowledgeDelivery(
+      id,
+      user.id,
+      deliveryReceiptDto.status,
+    );
+
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    this.logger.log(`Acknowledged message with ID: ${id}`);
+    return MessageResponseDto.fromEntity(message);
+  }
+
   /**
    * Get messages for a conversation
    *
@@ -403,4 +825,514 @@ export class MessageController {
       },
     };
   }
+
+  /**
+   * Get replies to a message
+   *
+   * Retrieves direct replies to a message with pagination and sorting.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('messages/:id/replies')
+  @ApiOperation({
+    summary: 'Get replies to a message',
+    description:
+      'Retrieves direct replies to a message with pagination and sorting. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the parent message',
+    type: String,
+    required: true,
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number for pagination',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    description: 'Number of items per page',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'sortField',
+    description: 'Field to sort by',
+    required: false,
+    type: String,
+  })
+  @ApiQuery({
+    name: 'sortDirection',
+    description: 'Direction to sort (asc or desc)',
+    required: false,
+    enum: ['asc', 'desc'],
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Replies retrieved successfully.',
+    type: PaginatedResponseDto<MessageResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getReplies(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true }))
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponseDto<MessageResponseDto>> {
+    this.logger.debug(
+      `Getting replies to message: ${id} with pagination: ${JSON.stringify(paginationDto)}`,
+    );
+
+    const { page = 1, limit = 10, sortField, sortDirection } = paginationDto;
+
+    const result = await this.messageApplicationService.getReplies(id, {
+      page,
+      limit,
+      sort:
+        sortField && sortDirection
+          ? { field: sortField, direction: sortDirection }
+          : undefined,
+    });
+
+    if (!result) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    return {
+      data: result.messages.map((message) =>
+        MessageResponseDto.fromEntity(message),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the messages mentioning the current user
+   *
+   * Retrieves messages whose content mentions the authenticated user with
+   * `@user`, with pagination and sorting. Requires tenant ID header (x-tenant-id).
+   */
+  @Get('users/me/mentions')
+  @ApiOperation({
+    summary: 'Get my mentions',
+    description:
+      'Retrieves messages mentioning the authenticated user with pagination and sorting, newest first by default. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number for pagination',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    description: 'Number of items per page',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'sortField',
+    description: 'Field to sort by',
+    required: false,
+    type: String,
+  })
+  @ApiQuery({
+    name: 'sortDirection',
+    description: 'Direction to sort (asc or desc)',
+    required: false,
+    enum: ['asc', 'desc'],
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Mentions retrieved successfully.',
+    type: PaginatedResponseDto<MessageResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getMyMentions(
+    @CurrentUser() user: AuthUser,
+    @Query(new ValidationPipe({ transform: true }))
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponseDto<MessageResponseDto>> {
+    this.logger.debug(
+      `Getting mentions of user: ${user.id} with pagination: ${JSON.stringify(paginationDto)}`,
+    );
+
+    const { page = 1, limit = 10, sortField, sortDirection } = paginationDto;
+
+    const result = await this.messageApplicationService.getMentions(user.id, {
+      page,
+      limit,
+      sort:
+        sortField && sortDirection
+          ? { field: sortField, direction: sortDirection }
+          : undefined,
+    });
+
+    return {
+      data: result.messages.map((message) =>
+        MessageResponseDto.fromEntity(message),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the edit history of a message
+   *
+   * Retrieves the previous versions of a message, newest first.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('messages/:id/revisions')
+  @ApiOperation({
+    summary: 'Get the edit history of a message',
+    description:
+      'Retrieves the previous versions of a message with the editor, edit time and diff of each edit, newest first. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message',
+    type: String,
+    required: true,
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number for pagination',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    description: 'Number of items per page',
+    required: false,
+    type: Number,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Revisions retrieved successfully.',
+    type: PaginatedResponseDto<MessageRevisionResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getRevisions(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true }))
+    paginationDto: PaginationDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<PaginatedResponseDto<MessageRevisionResponseDto>> {
+    const { page = 1, limit = 10 } = paginationDto;
+
+    const result = await this.messageApplicationService.getRevisions(
+      id,
+      user.id,
+      { page, limit },
+    );
+
+    if (!result) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    return {
+      data: result.revisions.map((revision) =>
+        MessageRevisionResponseDto.fromEntity(revision),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get the original content of a redacted message
+   *
+   * Returns the content as sent, before personal data was redacted from it.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('messages/:id/original')
+  @Roles(Role.COMPLIANCE)
+  @ApiOperation({
+    summary: 'Get the original content of a redacted message',
+    description:
+      'Decrypts the content and body of a message as they were sent, before personal data was redacted from them. Only available if the tenant keeps originals. Every read is logged. Requires the compliance role and tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Original content retrieved successfully.',
+    type: MessageOriginalResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description:
+      'Message not found, or nothing was redacted from it or its original was not kept.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user does not have the compliance role',
+  })
+  async getOriginalContent(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageOriginalResponseDto> {
+    const original = await this.messageApplicationService.getOriginalContent(
+      id,
+      user.id,
+    );
+    if (!original) {
+      this.logger.warn(`Original content of message with ID: ${id} not found`);
+      throw new NotFoundException(
+        `Original content of message with ID "${id}" not found`,
+      );
+    }
+
+    return MessageOriginalResponseDto.fromOriginal(id, original);
+  }
+
+  /**
+   * Add a reaction to a message
+   *
+   * Adds the current user's reaction; repeating the same reaction has no effect.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/:id/reactions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Add a reaction to a message',
+    description:
+      'Adds a reaction of the current user to a message. Idempotent per user and emoji. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The reaction has been added.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async addReaction(
+    @Param('id') id: string,
+    @Body() reactionDto: ReactionDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageApplicationService.addReaction(
+      id,
+      reactionDto.emoji,
+      user.id,
+    );
+
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    return MessageResponseDto.fromEntity(message);
+  }
+
+  /**
+   * Remove a reaction from a message
+   *
+   * Removes the current user's reaction given by the `emoji` query parameter.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Delete('messages/:id/reactions')
+  @ApiOperation({
+    summary: 'Remove a reaction from a message',
+    description:
+      'Removes a reaction of the current user from a message. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message',
+    type: String,
+    required: true,
+  })
+  @ApiQuery({
+    name: 'emoji',
+    description: 'The reaction emoji to remove',
+    required: true,
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The reaction has been removed.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async removeReaction(
+    @Param('id') id: string,
+    @Query(new ValidationPipe({ transform: true })) reactionDto: ReactionDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageApplicationService.removeReaction(
+      id,
+      reactionDto.emoji,
+      user.id,
+    );
+
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    return MessageResponseDto.fromEntity(message);
+  }
+
+  /**
+   * Vote in a poll
+   *
+   * Records the current user's vote; every participant votes once.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('messages/:id/votes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Vote in a poll',
+    description:
+      'Records the vote of the current user in a poll message and returns the poll with its live results. Every participant of the conversation votes once, for exactly one option unless the poll allows several. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the poll message',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The vote has been recorded.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Invalid input data, the message is not a poll, or the options do not fit the poll.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The user has already voted, or the poll is closed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not a participant of the conversation',
+  })
+  async castVote(
+    @Param('id') id: string,
+    @Body() castVoteDto: CastVoteDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageApplicationService.castVote(
+      id,
+      castVoteDto.optionIndexes,
+      user.id,
+    );
+
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    return MessageResponseDto.fromEntity(message);
+  }
 }
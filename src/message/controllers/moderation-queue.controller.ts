@@ -0,0 +1,182 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ModerationQueueQueryDto,
+  ReviewMessageDto,
+} from '../dto/review-message.dto';
+import { MessageResponseDto } from '../dto/message-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+import { MessageApplicationService } from '../services/message-application.service';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { AuthUser, Role } from '../../common/guards/auth.guard';
+
+/**
+ * Moderation Queue Controller
+ *
+ * Implements API endpoints for moderators to review the messages that
+ * moderation rules flagged. Flagged messages are hidden from everyone but
+ * their sender until they are approved.
+ */
+@ApiTags('Moderation')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Roles(Role.MODERATOR)
+@Controller({ path: 'api', version: ['1'] })
+export class ModerationQueueController {
+  private readonly logger = new Logger(ModerationQueueController.name);
+
+  constructor(
+    private readonly messageApplicationService: MessageApplicationService,
+  ) {
+    this.logger.log('ModerationQueueController initialized');
+  }
+
+  /**
+   * Get the messages held for review
+   *
+   * Lists the flagged messages waiting for a decision, oldest first.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('moderation/queue')
+  @ApiOperation({
+    summary: 'Get the moderation queue',
+    description:
+      'Retrieves the messages flagged by moderation rules that wait for review, oldest first, with the rules they broke. Requires the moderator role and tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Messages retrieved successfully.',
+    type: PaginatedResponseDto<MessageResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not a moderator',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    description: 'Server error.',
+  })
+  async getModerationQueue(
+    @Query(new ValidationPipe({ transform: true }))
+    queryDto: ModerationQueueQueryDto,
+  ): Promise<PaginatedResponseDto<MessageResponseDto>> {
+    const { page = 1, limit = 10, conversationId } = queryDto;
+
+    const result = await this.messageApplicationService.getModerationQueue({
+      page,
+      limit,
+      conversationId,
+    });
+
+    return {
+      data: result.messages.map((message) =>
+        MessageResponseDto.fromEntity(message),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Review a message held for review
+   *
+   * Approves or rejects a flagged message. Requires tenant ID header (x-tenant-id).
+   */
+  @Post('moderation/queue/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Review a flagged message',
+    description:
+      'Approves or rejects a message waiting for review. An approved message becomes visible to the participants and is delivered; a rejected message stays visible to its sender only. Requires the moderator role and tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the message',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The message has been reviewed.',
+    type: MessageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Bad Request - Invalid status',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Conflict - The message is not waiting for review, or changed concurrently',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Forbidden - Missing or invalid tenant ID, or the user is not a moderator',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.INTERNAL_SERVER_ERROR,
+    description: 'Server error.',
+  })
+  async reviewMessage(
+    @Param('id') id: string,
+    @Body() reviewMessageDto: ReviewMessageDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessageResponseDto> {
+    const message = await this.messageApplicationService.reviewMessage(
+      id,
+      reviewMessageDto.status,
+      user.id,
+    );
+    if (!message) {
+      this.logger.warn(`Message with ID: ${id} not found`);
+      throw new NotFoundException(`Message with ID "${id}" not found`);
+    }
+
+    this.logger.log(
+      `Message with ID: ${id} reviewed as ${reviewMessageDto.status}`,
+    );
+    return MessageResponseDto.fromEntity(message);
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PinApplicationService } from '../services/pin-application.service';
+import { MessagePinResponseDto } from '../dto/message-pin-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthUser } from '../../common/guards/auth.guard';
+
+/**
+ * Pin Controller
+ *
+ * Implements API endpoints for pinning messages to conversations.
+ */
+@ApiTags('Pins')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class PinController {
+  private readonly logger = new Logger(PinController.name);
+
+  constructor(private readonly pinApplicationService: PinApplicationService) {
+    this.logger.log('PinController initialized');
+  }
+
+  /**
+   * Pin a message to its conversation
+   *
+   * Pinning an already pinned message returns the existing pin.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('conversations/:conversationId/pins/:messageId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Pin a message',
+    description:
+      'Pins a message to its conversation. Pinning an already pinned message returns the existing pin. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiParam({
+    name: 'messageId',
+    description: 'The ID of the message to pin',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The message is pinned.',
+    type: MessagePinResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Message belongs to another conversation.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation or message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The conversation already has the maximum number of pins.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async pinMessage(
+    @Param('conversationId') conversationId: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<MessagePinResponseDto> {
+    const pin = await this.pinApplicationService.pinMessage(
+      conversationId,
+      messageId,
+      user.id,
+    );
+
+    return MessagePinResponseDto.fromEntity(pin);
+  }
+
+  /**
+   * Unpin a message
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Delete('conversations/:conversationId/pins/:messageId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Unpin a message',
+    description:
+      'Removes the pin of a message. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiParam({
+    name: 'messageId',
+    description: 'The ID of the message to unpin',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The message has been unpinned.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found or message not pinned.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async unpinMessage(
+    @Param('conversationId') conversationId: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const removed = await this.pinApplicationService.unpinMessage(
+      conversationId,
+      messageId,
+      user.id,
+    );
+
+    if (!removed) {
+      this.logger.warn(`Message with ID: ${messageId} is not pinned`);
+      throw new NotFoundException(
+        `Pin of message with ID "${messageId}" not found`,
+      );
+    }
+  }
+
+  /**
+   * List the pinned messages of a conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('conversations/:conversationId/pins')
+  @ApiOperation({
+    summary: 'List pinned messages',
+    description:
+      'Returns the pins of a conversation, most recently pinned first. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Pins retrieved successfully.',
+    type: [MessagePinResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getPins(
+    @Param('conversationId') conversationId: string,
+  ): Promise<MessagePinResponseDto[]> {
+    const pins = await this.pinApplicationService.getPins(conversationId);
+
+    return pins.map((pin) => MessagePinResponseDto.fromEntity(pin));
+  }
+}
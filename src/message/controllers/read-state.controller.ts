@@ -0,0 +1,145 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Logger,
+  Param,
+  Put,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ReadStateApplicationService } from '../services/read-state-application.service';
+import { MarkReadDto } from '../dto/mark-read.dto';
+import {
+  ReadStateResponseDto,
+  UnreadCountResponseDto,
+} from '../dto/read-state-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthUser } from '../../common/guards/auth.guard';
+
+/**
+ * Read State Controller
+ *
+ * Implements API endpoints for per-participant read cursors and unread counts.
+ */
+@ApiTags('Read State')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class ReadStateController {
+  private readonly logger = new Logger(ReadStateController.name);
+
+  constructor(
+    private readonly readStateApplicationService: ReadStateApplicationService,
+  ) {
+    this.logger.log('ReadStateController initialized');
+  }
+
+  /**
+   * Mark a conversation as read up to a message
+   *
+   * The cursor only moves forward; marking an older message has no effect.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Put('conversations/:conversationId/read')
+  @ApiOperation({
+    summary: 'Mark a conversation as read',
+    description:
+      'Advances the read cursor of the current user to the given message. The cursor never moves backwards. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The read cursor has been updated.',
+    type: ReadStateResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation or message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Invalid input data or message belongs to another conversation.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async markRead(
+    @Param('conversationId') conversationId: string,
+    @Body() markReadDto: MarkReadDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<ReadStateResponseDto> {
+    const readState = await this.readStateApplicationService.markRead(
+      conversationId,
+      markReadDto.messageId,
+      user.id,
+    );
+
+    return ReadStateResponseDto.fromEntity(readState);
+  }
+
+  /**
+   * Get the unread count of the current user in a conversation
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('conversations/:conversationId/unread')
+  @ApiOperation({
+    summary: 'Get unread message count',
+    description:
+      'Returns the read cursor of the current user and the number of messages from other participants posted after it. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'conversationId',
+    description: 'The ID of the conversation',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Unread count retrieved successfully.',
+    type: UnreadCountResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Conversation not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getUnreadCount(
+    @Param('conversationId') conversationId: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<UnreadCountResponseDto> {
+    const { readState, unreadCount } =
+      await this.readStateApplicationService.getUnreadCount(
+        conversationId,
+        user.id,
+      );
+
+    return UnreadCountResponseDto.fromReadState(readState, unreadCount);
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ScheduledMessageApplicationService } from '../services/scheduled-message-application.service';
+import { ScheduledMessageResponseDto } from '../dto/scheduled-message-response.dto';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthUser } from '../../common/guards/auth.guard';
+
+/**
+ * Scheduled Message Controller
+ *
+ * Implements API endpoints for senders to list and cancel the messages they
+ * scheduled. Messages are scheduled through `POST /messages` with `sendAt`.
+ */
+@ApiTags('Scheduled Messages')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class ScheduledMessageController {
+  private readonly logger = new Logger(ScheduledMessageController.name);
+
+  constructor(
+    private readonly scheduledMessageApplicationService: ScheduledMessageApplicationService,
+  ) {
+    this.logger.log('ScheduledMessageController initialized');
+  }
+
+  /**
+   * List my pending scheduled messages
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('scheduled-messages')
+  @ApiOperation({
+    summary: 'Get my scheduled messages',
+    description:
+      'Retrieves the pending scheduled messages of the authenticated user with pagination, soonest first. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiQuery({
+    name: 'page',
+    description: 'Page number for pagination',
+    required: false,
+    type: Number,
+  })
+  @ApiQuery({
+    name: 'limit',
+    description: 'Number of items per page',
+    required: false,
+    type: Number,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Scheduled messages retrieved successfully.',
+    type: PaginatedResponseDto<ScheduledMessageResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getScheduledMessages(
+    @CurrentUser() user: AuthUser,
+    @Query(new ValidationPipe({ transform: true }))
+    paginationDto: PaginationDto,
+  ): Promise<PaginatedResponseDto<ScheduledMessageResponseDto>> {
+    const { page = 1, limit = 10 } = paginationDto;
+
+    const result =
+      await this.scheduledMessageApplicationService.getScheduledMessages(
+        user.id,
+        { page, limit },
+      );
+
+    return {
+      data: result.scheduledMessages.map((scheduledMessage) =>
+        ScheduledMessageResponseDto.fromEntity(scheduledMessage),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Cancel a scheduled message
+   *
+   * Only pending messages of the authenticated user can be cancelled.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Delete('scheduled-messages/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Cancel a scheduled message',
+    description:
+      'Cancels a pending scheduled message of the authenticated user so that it is never sent. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the scheduled message',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The scheduled message has been cancelled.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Scheduled message not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'The message has already been sent, cancelled or is being sent.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async cancelScheduledMessage(
+    @Param('id') id: string,
+    @CurrentUser() user: AuthUser,
+  ): Promise<void> {
+    const scheduledMessage =
+      await this.scheduledMessageApplicationService.cancelScheduledMessage(
+        id,
+        user.id,
+      );
+
+    if (!scheduledMessage) {
+      this.logger.warn(`Scheduled message with ID: ${id} not found`);
+      throw new NotFoundException(
+        `Scheduled message with ID "${id}" not found`,
+      );
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MessageResponseDto } from './message-response.dto';
+import { BulkCreateResult } from '../services/message-application.service';
+
+/**
+ * Outcome of a message of a bulk creation request
+ */
+export enum BulkCreateStatus {
+  CREATED = 'created',
+  FAILED = 'failed',
+}
+
+/**
+ * Result of one message of a bulk creation request
+ */
+export class BulkCreateResultDto {
+  @ApiProperty({
+    description: 'Position of the message in the request',
+    example: 0,
+  })
+  index: number;
+
+  @ApiProperty({
+    description: 'Whether the message was created',
+    enum: BulkCreateStatus,
+    example: BulkCreateStatus.CREATED,
+  })
+  status: BulkCreateStatus;
+
+  @ApiProperty({
+    description: 'The created message',
+    type: MessageResponseDto,
+    required: false,
+  })
+  message?: MessageResponseDto;
+
+  @ApiProperty({
+    description: 'Why the message was not created',
+    example: 'Conversation with ID "abc" not found',
+    required: false,
+  })
+  error?: string;
+
+  static fromResult(result: BulkCreateResult): BulkCreateResultDto {
+    const dto = new BulkCreateResultDto();
+    dto.index = result.index;
+    if (result.message) {
+      dto.status = BulkCreateStatus.CREATED;
+      dto.message = MessageResponseDto.fromEntity(result.message);
+    } else {
+      dto.status = BulkCreateStatus.FAILED;
+      dto.error = result.error;
+    }
+    return dto;
+  }
+}
+
+/**
+ * Data Transfer Object for bulk message creation responses
+ */
+export class BulkCreateMessagesResponseDto {
+  @ApiProperty({ description: 'Number of messages created', example: 2 })
+  created: number;
+
+  @ApiProperty({ description: 'Number of messages not created', example: 1 })
+  failed: number;
+
+  @ApiProperty({
+    description: 'Result of each message, in the order of the request',
+    type: [BulkCreateResultDto],
+  })
+  results: BulkCreateResultDto[];
+
+  static fromResults(
+    results: BulkCreateResult[],
+  ): BulkCreateMessagesResponseDto {
+    const dto = new BulkCreateMessagesResponseDto();
+    dto.results = results.map((result) =>
+      BulkCreateResultDto.fromResult(result),
+    );
+    dto.created = results.filter((result) => result.message).length;
+    dto.failed = results.length - dto.created;
+    return dto;
+  }
+}
@@ -0,0 +1,69 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDate,
+  IsObject,
+  IsOptional,
+  validateSync,
+} from 'class-validator';
+import { Type, plainToInstance } from 'class-transformer';
+import { CreateMessageDto } from './create-message.dto';
+import { flattenErrors } from './message-body.dto';
+
+/**
+ * A message of a bulk creation request
+ *
+ * Bulk messages are posted right away, so they cannot be scheduled.
+ */
+export class BulkMessageItemDto extends OmitType(CreateMessageDto, [
+  'sendAt',
+] as const) {
+  @ApiProperty({
+    description:
+      'The original time of the message, e.g. when importing history; requires the importer role',
+    example: '2023-08-14T09:00:00.000Z',
+    type: Date,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  timestamp?: Date;
+}
+
+/**
+ * Data Transfer Object for creating messages in bulk
+ *
+ * The messages are validated one by one, so that an invalid message is
+ * reported in its result instead of failing the whole request.
+ */
+export class BulkCreateMessagesDto {
+  @ApiProperty({
+    description: 'The messages to create, each shaped like a new message',
+    type: [BulkMessageItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsObject({ each: true })
+  messages: Record<string, any>[];
+}
+
+/**
+ * Validates a message of a bulk creation request
+ *
+ * Applies the same rules as the global validation pipe to a single message.
+ *
+ * @param item The message as sent by the client
+ * @returns The message, or the validation errors if it is invalid
+ */
+export function parseBulkMessageItem(
+  item: Record<string, any>,
+): { message: BulkMessageItemDto } | { errors: string[] } {
+  const message = plainToInstance(BulkMessageItemDto, item);
+  const errors = flattenErrors(
+    validateSync(message, { whitelist: true, forbidNonWhitelisted: true }),
+  );
+
+  return errors.length > 0 ? { errors } : { message };
+}
@@ -0,0 +1,120 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsDate,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Criteria selecting the messages of a bulk change
+ */
+export class MessageFilterDto {
+  @ApiProperty({
+    description: 'Only messages of this conversation',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  conversationId?: string;
+
+  @ApiProperty({
+    description: 'Only messages of this sender',
+    example: '123e4567-e89b-12d3-a456-426614174001',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  senderId?: string;
+
+  @ApiProperty({
+    description: 'Only messages sent at or after this time',
+    example: '2024-01-01T00:00:00.000Z',
+    type: Date,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiProperty({
+    description: 'Only messages sent at or before this time',
+    example: '2024-01-31T23:59:59.999Z',
+    type: Date,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @ApiProperty({
+    description:
+      'Only messages whose metadata has these values; keys are letters, digits and `_`',
+    example: { category: 'spam' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Data Transfer Object selecting the messages of a bulk change, by filter
+ * or by ID
+ */
+export class BulkMessageSelectionDto {
+  @ApiProperty({
+    description:
+      'Criteria the messages must all match; cannot be combined with ids',
+    type: MessageFilterDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => MessageFilterDto)
+  filter?: MessageFilterDto;
+
+  @ApiProperty({
+    description: 'IDs of the messages; cannot be combined with filter',
+    example: ['123e4567-e89b-12d3-a456-426614174002'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  ids?: string[];
+}
+
+/**
+ * Data Transfer Object for deleting messages in bulk
+ */
+export class BulkDeleteMessagesDto extends BulkMessageSelectionDto {}
+
+/**
+ * Data Transfer Object for updating the metadata of messages in bulk
+ */
+export class BulkUpdateMessagesDto extends BulkMessageSelectionDto {
+  @ApiProperty({
+    description: 'Metadata merged into the metadata of each message',
+    example: { category: 'archived' },
+  })
+  @IsObject()
+  metadata: Record<string, any>;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for a vote in a poll
+ */
+export class CastVoteDto {
+  @ApiProperty({
+    description:
+      'Indexes of the chosen options, counting from 0. Exactly one unless the poll allows several',
+    example: [0],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  optionIndexes: number[];
+}
@@ -1,5 +1,24 @@
-import { IsNotEmpty, IsOptional, IsString, IsObject } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsObject,
+  IsDate,
+  IsInt,
+  IsEnum,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
+import {
+  MessageBody,
+  MessageContentType,
+  isStructuredContentType,
+} from '../entities/message-content';
+import { IsMessageBody } from './message-body.dto';
 
 export class CreateMessageDto {
   @ApiProperty({
@@ -19,12 +38,59 @@ export class CreateMessageDto {
   senderId: string;
 
   @ApiProperty({
-    description: 'The content of the message',
+    description:
+      'The text of the message; optional for card, system, poll and file messages, which default to the text of their body, and left out for messages created from a template',
     example: 'Hello, world!',
+    required: false,
   })
+  @ValidateIf(
+    (dto: CreateMessageDto) =>
+      (dto.templateId === undefined &&
+        !isStructuredContentType(dto.contentType)) ||
+      dto.content !== undefined,
+  )
   @IsString()
   @IsNotEmpty()
-  content: string;
+  content?: string;
+
+  @ApiProperty({
+    description: 'The kind of content of the message',
+    enum: MessageContentType,
+    default: MessageContentType.TEXT,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(MessageContentType)
+  contentType?: MessageContentType;
+
+  @ApiProperty({
+    description:
+      'The structured body of card, system, poll and file messages, shaped after the content type',
+    example: { question: 'Lunch at noon?', options: ['Yes', 'No'] },
+    required: false,
+  })
+  @IsMessageBody()
+  body?: MessageBody;
+
+  @ApiProperty({
+    description:
+      'The ID of a template to render the text of the message from; cannot be combined with content, contentType or body',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  templateId?: string;
+
+  @ApiProperty({
+    description: 'The value of each variable of the template',
+    example: { firstName: 'Jane', amount: '$25.00' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
 
   @ApiProperty({
     description: 'Additional metadata for the message',
@@ -34,4 +100,65 @@ export class CreateMessageDto {
   @IsOptional()
   @IsObject()
   metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description:
+      'The ID of the message being replied to; must belong to the same conversation',
+    example: '123e4567-e89b-12d3-a456-426614174002',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  parentMessageId?: string;
+
+  @ApiProperty({
+    description:
+      'IDs of attachments uploaded to the same conversation to attach to the message',
+    example: ['123e4567-e89b-12d3-a456-426614174003'],
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  attachmentIds?: string[];
+
+  @ApiProperty({
+    description:
+      'When to send the message; a time in the future schedules it instead of posting it now',
+    example: '2026-01-01T09:00:00.000Z',
+    type: Date,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  sendAt?: Date;
+
+  @ApiProperty({
+    description:
+      'When the message expires and is removed; cannot be combined with ttlSeconds',
+    example: '2026-01-02T09:00:00.000Z',
+    type: Date,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+
+  @ApiProperty({
+    description:
+      'Seconds after sending at which the message expires and is removed; cannot be combined with expiresAt',
+    example: 86400,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  ttlSeconds?: number;
 }
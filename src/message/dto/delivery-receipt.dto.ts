@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn } from 'class-validator';
+import { MessageDeliveryStatus } from '../entities/message-delivery';
+
+/**
+ * Data Transfer Object for acknowledging the delivery of a message
+ */
+export class DeliveryReceiptDto {
+  @ApiProperty({
+    description: 'The status the recipient has reached',
+    enum: [MessageDeliveryStatus.DELIVERED, MessageDeliveryStatus.READ],
+    example: MessageDeliveryStatus.DELIVERED,
+  })
+  @IsIn([MessageDeliveryStatus.DELIVERED, MessageDeliveryStatus.READ])
+  status: MessageDeliveryStatus.DELIVERED | MessageDeliveryStatus.READ;
+}
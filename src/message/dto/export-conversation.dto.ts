@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+
+/**
+ * Formats a conversation can be exported in
+ */
+export enum TranscriptFormat {
+  JSONL = 'jsonl',
+  CSV = 'csv',
+  HTML = 'html',
+}
+
+/**
+ * Data Transfer Object for exporting a conversation
+ */
+export class ExportConversationDto {
+  @ApiProperty({
+    description:
+      'Format of the export: JSON Lines with one message per line, CSV, or an HTML transcript',
+    enum: TranscriptFormat,
+    default: TranscriptFormat.JSONL,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(TranscriptFormat)
+  format: TranscriptFormat = TranscriptFormat.JSONL;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object for forwarding a message to a conversation
+ */
+export class ForwardMessageDto {
+  @ApiProperty({
+    description: 'The ID of the conversation to forward the message to',
+    example: '123e4567-e89b-12d3-a456-426614174004',
+  })
+  @IsString()
+  @IsNotEmpty()
+  conversationId: string;
+
+  @ApiProperty({
+    description:
+      'Comment posted with the quoted message; defaults to the content of the forwarded message',
+    example: 'FYI',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  content?: string;
+
+  @ApiProperty({
+    description: 'Additional metadata for the new message',
+    example: { important: true },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object for advancing a read cursor
+ */
+export class MarkReadDto {
+  @ApiProperty({
+    description: 'The ID of the last message the user has read',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsString()
+  @IsNotEmpty()
+  messageId: string;
+}
@@ -0,0 +1,283 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+  ValidationArguments,
+  ValidationError,
+  ValidationOptions,
+  registerDecorator,
+  validateSync,
+} from 'class-validator';
+import { Type, plainToInstance } from 'class-transformer';
+import { MessageContentType } from '../entities/message-content';
+
+/**
+ * A labelled value shown on a card
+ */
+export class CardFieldDto {
+  @ApiProperty({ description: 'Label of the field', example: 'Status' })
+  @IsString()
+  @IsNotEmpty()
+  label: string;
+
+  @ApiProperty({ description: 'Value of the field', example: 'Succeeded' })
+  @IsString()
+  @IsNotEmpty()
+  value: string;
+}
+
+/**
+ * A link offered as a button on a card
+ */
+export class CardActionDto {
+  @ApiProperty({ description: 'Label of the button', example: 'Open' })
+  @IsString()
+  @IsNotEmpty()
+  label: string;
+
+  @ApiProperty({
+    description: 'URL opened by the button',
+    example: 'https://ci.example.com/builds/42',
+  })
+  @IsUrl()
+  url: string;
+}
+
+/**
+ * Body of a card message
+ */
+export class CardBodyDto {
+  @ApiProperty({ description: 'Title of the card', example: 'Build #42' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(256)
+  title: string;
+
+  @ApiProperty({
+    description: 'Text of the card',
+    example: 'Deployed to production',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  text?: string;
+
+  @ApiProperty({
+    description: 'URL of an image shown on the card',
+    example: 'https://ci.example.com/badge.png',
+    required: false,
+  })
+  @IsOptional()
+  @IsUrl()
+  imageUrl?: string;
+
+  @ApiProperty({ type: [CardFieldDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => CardFieldDto)
+  fields?: CardFieldDto[];
+
+  @ApiProperty({ type: [CardActionDto], required: false })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(5)
+  @ValidateNested({ each: true })
+  @Type(() => CardActionDto)
+  actions?: CardActionDto[];
+}
+
+/**
+ * Body of a system message
+ */
+export class SystemBodyDto {
+  @ApiProperty({
+    description: 'The event the message reports',
+    example: 'participant.joined',
+  })
+  @IsString()
+  @IsNotEmpty()
+  event: string;
+
+  @ApiProperty({
+    description: 'Text describing the event',
+    example: 'Alice joined the conversation',
+  })
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+}
+
+/**
+ * Body of a poll message
+ */
+export class PollBodyDto {
+  @ApiProperty({ description: 'The question', example: 'Lunch at noon?' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(512)
+  question: string;
+
+  @ApiProperty({
+    description: 'The options to choose from',
+    example: ['Yes', 'No'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @ArrayUnique()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  options: string[];
+
+  @ApiProperty({
+    description: 'Whether several options can be chosen',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  multipleChoice?: boolean;
+
+  @ApiProperty({
+    description:
+      'When the poll closes; votes are accepted until then. Open until the message is removed if not set',
+    example: '2023-08-15T12:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  closesAt?: string;
+}
+
+/**
+ * Body of a file message
+ */
+export class FileBodyDto {
+  @ApiProperty({
+    description: 'ID of an attachment uploaded to the conversation',
+    example: '123e4567-e89b-12d3-a456-426614174003',
+  })
+  @IsString()
+  @IsNotEmpty()
+  attachmentId: string;
+
+  @ApiProperty({ description: 'Name of the file', example: 'report.pdf' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Caption shown with the file',
+    example: 'Q3 report',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  caption?: string;
+}
+
+/**
+ * DTO classes validating the body of each structured content type
+ */
+const MESSAGE_BODY_DTOS: Partial<Record<MessageContentType, new () => object>> =
+  {
+    [MessageContentType.CARD]: CardBodyDto,
+    [MessageContentType.SYSTEM]: SystemBodyDto,
+    [MessageContentType.POLL]: PollBodyDto,
+    [MessageContentType.FILE]: FileBodyDto,
+  };
+
+/**
+ * Flattens nested validation errors into `path: constraint` messages
+ */
+export function flattenErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): string[] {
+  return errors.flatMap((error) => {
+    const path = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    return [
+      ...Object.values(error.constraints ?? {}).map(
+        (constraint) => `${path}: ${constraint}`,
+      ),
+      ...flattenErrors(error.children ?? [], path),
+    ];
+  });
+}
+
+/**
+ * Validates a message body against the shape of its content type
+ *
+ * @returns The validation errors, empty if the body is valid
+ */
+function validateMessageBody(
+  contentType: MessageContentType | undefined,
+  body: unknown,
+): string[] {
+  const dto = contentType ? MESSAGE_BODY_DTOS[contentType] : undefined;
+
+  if (!dto) {
+    return body === undefined
+      ? []
+      : [
+          `body is only allowed for ${Object.keys(MESSAGE_BODY_DTOS).join(', ')} messages`,
+        ];
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [`body must be an object for ${contentType} messages`];
+  }
+
+  return flattenErrors(
+    validateSync(plainToInstance(dto, body), {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    }),
+  ).map((message) => `body.${message}`);
+}
+
+/**
+ * Checks that `body` matches the `contentType` of the same object
+ *
+ * Structured content types require a body of their shape, text and
+ * markdown messages must not have one.
+ */
+export function IsMessageBody(validationOptions?: ValidationOptions) {
+  return function (object: object, propertyName: string): void {
+    registerDecorator({
+      name: 'isMessageBody',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, args: ValidationArguments): boolean {
+          const { contentType } = args.object as {
+            contentType?: MessageContentType;
+          };
+          return validateMessageBody(contentType, value).length === 0;
+        },
+        defaultMessage(args: ValidationArguments): string {
+          const { contentType } = args.object as {
+            contentType?: MessageContentType;
+          };
+          return validateMessageBody(contentType, args.value).join('; ');
+        },
+      },
+    });
+  };
+}
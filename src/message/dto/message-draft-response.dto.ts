@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MessageDraft } from '../entities/message-draft.entity';
+import { PiiType } from '../../common/redaction/pii-detectors';
+
+/**
+ * Data Transfer Object for draft responses
+ */
+export class MessageDraftResponseDto {
+  @ApiProperty({
+    description: 'The ID of the conversation',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  conversationId: string;
+
+  @ApiProperty({
+    description: 'The ID of the user writing the draft',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'The unsent content',
+    example: 'Hello, wor',
+  })
+  content: string;
+
+  @ApiProperty({
+    description: 'Additional metadata for the draft',
+    example: { parentMessageId: '550e8400-e29b-41d4-a716-446655440000' },
+    required: false,
+  })
+  metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'The kinds of personal data redacted from the content, if any',
+    enum: PiiType,
+    isArray: true,
+    example: [PiiType.EMAIL],
+    required: false,
+  })
+  redacted?: PiiType[];
+
+  @ApiProperty({
+    description: 'When the draft was last saved',
+    example: '2023-08-15T10:30:00Z',
+  })
+  updatedAt: Date;
+
+  /**
+   * Creates a MessageDraftResponseDto from a MessageDraft entity
+   */
+  static fromEntity(draft: MessageDraft): MessageDraftResponseDto {
+    const dto = new MessageDraftResponseDto();
+    dto.conversationId = draft.conversationId;
+    dto.userId = draft.userId;
+    dto.content = draft.content;
+    dto.metadata = draft.metadata;
+    dto.redacted = draft.redaction?.detected;
+    dto.updatedAt = draft.updatedAt;
+
+    return dto;
+  }
+}
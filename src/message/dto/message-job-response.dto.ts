@@ -0,0 +1,152 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  MessageJob,
+  MessageJobStatus,
+  MessageJobType,
+} from '../entities/message-job.entity';
+import { MessageFilter } from '../entities/message-filter';
+
+/**
+ * A message a job could not change
+ */
+export class MessageJobErrorDto {
+  @ApiProperty({
+    description: 'The ID of the message',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  messageId: string;
+
+  @ApiProperty({
+    description: 'Why the message could not be changed',
+    example:
+      'Message with ID "550e8400-e29b-41d4-a716-446655440000" has changed since version 3',
+  })
+  error: string;
+}
+
+/**
+ * Data Transfer Object for message job responses
+ */
+export class MessageJobResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the job',
+    example: '550e8400-e29b-41d4-a716-446655440020',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The kind of change the job applies',
+    enum: MessageJobType,
+    example: MessageJobType.BULK_DELETE,
+  })
+  type: MessageJobType;
+
+  @ApiProperty({
+    description: 'The status of the job',
+    enum: MessageJobStatus,
+    example: MessageJobStatus.RUNNING,
+  })
+  status: MessageJobStatus;
+
+  @ApiProperty({
+    description: 'The ID of the user who requested the job',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  requestedBy: string;
+
+  @ApiProperty({
+    description: 'The criteria or IDs selecting the messages',
+    example: { conversationId: '550e8400-e29b-41d4-a716-446655440001' },
+  })
+  filter: MessageFilter;
+
+  @ApiProperty({
+    description: 'The metadata set by a bulk update',
+    example: { category: 'archived' },
+    required: false,
+  })
+  metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description:
+      'The number of messages the job applies to, counted when it starts',
+    example: 250,
+    required: false,
+  })
+  total?: number;
+
+  @ApiProperty({ description: 'Messages processed so far', example: 100 })
+  processed: number;
+
+  @ApiProperty({ description: 'Messages changed so far', example: 99 })
+  succeeded: number;
+
+  @ApiProperty({
+    description: 'Messages that could not be changed so far',
+    example: 1,
+  })
+  failed: number;
+
+  @ApiProperty({
+    description: 'Percentage of the messages processed',
+    example: 40,
+  })
+  progress: number;
+
+  @ApiProperty({
+    description: 'The first messages that could not be changed',
+    type: [MessageJobErrorDto],
+  })
+  failures: MessageJobErrorDto[];
+
+  @ApiProperty({
+    description: 'Why the job stopped the last time it did',
+    required: false,
+  })
+  lastError?: string;
+
+  @ApiProperty({
+    description: 'When the job was requested',
+    example: '2024-02-01T10:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'When the job started',
+    example: '2024-02-01T10:00:02Z',
+    required: false,
+  })
+  startedAt?: Date;
+
+  @ApiProperty({
+    description: 'When the job completed or failed',
+    required: false,
+  })
+  completedAt?: Date;
+
+  static fromEntity(job: MessageJob): MessageJobResponseDto {
+    const dto = new MessageJobResponseDto();
+    dto.id = job.id;
+    dto.type = job.type;
+    dto.status = job.status;
+    dto.requestedBy = job.requestedBy;
+    dto.filter = job.filter;
+    dto.metadata = job.metadata;
+    dto.total = job.total;
+    dto.processed = job.processed;
+    dto.succeeded = job.succeeded;
+    dto.failed = job.failed;
+    dto.progress =
+      job.status === MessageJobStatus.COMPLETED
+        ? 100
+        : job.total
+          ? Math.min(99, Math.floor((job.processed / job.total) * 100))
+          : 0;
+    dto.failures = job.failures;
+    dto.lastError = job.lastError;
+    dto.createdAt = job.createdAt;
+    dto.startedAt = job.startedAt;
+    dto.completedAt = job.completedAt;
+    return dto;
+  }
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MessageBody } from '../entities/message-content';
+import { RedactableContent } from '../../common/redaction/redaction.interface';
+
+/**
+ * Data Transfer Object for the content of a redacted message as it was sent
+ */
+export class MessageOriginalResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the message',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  messageId: string;
+
+  @ApiProperty({
+    description: 'The content as sent, before personal data was redacted',
+    example: 'Call me at +1 555 123 4567',
+  })
+  content: string;
+
+  @ApiProperty({
+    description:
+      'The structured body as sent, before personal data was redacted',
+    example: { title: 'Contact', text: 'jane@example.com' },
+    required: false,
+  })
+  body?: MessageBody;
+
+  /**
+   * Creates a MessageOriginalResponseDto from the decrypted original
+   */
+  static fromOriginal(
+    messageId: string,
+    original: RedactableContent<MessageBody>,
+  ): MessageOriginalResponseDto {
+    const dto = new MessageOriginalResponseDto();
+    dto.messageId = messageId;
+    dto.content = original.content;
+    dto.body = original.body;
+
+    return dto;
+  }
+}
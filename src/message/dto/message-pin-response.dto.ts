@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MessagePin } from '../entities/message-pin.entity';
+
+/**
+ * Data Transfer Object for pinned message responses
+ */
+export class MessagePinResponseDto {
+  @ApiProperty({
+    description: 'The ID of the conversation',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  conversationId: string;
+
+  @ApiProperty({
+    description: 'The ID of the pinned message',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  messageId: string;
+
+  @ApiProperty({
+    description: 'The ID of the user who pinned the message',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  pinnedBy: string;
+
+  @ApiProperty({
+    description: 'When the message was pinned',
+    example: '2023-08-15T10:30:00Z',
+  })
+  pinnedAt: Date;
+
+  /**
+   * Creates a MessagePinResponseDto from a MessagePin entity
+   */
+  static fromEntity(pin: MessagePin): MessagePinResponseDto {
+    const dto = new MessagePinResponseDto();
+    dto.conversationId = pin.conversationId;
+    dto.messageId = pin.messageId;
+    dto.pinnedBy = pin.pinnedBy;
+    dto.pinnedAt = pin.pinnedAt;
+
+    return dto;
+  }
+}
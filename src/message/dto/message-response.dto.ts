@@ -1,5 +1,191 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { Message } from '../entities/message.entity';
+import { MessageBody, MessageContentType } from '../entities/message-content';
+import { MessageDeliveryStatus } from '../entities/message-delivery';
+import {
+  ModerationAction,
+  ModerationStatus,
+} from '../entities/message-moderation';
+import { PiiType } from '../../common/redaction/pii-detectors';
+
+/**
+ * Reactions to a message aggregated per emoji
+ */
+export class ReactionSummaryDto {
+  @ApiProperty({ description: 'The reaction emoji', example: '👍' })
+  emoji: string;
+
+  @ApiProperty({ description: 'Number of users who reacted', example: 2 })
+  count: number;
+
+  @ApiProperty({
+    description: 'IDs of the users who reacted',
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  userIds: string[];
+}
+
+/**
+ * Number of votes for one option of a poll
+ */
+export class PollTallyDto {
+  @ApiProperty({ description: 'The option', example: 'Yes' })
+  option: string;
+
+  @ApiProperty({ description: 'Number of votes for the option', example: 3 })
+  votes: number;
+}
+
+/**
+ * Current results of a poll
+ */
+export class PollResultsDto {
+  @ApiProperty({
+    description: 'Votes per option, in the order of the options',
+    type: [PollTallyDto],
+  })
+  tallies: PollTallyDto[];
+
+  @ApiProperty({ description: 'Number of users who voted', example: 4 })
+  totalVoters: number;
+
+  @ApiProperty({
+    description: 'When the poll closes',
+    example: '2023-08-15T12:00:00Z',
+    required: false,
+  })
+  closesAt?: Date;
+
+  @ApiProperty({
+    description: 'When the poll closed, once its closing has been announced',
+    example: '2023-08-15T12:00:00Z',
+    required: false,
+  })
+  closedAt?: Date;
+
+  @ApiProperty({
+    description: 'Whether the poll no longer accepts votes',
+    example: false,
+  })
+  closed: boolean;
+}
+
+/**
+ * Snapshot of the message a forwarded message quotes
+ */
+export class MessageForwardDto {
+  @ApiProperty({
+    description: 'The ID of the forwarded message',
+    example: '550e8400-e29b-41d4-a716-446655440006',
+  })
+  messageId: string;
+
+  @ApiProperty({
+    description: 'The ID of the conversation of the forwarded message',
+    example: '550e8400-e29b-41d4-a716-446655440007',
+  })
+  conversationId: string;
+
+  @ApiProperty({
+    description: 'The ID of the sender of the forwarded message',
+    example: '550e8400-e29b-41d4-a716-446655440008',
+  })
+  senderId: string;
+
+  @ApiProperty({
+    description: 'The content of the forwarded message when it was forwarded',
+    example: 'The release is scheduled for Friday.',
+  })
+  content: string;
+
+  @ApiProperty({
+    description: 'The timestamp when the forwarded message was created',
+    example: '2023-08-14T09:00:00Z',
+  })
+  timestamp: Date;
+}
+
+/**
+ * Delivery status of a message for one recipient
+ */
+export class RecipientDeliveryDto {
+  @ApiProperty({
+    description: 'The ID of the recipient',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'The delivery status for the recipient',
+    enum: MessageDeliveryStatus,
+    example: MessageDeliveryStatus.DELIVERED,
+  })
+  status: MessageDeliveryStatus;
+
+  @ApiProperty({
+    description: 'When the status of the recipient last changed',
+    example: '2023-08-15T10:31:00Z',
+  })
+  updatedAt: Date;
+}
+
+/**
+ * A moderation rule a message broke
+ */
+export class ModerationReasonDto {
+  @ApiProperty({
+    description: 'The name of the rule',
+    example: 'external-links',
+  })
+  rule: string;
+
+  @ApiProperty({
+    description: 'What the rule did to the message',
+    enum: ModerationAction,
+    example: ModerationAction.FLAG,
+  })
+  action: ModerationAction;
+}
+
+/**
+ * Moderation state of a message that was flagged for review
+ */
+export class MessageModerationDto {
+  @ApiProperty({
+    description:
+      'The review status; pending and rejected messages are only shown to their sender',
+    enum: ModerationStatus,
+    example: ModerationStatus.PENDING,
+  })
+  status: ModerationStatus;
+
+  @ApiProperty({
+    description: 'The rules the message broke when it was flagged',
+    type: [ModerationReasonDto],
+  })
+  reasons: ModerationReasonDto[];
+
+  @ApiProperty({
+    description: 'When the message was flagged',
+    example: '2023-08-15T10:30:00Z',
+  })
+  flaggedAt: Date;
+
+  @ApiProperty({
+    description: 'The ID of the moderator who reviewed the message',
+    example: '550e8400-e29b-41d4-a716-446655440009',
+    required: false,
+  })
+  reviewedBy?: string;
+
+  @ApiProperty({
+    description: 'When the message was reviewed',
+    example: '2023-08-15T10:45:00Z',
+    required: false,
+  })
+  reviewedAt?: Date;
+}
 
 /**
  * Data Transfer Object for message responses
@@ -29,6 +215,28 @@ export class MessageResponseDto {
   })
   content: string;
 
+  @ApiProperty({
+    description: 'The kind of content of the message',
+    enum: MessageContentType,
+    example: MessageContentType.TEXT,
+  })
+  contentType: MessageContentType;
+
+  @ApiProperty({
+    description:
+      'The structured body of card, system, poll and file messages, shaped after the content type',
+    example: { question: 'Lunch at noon?', options: ['Yes', 'No'] },
+    required: false,
+  })
+  body?: MessageBody;
+
+  @ApiProperty({
+    description:
+      'The message rendered as plain text, e.g. markdown without its syntax or the title and text of a card',
+    example: 'Hello, how are you?',
+  })
+  text: string;
+
   @ApiProperty({
     description: 'The timestamp when the message was created',
     example: '2023-08-15T10:30:00Z',
@@ -45,6 +253,118 @@ export class MessageResponseDto {
   })
   metadata?: Record<string, any>;
 
+  @ApiProperty({
+    description: 'The ID of the message this message replies to',
+    example: '550e8400-e29b-41d4-a716-446655440005',
+    required: false,
+  })
+  parentMessageId?: string;
+
+  @ApiProperty({
+    description: 'The ID of the top-level message of the thread',
+    example: '550e8400-e29b-41d4-a716-446655440005',
+    required: false,
+  })
+  threadRootId?: string;
+
+  @ApiProperty({
+    description: 'The IDs of the attachments of the message',
+    example: ['550e8400-e29b-41d4-a716-446655440010'],
+    type: [String],
+  })
+  attachmentIds: string[];
+
+  @ApiProperty({
+    description: 'The IDs of the users mentioned in the content',
+    example: ['550e8400-e29b-41d4-a716-446655440002'],
+    type: [String],
+  })
+  mentionedUserIds: string[];
+
+  @ApiProperty({
+    description: 'The number of direct replies to this message',
+    example: 3,
+  })
+  replyCount: number;
+
+  @ApiProperty({
+    description: 'Reactions to the message aggregated per emoji',
+    type: [ReactionSummaryDto],
+  })
+  reactions: ReactionSummaryDto[];
+
+  @ApiProperty({
+    description: 'The current revision of the message, bumped on every edit',
+    example: 2,
+  })
+  revision: number;
+
+  @ApiProperty({
+    description: 'The timestamp of the last edit',
+    example: '2023-08-15T11:30:00Z',
+    required: false,
+  })
+  editedAt?: Date;
+
+  @ApiProperty({
+    description: 'When the ephemeral message expires and is removed',
+    example: '2023-08-16T10:30:00Z',
+    required: false,
+  })
+  expiresAt?: Date;
+
+  @ApiProperty({
+    description: 'Snapshot of the message this message forwards',
+    type: MessageForwardDto,
+    required: false,
+  })
+  forwardedFrom?: MessageForwardDto;
+
+  @ApiProperty({
+    description: 'The ID of the template the content was rendered from',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+    required: false,
+  })
+  templateId?: string;
+
+  @ApiProperty({
+    description:
+      'The delivery status of the message, the least advanced of its recipients',
+    enum: MessageDeliveryStatus,
+    example: MessageDeliveryStatus.SENT,
+  })
+  deliveryStatus: MessageDeliveryStatus;
+
+  @ApiProperty({
+    description: 'The delivery status per recipient',
+    type: [RecipientDeliveryDto],
+  })
+  deliveries: RecipientDeliveryDto[];
+
+  @ApiProperty({
+    description: 'Moderation state, if the message was flagged for review',
+    type: MessageModerationDto,
+    required: false,
+  })
+  moderation?: MessageModerationDto;
+
+  @ApiProperty({
+    description:
+      'The kinds of personal data redacted from the content and body, if any',
+    enum: PiiType,
+    isArray: true,
+    example: [PiiType.EMAIL],
+    required: false,
+  })
+  redacted?: PiiType[];
+
+  @ApiProperty({
+    description: 'Live results of a poll message',
+    type: PollResultsDto,
+    required: false,
+  })
+  poll?: PollResultsDto;
+
   /**
    * Creates a MessageResponseDto from a Message entity
    */
@@ -54,8 +374,29 @@ export class MessageResponseDto {
     dto.conversationId = message.conversationId;
     dto.senderId = message.senderId;
     dto.content = message.content;
+    dto.contentType = message.contentType ?? MessageContentType.TEXT;
+    dto.body = message.body;
+    dto.text = Message.renderText(message);
     dto.timestamp = message.timestamp;
     dto.metadata = message.metadata;
+    dto.parentMessageId = message.parentMessageId;
+    dto.threadRootId = message.threadRootId;
+    dto.attachmentIds = message.attachmentIds ?? [];
+    dto.mentionedUserIds = message.mentionedUserIds ?? [];
+    dto.replyCount = message.replyCount ?? 0;
+    dto.reactions = Message.summarizeReactions(message.reactions);
+    dto.revision = message.revision ?? 1;
+    dto.editedAt = message.editedAt;
+    dto.expiresAt = message.expiresAt;
+    dto.forwardedFrom = message.forwardedFrom;
+    dto.templateId = message.templateId;
+    dto.deliveryStatus = message.deliveryStatus ?? MessageDeliveryStatus.SENT;
+    dto.deliveries = message.deliveries ?? [];
+    dto.moderation = message.moderation;
+    // The encrypted original is only served to the compliance role
+    dto.redacted = message.redaction?.detected;
+    // Who voted for what is not shown, only the counts
+    dto.poll = Message.tallyPoll(message);
 
     return dto;
   }
@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  MessageRevision,
+  MessageRevisionDiff,
+} from '../entities/message-revision.entity';
+import { MessageBody } from '../entities/message-content';
+
+/**
+ * Data Transfer Object for message revision responses
+ */
+export class MessageRevisionResponseDto {
+  @ApiProperty({
+    description: 'The ID of the edited message',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  messageId: string;
+
+  @ApiProperty({
+    description: 'The revision number of this snapshot',
+    example: 1,
+  })
+  revision: number;
+
+  @ApiProperty({
+    description: 'The content of the message before the edit',
+    example: 'Hello, how are you?',
+  })
+  content: string;
+
+  @ApiProperty({
+    description: 'The metadata of the message before the edit',
+    example: { key1: 'value1' },
+    required: false,
+  })
+  metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'The structured body of the message before the edit',
+    example: { title: 'Deployment finished' },
+    required: false,
+  })
+  body?: MessageBody;
+
+  @ApiProperty({
+    description: 'The ID of the user who made the edit',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  editorId: string;
+
+  @ApiProperty({
+    description: 'The timestamp of the edit',
+    example: '2023-08-15T11:30:00Z',
+  })
+  editedAt: Date;
+
+  @ApiProperty({
+    description:
+      'The fields changed by the edit with their before and after values',
+    example: {
+      content: {
+        before: 'Hello, how are you?',
+        after: 'Hello, how are you all?',
+      },
+    },
+  })
+  diff: MessageRevisionDiff;
+
+  /**
+   * Creates a MessageRevisionResponseDto from a MessageRevision entity
+   */
+  static fromEntity(revision: MessageRevision): MessageRevisionResponseDto {
+    const dto = new MessageRevisionResponseDto();
+    dto.messageId = revision.messageId;
+    dto.revision = revision.revision;
+    dto.content = revision.content;
+    dto.metadata = revision.metadata;
+    dto.body = revision.body;
+    dto.editorId = revision.editorId;
+    dto.editedAt = revision.editedAt;
+    dto.diff = revision.diff;
+
+    return dto;
+  }
+}
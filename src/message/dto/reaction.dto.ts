@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * Data Transfer Object identifying a reaction emoji
+ *
+ * Used as the body when adding a reaction and as the query when removing one.
+ */
+export class ReactionDto {
+  @ApiProperty({
+    description: 'The reaction emoji',
+    example: '👍',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  emoji: string;
+}
@@ -0,0 +1,73 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ReadState } from '../entities/read-state.entity';
+
+/**
+ * Data Transfer Object for read cursor responses
+ */
+export class ReadStateResponseDto {
+  @ApiProperty({
+    description: 'The ID of the conversation',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  conversationId: string;
+
+  @ApiProperty({
+    description: 'The ID of the reading user',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'The ID of the last message the user has read',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: false,
+  })
+  lastReadMessageId?: string;
+
+  @ApiProperty({
+    description: 'The timestamp of the last message the user has read',
+    example: '2023-08-15T10:30:00Z',
+    required: false,
+  })
+  lastReadAt?: Date;
+
+  /**
+   * Creates a ReadStateResponseDto from a ReadState entity
+   */
+  static fromEntity(readState: ReadState): ReadStateResponseDto {
+    const dto = new ReadStateResponseDto();
+    dto.conversationId = readState.conversationId;
+    dto.userId = readState.userId;
+    dto.lastReadMessageId = readState.lastReadMessageId;
+    dto.lastReadAt = readState.lastReadAt;
+
+    return dto;
+  }
+}
+
+/**
+ * Data Transfer Object for unread count responses
+ */
+export class UnreadCountResponseDto extends ReadStateResponseDto {
+  @ApiProperty({
+    description: 'Number of messages from other participants not read yet',
+    example: 4,
+  })
+  unreadCount: number;
+
+  /**
+   * Creates an UnreadCountResponseDto from a ReadState entity and a count
+   */
+  static fromReadState(
+    readState: ReadState,
+    unreadCount: number,
+  ): UnreadCountResponseDto {
+    const dto = Object.assign(
+      new UnreadCountResponseDto(),
+      ReadStateResponseDto.fromEntity(readState),
+    );
+    dto.unreadCount = unreadCount;
+
+    return dto;
+  }
+}
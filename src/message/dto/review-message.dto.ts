@@ -0,0 +1,38 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { ModerationStatus } from '../entities/message-moderation';
+
+/**
+ * Query parameters of the moderation queue
+ *
+ * The queue is always ordered oldest first, so it cannot be sorted.
+ */
+export class ModerationQueueQueryDto extends OmitType(PaginationDto, [
+  'sortField',
+  'sortDirection',
+]) {
+  @ApiProperty({
+    description: 'Only list the messages of this conversation',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  conversationId?: string;
+}
+
+/**
+ * Data Transfer Object for the decision of a moderator on a message held
+ * for review
+ */
+export class ReviewMessageDto {
+  @ApiProperty({
+    description: 'Whether the message is approved or rejected',
+    enum: [ModerationStatus.APPROVED, ModerationStatus.REJECTED],
+    example: ModerationStatus.APPROVED,
+  })
+  @IsIn([ModerationStatus.APPROVED, ModerationStatus.REJECTED])
+  status: ModerationStatus.APPROVED | ModerationStatus.REJECTED;
+}
@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+
+/**
+ * Data Transfer Object for saving a draft
+ */
+export class SaveDraftDto {
+  @ApiProperty({
+    description: 'The unsent content',
+    example: 'Hello, wor',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+
+  @ApiProperty({
+    description: 'Additional metadata for the draft',
+    example: { parentMessageId: '550e8400-e29b-41d4-a716-446655440000' },
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
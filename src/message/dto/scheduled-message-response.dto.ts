@@ -0,0 +1,155 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+} from '../entities/scheduled-message.entity';
+import { MessageBody, MessageContentType } from '../entities/message-content';
+import { PiiType } from '../../common/redaction/pii-detectors';
+
+/**
+ * Data Transfer Object for scheduled message responses
+ */
+export class ScheduledMessageResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the scheduled message',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The ID of the conversation',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  conversationId: string;
+
+  @ApiProperty({
+    description: 'The ID of the message sender',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  senderId: string;
+
+  @ApiProperty({
+    description: 'The content of the message',
+    example: 'Good morning, everyone!',
+  })
+  content: string;
+
+  @ApiProperty({
+    description: 'The kind of content of the message',
+    enum: MessageContentType,
+    required: false,
+  })
+  contentType?: MessageContentType;
+
+  @ApiProperty({
+    description: 'The structured body of the message',
+    example: { question: 'Lunch at noon?', options: ['Yes', 'No'] },
+    required: false,
+  })
+  body?: MessageBody;
+
+  @ApiProperty({
+    description: 'Additional metadata for the message',
+    example: { important: true },
+    required: false,
+  })
+  metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'The ID of the message being replied to',
+    example: '550e8400-e29b-41d4-a716-446655440004',
+    required: false,
+  })
+  parentMessageId?: string;
+
+  @ApiProperty({
+    description: 'IDs of the attachments of the message',
+    example: ['550e8400-e29b-41d4-a716-446655440005'],
+    type: [String],
+  })
+  attachmentIds: string[];
+
+  @ApiProperty({
+    description: 'When the message will expire once sent',
+    example: '2023-08-17T09:00:00Z',
+    required: false,
+  })
+  expiresAt?: Date;
+
+  @ApiProperty({
+    description: 'Seconds after sending at which the message will expire',
+    example: 86400,
+    required: false,
+  })
+  ttlSeconds?: number;
+
+  @ApiProperty({
+    description: 'The ID of the template the content was rendered from',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+    required: false,
+  })
+  templateId?: string;
+
+  @ApiProperty({
+    description:
+      'The kinds of personal data redacted from the content and body, if any',
+    enum: PiiType,
+    isArray: true,
+    example: [PiiType.EMAIL],
+    required: false,
+  })
+  redacted?: PiiType[];
+
+  @ApiProperty({
+    description: 'When the message will be sent',
+    example: '2023-08-16T09:00:00Z',
+  })
+  sendAt: Date;
+
+  @ApiProperty({
+    description: 'The ID the message will have once sent',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  messageId: string;
+
+  @ApiProperty({
+    description: 'Dispatch status of the scheduled message',
+    enum: ScheduledMessageStatus,
+    example: ScheduledMessageStatus.PENDING,
+  })
+  status: ScheduledMessageStatus;
+
+  @ApiProperty({
+    description: 'When the message was scheduled',
+    example: '2023-08-15T10:30:00Z',
+  })
+  createdAt: Date;
+
+  /**
+   * Creates a ScheduledMessageResponseDto from a ScheduledMessage entity
+   */
+  static fromEntity(
+    scheduledMessage: ScheduledMessage,
+  ): ScheduledMessageResponseDto {
+    const dto = new ScheduledMessageResponseDto();
+    dto.id = scheduledMessage.id;
+    dto.conversationId = scheduledMessage.conversationId;
+    dto.senderId = scheduledMessage.senderId;
+    dto.content = scheduledMessage.content;
+    dto.contentType = scheduledMessage.contentType;
+    dto.body = scheduledMessage.body;
+    dto.metadata = scheduledMessage.metadata;
+    dto.parentMessageId = scheduledMessage.parentMessageId;
+    dto.attachmentIds = scheduledMessage.attachmentIds;
+    dto.expiresAt = scheduledMessage.expiresAt;
+    dto.ttlSeconds = scheduledMessage.ttlSeconds;
+    dto.templateId = scheduledMessage.templateId;
+    dto.redacted = scheduledMessage.redaction?.detected;
+    dto.sendAt = scheduledMessage.sendAt;
+    dto.messageId = scheduledMessage.messageId;
+    dto.status = scheduledMessage.status;
+    dto.createdAt = scheduledMessage.createdAt;
+
+    return dto;
+  }
+}
@@ -1,5 +1,13 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, IsObject } from 'class-validator';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsObject,
+  ValidateIf,
+} from 'class-validator';
+import { MessageBody, MessageContentType } from '../entities/message-content';
+import { IsMessageBody } from './message-body.dto';
 
 /**
  * Data Transfer Object for updating a message
@@ -22,4 +30,24 @@ export class UpdateMessageDto {
   @IsOptional()
   @IsObject()
   metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description:
+      'The content type of the message, required with body; it cannot be changed',
+    enum: MessageContentType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(MessageContentType)
+  contentType?: MessageContentType;
+
+  @ApiProperty({
+    description:
+      'The structured body of a card, system, poll or file message, shaped after the content type',
+    example: { title: 'Build #42', text: 'Deployed to staging' },
+    required: false,
+  })
+  @ValidateIf((dto: UpdateMessageDto) => dto.body !== undefined)
+  @IsMessageBody()
+  body?: MessageBody;
 }
@@ -0,0 +1,141 @@
+/**
+ * Processing status of a request made with an idempotency key
+ */
+export enum IdempotencyRecordStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+}
+
+/**
+ * IdempotencyRecord entity
+ *
+ * Remembers a request made with an `Idempotency-Key` and, once it has
+ * completed, its response, so that a retry of the same request gets the same
+ * response instead of repeating its effects.
+ */
+export class IdempotencyRecord {
+  tenantId: string;
+  key: string;
+  claimId: string;
+  fingerprint: string;
+  status: IdempotencyRecordStatus;
+  response?: unknown;
+  lockedUntil?: Date;
+  createdAt: Date;
+  expiresAt: Date;
+
+  private constructor(props: {
+    tenantId: string;
+    key: string;
+    claimId: string;
+    fingerprint: string;
+    status: IdempotencyRecordStatus;
+    response?: unknown;
+    lockedUntil?: Date;
+    createdAt: Date;
+    expiresAt: Date;
+  }) {
+    this.tenantId = props.tenantId;
+    this.key = props.key;
+    this.claimId = props.claimId;
+    this.fingerprint = props.fingerprint;
+    this.status = props.status;
+    this.response = props.response;
+    this.lockedUntil = props.lockedUntil;
+    this.createdAt = props.createdAt;
+    this.expiresAt = props.expiresAt;
+  }
+
+  /**
+   * Creates the record of a request about to be processed
+   *
+   * @param props.claimId Identifies this attempt, so that only it can complete or release the record
+   * @param props.windowMs How long the key is remembered
+   * @param props.lockMs How long the request may take before another attempt may take over
+   */
+  static create(props: {
+    tenantId: string;
+    key: string;
+    claimId: string;
+    fingerprint: string;
+    windowMs: number;
+    lockMs: number;
+  }): IdempotencyRecord {
+    const now = new Date();
+    return new IdempotencyRecord({
+      tenantId: props.tenantId,
+      key: props.key,
+      claimId: props.claimId,
+      fingerprint: props.fingerprint,
+      status: IdempotencyRecordStatus.PROCESSING,
+      lockedUntil: new Date(now.getTime() + props.lockMs),
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + props.windowMs),
+    });
+  }
+
+  /**
+   * Creates an IdempotencyRecord instance from database record
+   */
+  static fromDatabase(data: any): IdempotencyRecord {
+    return new IdempotencyRecord({
+      tenantId: data.tenantId,
+      key: data.key,
+      claimId: data.claimId,
+      fingerprint: data.fingerprint,
+      status: data.status,
+      response: data.response,
+      lockedUntil: data.lockedUntil,
+      createdAt: data.createdAt,
+      expiresAt: data.expiresAt,
+    });
+  }
+
+  /**
+   * Converts the IdempotencyRecord to a database record
+   */
+  toDatabase(): any {
+    return {
+      tenantId: this.tenantId,
+      key: this.key,
+      claimId: this.claimId,
+      fingerprint: this.fingerprint,
+      status: this.status,
+      response: this.response,
+      lockedUntil: this.lockedUntil,
+      createdAt: this.createdAt,
+      expiresAt: this.expiresAt,
+    };
+  }
+
+  /**
+   * Checks if the record was made by the same request
+   *
+   * @param fingerprint Fingerprint of the request being made
+   */
+  matches(fingerprint: string): boolean {
+    return this.fingerprint === fingerprint;
+  }
+
+  /**
+   * Checks if the request has completed and its response can be replayed
+   */
+  isCompleted(): boolean {
+    return this.status === IdempotencyRecordStatus.COMPLETED;
+  }
+
+  /**
+   * Checks if the record no longer holds its key, either because the window
+   * has passed or because the request was abandoned while processing
+   *
+   * @param now Current time
+   */
+  isStale(now: Date = new Date()): boolean {
+    return (
+      this.expiresAt <= now ||
+      (this.status === IdempotencyRecordStatus.PROCESSING &&
+        !!this.lockedUntil &&
+        this.lockedUntil <= now)
+    );
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Kinds of message content
+ *
+ * Text and markdown messages carry their text in `content`. The other kinds
+ * carry a structured `body` and use `content` as a fallback text.
+ */
+export enum MessageContentType {
+  TEXT = 'text',
+  MARKDOWN = 'markdown',
+  CARD = 'card',
+  SYSTEM = 'system',
+  POLL = 'poll',
+  FILE = 'file',
+}
+
+/**
+ * Body of a card message, e.g. a link preview or an integration notice
+ */
+export interface CardBody {
+  title: string;
+  text?: string;
+  imageUrl?: string;
+  fields?: { label: string; value: string }[];
+  actions?: { label: string; url: string }[];
+}
+
+/**
+ * Body of a message generated by the system, e.g. a participant joining
+ */
+export interface SystemBody {
+  event: string;
+  text: string;
+}
+
+/**
+ * Body of a poll message
+ */
+export interface PollBody {
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  /** ISO 8601 time after which no more votes are accepted */
+  closesAt?: string;
+}
+
+/**
+ * Body of a message sharing an attachment of the conversation
+ */
+export interface FileBody {
+  attachmentId: string;
+  name: string;
+  caption?: string;
+}
+
+/**
+ * Structured body of a message, depending on its content type
+ */
+export type MessageBody = CardBody | SystemBody | PollBody | FileBody;
+
+/**
+ * Content types whose messages carry a structured body
+ */
+export const STRUCTURED_CONTENT_TYPES: MessageContentType[] = [
+  MessageContentType.CARD,
+  MessageContentType.SYSTEM,
+  MessageContentType.POLL,
+  MessageContentType.FILE,
+];
+
+/**
+ * Checks if messages of a content type carry a structured body
+ */
+export function isStructuredContentType(
+  contentType?: MessageContentType,
+): boolean {
+  return !!contentType && STRUCTURED_CONTENT_TYPES.includes(contentType);
+}
+
+/**
+ * Removes markdown syntax, keeping the text a reader would see
+ */
+export function stripMarkdown(markdown: string): string {
+  return (
+    markdown
+      // Code fences, keeping the code
+      .replace(/^```.*$/gm, '')
+      // Images and links, keeping the alt text and the link text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      // Headings, block quotes and list markers
+      .replace(/^\s{0,3}(?:#{1,6}|>+|[-*+]|\d+\.)\s+/gm, '')
+      // Emphasis, strikethrough and inline code
+      .replace(/(\*\*|__|~~|\*|_|`)(.+?)\1/g, '$2')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  );
+}
+
+/**
+ * Renders the plain text of a message, as shown in notifications and
+ * indexed for search
+ *
+ * @param contentType Content type of the message, text if not set
+ * @param content Text of the message
+ * @param body Structured body of the message
+ */
+export function renderMessageText(
+  contentType: MessageContentType | undefined,
+  content: string,
+  body?: MessageBody,
+): string {
+  if (isStructuredContentType(contentType) && !body) {
+    return content;
+  }
+
+  switch (contentType) {
+    case MessageContentType.MARKDOWN:
+      return stripMarkdown(content);
+
+    case MessageContentType.CARD: {
+      const card = body as CardBody;
+      return [
+        card.title,
+        card.text,
+        ...(card.fields ?? []).map((field) => `${field.label}: ${field.value}`),
+      ]
+        .filter(Boolean)
+        .join('\n');
+    }
+
+    case MessageContentType.SYSTEM:
+      return (body as SystemBody).text;
+
+    case MessageContentType.POLL: {
+      const poll = body as PollBody;
+      return [poll.question, ...poll.options].join('\n');
+    }
+
+    case MessageContentType.FILE: {
+      const file = body as FileBody;
+      return [file.name, file.caption].filter(Boolean).join('\n');
+    }
+
+    default:
+      return content;
+  }
+}
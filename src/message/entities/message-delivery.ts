@@ -0,0 +1,101 @@
+import { InvalidStateTransitionError } from '../../common/errors/invalid-state-transition.error';
+
+/**
+ * Delivery status of a message, overall and per recipient
+ *
+ * A message is `pending` until it is handed over for delivery, then `sent`,
+ * or `failed` if that did not work. Recipients acknowledge it as `delivered`
+ * and `read`; the message reaches a status once every recipient has.
+ */
+export enum MessageDeliveryStatus {
+  PENDING = 'pending',
+  SENT = 'sent',
+  DELIVERED = 'delivered',
+  READ = 'read',
+  FAILED = 'failed',
+}
+
+/**
+ * Delivery status of a message for one recipient
+ */
+export interface RecipientDelivery {
+  userId: string;
+  status: MessageDeliveryStatus;
+  updatedAt: Date;
+}
+
+/**
+ * Statuses each status can change to
+ *
+ * Statuses only move forward; a failed message can be sent again.
+ */
+const DELIVERY_STATUS_TRANSITIONS: Record<
+  MessageDeliveryStatus,
+  MessageDeliveryStatus[]
+> = {
+  [MessageDeliveryStatus.PENDING]: [
+    MessageDeliveryStatus.SENT,
+    MessageDeliveryStatus.FAILED,
+  ],
+  [MessageDeliveryStatus.SENT]: [
+    MessageDeliveryStatus.DELIVERED,
+    MessageDeliveryStatus.READ,
+  ],
+  [MessageDeliveryStatus.DELIVERED]: [MessageDeliveryStatus.READ],
+  [MessageDeliveryStatus.READ]: [],
+  [MessageDeliveryStatus.FAILED]: [MessageDeliveryStatus.SENT],
+};
+
+/**
+ * Ensures a delivery status can change to another
+ *
+ * @param from The current status
+ * @param to The requested status
+ * @param subject What changes status, used in the error message
+ * @throws InvalidStateTransitionError if the lifecycle does not allow the change
+ */
+export function assertDeliveryTransition(
+  from: MessageDeliveryStatus,
+  to: MessageDeliveryStatus,
+  subject: string,
+): void {
+  if (!DELIVERY_STATUS_TRANSITIONS[from].includes(to)) {
+    throw new InvalidStateTransitionError(
+      from,
+      to,
+      `${subject} cannot change from "${from}" to "${to}"`,
+    );
+  }
+}
+
+/**
+ * Computes the status of a sent message from the status of its recipients
+ *
+ * @param deliveries Delivery status per recipient
+ * @returns The least advanced status among the recipients
+ */
+export function aggregateDeliveryStatus(
+  deliveries: RecipientDelivery[],
+): MessageDeliveryStatus {
+  if (
+    deliveries.length > 0 &&
+    deliveries.every(
+      (delivery) => delivery.status === MessageDeliveryStatus.READ,
+    )
+  ) {
+    return MessageDeliveryStatus.READ;
+  }
+
+  if (
+    deliveries.length > 0 &&
+    deliveries.every((delivery) =>
+      [MessageDeliveryStatus.DELIVERED, MessageDeliveryStatus.READ].includes(
+        delivery.status,
+      ),
+    )
+  ) {
+    return MessageDeliveryStatus.DELIVERED;
+  }
+
+  return MessageDeliveryStatus.SENT;
+}
@@ -0,0 +1,83 @@
+import { RedactionRecord } from '../../common/redaction/redaction.interface';
+
+/**
+ * MessageDraft entity
+ *
+ * Unsent text of a user in a conversation, kept so that it follows the user
+ * across devices
+ */
+export class MessageDraft {
+  tenantId: string;
+  conversationId: string;
+  userId: string;
+  content: string;
+  metadata?: Record<string, any>;
+  /** Set when personal data was redacted from the content */
+  redaction?: RedactionRecord;
+  updatedAt: Date;
+
+  private constructor(props: {
+    tenantId: string;
+    conversationId: string;
+    userId: string;
+    content: string;
+    metadata?: Record<string, any>;
+    redaction?: RedactionRecord;
+    updatedAt: Date;
+  }) {
+    this.tenantId = props.tenantId;
+    this.conversationId = props.conversationId;
+    this.userId = props.userId;
+    this.content = props.content;
+    this.metadata = props.metadata;
+    this.redaction = props.redaction;
+    this.updatedAt = props.updatedAt;
+  }
+
+  /**
+   * Creates the current draft of a user in a conversation
+   */
+  static create(props: {
+    tenantId: string;
+    conversationId: string;
+    userId: string;
+    content: string;
+    metadata?: Record<string, any>;
+    redaction?: RedactionRecord;
+  }): MessageDraft {
+    return new MessageDraft({
+      ...props,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Creates a MessageDraft instance from database record
+   */
+  static fromDatabase(data: any): MessageDraft {
+    return new MessageDraft({
+      tenantId: data.tenantId,
+      conversationId: data.conversationId,
+      userId: data.userId,
+      content: data.content,
+      metadata: data.metadata,
+      redaction: data.redaction ?? undefined,
+      updatedAt: data.updatedAt,
+    });
+  }
+
+  /**
+   * Converts the MessageDraft to a database record
+   */
+  toDatabase(): any {
+    return {
+      tenantId: this.tenantId,
+      conversationId: this.conversationId,
+      userId: this.userId,
+      content: this.content,
+      metadata: this.metadata,
+      redaction: this.redaction,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
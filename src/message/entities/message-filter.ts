@@ -0,0 +1,33 @@
+/**
+ * Selects the messages of a tenant that a bulk change applies to
+ *
+ * All given criteria must match. `messageIds` selects messages explicitly
+ * and is used instead of the other criteria.
+ */
+export interface MessageFilter {
+  conversationId?: string;
+  senderId?: string;
+  /** Messages sent at or after this time */
+  from?: Date;
+  /** Messages sent at or before this time */
+  to?: Date;
+  /** Metadata values the messages must have, by key */
+  metadata?: Record<string, string | number | boolean>;
+  messageIds?: string[];
+}
+
+/**
+ * Metadata keys a filter can match; other characters, such as `$` and `.`,
+ * would be interpreted by the query
+ */
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_]+$/;
+
+/**
+ * Checks if a value can be matched in metadata; anything else, such as an
+ * object, would be interpreted by the query
+ */
+export function isMetadataFilterValue(
+  value: unknown,
+): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value);
+}
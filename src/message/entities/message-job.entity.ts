@@ -0,0 +1,230 @@
+import { MessageFilter } from './message-filter';
+
+/**
+ * Kind of change a message job applies
+ */
+export enum MessageJobType {
+  BULK_DELETE = 'bulk-delete',
+  BULK_UPDATE = 'bulk-update',
+}
+
+/**
+ * Lifecycle status of a message job
+ */
+export enum MessageJobStatus {
+  /** Waiting for a runner */
+  PENDING = 'pending',
+  /** Claimed by a runner that is working through the messages */
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  /** Stopped before all messages were processed, see `lastError` */
+  FAILED = 'failed',
+}
+
+/**
+ * A message a job could not change
+ */
+export interface MessageJobError {
+  messageId: string;
+  error: string;
+}
+
+/**
+ * Number of failed messages kept on a job; the failed count goes on
+ */
+const MAX_RECORDED_FAILURES = 100;
+
+/**
+ * MessageJob entity
+ *
+ * A change applied to many messages in the background, e.g. deleting all
+ * messages of a sender. Messages are processed in the order of their ID and
+ * the last processed ID is stored with the progress, so a job taken over by
+ * another runner resumes where the previous one stopped.
+ */
+export class MessageJob {
+  id: string;
+  tenantId: string;
+  type: MessageJobType;
+  requestedBy: string;
+  filter: MessageFilter;
+  metadata?: Record<string, any>;
+  status: MessageJobStatus;
+  total?: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  failures: MessageJobError[];
+  cursor?: string;
+  attempts: number;
+  lockedUntil?: Date;
+  lastError?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+
+  private constructor(props: {
+    id: string;
+    tenantId: string;
+    type: MessageJobType;
+    requestedBy: string;
+    filter: MessageFilter;
+    metadata?: Record<string, any>;
+    status: MessageJobStatus;
+    total?: number;
+    processed?: number;
+    succeeded?: number;
+    failed?: number;
+    failures?: MessageJobError[];
+    cursor?: string;
+    attempts?: number;
+    lockedUntil?: Date;
+    lastError?: string;
+    createdAt: Date;
+    startedAt?: Date;
+    completedAt?: Date;
+  }) {
+    this.id = props.id;
+    this.tenantId = props.tenantId;
+    this.type = props.type;
+    this.requestedBy = props.requestedBy;
+    this.filter = props.filter;
+    this.metadata = props.metadata;
+    this.status = props.status;
+    this.total = props.total;
+    this.processed = props.processed ?? 0;
+    this.succeeded = props.succeeded ?? 0;
+    this.failed = props.failed ?? 0;
+    this.failures = props.failures ?? [];
+    this.cursor = props.cursor;
+    this.attempts = props.attempts ?? 0;
+    this.lockedUntil = props.lockedUntil;
+    this.lastError = props.lastError;
+    this.createdAt = props.createdAt;
+    this.startedAt = props.startedAt;
+    this.completedAt = props.completedAt;
+  }
+
+  /**
+   * Creates a new pending job
+   *
+   * @param props.metadata Metadata to set on the messages of a bulk update
+   */
+  static create(props: {
+    id: string;
+    tenantId: string;
+    type: MessageJobType;
+    requestedBy: string;
+    filter: MessageFilter;
+    metadata?: Record<string, any>;
+  }): MessageJob {
+    return new MessageJob({
+      ...props,
+      status: MessageJobStatus.PENDING,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Checks if the job has stopped, successfully or not
+   */
+  isFinished(): boolean {
+    return [MessageJobStatus.COMPLETED, MessageJobStatus.FAILED].includes(
+      this.status,
+    );
+  }
+
+  /**
+   * The messages the job applies to
+   *
+   * Messages sent after the job was requested are left alone, so that a job
+   * on a busy conversation comes to an end.
+   */
+  scope(): MessageFilter {
+    if (this.filter.messageIds) {
+      return this.filter;
+    }
+
+    const to =
+      this.filter.to && this.filter.to < this.createdAt
+        ? this.filter.to
+        : this.createdAt;
+    return { ...this.filter, to };
+  }
+
+  /**
+   * Records the outcome of a message
+   *
+   * @param messageId The processed message
+   * @param error Why the message could not be changed, if it could not
+   */
+  recordResult(messageId: string, error?: string): void {
+    this.processed++;
+    this.cursor = messageId;
+
+    if (error === undefined) {
+      this.succeeded++;
+      return;
+    }
+
+    this.failed++;
+    if (this.failures.length < MAX_RECORDED_FAILURES) {
+      this.failures.push({ messageId, error });
+    }
+  }
+
+  /**
+   * Creates a MessageJob instance from database record
+   */
+  static fromDatabase(data: any): MessageJob {
+    return new MessageJob({
+      id: data.id,
+      tenantId: data.tenantId,
+      type: data.type,
+      requestedBy: data.requestedBy,
+      filter: data.filter ?? {},
+      metadata: data.metadata,
+      status: data.status,
+      total: data.total,
+      processed: data.processed,
+      succeeded: data.succeeded,
+      failed: data.failed,
+      failures: data.failures?.map((error: MessageJobError) => ({
+        messageId: error.messageId,
+        error: error.error,
+      })),
+      cursor: data.cursor,
+      attempts: data.attempts,
+      lockedUntil: data.lockedUntil,
+      lastError: data.lastError,
+      createdAt: data.createdAt,
+      startedAt: data.startedAt,
+      completedAt: data.completedAt,
+    });
+  }
+
+  /**
+   * Converts the MessageJob to a database record
+   *
+   * The progress and the run state are only written on insert; afterwards
+   * they are maintained by the repository on behalf of the runner holding
+   * the job.
+   */
+  toDatabase(): any {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      type: this.type,
+      requestedBy: this.requestedBy,
+      filter: this.filter,
+      metadata: this.metadata,
+      status: this.status,
+      processed: this.processed,
+      succeeded: this.succeeded,
+      failed: this.failed,
+      failures: this.failures,
+      attempts: this.attempts,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { InvalidStateTransitionError } from '../../common/errors/invalid-state-transition.error';
+
+/**
+ * What happens to a message breaking a moderation rule
+ *
+ * `reject` refuses the message, `mask` hides the offending text and lets
+ * the message through, and `flag` holds the message for review.
+ */
+export enum ModerationAction {
+  REJECT = 'reject',
+  MASK = 'mask',
+  FLAG = 'flag',
+}
+
+/**
+ * Review status of a message held by moderation
+ *
+ * A flagged message is `pending` until a moderator approves or rejects it.
+ * Only pending messages can be reviewed.
+ */
+export enum ModerationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Statuses whose messages are hidden from everyone but their sender
+ */
+export const HIDDEN_MODERATION_STATUSES: ModerationStatus[] = [
+  ModerationStatus.PENDING,
+  ModerationStatus.REJECTED,
+];
+
+/**
+ * A moderation rule a message broke, and what it did about it
+ */
+export interface ModerationReason {
+  rule: string;
+  action: ModerationAction;
+}
+
+/**
+ * Moderation state of a message that was flagged for review
+ */
+export interface MessageModeration {
+  status: ModerationStatus;
+  /** The rules the message broke when it was flagged */
+  reasons: ModerationReason[];
+  flaggedAt: Date;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+}
+
+/**
+ * Ensures a flagged message is waiting for review
+ *
+ * @param moderation Moderation state of the message, if it was ever flagged
+ * @param to The requested status
+ * @param subject What is reviewed, used in the error message
+ * @throws InvalidStateTransitionError if the message is not pending
+ */
+export function assertPendingReview(
+  moderation: MessageModeration | undefined,
+  to: ModerationStatus,
+  subject: string,
+): void {
+  if (moderation?.status !== ModerationStatus.PENDING) {
+    const from = moderation?.status ?? 'unmoderated';
+    throw new InvalidStateTransitionError(
+      from,
+      to,
+      `${subject} cannot change from "${from}" to "${to}"`,
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * MessagePin entity
+ *
+ * Records that a message is pinned to its conversation, by whom and when
+ */
+export class MessagePin {
+  tenantId: string;
+  conversationId: string;
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: Date;
+
+  private constructor(props: {
+    tenantId: string;
+    conversationId: string;
+    messageId: string;
+    pinnedBy: string;
+    pinnedAt: Date;
+  }) {
+    this.tenantId = props.tenantId;
+    this.conversationId = props.conversationId;
+    this.messageId = props.messageId;
+    this.pinnedBy = props.pinnedBy;
+    this.pinnedAt = props.pinnedAt;
+  }
+
+  /**
+   * Creates a new pin
+   */
+  static create(props: {
+    tenantId: string;
+    conversationId: string;
+    messageId: string;
+    pinnedBy: string;
+  }): MessagePin {
+    return new MessagePin({
+      ...props,
+      pinnedAt: new Date(),
+    });
+  }
+
+  /**
+   * Creates a MessagePin instance from database record
+   */
+  static fromDatabase(data: any): MessagePin {
+    return new MessagePin({
+      tenantId: data.tenantId,
+      conversationId: data.conversationId,
+      messageId: data.messageId,
+      pinnedBy: data.pinnedBy,
+      pinnedAt: data.pinnedAt,
+    });
+  }
+
+  /**
+   * Converts the MessagePin to a database record
+   */
+  toDatabase(): any {
+    return {
+      tenantId: this.tenantId,
+      conversationId: this.conversationId,
+      messageId: this.messageId,
+      pinnedBy: this.pinnedBy,
+      pinnedAt: this.pinnedAt,
+    };
+  }
+}
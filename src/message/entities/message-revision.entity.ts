@@ -0,0 +1,102 @@
+import { MessageBody } from './message-content';
+
+/**
+ * Fields changed by an edit, with their value before and after
+ *
+ * Metadata changes are recorded per key since edits merge metadata.
+ */
+export interface MessageRevisionDiff {
+  content?: { before: string; after: string };
+  metadata?: Record<string, { before: any; after: any }>;
+  body?: { before?: MessageBody; after: MessageBody };
+}
+
+/**
+ * MessageRevision entity
+ *
+ * Immutable snapshot of a message as it was before an edit
+ */
+export class MessageRevision {
+  messageId: string;
+  tenantId: string;
+  revision: number;
+  content: string;
+  metadata?: Record<string, any>;
+  body?: MessageBody;
+  editorId: string;
+  editedAt: Date;
+  diff: MessageRevisionDiff;
+
+  private constructor(props: {
+    messageId: string;
+    tenantId: string;
+    revision: number;
+    content: string;
+    metadata?: Record<string, any>;
+    body?: MessageBody;
+    editorId: string;
+    editedAt: Date;
+    diff: MessageRevisionDiff;
+  }) {
+    this.messageId = props.messageId;
+    this.tenantId = props.tenantId;
+    this.revision = props.revision;
+    this.content = props.content;
+    this.metadata = props.metadata;
+    this.body = props.body;
+    this.editorId = props.editorId;
+    this.editedAt = props.editedAt;
+    this.diff = props.diff;
+  }
+
+  /**
+   * Creates a new MessageRevision instance
+   */
+  static create(props: {
+    messageId: string;
+    tenantId: string;
+    revision: number;
+    content: string;
+    metadata?: Record<string, any>;
+    body?: MessageBody;
+    editorId: string;
+    editedAt: Date;
+    diff: MessageRevisionDiff;
+  }): MessageRevision {
+    return new MessageRevision(props);
+  }
+
+  /**
+   * Creates a MessageRevision instance from database record
+   */
+  static fromDatabase(data: any): MessageRevision {
+    return new MessageRevision({
+      messageId: data.messageId,
+      tenantId: data.tenantId,
+      revision: data.revision,
+      content: data.content,
+      metadata: data.metadata,
+      body: data.body,
+      editorId: data.editorId,
+      editedAt: data.editedAt,
+      diff: data.diff,
+    });
+  }
+
+  /**
+   * Converts the MessageRevision to a database record
+   */
+  toDatabase(): any {
+    return {
+      messageId: this.messageId,
+      tenantId: this.tenantId,
+      revision: this.revision,
+      content: this.content,
+      metadata: this.metadata,
+      body: this.body,
+      editorId: this.editorId,
+      editedAt: this.editedAt,
+      diff: this.diff,
+    };
+  }
+}
@@ -1,4 +1,7 @@
 import { Message } from './message.entity';
+import { MessageContentType } from './message-content';
+import { MessageDeliveryStatus } from './message-delivery';
+import { InvalidStateTransitionError } from '../../common/errors/invalid-state-transition.error';
 
 describe('Message Entity', () => {
   it('should create a new message with the given properties', () => {
@@ -127,9 +130,326 @@ describe('Message Entity', () => {
       conversationId,
       senderId,
       content,
+      contentType: MessageContentType.TEXT,
       tenantId,
       timestamp,
       metadata,
+      attachmentIds: [],
+      mentionedUserIds: [],
+      revision: 1,
+      version: 1,
     });
   });
+
+  it('should create a reply threaded under its parent', () => {
+    // Arrange
+    const root = Message.create({
+      id: 'root',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Root message',
+      tenantId: 'tenant-1',
+    });
+
+    // Act
+    const reply = root.reply({ id: 'r1', senderId: '790', content: 'Reply' });
+    const nested = reply.reply({
+      id: 'r2',
+      senderId: '789',
+      content: 'Nested',
+    });
+
+    // Assert
+    expect(reply.parentMessageId).toBe('root');
+    expect(reply.threadRootId).toBe('root');
+    expect(reply.conversationId).toBe('456');
+    expect(reply.tenantId).toBe('tenant-1');
+    expect(reply.replyCount).toBe(0);
+    expect(nested.parentMessageId).toBe('r1');
+    expect(nested.threadRootId).toBe('root');
+  });
+
+  it('should summarize reactions per emoji', () => {
+    // Arrange
+    const reactedAt = new Date();
+    const reactions = [
+      { emoji: '👍', userId: 'u1', reactedAt },
+      { emoji: '🎉', userId: 'u2', reactedAt },
+      { emoji: '👍', userId: 'u2', reactedAt },
+    ];
+
+    // Act
+    const summary = Message.summarizeReactions(reactions);
+
+    // Assert
+    expect(summary).toEqual([
+      { emoji: '👍', count: 2, userIds: ['u1', 'u2'] },
+      { emoji: '🎉', count: 1, userIds: ['u2'] },
+    ]);
+  });
+
+  it('should tally the votes of a poll per option', () => {
+    // Arrange
+    const votedAt = new Date();
+    const poll = {
+      contentType: MessageContentType.POLL,
+      body: { question: 'Lunch?', options: ['Pizza', 'Sushi', 'Salad'] },
+      pollVotes: [
+        { userId: 'u1', optionIndexes: [0, 2], votedAt },
+        { userId: 'u2', optionIndexes: [2], votedAt },
+      ],
+      pollClosesAt: new Date('2024-01-01T12:00:00Z'),
+    };
+
+    // Act
+    const open = Message.tallyPoll(poll, new Date('2024-01-01T11:00:00Z'));
+    const closed = Message.tallyPoll(poll, new Date('2024-01-01T12:00:00Z'));
+
+    // Assert
+    expect(open?.tallies).toEqual([
+      { option: 'Pizza', votes: 1 },
+      { option: 'Sushi', votes: 0 },
+      { option: 'Salad', votes: 2 },
+    ]);
+    expect(open?.totalVoters).toBe(2);
+    expect(open?.closed).toBe(false);
+    expect(closed?.closed).toBe(true);
+    expect(
+      Message.tallyPoll({ contentType: MessageContentType.TEXT }),
+    ).toBeUndefined();
+  });
+
+  it('should keep the previous version as a revision when edited', () => {
+    // Arrange
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello',
+      tenantId: 'tenant-1',
+      metadata: { important: true },
+    });
+
+    // Act
+    const revision = message.edit(
+      { content: 'Hello, world!', metadata: { important: true, pinned: 1 } },
+      'editor-1',
+    );
+
+    // Assert
+    expect(message.content).toBe('Hello, world!');
+    expect(message.revision).toBe(2);
+    expect(message.editedAt).toBeInstanceOf(Date);
+    expect(revision).not.toBeNull();
+    expect(revision?.revision).toBe(1);
+    expect(revision?.content).toBe('Hello');
+    expect(revision?.metadata).toEqual({ important: true });
+    expect(revision?.editorId).toBe('editor-1');
+    expect(revision?.editedAt).toEqual(message.editedAt);
+    expect(revision?.diff).toEqual({
+      content: { before: 'Hello', after: 'Hello, world!' },
+      metadata: { pinned: { before: undefined, after: 1 } },
+    });
+  });
+
+  it('should not record a revision for an edit that changes nothing', () => {
+    // Arrange
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello',
+      tenantId: 'tenant-1',
+      metadata: { important: true },
+    });
+
+    // Act
+    const revision = message.edit(
+      { content: 'Hello', metadata: { important: true } },
+      'editor-1',
+    );
+
+    // Assert
+    expect(revision).toBeNull();
+    expect(message.revision).toBe(1);
+    expect(message.editedAt).toBeUndefined();
+  });
+
+  it('should soft delete and restore within the restore window', () => {
+    // Arrange
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello',
+      tenantId: 'tenant-1',
+    });
+
+    // Act
+    message.softDelete('789');
+    const deletedAt = message.deletedAt as Date;
+
+    // Assert
+    expect(message.isDeleted()).toBe(true);
+    expect(message.deletedBy).toBe('789');
+    expect(
+      message.isRestorable(60000, new Date(deletedAt.getTime() + 59000)),
+    ).toBe(true);
+    expect(
+      message.isRestorable(60000, new Date(deletedAt.getTime() + 61000)),
+    ).toBe(false);
+
+    message.restore();
+    expect(message.isDeleted()).toBe(false);
+    expect(message.deletedBy).toBeUndefined();
+    expect(message.isRestorable(60000)).toBe(false);
+  });
+
+  it('should extract distinct mention tokens in order of appearance', () => {
+    expect(
+      Message.extractMentions(
+        'Hi @bob. Ask @jane.doe (cc @bob), not alice@example.com',
+      ),
+    ).toEqual(['bob', 'jane.doe']);
+  });
+
+  it('should only resolve mentions of known users', () => {
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello @alice and @nobody',
+      tenantId: 'tenant1',
+    });
+
+    message.resolveMentions(['alice', 'bob']);
+
+    expect(message.mentionedUserIds).toEqual(['alice']);
+  });
+
+  it('should expire at its expiry', () => {
+    const expiresAt = new Date('2024-01-01T12:00:00Z');
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello',
+      tenantId: 'tenant1',
+      expiresAt,
+    });
+
+    expect(message.isExpired(new Date('2024-01-01T11:59:59Z'))).toBe(false);
+    expect(message.isExpired(expiresAt)).toBe(true);
+    expect(
+      Message.fromDatabase({
+        ...message,
+        expiresAt: expiresAt.toISOString(),
+      }).isExpired(expiresAt),
+    ).toBe(true);
+  });
+
+  it('should render markdown as plain text', () => {
+    expect(
+      Message.renderText({
+        content:
+          '# Release\n\n**Done**, see [the notes](https://example.com) and `v2`\n- _fast_',
+        contentType: MessageContentType.MARKDOWN,
+      }),
+    ).toBe('Release\n\nDone, see the notes and v2\nfast');
+  });
+
+  it('should render structured bodies as plain text', () => {
+    expect(
+      Message.renderText({
+        content: '',
+        contentType: MessageContentType.CARD,
+        body: {
+          title: 'Build #42',
+          text: 'Deployed',
+          fields: [{ label: 'Status', value: 'Succeeded' }],
+        },
+      }),
+    ).toBe('Build #42\nDeployed\nStatus: Succeeded');
+    expect(
+      Message.renderText({
+        content: '',
+        contentType: MessageContentType.POLL,
+        body: { question: 'Lunch?', options: ['Yes', 'No'] },
+      }),
+    ).toBe('Lunch?\nYes\nNo');
+  });
+
+  it('should keep the previous body as a revision when edited', () => {
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Build #42',
+      contentType: MessageContentType.CARD,
+      body: { title: 'Build #42' },
+      tenantId: 'tenant1',
+    });
+
+    const revision = message.edit(
+      { body: { title: 'Build #42', text: 'Deployed' } },
+      '789',
+    );
+
+    expect(revision?.body).toEqual({ title: 'Build #42' });
+    expect(revision?.diff.body).toEqual({
+      before: { title: 'Build #42' },
+      after: { title: 'Build #42', text: 'Deployed' },
+    });
+    expect(message.body).toEqual({ title: 'Build #42', text: 'Deployed' });
+    expect(message.revision).toBe(2);
+  });
+
+  it('should follow the delivery of its recipients', () => {
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello',
+      tenantId: 'tenant1',
+    });
+    expect(message.deliveryStatus).toBe(MessageDeliveryStatus.PENDING);
+
+    message.markSent(['alice', 'bob']);
+    expect(message.deliveryStatus).toBe(MessageDeliveryStatus.SENT);
+
+    expect(message.acknowledge('alice', MessageDeliveryStatus.READ)).toBe(
+      MessageDeliveryStatus.SENT,
+    );
+    expect(message.deliveryStatus).toBe(MessageDeliveryStatus.SENT);
+
+    message.acknowledge('bob', MessageDeliveryStatus.DELIVERED);
+    expect(message.deliveryStatus).toBe(MessageDeliveryStatus.DELIVERED);
+
+    message.acknowledge('bob', MessageDeliveryStatus.READ);
+    expect(message.deliveryStatus).toBe(MessageDeliveryStatus.READ);
+  });
+
+  it('should reject delivery status transitions its lifecycle forbids', () => {
+    const message = Message.create({
+      id: '123',
+      conversationId: '456',
+      senderId: '789',
+      content: 'Hello',
+      tenantId: 'tenant1',
+    });
+    message.markSent(['alice']);
+    message.acknowledge('alice', MessageDeliveryStatus.READ);
+
+    expect(message.acknowledge('alice', MessageDeliveryStatus.READ)).toBeNull();
+    expect(() =>
+      message.acknowledge('alice', MessageDeliveryStatus.DELIVERED),
+    ).toThrow(InvalidStateTransitionError);
+    expect(() =>
+      message.acknowledge('bob', MessageDeliveryStatus.READ),
+    ).toThrow(InvalidStateTransitionError);
+    expect(() => message.markSent(['alice'])).toThrow(
+      InvalidStateTransitionError,
+    );
+    expect(() => message.markFailed()).toThrow(InvalidStateTransitionError);
+  });
 });
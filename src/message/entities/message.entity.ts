@@ -1,3 +1,98 @@
+import {
+  MessageRevision,
+  MessageRevisionDiff,
+} from './message-revision.entity';
+import {
+  MessageBody,
+  MessageContentType,
+  PollBody,
+  renderMessageText,
+} from './message-content';
+import {
+  MessageDeliveryStatus,
+  RecipientDelivery,
+  aggregateDeliveryStatus,
+  assertDeliveryTransition,
+} from './message-delivery';
+import {
+  HIDDEN_MODERATION_STATUSES,
+  MessageModeration,
+  ModerationReason,
+  ModerationStatus,
+  assertPendingReview,
+} from './message-moderation';
+import { InvalidStateTransitionError } from '../../common/errors/invalid-state-transition.error';
+import { RedactionRecord } from '../../common/redaction/redaction.interface';
+
+/**
+ * A single reaction of a user to a message
+ */
+export interface MessageReaction {
+  emoji: string;
+  userId: string;
+  reactedAt: Date;
+}
+
+/**
+ * Reactions to a message aggregated per emoji
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+/**
+ * The vote of a user in a poll; every user votes once
+ */
+export interface PollVote {
+  userId: string;
+  /** Indexes of the chosen options */
+  optionIndexes: number[];
+  votedAt: Date;
+}
+
+/**
+ * Number of votes for one option of a poll
+ */
+export interface PollTally {
+  option: string;
+  votes: number;
+}
+
+/**
+ * Current results of a poll
+ */
+export interface PollResults {
+  /** Votes per option, in the order of the options */
+  tallies: PollTally[];
+  totalVoters: number;
+  closesAt?: Date;
+  closedAt?: Date;
+  /** Whether the poll no longer accepts votes */
+  closed: boolean;
+}
+
+/**
+ * Snapshot of a message quoted by a forwarded message
+ *
+ * Kept as it was at forwarding time, so later edits or the deletion of the
+ * original do not change the forwarded message.
+ */
+export interface MessageForward {
+  messageId: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  timestamp: Date;
+}
+
+/**
+ * Matches `@user` tokens that are not part of a word or an email address.
+ * User IDs may contain dots, but a trailing dot ends the sentence.
+ */
+const MENTION_PATTERN = /(?<![\w@.])@([\w-]+(?:\.[\w-]+)*)/g;
+
 /**
  * Message entity
  *
@@ -8,26 +103,102 @@ export class Message {
   conversationId: string;
   senderId: string;
   content: string;
+  contentType: MessageContentType;
+  body?: MessageBody;
   tenantId: string;
   timestamp: Date;
   metadata?: Record<string, any>;
+  parentMessageId?: string;
+  threadRootId?: string;
+  attachmentIds: string[];
+  mentionedUserIds: string[];
+  replyCount: number;
+  reactions: MessageReaction[];
+  revision: number;
+  version: number;
+  editedAt?: Date;
+  deletedAt?: Date;
+  deletedBy?: string;
+  expiresAt?: Date;
+  forwardedFrom?: MessageForward;
+  /** The template the content was rendered from */
+  templateId?: string;
+  deliveryStatus: MessageDeliveryStatus;
+  deliveries: RecipientDelivery[];
+  moderation?: MessageModeration;
+  /** Set when personal data was redacted from the content */
+  redaction?: RedactionRecord;
+  /** Votes of a poll message */
+  pollVotes: PollVote[];
+  /** When a poll message closes, taken from its body */
+  pollClosesAt?: Date;
+  /** When a poll message closed, set once its closing has been announced */
+  pollClosedAt?: Date;
 
   private constructor(props: {
     id: string;
     conversationId: string;
     senderId: string;
     content: string;
+    contentType?: MessageContentType;
+    body?: MessageBody;
     tenantId: string;
     timestamp: Date;
     metadata?: Record<string, any>;
+    parentMessageId?: string;
+    threadRootId?: string;
+    attachmentIds?: string[];
+    mentionedUserIds?: string[];
+    replyCount?: number;
+    reactions?: MessageReaction[];
+    revision?: number;
+    version?: number;
+    editedAt?: Date;
+    deletedAt?: Date;
+    deletedBy?: string;
+    expiresAt?: Date;
+    forwardedFrom?: MessageForward;
+    templateId?: string;
+    deliveryStatus?: MessageDeliveryStatus;
+    deliveries?: RecipientDelivery[];
+    moderation?: MessageModeration;
+    redaction?: RedactionRecord;
+    pollVotes?: PollVote[];
+    pollClosesAt?: Date;
+    pollClosedAt?: Date;
   }) {
     this.id = props.id;
     this.conversationId = props.conversationId;
     this.senderId = props.senderId;
     this.content = props.content;
+    this.contentType = props.contentType ?? MessageContentType.TEXT;
+    this.body = props.body;
     this.tenantId = props.tenantId;
     this.timestamp = props.timestamp;
     this.metadata = props.metadata;
+    this.parentMessageId = props.parentMessageId;
+    this.threadRootId = props.threadRootId;
+    this.attachmentIds = props.attachmentIds ?? [];
+    this.mentionedUserIds = props.mentionedUserIds ?? [];
+    this.replyCount = props.replyCount ?? 0;
+    this.reactions = props.reactions ?? [];
+    this.revision = props.revision ?? 1;
+    // Messages stored before versioning have no version
+    this.version = props.version ?? 0;
+    this.editedAt = props.editedAt;
+    this.deletedAt = props.deletedAt;
+    this.deletedBy = props.deletedBy;
+    this.expiresAt = props.expiresAt;
+    this.forwardedFrom = props.forwardedFrom;
+    this.templateId = props.templateId;
+    // Messages stored before delivery tracking have all been sent
+    this.deliveryStatus = props.deliveryStatus ?? MessageDeliveryStatus.SENT;
+    this.deliveries = props.deliveries ?? [];
+    this.moderation = props.moderation;
+    this.redaction = props.redaction;
+    this.pollVotes = props.pollVotes ?? [];
+    this.pollClosesAt = props.pollClosesAt;
+    this.pollClosedAt = props.pollClosedAt;
   }
 
   /**
@@ -38,15 +209,69 @@ export class Message {
     conversationId: string;
     senderId: string;
     content: string;
+    contentType?: MessageContentType;
+    body?: MessageBody;
     tenantId: string;
     metadata?: Record<string, any>;
+    parentMessageId?: string;
+    threadRootId?: string;
+    attachmentIds?: string[];
+    expiresAt?: Date;
+    forwardedFrom?: MessageForward;
+    templateId?: string;
+    timestamp?: Date;
   }): Message {
     return new Message({
       ...props,
-      timestamp: new Date(),
+      // Imported messages keep their original time
+      timestamp: props.timestamp ?? new Date(),
+      version: 1,
+      deliveryStatus: MessageDeliveryStatus.PENDING,
+      pollClosesAt: Message.pollClosingTime(props.contentType, props.body),
+    });
+  }
+
+  /**
+   * Creates a reply to this message
+   *
+   * The reply inherits the thread root of this message, or uses this
+   * message as the root when it is not itself a reply.
+   */
+  reply(props: {
+    id: string;
+    senderId: string;
+    content: string;
+    contentType?: MessageContentType;
+    body?: MessageBody;
+    metadata?: Record<string, any>;
+    attachmentIds?: string[];
+    expiresAt?: Date;
+    forwardedFrom?: MessageForward;
+    templateId?: string;
+    timestamp?: Date;
+  }): Message {
+    return Message.create({
+      ...props,
+      conversationId: this.conversationId,
+      tenantId: this.tenantId,
+      parentMessageId: this.id,
+      threadRootId: this.threadRootId || this.id,
     });
   }
 
+  /**
+   * Takes a snapshot of this message to quote in a forwarded message
+   */
+  quote(): MessageForward {
+    return {
+      messageId: this.id,
+      conversationId: this.conversationId,
+      senderId: this.senderId,
+      content: this.content,
+      timestamp: this.timestamp,
+    };
+  }
+
   /**
    * Updates the content of the message
    */
@@ -64,6 +289,444 @@ export class Message {
     };
   }
 
+  /**
+   * Edits the content and/or metadata of the message
+   *
+   * Bumps the revision and returns a snapshot of the message as it was
+   * before the edit, or null when the edit does not change anything.
+   */
+  edit(
+    changes: {
+      content?: string;
+      metadata?: Record<string, any>;
+      body?: MessageBody;
+    },
+    editorId: string,
+  ): MessageRevision | null {
+    const previousContent = this.content;
+    const previousMetadata = this.metadata;
+    const previousBody = this.body;
+    const diff: MessageRevisionDiff = {};
+
+    if (changes.content && changes.content !== previousContent) {
+      diff.content = { before: previousContent, after: changes.content };
+    }
+
+    if (changes.metadata) {
+      for (const [key, value] of Object.entries(changes.metadata)) {
+        const before = previousMetadata?.[key];
+        if (JSON.stringify(before) !== JSON.stringify(value)) {
+          diff.metadata = { ...diff.metadata, [key]: { before, after: value } };
+        }
+      }
+    }
+
+    if (
+      changes.body &&
+      JSON.stringify(changes.body) !== JSON.stringify(previousBody)
+    ) {
+      diff.body = { before: previousBody, after: changes.body };
+    }
+
+    if (!diff.content && !diff.metadata && !diff.body) {
+      return null;
+    }
+
+    const editedAt = new Date();
+    const snapshot = MessageRevision.create({
+      messageId: this.id,
+      tenantId: this.tenantId,
+      revision: this.revision,
+      content: previousContent,
+      metadata: previousMetadata,
+      body: previousBody,
+      editorId,
+      editedAt,
+      diff,
+    });
+
+    if (diff.content) {
+      this.updateContent(changes.content as string);
+    }
+    if (diff.metadata) {
+      this.updateMetadata(changes.metadata as Record<string, any>);
+    }
+    if (diff.body) {
+      this.body = changes.body;
+      this.pollClosesAt = Message.pollClosingTime(this.contentType, this.body);
+    }
+    this.revision += 1;
+    this.editedAt = editedAt;
+
+    return snapshot;
+  }
+
+  /**
+   * Resolves the `@user` tokens of the content to mentioned users
+   *
+   * Only tokens naming one of the given users are kept, so a stray `@` in
+   * the text does not mention anybody.
+   *
+   * @param userIds Users that can be mentioned, usually the conversation participants
+   */
+  resolveMentions(userIds: string[]): void {
+    this.mentionedUserIds = Message.extractMentions(this.content).filter(
+      (userId) => userIds.includes(userId),
+    );
+  }
+
+  /**
+   * Extracts the distinct `@user` tokens of a text, in order of appearance
+   */
+  static extractMentions(content: string): string[] {
+    const tokens = Array.from(
+      content.matchAll(MENTION_PATTERN),
+      (match) => match[1],
+    );
+    return Array.from(new Set(tokens));
+  }
+
+  /**
+   * Marks the message as deleted, leaving a tombstone that can be restored
+   */
+  softDelete(deletedBy: string): void {
+    this.deletedAt = new Date();
+    this.deletedBy = deletedBy;
+  }
+
+  /**
+   * Clears the tombstone of a deleted message
+   */
+  restore(): void {
+    this.deletedAt = undefined;
+    this.deletedBy = undefined;
+  }
+
+  /**
+   * Checks if the message has been deleted
+   */
+  isDeleted(): boolean {
+    return !!this.deletedAt;
+  }
+
+  /**
+   * Checks if a deleted message can still be restored
+   *
+   * @param restoreWindowMs How long after deletion a message can be restored
+   * @param now Point in time to check against
+   */
+  isRestorable(restoreWindowMs: number, now: Date = new Date()): boolean {
+    if (!this.deletedAt) {
+      return false;
+    }
+
+    return (
+      now.getTime() - new Date(this.deletedAt).getTime() <= restoreWindowMs
+    );
+  }
+
+  /**
+   * Marks the message as handed over for delivery to its recipients
+   *
+   * @param recipientIds The users the message is delivered to
+   * @param sentAt When the message was sent
+   * @throws InvalidStateTransitionError if the message was already sent
+   */
+  markSent(recipientIds: string[], sentAt: Date = new Date()): void {
+    assertDeliveryTransition(
+      this.deliveryStatus,
+      MessageDeliveryStatus.SENT,
+      `Message "${this.id}"`,
+    );
+    this.deliveryStatus = MessageDeliveryStatus.SENT;
+    this.deliveries = recipientIds.map((userId) => ({
+      userId,
+      status: MessageDeliveryStatus.SENT,
+      updatedAt: sentAt,
+    }));
+  }
+
+  /**
+   * Marks the message as not handed over for delivery
+   *
+   * @throws InvalidStateTransitionError if the message is not pending
+   */
+  markFailed(): void {
+    assertDeliveryTransition(
+      this.deliveryStatus,
+      MessageDeliveryStatus.FAILED,
+      `Message "${this.id}"`,
+    );
+    this.deliveryStatus = MessageDeliveryStatus.FAILED;
+  }
+
+  /**
+   * Checks if a user is one of the recipients of the message
+   */
+  isRecipient(userId: string): boolean {
+    return this.deliveries.some((delivery) => delivery.userId === userId);
+  }
+
+  /**
+   * Records that a recipient has received or read the message
+   *
+   * Acknowledging the status the recipient already has changes nothing, so
+   * clients can safely retry. The status of the message follows once all
+   * recipients have reached a status.
+   *
+   * @param userId The acknowledging recipient
+   * @param status `delivered` or `read`
+   * @param acknowledgedAt When the recipient acknowledged the message
+   * @returns The previous status of the recipient, or null if it did not change
+   * @throws InvalidStateTransitionError if the user is not a recipient or the status would go backwards
+   */
+  acknowledge(
+    userId: string,
+    status: MessageDeliveryStatus,
+    acknowledgedAt: Date = new Date(),
+  ): MessageDeliveryStatus | null {
+    const delivery = this.deliveries.find(
+      (candidate) => candidate.userId === userId,
+    );
+    if (!delivery) {
+      throw new InvalidStateTransitionError(
+        this.deliveryStatus,
+        status,
+        `User "${userId}" is not a recipient of message "${this.id}"`,
+      );
+    }
+
+    if (delivery.status === status) {
+      return null;
+    }
+
+    const previousStatus = delivery.status;
+    assertDeliveryTransition(
+      previousStatus,
+      status,
+      `Delivery of message "${this.id}" to user "${userId}"`,
+    );
+    delivery.status = status;
+    delivery.updatedAt = acknowledgedAt;
+    this.refreshDeliveryStatus();
+
+    return previousStatus;
+  }
+
+  /**
+   * Brings the status of a sent message in line with its recipients
+   *
+   * @returns True if the status changed
+   */
+  refreshDeliveryStatus(): boolean {
+    const status = aggregateDeliveryStatus(this.deliveries);
+    if (
+      this.deliveryStatus === MessageDeliveryStatus.PENDING ||
+      this.deliveryStatus === MessageDeliveryStatus.FAILED ||
+      status === this.deliveryStatus
+    ) {
+      return false;
+    }
+
+    assertDeliveryTransition(
+      this.deliveryStatus,
+      status,
+      `Message "${this.id}"`,
+    );
+    this.deliveryStatus = status;
+    return true;
+  }
+
+  /**
+   * Holds the message for review by a moderator
+   *
+   * A message flagged again, e.g. after an edit, is reviewed again.
+   *
+   * @param reasons The moderation rules the message broke
+   * @param flaggedAt When the message was flagged
+   */
+  holdForReview(
+    reasons: ModerationReason[],
+    flaggedAt: Date = new Date(),
+  ): void {
+    this.moderation = { status: ModerationStatus.PENDING, reasons, flaggedAt };
+  }
+
+  /**
+   * Records the decision of a moderator on a message held for review
+   *
+   * @param status `approved` or `rejected`
+   * @param reviewerId The reviewing moderator
+   * @param reviewedAt When the message was reviewed
+   * @throws InvalidStateTransitionError if the message is not held for review
+   */
+  review(
+    status: ModerationStatus.APPROVED | ModerationStatus.REJECTED,
+    reviewerId: string,
+    reviewedAt: Date = new Date(),
+  ): void {
+    assertPendingReview(this.moderation, status, `Message "${this.id}"`);
+    this.moderation = {
+      ...(this.moderation as MessageModeration),
+      status,
+      reviewedBy: reviewerId,
+      reviewedAt,
+    };
+  }
+
+  /**
+   * Checks if the message is hidden by moderation, because it is waiting
+   * for review or was rejected
+   */
+  isHiddenByModeration(): boolean {
+    return (
+      !!this.moderation &&
+      HIDDEN_MODERATION_STATUSES.includes(this.moderation.status)
+    );
+  }
+
+  /**
+   * Checks if a user may see the message; messages hidden by moderation are
+   * only shown to their sender
+   */
+  isVisibleTo(userId?: string): boolean {
+    return !this.isHiddenByModeration() || this.senderId === userId;
+  }
+
+  /**
+   * Checks if an ephemeral message has reached its expiry
+   *
+   * @param now Point in time to check against
+   */
+  isExpired(now: Date = new Date()): boolean {
+    if (!this.expiresAt) {
+      return false;
+    }
+
+    return new Date(this.expiresAt).getTime() <= now.getTime();
+  }
+
+  /**
+   * Checks if a poll no longer accepts votes, because it was closed or its
+   * closing time has passed
+   *
+   * @param now Point in time to check against
+   */
+  isPollClosed(now: Date = new Date()): boolean {
+    return Message.tallyPoll(this, now)?.closed ?? false;
+  }
+
+  /**
+   * Checks if a user has voted in a poll
+   */
+  hasVoted(userId: string): boolean {
+    return this.pollVotes.some((vote) => vote.userId === userId);
+  }
+
+  /**
+   * Reads the closing time of a poll from its body
+   */
+  private static pollClosingTime(
+    contentType?: MessageContentType,
+    body?: MessageBody,
+  ): Date | undefined {
+    const closesAt =
+      contentType === MessageContentType.POLL
+        ? (body as PollBody | undefined)?.closesAt
+        : undefined;
+    return closesAt ? new Date(closesAt) : undefined;
+  }
+
+  /**
+   * Renders the plain text of a message, e.g. markdown without its syntax
+   * or the title and text of a card
+   *
+   * Static so it can be applied to cached plain objects as well as entities.
+   */
+  static renderText(message: {
+    content: string;
+    contentType?: MessageContentType;
+    body?: MessageBody;
+  }): string {
+    return renderMessageText(
+      message.contentType,
+      message.content,
+      message.body,
+    );
+  }
+
+  /**
+   * Aggregates reactions per emoji, in order of first use
+   *
+   * Static so it can be applied to cached plain objects as well as entities.
+   */
+  static summarizeReactions(
+    reactions: MessageReaction[] = [],
+  ): ReactionSummary[] {
+    const summaries = new Map<string, ReactionSummary>();
+
+    for (const reaction of reactions) {
+      const summary = summaries.get(reaction.emoji) || {
+        emoji: reaction.emoji,
+        count: 0,
+        userIds: [],
+      };
+      summary.count += 1;
+      summary.userIds.push(reaction.userId);
+      summaries.set(reaction.emoji, summary);
+    }
+
+    return Array.from(summaries.values());
+  }
+
+  /**
+   * Counts the votes of a poll per option
+   *
+   * Static so it can be applied to cached plain objects as well as entities.
+   *
+   * @param message The poll message
+   * @param now Point in time to check the closing time against
+   * @returns The results, or undefined if the message is not a poll
+   */
+  static tallyPoll(
+    message: {
+      contentType?: MessageContentType;
+      body?: MessageBody;
+      pollVotes?: PollVote[];
+      pollClosesAt?: Date;
+      pollClosedAt?: Date;
+    },
+    now: Date = new Date(),
+  ): PollResults | undefined {
+    if (message.contentType !== MessageContentType.POLL || !message.body) {
+      return undefined;
+    }
+
+    const votes = message.pollVotes ?? [];
+    const tallies = (message.body as PollBody).options.map((option) => ({
+      option,
+      votes: 0,
+    }));
+    for (const vote of votes) {
+      for (const index of vote.optionIndexes) {
+        if (tallies[index]) {
+          tallies[index].votes += 1;
+        }
+      }
+    }
+
+    return {
+      tallies,
+      totalVoters: votes.length,
+      closesAt: message.pollClosesAt,
+      closedAt: message.pollClosedAt,
+      closed:
+        !!message.pollClosedAt ||
+        (!!message.pollClosesAt &&
+          new Date(message.pollClosesAt).getTime() <= now.getTime()),
+    };
+  }
+
   /**
    * Creates a Message instance from database record
    */
@@ -73,14 +736,42 @@ export class Message {
       conversationId: data.conversationId,
       senderId: data.senderId,
       content: data.content,
+      contentType: data.contentType,
+      body: data.body,
       tenantId: data.tenantId,
       timestamp: data.timestamp,
       metadata: data.metadata,
+      parentMessageId: data.parentMessageId,
+      threadRootId: data.threadRootId,
+      attachmentIds: data.attachmentIds,
+      mentionedUserIds: data.mentionedUserIds,
+      replyCount: data.replyCount,
+      reactions: data.reactions,
+      revision: data.revision,
+      version: data.version,
+      editedAt: data.editedAt,
+      deletedAt: data.deletedAt,
+      deletedBy: data.deletedBy,
+      expiresAt: data.expiresAt,
+      forwardedFrom: data.forwardedFrom,
+      templateId: data.templateId,
+      deliveryStatus: data.deliveryStatus,
+      deliveries: data.deliveries,
+      moderation: data.moderation,
+      redaction: data.redaction ?? undefined,
+      pollVotes: data.pollVotes,
+      pollClosesAt: data.pollClosesAt,
+      pollClosedAt: data.pollClosedAt,
     });
   }
 
   /**
    * Converts the Message to a database record
+   *
+   * `replyCount`, `reactions`, the votes and closing of a poll, the delivery
+   * status and the deletion tombstone are left out on purpose: they are maintained atomically by
+   * the repository so that concurrent writes cannot overwrite them. The
+   * repository also bumps `version` on every change to the stored message.
    */
   toDatabase(): any {
     return {
@@ -88,9 +779,24 @@ export class Message {
       conversationId: this.conversationId,
       senderId: this.senderId,
       content: this.content,
+      contentType: this.contentType,
+      body: this.body,
       tenantId: this.tenantId,
       timestamp: this.timestamp,
       metadata: this.metadata,
+      parentMessageId: this.parentMessageId,
+      threadRootId: this.threadRootId,
+      attachmentIds: this.attachmentIds,
+      mentionedUserIds: this.mentionedUserIds,
+      revision: this.revision,
+      version: this.version,
+      editedAt: this.editedAt,
+      expiresAt: this.expiresAt,
+      forwardedFrom: this.forwardedFrom,
+      templateId: this.templateId,
+      moderation: this.moderation,
+      redaction: this.redaction,
+      pollClosesAt: this.pollClosesAt,
     };
   }
 }
@@ -0,0 +1,254 @@
+import { ModerationAction } from './message-moderation';
+
+/**
+ * A moderation rule as configured for a tenant
+ *
+ * `type` selects the rule, the other fields configure it:
+ * - `blocked-words`: `words`, matched as whole words regardless of case
+ * - `regex`: `pattern` and optional `flags`, e.g. `i`
+ * - `link-allow-list`: `domains` links may point to, including their subdomains
+ * - `max-length`: `maxLength` in characters
+ *
+ * `name` is reported as the reason a message was moderated and defaults to
+ * the type.
+ */
+export interface ModerationRuleConfig {
+  type: string;
+  action: ModerationAction;
+  name?: string;
+  words?: string[];
+  pattern?: string;
+  flags?: string;
+  domains?: string[];
+  maxLength?: number;
+}
+
+/**
+ * A check applied to the text of new and edited messages
+ */
+export interface ModerationRule {
+  /** Reported as the reason a message was moderated */
+  readonly name: string;
+  readonly action: ModerationAction;
+
+  /**
+   * Checks if a text breaks the rule
+   */
+  test(text: string): boolean;
+
+  /**
+   * Hides the parts of a text breaking the rule
+   */
+  mask(text: string): string;
+}
+
+/**
+ * Replaces every match of a pattern with asterisks of the same length
+ */
+function maskMatches(text: string, pattern: RegExp): string {
+  return text.replace(pattern, (match) => '*'.repeat(match.length));
+}
+
+/**
+ * Escapes a text for use in a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Rejects, masks or flags any of a list of words
+ */
+export class BlockedWordsRule implements ModerationRule {
+  private readonly pattern: RegExp;
+
+  constructor(
+    readonly name: string,
+    readonly action: ModerationAction,
+    words: string[],
+  ) {
+    // Whole words only, so that blocking "ass" leaves "class" alone
+    this.pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_])(?:${words.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`,
+      'giu',
+    );
+  }
+
+  test(text: string): boolean {
+    this.pattern.lastIndex = 0;
+    return this.pattern.test(text);
+  }
+
+  mask(text: string): string {
+    return maskMatches(text, this.pattern);
+  }
+}
+
+/**
+ * Rejects, masks or flags text matching a regular expression
+ */
+export class RegexRule implements ModerationRule {
+  private readonly pattern: RegExp;
+
+  constructor(
+    readonly name: string,
+    readonly action: ModerationAction,
+    pattern: string,
+    flags = '',
+  ) {
+    this.pattern = new RegExp(pattern, `${flags.replace(/[gy]/g, '')}g`);
+  }
+
+  test(text: string): boolean {
+    this.pattern.lastIndex = 0;
+    return this.pattern.test(text);
+  }
+
+  mask(text: string): string {
+    return maskMatches(text, this.pattern);
+  }
+}
+
+/**
+ * Rejects, masks or flags links to domains that are not allowed
+ */
+export class LinkAllowListRule implements ModerationRule {
+  private static readonly LINK_PATTERN = /\bhttps?:\/\/[^\s<>"'()]+/gi;
+
+  private readonly domains: string[];
+
+  constructor(
+    readonly name: string,
+    readonly action: ModerationAction,
+    domains: string[],
+  ) {
+    this.domains = domains.map((domain) => domain.toLowerCase());
+  }
+
+  test(text: string): boolean {
+    return (text.match(LinkAllowListRule.LINK_PATTERN) ?? []).some(
+      (link) => !this.isAllowed(link),
+    );
+  }
+
+  mask(text: string): string {
+    return text.replace(LinkAllowListRule.LINK_PATTERN, (link) =>
+      this.isAllowed(link) ? link : '[link removed]',
+    );
+  }
+
+  /**
+   * Checks if a link points to an allowed domain or one of its subdomains
+   *
+   * @private
+   */
+  private isAllowed(link: string): boolean {
+    let hostname: string;
+    try {
+      hostname = new URL(link).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+    return this.domains.some(
+      (domain) => hostname === domain || hostname.endsWith(`.${domain}`),
+    );
+  }
+}
+
+/**
+ * Rejects, truncates or flags text longer than a maximum length
+ */
+export class MaxLengthRule implements ModerationRule {
+  constructor(
+    readonly name: string,
+    readonly action: ModerationAction,
+    private readonly maxLength: number,
+  ) {}
+
+  test(text: string): boolean {
+    return text.length > this.maxLength;
+  }
+
+  mask(text: string): string {
+    return text.slice(0, this.maxLength);
+  }
+}
+
+/**
+ * Ensures a rule is configured with a non-empty list of strings
+ */
+function requireList(values: unknown, field: string, name: string): string[] {
+  if (
+    !Array.isArray(values) ||
+    values.length === 0 ||
+    values.some((value) => typeof value !== 'string' || value.length === 0)
+  ) {
+    throw new Error(
+      `Moderation rule "${name}" needs a non-empty list of ${field}`,
+    );
+  }
+  return values as string[];
+}
+
+/**
+ * Builds the rules of each type from their configuration
+ *
+ * New kinds of rules are added by implementing ModerationRule and
+ * registering a factory here.
+ */
+const RULE_FACTORIES: Record<
+  string,
+  (config: ModerationRuleConfig, name: string) => ModerationRule
+> = {
+  'blocked-words': (config, name) =>
+    new BlockedWordsRule(
+      name,
+      config.action,
+      requireList(config.words, 'words', name),
+    ),
+  regex: (config, name) => {
+    if (typeof config.pattern !== 'string' || config.pattern.length === 0) {
+      throw new Error(`Moderation rule "${name}" needs a pattern`);
+    }
+    return new RegexRule(name, config.action, config.pattern, config.flags);
+  },
+  'link-allow-list': (config, name) =>
+    new LinkAllowListRule(
+      name,
+      config.action,
+      requireList(config.domains, 'domains', name),
+    ),
+  'max-length': (config, name) => {
+    if (!Number.isInteger(config.maxLength) || (config.maxLength ?? 0) < 1) {
+      throw new Error(`Moderation rule "${name}" needs a positive maxLength`);
+    }
+    return new MaxLengthRule(name, config.action, config.maxLength as number);
+  },
+};
+
+/**
+ * Builds a moderation rule from its configuration
+ *
+ * @param config The configured rule
+ * @returns The rule
+ * @throws Error if the type or action is unknown or the rule is misconfigured
+ */
+export function createModerationRule(
+  config: ModerationRuleConfig,
+): ModerationRule {
+  const factory = Object.hasOwn(RULE_FACTORIES, config?.type)
+    ? RULE_FACTORIES[config.type]
+    : undefined;
+  if (!factory) {
+    throw new Error(`Unknown moderation rule type "${config?.type}"`);
+  }
+
+  const name = config.name ?? config.type;
+  if (!Object.values(ModerationAction).includes(config.action)) {
+    throw new Error(
+      `Moderation rule "${name}" has an unknown action "${config.action}"`,
+    );
+  }
+
+  return factory(config, name);
+}
@@ -0,0 +1,91 @@
+/**
+ * ReadState entity
+ *
+ * Tracks how far a user has read in a conversation
+ */
+export class ReadState {
+  tenantId: string;
+  conversationId: string;
+  userId: string;
+  lastReadMessageId?: string;
+  lastReadAt?: Date;
+  updatedAt: Date;
+
+  private constructor(props: {
+    tenantId: string;
+    conversationId: string;
+    userId: string;
+    lastReadMessageId?: string;
+    lastReadAt?: Date;
+    updatedAt: Date;
+  }) {
+    this.tenantId = props.tenantId;
+    this.conversationId = props.conversationId;
+    this.userId = props.userId;
+    this.lastReadMessageId = props.lastReadMessageId;
+    this.lastReadAt = props.lastReadAt;
+    this.updatedAt = props.updatedAt;
+  }
+
+  /**
+   * Creates an empty read state for a user that has not read anything yet
+   */
+  static create(props: {
+    tenantId: string;
+    conversationId: string;
+    userId: string;
+  }): ReadState {
+    return new ReadState({
+      ...props,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Moves the read cursor to a message
+   *
+   * The cursor only moves forward so that a stale client cannot mark
+   * messages as unread again.
+   *
+   * @returns Whether the cursor moved
+   */
+  advanceTo(messageId: string, messageTimestamp: Date): boolean {
+    const timestamp = new Date(messageTimestamp);
+    if (this.lastReadAt && new Date(this.lastReadAt) >= timestamp) {
+      return false;
+    }
+
+    this.lastReadMessageId = messageId;
+    this.lastReadAt = timestamp;
+    this.updatedAt = new Date();
+    return true;
+  }
+
+  /**
+   * Creates a ReadState instance from database record
+   */
+  static fromDatabase(data: any): ReadState {
+    return new ReadState({
+      tenantId: data.tenantId,
+      conversationId: data.conversationId,
+      userId: data.userId,
+      lastReadMessageId: data.lastReadMessageId,
+      lastReadAt: data.lastReadAt,
+      updatedAt: data.updatedAt,
+    });
+  }
+
+  /**
+   * Converts the ReadState to a database record
+   */
+  toDatabase(): any {
+    return {
+      tenantId: this.tenantId,
+      conversationId: this.conversationId,
+      userId: this.userId,
+      lastReadMessageId: this.lastReadMessageId,
+      lastReadAt: this.lastReadAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
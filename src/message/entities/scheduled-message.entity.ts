@@ -0,0 +1,205 @@
+import { MessageBody, MessageContentType } from './message-content';
+import { RedactionRecord } from '../../common/redaction/redaction.interface';
+
+/**
+ * Lifecycle status of a scheduled message
+ */
+export enum ScheduledMessageStatus {
+  /** Waiting for its send time */
+  PENDING = 'pending',
+  /** Claimed by a dispatcher that is sending it */
+  PROCESSING = 'processing',
+  SENT = 'sent',
+  CANCELLED = 'cancelled',
+  /** Could not be sent, see `lastError` */
+  FAILED = 'failed',
+}
+
+/**
+ * ScheduledMessage entity
+ *
+ * A message that is held back until its send time. The ID of the message it
+ * becomes is assigned up front so that a retried send cannot create it twice.
+ */
+export class ScheduledMessage {
+  id: string;
+  tenantId: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  contentType?: MessageContentType;
+  body?: MessageBody;
+  metadata?: Record<string, any>;
+  parentMessageId?: string;
+  attachmentIds: string[];
+  expiresAt?: Date;
+  ttlSeconds?: number;
+  /** The template the content was rendered from */
+  templateId?: string;
+  /** Set when personal data was redacted from the content */
+  redaction?: RedactionRecord;
+  sendAt: Date;
+  messageId: string;
+  status: ScheduledMessageStatus;
+  attempts: number;
+  lockedUntil?: Date;
+  lastError?: string;
+  createdAt: Date;
+  sentAt?: Date;
+  cancelledAt?: Date;
+
+  private constructor(props: {
+    id: string;
+    tenantId: string;
+    conversationId: string;
+    senderId: string;
+    content: string;
+    contentType?: MessageContentType;
+    body?: MessageBody;
+    metadata?: Record<string, any>;
+    parentMessageId?: string;
+    attachmentIds?: string[];
+    expiresAt?: Date;
+    ttlSeconds?: number;
+    templateId?: string;
+    redaction?: RedactionRecord;
+    sendAt: Date;
+    messageId: string;
+    status: ScheduledMessageStatus;
+    attempts?: number;
+    lockedUntil?: Date;
+    lastError?: string;
+    createdAt: Date;
+    sentAt?: Date;
+    cancelledAt?: Date;
+  }) {
+    this.id = props.id;
+    this.tenantId = props.tenantId;
+    this.conversationId = props.conversationId;
+    this.senderId = props.senderId;
+    this.content = props.content;
+    this.contentType = props.contentType;
+    this.body = props.body;
+    this.metadata = props.metadata;
+    this.parentMessageId = props.parentMessageId;
+    this.attachmentIds = props.attachmentIds ?? [];
+    this.expiresAt = props.expiresAt;
+    this.ttlSeconds = props.ttlSeconds;
+    this.templateId = props.templateId;
+    this.redaction = props.redaction;
+    this.sendAt = props.sendAt;
+    this.messageId = props.messageId;
+    this.status = props.status;
+    this.attempts = props.attempts ?? 0;
+    this.lockedUntil = props.lockedUntil;
+    this.lastError = props.lastError;
+    this.createdAt = props.createdAt;
+    this.sentAt = props.sentAt;
+    this.cancelledAt = props.cancelledAt;
+  }
+
+  /**
+   * Creates a new pending scheduled message
+   */
+  static create(props: {
+    id: string;
+    tenantId: string;
+    conversationId: string;
+    senderId: string;
+    content: string;
+    contentType?: MessageContentType;
+    body?: MessageBody;
+    metadata?: Record<string, any>;
+    parentMessageId?: string;
+    attachmentIds?: string[];
+    expiresAt?: Date;
+    ttlSeconds?: number;
+    templateId?: string;
+    redaction?: RedactionRecord;
+    sendAt: Date;
+    messageId: string;
+  }): ScheduledMessage {
+    return new ScheduledMessage({
+      ...props,
+      status: ScheduledMessageStatus.PENDING,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Checks if the message is still waiting to be sent
+   */
+  isPending(): boolean {
+    return this.status === ScheduledMessageStatus.PENDING;
+  }
+
+  /**
+   * Marks the message as cancelled
+   */
+  cancel(cancelledAt: Date = new Date()): void {
+    this.status = ScheduledMessageStatus.CANCELLED;
+    this.cancelledAt = cancelledAt;
+  }
+
+  /**
+   * Creates a ScheduledMessage instance from database record
+   */
+  static fromDatabase(data: any): ScheduledMessage {
+    return new ScheduledMessage({
+      id: data.id,
+      tenantId: data.tenantId,
+      conversationId: data.conversationId,
+      senderId: data.senderId,
+      content: data.content,
+      contentType: data.contentType,
+      body: data.body,
+      metadata: data.metadata,
+      parentMessageId: data.parentMessageId,
+      attachmentIds: data.attachmentIds,
+      expiresAt: data.expiresAt,
+      ttlSeconds: data.ttlSeconds,
+      templateId: data.templateId,
+      redaction: data.redaction ?? undefined,
+      sendAt: data.sendAt,
+      messageId: data.messageId,
+      status: data.status,
+      attempts: data.attempts,
+      lockedUntil: data.lockedUntil,
+      lastError: data.lastError,
+      createdAt: data.createdAt,
+      sentAt: data.sentAt,
+      cancelledAt: data.cancelledAt,
+    });
+  }
+
+  /**
+   * Converts the ScheduledMessage to a database record
+   *
+   * The dispatch state (`status`, `attempts`, `lockedUntil`, ...) is only
+   * written on insert; afterwards it is maintained atomically by the
+   * repository so that concurrent dispatchers cannot overwrite each other.
+   */
+  toDatabase(): any {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      conversationId: this.conversationId,
+      senderId: this.senderId,
+      content: this.content,
+      contentType: this.contentType,
+      body: this.body,
+      metadata: this.metadata,
+      parentMessageId: this.parentMessageId,
+      attachmentIds: this.attachmentIds,
+      expiresAt: this.expiresAt,
+      ttlSeconds: this.ttlSeconds,
+      templateId: this.templateId,
+      redaction: this.redaction,
+      sendAt: this.sendAt,
+      messageId: this.messageId,
+      status: this.status,
+      attempts: this.attempts,
+      createdAt: this.createdAt,
+    };
+  }
+}
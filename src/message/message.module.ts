@@ -1,18 +1,83 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { MessageModel, MessageSchema } from './schemas/message.schema';
+import { ReadStateModel, ReadStateSchema } from './schemas/read-state.schema';
+import {
+  MessagePinModel,
+  MessagePinSchema,
+} from './schemas/message-pin.schema';
+import {
+  MessageDraftModel,
+  MessageDraftSchema,
+} from './schemas/message-draft.schema';
+import {
+  ScheduledMessageModel,
+  ScheduledMessageSchema,
+} from './schemas/scheduled-message.schema';
+import {
+  MessageRevisionModel,
+  MessageRevisionSchema,
+} from './schemas/message-revision.schema';
+import {
+  IdempotencyRecordModel,
+  IdempotencyRecordSchema,
+} from './schemas/idempotency-record.schema';
+import {
+  MessageJobModel,
+  MessageJobSchema,
+} from './schemas/message-job.schema';
 import { MessageRepository } from './repositories/mongodb-message.repository';
+import { ReadStateRepository } from './repositories/mongodb-read-state.repository';
+import { MessageRevisionRepository } from './repositories/mongodb-message-revision.repository';
+import { MessagePinRepository } from './repositories/mongodb-message-pin.repository';
+import { ScheduledMessageRepository } from './repositories/mongodb-scheduled-message.repository';
+import { MessageDraftRepository } from './repositories/mongodb-message-draft.repository';
+import { IdempotencyRecordRepository } from './repositories/mongodb-idempotency-record.repository';
+import { MessageJobRepository } from './repositories/mongodb-message-job.repository';
 import { MessageController } from './controllers/message.controller';
+import { ReadStateController } from './controllers/read-state.controller';
+import { PinController } from './controllers/pin.controller';
+import { ScheduledMessageController } from './controllers/scheduled-message.controller';
+import { DraftController } from './controllers/draft.controller';
+import { MessageJobController } from './controllers/message-job.controller';
+import { ConversationExportController } from './controllers/conversation-export.controller';
+import { ModerationQueueController } from './controllers/moderation-queue.controller';
 import { MessageApplicationService } from './services/message-application.service';
 import { MessageProducerService } from './services/message-producer.service';
+import { ReadStateApplicationService } from './services/read-state-application.service';
+import { PinApplicationService } from './services/pin-application.service';
+import { MessagePurgeService } from './services/message-purge.service';
+import { MessageExpiryService } from './services/message-expiry.service';
+import { PollClosingService } from './services/poll-closing.service';
+import { ScheduledMessageApplicationService } from './services/scheduled-message-application.service';
+import { ScheduledMessageDispatcher } from './services/scheduled-message-dispatcher.service';
+import { DraftApplicationService } from './services/draft-application.service';
+import { IdempotencyService } from './services/idempotency.service';
+import { MessageJobApplicationService } from './services/message-job-application.service';
+import { ConversationExportService } from './services/conversation-export.service';
+import { MessageJobRunner } from './services/message-job-runner.service';
+import { ModerationService } from './services/moderation.service';
 import { CacheModule } from '@nestjs/cache-manager';
 import { redisStore } from 'cache-manager-redis-store';
 import { ConfigService } from '@nestjs/config';
+import { ConversationModule } from '../conversation/conversation.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { TemplateModule } from '../template/template.module';
 
 @Module({
   imports: [
+    ConversationModule,
+    AttachmentModule,
+    TemplateModule,
     MongooseModule.forFeature([
       { name: MessageModel.name, schema: MessageSchema },
+      { name: ReadStateModel.name, schema: ReadStateSchema },
+      { name: MessageRevisionModel.name, schema: MessageRevisionSchema },
+      { name: MessagePinModel.name, schema: MessagePinSchema },
+      { name: ScheduledMessageModel.name, schema: ScheduledMessageSchema },
+      { name: MessageDraftModel.name, schema: MessageDraftSchema },
+      { name: IdempotencyRecordModel.name, schema: IdempotencyRecordSchema },
+      { name: MessageJobModel.name, schema: MessageJobSchema },
     ]),
     CacheModule.registerAsync({
       inject: [ConfigService],
@@ -28,12 +93,41 @@ import { ConfigService } from '@nestjs/config';
       },
     }),
   ],
-  controllers: [MessageController],
+  controllers: [
+    MessageController,
+    ReadStateController,
+    PinController,
+    ScheduledMessageController,
+    DraftController,
+    MessageJobController,
+    ConversationExportController,
+    ModerationQueueController,
+  ],
   providers: [
     MessageApplicationService,
     MessageRepository,
     MessageProducerService,
+    MessagePurgeService,
+    MessageExpiryService,
+    PollClosingService,
+    ReadStateApplicationService,
+    ReadStateRepository,
+    MessageRevisionRepository,
+    PinApplicationService,
+    MessagePinRepository,
+    ScheduledMessageApplicationService,
+    ScheduledMessageRepository,
+    ScheduledMessageDispatcher,
+    DraftApplicationService,
+    MessageDraftRepository,
+    IdempotencyService,
+    IdempotencyRecordRepository,
+    MessageJobApplicationService,
+    MessageJobRunner,
+    MessageJobRepository,
+    ConversationExportService,
+    ModerationService,
   ],
-  exports: [],
+  exports: [MessageApplicationService, MessageRepository],
 })
 export class MessageModule {}
@@ -0,0 +1,52 @@
+import { IdempotencyRecord } from '../entities/idempotency-record.entity';
+
+/**
+ * Idempotency Record Repository Interface
+ *
+ * Defines the contract for storing requests made with an idempotency key.
+ * Claiming a key is atomic, so that only one attempt of a request is
+ * processed even when retries reach several application instances.
+ */
+export interface IIdempotencyRecordRepository {
+  /**
+   * Claim a key that no record holds yet
+   *
+   * @param record The record of the request about to be processed
+   * @returns Promise resolving to true if the record was stored
+   */
+  claim(record: IdempotencyRecord): Promise<boolean>;
+
+  /**
+   * Replace a stale record with the record of a new attempt
+   *
+   * @param record The record of the request about to be processed
+   * @param staleClaimId Claim of the stale record, which must still hold the key
+   * @returns Promise resolving to true if the stale record was replaced
+   */
+  takeOver(record: IdempotencyRecord, staleClaimId: string): Promise<boolean>;
+
+  /**
+   * Find the record holding a key
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param key The idempotency key
+   * @returns Promise resolving to the record or null if the key is unused
+   */
+  find(tenantId: string, key: string): Promise<IdempotencyRecord | null>;
+
+  /**
+   * Store the response of a processed request
+   *
+   * @param record The record of the attempt that processed the request
+   * @param response Response body to replay
+   * @returns Promise resolving to true if the attempt still held the key
+   */
+  complete(record: IdempotencyRecord, response: unknown): Promise<boolean>;
+
+  /**
+   * Release a key whose request failed, so that it can be retried
+   *
+   * @param record The record of the attempt that failed
+   */
+  release(record: IdempotencyRecord): Promise<void>;
+}
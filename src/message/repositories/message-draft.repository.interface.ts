@@ -0,0 +1,58 @@
+import { MessageDraft } from '../entities/message-draft.entity';
+
+/**
+ * Message Draft Repository Interface
+ *
+ * Defines the contract for storing one draft per user and conversation.
+ */
+export interface IMessageDraftRepository {
+  /**
+   * Find the draft of a user in a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param userId The unique identifier of the user
+   * @returns Promise resolving to the draft or null if the user has none
+   */
+  find(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<MessageDraft | null>;
+
+  /**
+   * Find the drafts of a user across conversations, most recently saved first
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param userId The unique identifier of the user
+   * @param options Pagination options
+   * @returns Promise resolving to paginated drafts
+   */
+  findByUserId(
+    tenantId: string,
+    userId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ drafts: MessageDraft[]; total: number }>;
+
+  /**
+   * Insert or replace the draft of a user in a conversation
+   *
+   * @param draft The draft entity to store
+   * @returns Promise resolving to the stored draft
+   */
+  upsert(draft: MessageDraft): Promise<MessageDraft>;
+
+  /**
+   * Delete the draft of a user in a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param userId The unique identifier of the user
+   * @returns Promise resolving to true if a draft was deleted
+   */
+  delete(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean>;
+}
@@ -0,0 +1,72 @@
+import { MessageJob } from '../entities/message-job.entity';
+
+/**
+ * Message Job Repository Interface
+ *
+ * Defines the contract for storing bulk message jobs and for running them
+ * safely from several application instances. A claim is identified by the
+ * attempt it started, so a runner whose claim was taken over can no longer
+ * record progress.
+ */
+export interface IMessageJobRepository {
+  /**
+   * Save a new job
+   *
+   * @param job The job entity to save
+   * @returns Promise resolving to the saved job
+   */
+  save(job: MessageJob): Promise<MessageJob>;
+
+  /**
+   * Find a job by its ID and tenant
+   *
+   * @param id The unique identifier of the job
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the job or null if not found
+   */
+  findById(id: string, tenantId: string): Promise<MessageJob | null>;
+
+  /**
+   * Claim the oldest pending or abandoned job of any tenant
+   *
+   * @param now Current time
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to the claimed job or null if there is none
+   */
+  claimNext(now: Date, lockedUntil: Date): Promise<MessageJob | null>;
+
+  /**
+   * Store the progress of a claimed job and extend the claim
+   *
+   * @param job The job with its progress
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to false if the claim was lost
+   */
+  saveProgress(job: MessageJob, lockedUntil: Date): Promise<boolean>;
+
+  /**
+   * Mark a claimed job as completed, storing its final progress
+   *
+   * @param job The job with its progress
+   * @param completedAt When the job completed
+   * @returns Promise resolving to false if the claim was lost
+   */
+  complete(job: MessageJob, completedAt: Date): Promise<boolean>;
+
+  /**
+   * Release a claimed job so that it is resumed by the next claim
+   *
+   * @param job The job with its progress
+   * @param error Reason the run stopped
+   */
+  release(job: MessageJob, error: string): Promise<void>;
+
+  /**
+   * Mark a claimed job as failed for good
+   *
+   * @param job The job with its progress
+   * @param error Reason of the failure
+   * @param failedAt When the job failed
+   */
+  markFailed(job: MessageJob, error: string, failedAt: Date): Promise<void>;
+}
@@ -0,0 +1,68 @@
+import { MessagePin } from '../entities/message-pin.entity';
+
+/**
+ * Message Pin Repository Interface
+ *
+ * Defines the contract for storing messages pinned to conversations.
+ */
+export interface IMessagePinRepository {
+  /**
+   * Find the pin of a message
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param messageId The unique identifier of the message
+   * @returns Promise resolving to the pin or null if the message is not pinned
+   */
+  find(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+  ): Promise<MessagePin | null>;
+
+  /**
+   * Find all pins of a conversation, most recently pinned first
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @returns Promise resolving to the pins of the conversation
+   */
+  findByConversationId(
+    tenantId: string,
+    conversationId: string,
+  ): Promise<MessagePin[]>;
+
+  /**
+   * Count the pins of a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @returns Promise resolving to the number of pins
+   */
+  countByConversationId(
+    tenantId: string,
+    conversationId: string,
+  ): Promise<number>;
+
+  /**
+   * Store a pin unless the message is already pinned
+   *
+   * @param pin The pin entity to store
+   * @returns Promise resolving to true if the pin was created
+   */
+  create(pin: MessagePin): Promise<boolean>;
+
+  /**
+   * Remove the pin of a message
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param messageId The unique identifier of the message
+   * @returns Promise resolving to true if a pin was removed
+   */
+  delete(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+  ): Promise<boolean>;
+}
@@ -0,0 +1,47 @@
+import { MessageRevision } from '../entities/message-revision.entity';
+
+/**
+ * Message Revision Repository Interface
+ *
+ * Defines the contract for storing the edit history of messages.
+ */
+export interface IMessageRevisionRepository {
+  /**
+   * Save a revision of a message
+   *
+   * @param revision The revision entity to save
+   * @returns Promise resolving to the saved revision entity, or null if a concurrent edit already recorded that revision
+   */
+  save(revision: MessageRevision): Promise<MessageRevision | null>;
+
+  /**
+   * Delete a revision recorded by an edit that could not be stored
+   *
+   * @param revision The revision entity to delete
+   * @returns Promise resolving when the revision is deleted
+   */
+  delete(revision: MessageRevision): Promise<void>;
+
+  /**
+   * Find the revisions of a message, newest first
+   *
+   * @param messageId The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options
+   * @returns Promise resolving to paginated revision results
+   */
+  findByMessageId(
+    messageId: string,
+    tenantId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ revisions: MessageRevision[]; total: number }>;
+
+  /**
+   * Permanently delete the revisions of a message
+   *
+   * @param messageId The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving when the revisions are deleted
+   */
+  deleteByMessageId(messageId: string, tenantId: string): Promise<void>;
+}
@@ -1,4 +1,9 @@
 import { Message } from '../entities/message.entity';
+import { MessageFilter } from '../entities/message-filter';
+import {
+  MessageDeliveryStatus,
+  RecipientDelivery,
+} from '../entities/message-delivery';
 
 /**
  * Message Repository Interface
@@ -16,31 +21,86 @@ export interface IMessageRepository {
    */
   save(message: Message): Promise<Message>;
 
+  /**
+   * Save several new messages at once
+   *
+   * The messages are inserted independently, so one that fails does not
+   * prevent the others from being saved.
+   *
+   * @param messages The message entities to save
+   * @returns Promise resolving to the saved messages and the messages that failed, with the reason
+   */
+  insertMany(messages: Message[]): Promise<{
+    inserted: Message[];
+    failed: { message: Message; error: string }[];
+  }>;
+
   /**
    * Find a message by its ID and tenant
    *
    * @param id The unique identifier of the message
    * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Set `includeDeleted` to also find soft-deleted messages, `includeExpired` to also find expired ephemeral messages
    * @returns Promise resolving to the message entity or null if not found
    */
-  findById(id: string, tenantId: string): Promise<Message | null>;
+  findById(
+    id: string,
+    tenantId: string,
+    options?: { includeDeleted?: boolean; includeExpired?: boolean },
+  ): Promise<Message | null>;
 
   /**
-   * Update an existing message
+   * Update an existing message if it has not changed since it was read
    *
-   * @param message The message entity with updated values
-   * @returns Promise resolving to the updated message entity
+   * @param message The message entity with updated values, carrying the version it was read at
+   * @returns Promise resolving to the updated message entity with its new version, or null if the stored version differs
    */
-  update(message: Message): Promise<Message>;
+  update(message: Message): Promise<Message | null>;
 
   /**
-   * Delete a message by its ID and tenant
+   * Permanently delete a message by its ID and tenant
    *
    * @param id The unique identifier of the message to delete
    * @param tenantId The tenant identifier for multi-tenancy
-   * @returns Promise resolving when the message is deleted
+   * @returns Promise resolving to false if there was no such message, e.g. because another instance deleted it first
+   */
+  delete(id: string, tenantId: string): Promise<boolean>;
+
+  /**
+   * Record the deletion tombstone of a live message
+   *
+   * @param message The message entity carrying `deletedAt` and `deletedBy`
+   * @param expectedVersion The version the message must still be at, if any
+   * @returns Promise resolving to true if the message was live and is now deleted
+   */
+  softDelete(message: Message, expectedVersion?: number): Promise<boolean>;
+
+  /**
+   * Clear the deletion tombstone of a soft-deleted message
+   *
+   * @param id The unique identifier of the message to restore
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to true if the message was deleted and is now restored
+   */
+  restore(id: string, tenantId: string): Promise<boolean>;
+
+  /**
+   * Find soft-deleted messages of all tenants deleted before a point in time
+   *
+   * @param deletedBefore Upper bound of the deletion timestamp
+   * @param limit Maximum number of messages to return
+   * @returns Promise resolving to the oldest matching tombstones
+   */
+  findDeletedBefore(deletedBefore: Date, limit: number): Promise<Message[]>;
+
+  /**
+   * Find ephemeral messages of all tenants that have expired
+   *
+   * @param now Point in time to check the expiry against
+   * @param limit Maximum number of messages to return
+   * @returns Promise resolving to the messages that expired first
    */
-  delete(id: string, tenantId: string): Promise<void>;
+  findExpired(now: Date, limit: number): Promise<Message[]>;
 
   /**
    * Find messages by conversation ID with pagination and sorting
@@ -59,4 +119,235 @@ export interface IMessageRepository {
       sort?: { field: string; direction: 'asc' | 'desc' };
     },
   ): Promise<{ messages: Message[]; total: number }>;
+
+  /**
+   * Stream all messages of a conversation, oldest first
+   *
+   * Messages are read from a cursor in batches, so the conversation is never
+   * held in memory as a whole.
+   *
+   * @param conversationId The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Async iterable of the messages in timestamp order
+   */
+  streamByConversationId(
+    conversationId: string,
+    tenantId: string,
+  ): AsyncIterable<Message>;
+
+  /**
+   * Find direct replies to a message with pagination and sorting
+   *
+   * @param parentMessageId The unique identifier of the parent message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated reply results
+   */
+  findByParentId(
+    parentMessageId: string,
+    tenantId: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }>;
+
+  /**
+   * Find messages mentioning a user with pagination and sorting
+   *
+   * @param userId The mentioned user
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated message results
+   */
+  findByMentionedUser(
+    userId: string,
+    tenantId: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }>;
+
+  /**
+   * Find messages held for review, oldest first
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options and an optional conversation to review
+   * @returns Promise resolving to paginated message results
+   */
+  findHeldForReview(
+    tenantId: string,
+    options: { page: number; limit: number; conversationId?: string },
+  ): Promise<{ messages: Message[]; total: number }>;
+
+  /**
+   * Find messages matching a filter in the order of their ID
+   *
+   * Used to walk through the messages of a bulk change batch by batch.
+   *
+   * @param filter Criteria the messages must match
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options `afterId` to continue after a message, `limit` for the batch size
+   * @returns Promise resolving to the matching messages, excluding deleted and expired ones
+   */
+  findByFilter(
+    filter: MessageFilter,
+    tenantId: string,
+    options: { afterId?: string; limit: number },
+  ): Promise<Message[]>;
+
+  /**
+   * Count the messages matching a filter
+   *
+   * @param filter Criteria the messages must match
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the number of matching messages, excluding deleted and expired ones
+   */
+  countByFilter(filter: MessageFilter, tenantId: string): Promise<number>;
+
+  /**
+   * Find which of the given message IDs are taken, including by deleted and
+   * expired messages
+   *
+   * @param ids The message IDs to look up
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the IDs that exist
+   */
+  findExistingIds(ids: string[], tenantId: string): Promise<string[]>;
+
+  /**
+   * Atomically increment the reply count of a message
+   *
+   * @param id The unique identifier of the parent message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param amount Amount to add, negative when a reply is deleted
+   * @returns Promise resolving when the count is incremented
+   */
+  incrementReplyCount(
+    id: string,
+    tenantId: string,
+    amount?: number,
+  ): Promise<void>;
+
+  /**
+   * Add a reaction to a message unless the user already reacted with that emoji
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @returns Promise resolving to true if the reaction was added
+   */
+  addReaction(
+    id: string,
+    tenantId: string,
+    emoji: string,
+    userId: string,
+  ): Promise<boolean>;
+
+  /**
+   * Remove a user's reaction from a message
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @returns Promise resolving to true if a reaction was removed
+   */
+  removeReaction(
+    id: string,
+    tenantId: string,
+    emoji: string,
+    userId: string,
+  ): Promise<boolean>;
+
+  /**
+   * Record the vote of a user in a poll unless the user already voted or the poll is closed
+   *
+   * @param id The unique identifier of the poll message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param userId The voting user
+   * @param optionIndexes Indexes of the chosen options
+   * @param votedAt When the user voted, checked against the closing time
+   * @returns Promise resolving to true if the vote was recorded
+   */
+  castVote(
+    id: string,
+    tenantId: string,
+    userId: string,
+    optionIndexes: number[],
+    votedAt: Date,
+  ): Promise<boolean>;
+
+  /**
+   * Find polls of all tenants that reached their closing time but were not closed yet
+   *
+   * @param now Point in time to check the closing time against
+   * @param limit Maximum number of polls to return
+   * @returns Promise resolving to the polls that closed first
+   */
+  findPollsToClose(now: Date, limit: number): Promise<Message[]>;
+
+  /**
+   * Mark a poll as closed unless it already is
+   *
+   * @param id The unique identifier of the poll message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param closedAt When the poll closed
+   * @returns Promise resolving to true if the poll was marked as closed
+   */
+  closePoll(id: string, tenantId: string, closedAt: Date): Promise<boolean>;
+
+  /**
+   * Change the delivery status of a message if it is still in the expected status
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param from The status the message is expected to be in
+   * @param to The new status
+   * @param deliveries The recipients of a message being sent
+   * @returns Promise resolving to true if the status was changed
+   */
+  updateDeliveryStatus(
+    id: string,
+    tenantId: string,
+    from: MessageDeliveryStatus,
+    to: MessageDeliveryStatus,
+    deliveries?: RecipientDelivery[],
+  ): Promise<boolean>;
+
+  /**
+   * Change the delivery status of a recipient if it is still in the expected status
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param delivery The new status of the recipient
+   * @param from The status the recipient is expected to be in
+   * @returns Promise resolving to the updated message, or null if the recipient is no longer in the expected status
+   */
+  updateRecipientDelivery(
+    id: string,
+    tenantId: string,
+    delivery: RecipientDelivery,
+    from: MessageDeliveryStatus,
+  ): Promise<Message | null>;
+
+  /**
+   * Count messages of a conversation that a user has not read yet
+   *
+   * @param conversationId The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param userId The reading user; their own messages are never unread
+   * @param after Timestamp of the last read message, or undefined if nothing was read
+   * @returns Promise resolving to the number of unread messages
+   */
+  countUnread(
+    conversationId: string,
+    tenantId: string,
+    userId: string,
+    after?: Date,
+  ): Promise<number>;
 }
@@ -0,0 +1,174 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  IdempotencyRecord,
+  IdempotencyRecordStatus,
+} from '../entities/idempotency-record.entity';
+import { IIdempotencyRecordRepository } from './idempotency-record.repository.interface';
+import {
+  IdempotencyRecordModel,
+  IdempotencyRecordDocument,
+} from '../schemas/idempotency-record.schema';
+
+/**
+ * MongoDB implementation of the Idempotency Record Repository
+ */
+@Injectable()
+export class IdempotencyRecordRepository
+  implements IIdempotencyRecordRepository
+{
+  private readonly logger = new Logger(IdempotencyRecordRepository.name);
+
+  constructor(
+    @InjectModel(IdempotencyRecordModel.name)
+    private idempotencyRecordModel: Model<IdempotencyRecordDocument>,
+  ) {
+    this.logger.log('IdempotencyRecordRepository initialized');
+  }
+
+  /**
+   * Claim a key that no record holds yet
+   *
+   * @param record The record of the request about to be processed
+   * @returns Promise resolving to true if the record was stored
+   */
+  async claim(record: IdempotencyRecord): Promise<boolean> {
+    this.logger.debug(
+      `Claiming idempotency key: ${record.key} for tenant: ${record.tenantId}`,
+    );
+    try {
+      // Only inserts; concurrent claims of the same key are serialized by the unique index
+      const result = await this.idempotencyRecordModel.updateOne(
+        { tenantId: record.tenantId, key: record.key },
+        { $setOnInsert: record.toDatabase() },
+        { upsert: true },
+      );
+      return result.upsertedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to claim idempotency key: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a stale record with the record of a new attempt
+   *
+   * @param record The record of the request about to be processed
+   * @param staleClaimId Claim of the stale record, which must still hold the key
+   * @returns Promise resolving to true if the stale record was replaced
+   */
+  async takeOver(
+    record: IdempotencyRecord,
+    staleClaimId: string,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Taking over idempotency key: ${record.key} for tenant: ${record.tenantId}`,
+    );
+    try {
+      const result = await this.idempotencyRecordModel.replaceOne(
+        { tenantId: record.tenantId, key: record.key, claimId: staleClaimId },
+        record.toDatabase(),
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to take over idempotency key: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the record holding a key
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param key The idempotency key
+   * @returns Promise resolving to the record or null if the key is unused
+   */
+  async find(tenantId: string, key: string): Promise<IdempotencyRecord | null> {
+    this.logger.debug(
+      `Finding idempotency key: ${key} for tenant: ${tenantId}`,
+    );
+    try {
+      const recordDocument = await this.idempotencyRecordModel
+        .findOne({ tenantId, key })
+        .exec();
+
+      return recordDocument
+        ? IdempotencyRecord.fromDatabase(recordDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Error finding idempotency key: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store the response of a processed request
+   *
+   * @param record The record of the attempt that processed the request
+   * @param response Response body to replay
+   * @returns Promise resolving to true if the attempt still held the key
+   */
+  async complete(
+    record: IdempotencyRecord,
+    response: unknown,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Completing idempotency key: ${record.key} for tenant: ${record.tenantId}`,
+    );
+    try {
+      const result = await this.idempotencyRecordModel.updateOne(
+        {
+          tenantId: record.tenantId,
+          key: record.key,
+          claimId: record.claimId,
+        },
+        {
+          $set: { status: IdempotencyRecordStatus.COMPLETED, response },
+          $unset: { lockedUntil: '' },
+        },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete idempotency key: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Release a key whose request failed, so that it can be retried
+   *
+   * @param record The record of the attempt that failed
+   */
+  async release(record: IdempotencyRecord): Promise<void> {
+    this.logger.debug(
+      `Releasing idempotency key: ${record.key} for tenant: ${record.tenantId}`,
+    );
+    try {
+      await this.idempotencyRecordModel.deleteOne({
+        tenantId: record.tenantId,
+        key: record.key,
+        claimId: record.claimId,
+        status: IdempotencyRecordStatus.PROCESSING,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to release idempotency key: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { MessageDraft } from '../entities/message-draft.entity';
+import { IMessageDraftRepository } from './message-draft.repository.interface';
+import {
+  MessageDraftModel,
+  MessageDraftDocument,
+} from '../schemas/message-draft.schema';
+
+/**
+ * MongoDB implementation of the Message Draft Repository
+ */
+@Injectable()
+export class MessageDraftRepository implements IMessageDraftRepository {
+  private readonly logger = new Logger(MessageDraftRepository.name);
+
+  constructor(
+    @InjectModel(MessageDraftModel.name)
+    private messageDraftModel: Model<MessageDraftDocument>,
+  ) {
+    this.logger.log('MessageDraftRepository initialized');
+  }
+
+  /**
+   * Find the draft of a user in a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param userId The unique identifier of the user
+   * @returns Promise resolving to the draft or null if the user has none
+   */
+  async find(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<MessageDraft | null> {
+    this.logger.debug(
+      `Finding draft of user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const draftDocument = await this.messageDraftModel
+        .findOne({ tenantId, conversationId, userId })
+        .exec();
+
+      return draftDocument
+        ? MessageDraft.fromDatabase(draftDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(`Error finding draft: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the drafts of a user across conversations, most recently saved first
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param userId The unique identifier of the user
+   * @param options Pagination options
+   * @returns Promise resolving to paginated drafts
+   */
+  async findByUserId(
+    tenantId: string,
+    userId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ drafts: MessageDraft[]; total: number }> {
+    // Ensure page and limit are positive integers
+    const page = Math.max(1, options.page);
+    const limit = Math.max(1, options.limit);
+    this.logger.debug(
+      `Finding drafts of user: ${userId} for tenant: ${tenantId}, page: ${page}, limit: ${limit}`,
+    );
+    try {
+      const filter = { tenantId, userId };
+      const [draftDocuments, total] = await Promise.all([
+        this.messageDraftModel
+          .find(filter)
+          .sort({ updatedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .exec(),
+        this.messageDraftModel.countDocuments(filter).exec(),
+      ]);
+
+      return {
+        drafts: draftDocuments.map((doc) =>
+          MessageDraft.fromDatabase(doc.toObject()),
+        ),
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`Error finding drafts: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert or replace the draft of a user in a conversation
+   *
+   * @param draft The draft entity to store
+   * @returns Promise resolving to the stored draft
+   */
+  async upsert(draft: MessageDraft): Promise<MessageDraft> {
+    this.logger.debug(
+      `Storing draft of user: ${draft.userId} in conversation: ${draft.conversationId}`,
+    );
+    try {
+      // Replace so that metadata left out of the new draft is removed
+      await this.messageDraftModel.replaceOne(
+        {
+          tenantId: draft.tenantId,
+          conversationId: draft.conversationId,
+          userId: draft.userId,
+        },
+        draft.toDatabase(),
+        { upsert: true },
+      );
+      return draft;
+    } catch (error) {
+      this.logger.error(`Failed to store draft: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the draft of a user in a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param userId The unique identifier of the user
+   * @returns Promise resolving to true if a draft was deleted
+   */
+  async delete(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Deleting draft of user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const result = await this.messageDraftModel.deleteOne({
+        tenantId,
+        conversationId,
+        userId,
+      });
+      return result.deletedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete draft: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
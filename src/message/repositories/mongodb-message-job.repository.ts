@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { MessageJob, MessageJobStatus } from '../entities/message-job.entity';
+import { IMessageJobRepository } from './message-job.repository.interface';
+import {
+  MessageJobModel,
+  MessageJobDocument,
+} from '../schemas/message-job.schema';
+
+/**
+ * MongoDB implementation of the Message Job Repository
+ */
+@Injectable()
+export class MessageJobRepository implements IMessageJobRepository {
+  private readonly logger = new Logger(MessageJobRepository.name);
+
+  constructor(
+    @InjectModel(MessageJobModel.name)
+    private messageJobModel: Model<MessageJobDocument>,
+  ) {
+    this.logger.log('MessageJobRepository initialized');
+  }
+
+  /**
+   * Filter matching a job while the runner still holds its claim
+   */
+  private claimFilter(job: MessageJob): Record<string, any> {
+    return {
+      id: job.id,
+      tenantId: job.tenantId,
+      status: MessageJobStatus.RUNNING,
+      attempts: job.attempts,
+    };
+  }
+
+  /**
+   * Progress of a job as stored
+   */
+  private progress(job: MessageJob): Record<string, any> {
+    return {
+      total: job.total,
+      processed: job.processed,
+      succeeded: job.succeeded,
+      failed: job.failed,
+      failures: job.failures,
+      cursor: job.cursor,
+    };
+  }
+
+  /**
+   * Save a new job
+   *
+   * @param job The job entity to save
+   * @returns Promise resolving to the saved job
+   */
+  async save(job: MessageJob): Promise<MessageJob> {
+    this.logger.debug(`Saving ${job.type} job: ${job.id}`);
+    try {
+      const messageJobDocument = new this.messageJobModel(job.toDatabase());
+      const savedDocument = await messageJobDocument.save();
+      return MessageJob.fromDatabase(savedDocument.toObject());
+    } catch (error) {
+      this.logger.error(
+        `Failed to save message job: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a job by its ID and tenant
+   *
+   * @param id The unique identifier of the job
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the job or null if not found
+   */
+  async findById(id: string, tenantId: string): Promise<MessageJob | null> {
+    this.logger.debug(`Finding message job: ${id} for tenant: ${tenantId}`);
+    try {
+      const messageJobDocument = await this.messageJobModel
+        .findOne({ id, tenantId })
+        .exec();
+      return messageJobDocument
+        ? MessageJob.fromDatabase(messageJobDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Error finding message job: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the oldest pending or abandoned job of any tenant
+   *
+   * @param now Current time
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to the claimed job or null if there is none
+   */
+  async claimNext(now: Date, lockedUntil: Date): Promise<MessageJob | null> {
+    try {
+      const messageJobDocument = await this.messageJobModel
+        .findOneAndUpdate(
+          {
+            $or: [
+              { status: MessageJobStatus.PENDING },
+              // Claimed by a runner that stopped reporting progress
+              {
+                status: MessageJobStatus.RUNNING,
+                lockedUntil: { $lte: now },
+              },
+            ],
+          },
+          {
+            $set: { status: MessageJobStatus.RUNNING, lockedUntil },
+            $inc: { attempts: 1 },
+            // Only set by the first claim
+            $min: { startedAt: now },
+          },
+          { sort: { createdAt: 1 }, new: true },
+        )
+        .exec();
+      return messageJobDocument
+        ? MessageJob.fromDatabase(messageJobDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to claim message job: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Store the progress of a claimed job and extend the claim
+   *
+   * @param job The job with its progress
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to false if the claim was lost
+   */
+  async saveProgress(job: MessageJob, lockedUntil: Date): Promise<boolean> {
+    try {
+      const result = await this.messageJobModel.updateOne(
+        this.claimFilter(job),
+        { $set: { ...this.progress(job), lockedUntil } },
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to save progress of message job: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a claimed job as completed, storing its final progress
+   *
+   * @param job The job with its progress
+   * @param completedAt When the job completed
+   * @returns Promise resolving to false if the claim was lost
+   */
+  async complete(job: MessageJob, completedAt: Date): Promise<boolean> {
+    try {
+      const result = await this.messageJobModel.updateOne(
+        this.claimFilter(job),
+        {
+          $set: {
+            ...this.progress(job),
+            status: MessageJobStatus.COMPLETED,
+            completedAt,
+          },
+          $unset: { lockedUntil: '', lastError: '' },
+        },
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete message job: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Release a claimed job so that it is resumed by the next claim
+   *
+   * @param job The job with its progress
+   * @param error Reason the run stopped
+   */
+  async release(job: MessageJob, error: string): Promise<void> {
+    try {
+      await this.messageJobModel.updateOne(this.claimFilter(job), {
+        $set: {
+          ...this.progress(job),
+          status: MessageJobStatus.PENDING,
+          lastError: error,
+        },
+        $unset: { lockedUntil: '' },
+      });
+    } catch (releaseError) {
+      this.logger.error(
+        `Failed to release message job: ${releaseError.message}`,
+        releaseError.stack,
+      );
+      throw releaseError;
+    }
+  }
+
+  /**
+   * Mark a claimed job as failed for good
+   *
+   * @param job The job with its progress
+   * @param error Reason of the failure
+   * @param failedAt When the job failed
+   */
+  async markFailed(
+    job: MessageJob,
+    error: string,
+    failedAt: Date,
+  ): Promise<void> {
+    try {
+      await this.messageJobModel.updateOne(this.claimFilter(job), {
+        $set: {
+          ...this.progress(job),
+          status: MessageJobStatus.FAILED,
+          lastError: error,
+          completedAt: failedAt,
+        },
+        $unset: { lockedUntil: '' },
+      });
+    } catch (updateError) {
+      this.logger.error(
+        `Failed to mark message job as failed: ${updateError.message}`,
+        updateError.stack,
+      );
+      throw updateError;
+    }
+  }
+}
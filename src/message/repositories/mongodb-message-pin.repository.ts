@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { MessagePin } from '../entities/message-pin.entity';
+import { IMessagePinRepository } from './message-pin.repository.interface';
+import {
+  MessagePinModel,
+  MessagePinDocument,
+} from '../schemas/message-pin.schema';
+
+/**
+ * MongoDB implementation of the Message Pin Repository
+ */
+@Injectable()
+export class MessagePinRepository implements IMessagePinRepository {
+  private readonly logger = new Logger(MessagePinRepository.name);
+
+  constructor(
+    @InjectModel(MessagePinModel.name)
+    private messagePinModel: Model<MessagePinDocument>,
+  ) {
+    this.logger.log('MessagePinRepository initialized');
+  }
+
+  /**
+   * Find the pin of a message
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param messageId The unique identifier of the message
+   * @returns Promise resolving to the pin or null if the message is not pinned
+   */
+  async find(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+  ): Promise<MessagePin | null> {
+    this.logger.debug(
+      `Finding pin of message: ${messageId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const pinDocument = await this.messagePinModel
+        .findOne({ tenantId, conversationId, messageId })
+        .exec();
+
+      return pinDocument
+        ? MessagePin.fromDatabase(pinDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(`Error finding pin: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all pins of a conversation, most recently pinned first
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @returns Promise resolving to the pins of the conversation
+   */
+  async findByConversationId(
+    tenantId: string,
+    conversationId: string,
+  ): Promise<MessagePin[]> {
+    this.logger.debug(
+      `Finding pins of conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const pinDocuments = await this.messagePinModel
+        .find({ tenantId, conversationId })
+        .sort({ pinnedAt: -1 })
+        .exec();
+
+      return pinDocuments.map((doc) => MessagePin.fromDatabase(doc.toObject()));
+    } catch (error) {
+      this.logger.error(`Error finding pins: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Count the pins of a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @returns Promise resolving to the number of pins
+   */
+  async countByConversationId(
+    tenantId: string,
+    conversationId: string,
+  ): Promise<number> {
+    try {
+      return await this.messagePinModel
+        .countDocuments({ tenantId, conversationId })
+        .exec();
+    } catch (error) {
+      this.logger.error(`Error counting pins: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a pin unless the message is already pinned
+   *
+   * @param pin The pin entity to store
+   * @returns Promise resolving to true if the pin was created
+   */
+  async create(pin: MessagePin): Promise<boolean> {
+    this.logger.debug(
+      `Pinning message: ${pin.messageId} in conversation: ${pin.conversationId}`,
+    );
+    try {
+      // Insert only if missing so that a concurrent pin keeps its author and time
+      const result = await this.messagePinModel.updateOne(
+        {
+          tenantId: pin.tenantId,
+          conversationId: pin.conversationId,
+          messageId: pin.messageId,
+        },
+        { $setOnInsert: pin.toDatabase() },
+        { upsert: true },
+      );
+      return result.upsertedCount > 0;
+    } catch (error) {
+      this.logger.error(`Failed to store pin: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the pin of a message
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param messageId The unique identifier of the message
+   * @returns Promise resolving to true if a pin was removed
+   */
+  async delete(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Unpinning message: ${messageId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const result = await this.messagePinModel
+        .deleteOne({ tenantId, conversationId, messageId })
+        .exec();
+      return result.deletedCount > 0;
+    } catch (error) {
+      this.logger.error(`Failed to remove pin: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { MessageRevision } from '../entities/message-revision.entity';
+import { IMessageRevisionRepository } from './message-revision.repository.interface';
+import {
+  MessageRevisionModel,
+  MessageRevisionDocument,
+} from '../schemas/message-revision.schema';
+
+// Error code of MongoDB for a violated unique index
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+/**
+ * MongoDB implementation of the Message Revision Repository
+ */
+@Injectable()
+export class MessageRevisionRepository implements IMessageRevisionRepository {
+  private readonly logger = new Logger(MessageRevisionRepository.name);
+
+  constructor(
+    @InjectModel(MessageRevisionModel.name)
+    private messageRevisionModel: Model<MessageRevisionDocument>,
+  ) {
+    this.logger.log('MessageRevisionRepository initialized');
+  }
+
+  /**
+   * Save a revision of a message
+   *
+   * @param revision The revision entity to save
+   * @returns Promise resolving to the saved revision entity, or null if a concurrent edit already recorded that revision
+   */
+  async save(revision: MessageRevision): Promise<MessageRevision | null> {
+    this.logger.debug(
+      `Saving revision ${revision.revision} of message: ${revision.messageId}`,
+    );
+    try {
+      const revisionDocument = new this.messageRevisionModel(
+        revision.toDatabase(),
+      );
+      await revisionDocument.save();
+      return revision;
+    } catch (error) {
+      if (error.code === DUPLICATE_KEY_ERROR_CODE) {
+        this.logger.warn(
+          `Revision ${revision.revision} of message: ${revision.messageId} is already recorded`,
+        );
+        return null;
+      }
+
+      this.logger.error(
+        `Failed to save message revision: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the revisions of a message, newest first
+   *
+   * @param messageId The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options
+   * @returns Promise resolving to paginated revision results
+   */
+  async findByMessageId(
+    messageId: string,
+    tenantId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ revisions: MessageRevision[]; total: number }> {
+    // Ensure page and limit are positive integers
+    const page = Math.max(1, options.page);
+    const limit = Math.max(1, options.limit);
+    this.logger.debug(
+      `Finding revisions of message: ${messageId} for tenant: ${tenantId}, page: ${page}, limit: ${limit}`,
+    );
+    try {
+      const filter = { messageId, tenantId };
+      const [revisionDocuments, total] = await Promise.all([
+        this.messageRevisionModel
+          .find(filter)
+          .sort({ revision: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .exec(),
+        this.messageRevisionModel.countDocuments(filter).exec(),
+      ]);
+
+      return {
+        revisions: revisionDocuments.map((doc) =>
+          MessageRevision.fromDatabase(doc.toObject()),
+        ),
+        total,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error finding message revisions: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently delete the revisions of a message
+   *
+   * @param messageId The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving when the revisions are deleted
+   */
+  async deleteByMessageId(messageId: string, tenantId: string): Promise<void> {
+    this.logger.debug(`Deleting revisions of message: ${messageId}`);
+    try {
+      await this.messageRevisionModel.deleteMany({ messageId, tenantId });
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete message revisions: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a revision recorded by an edit that could not be stored
+   *
+   * @param revision The revision entity to delete
+   * @returns Promise resolving when the revision is deleted
+   */
+  async delete(revision: MessageRevision): Promise<void> {
+    this.logger.debug(
+      `Deleting revision ${revision.revision} of message: ${revision.messageId}`,
+    );
+    try {
+      // The edit time tells this revision apart from one of a concurrent edit
+      await this.messageRevisionModel.deleteOne({
+        messageId: revision.messageId,
+        tenantId: revision.tenantId,
+        revision: revision.revision,
+        editedAt: revision.editedAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete message revision: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -2,9 +2,36 @@ import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Message } from '../entities/message.entity';
+import {
+  isMetadataFilterValue,
+  MessageFilter,
+  METADATA_KEY_PATTERN,
+} from '../entities/message-filter';
+import { MessageContentType } from '../entities/message-content';
+import {
+  MessageDeliveryStatus,
+  RecipientDelivery,
+} from '../entities/message-delivery';
+import {
+  HIDDEN_MODERATION_STATUSES,
+  ModerationStatus,
+} from '../entities/message-moderation';
 import { IMessageRepository } from './message.repository.interface';
 import { MessageModel, MessageDocument } from '../schemas/message.schema';
 
+/**
+ * Matches the stored version of a message. Version 0 stands for messages
+ * stored before versioning, which have none.
+ */
+function versionFilter(version: number): number | { $exists: false } {
+  return version > 0 ? version : { $exists: false };
+}
+
+/**
+ * Number of messages fetched per round trip when streaming
+ */
+const STREAM_BATCH_SIZE = 500;
+
 /**
  * MongoDB implementation of the Message Repository
  *
@@ -44,22 +71,90 @@ export class MessageRepository implements IMessageRepository {
     }
   }
 
+  /**
+   * Save several new messages to the database at once
+   *
+   * The insert is unordered, so a message that fails does not prevent the
+   * others from being saved.
+   *
+   * @param messages The message entities to save
+   * @returns Promise resolving to the saved messages and the messages that failed, with the reason
+   */
+  async insertMany(messages: Message[]): Promise<{
+    inserted: Message[];
+    failed: { message: Message; error: string }[];
+  }> {
+    this.logger.debug(`Inserting ${messages.length} messages`);
+    try {
+      await this.messageModel.insertMany(
+        messages.map((message) => new this.messageModel(message.toDatabase())),
+        { ordered: false },
+      );
+      this.logger.debug(`Inserted ${messages.length} messages`);
+      return { inserted: messages, failed: [] };
+    } catch (error) {
+      // Mongoose copies the write errors, keeping the driver's error in `err`
+      const writeErrors: {
+        index: number;
+        errmsg?: string;
+        err?: { errmsg?: string };
+      }[] = Array.isArray(error.writeErrors) ? error.writeErrors : [];
+
+      // Other errors than rejected documents fail the whole insert
+      if (writeErrors.length === 0) {
+        this.logger.error(
+          `Failed to insert messages: ${error.message}`,
+          error.stack,
+        );
+        throw error;
+      }
+
+      const reasons = new Map<number, string>(
+        writeErrors.map((writeError) => [
+          writeError.index,
+          writeError.errmsg ?? writeError.err?.errmsg ?? error.message,
+        ]),
+      );
+      this.logger.warn(
+        `Failed to insert ${reasons.size} of ${messages.length} messages: ${error.message}`,
+      );
+
+      return {
+        inserted: messages.filter((_, index) => !reasons.has(index)),
+        failed: messages
+          .map((message, index) => ({ message, error: reasons.get(index) }))
+          .filter(
+            (result): result is { message: Message; error: string } =>
+              result.error !== undefined,
+          ),
+      };
+    }
+  }
+
   /**
    * Find a message by its ID and tenant
    *
    * @param id The unique identifier of the message
    * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Set `includeDeleted` to also find soft-deleted messages, `includeExpired` to also find expired ephemeral messages
    * @returns Promise resolving to the message entity or null if not found
    */
-  async findById(id: string, tenantId: string): Promise<Message | null> {
+  async findById(
+    id: string,
+    tenantId: string,
+    options: { includeDeleted?: boolean; includeExpired?: boolean } = {},
+  ): Promise<Message | null> {
     this.logger.debug(`Finding message with ID: ${id} for tenant: ${tenantId}`);
     try {
-      const messageDocument = await this.messageModel
-        .findOne({
-          id,
-          tenantId,
-        })
-        .exec();
+      const filter: Record<string, any> = { id, tenantId };
+      if (!options.includeDeleted) {
+        filter.deletedAt = null;
+      }
+      if (!options.includeExpired) {
+        filter.expiresAt = this.notExpired();
+      }
+
+      const messageDocument = await this.messageModel.findOne(filter).exec();
 
       if (!messageDocument) {
         this.logger.debug(`Message not found: ${id}`);
@@ -74,29 +169,41 @@ export class MessageRepository implements IMessageRepository {
   }
 
   /**
-   * Update an existing message
+   * Update an existing message if it has not changed since it was read
    *
-   * @param message The message entity with updated values
-   * @returns Promise resolving to the updated message entity
+   * The version the message was read at is part of the filter, so that a
+   * concurrent change is never overwritten.
+   *
+   * @param message The message entity with updated values, carrying the version it was read at
+   * @returns Promise resolving to the updated message entity with its new version, or null if the stored version differs
    */
-  async update(message: Message): Promise<Message> {
+  async update(message: Message): Promise<Message | null> {
     this.logger.debug(`Updating message with ID: ${message.id}`);
     try {
-      const result = await this.messageModel.updateOne(
-        {
-          id: message.id,
-          tenantId: message.tenantId,
-        },
-        message.toDatabase(),
-      );
+      const messageDocument = await this.messageModel
+        .findOneAndUpdate(
+          {
+            id: message.id,
+            tenantId: message.tenantId,
+            version: versionFilter(message.version),
+          },
+          {
+            $set: { ...message.toDatabase(), version: message.version + 1 },
+            ...this.unsetCleared(message),
+          },
+          { new: true },
+        )
+        .exec();
 
-      if (result.matchedCount === 0) {
-        this.logger.warn(`No message found to update with ID: ${message.id}`);
-      } else {
-        this.logger.debug(`Message updated successfully: ${message.id}`);
+      if (!messageDocument) {
+        this.logger.warn(
+          `Message with ID: ${message.id} changed since version ${message.version}`,
+        );
+        return null;
       }
 
-      return message;
+      this.logger.debug(`Message updated successfully: ${message.id}`);
+      return Message.fromDatabase(messageDocument.toObject());
     } catch (error) {
       this.logger.error(
         `Failed to update message: ${error.message}`,
@@ -111,8 +218,9 @@ export class MessageRepository implements IMessageRepository {
    *
    * @param id The unique identifier of the message to delete
    * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to false if there was no such message
    */
-  async delete(id: string, tenantId: string): Promise<void> {
+  async delete(id: string, tenantId: string): Promise<boolean> {
     this.logger.debug(
       `Deleting message with ID: ${id} for tenant: ${tenantId}`,
     );
@@ -124,9 +232,10 @@ export class MessageRepository implements IMessageRepository {
 
       if (result.deletedCount === 0) {
         this.logger.warn(`No message found to delete with ID: ${id}`);
-      } else {
-        this.logger.debug(`Message deleted successfully: ${id}`);
+        return false;
       }
+      this.logger.debug(`Message deleted successfully: ${id}`);
+      return true;
     } catch (error) {
       this.logger.error(
         `Failed to delete message: ${error.message}`,
@@ -136,6 +245,139 @@ export class MessageRepository implements IMessageRepository {
     }
   }
 
+  /**
+   * Record the deletion tombstone of a live message
+   *
+   * The filter only matches live messages so that concurrent deletes
+   * cannot overwrite the original tombstone.
+   *
+   * @param message The message entity carrying `deletedAt` and `deletedBy`
+   * @param expectedVersion The version the message must still be at, if any
+   * @returns Promise resolving to true if the message was live and is now deleted
+   */
+  async softDelete(
+    message: Message,
+    expectedVersion?: number,
+  ): Promise<boolean> {
+    this.logger.debug(`Soft deleting message with ID: ${message.id}`);
+    try {
+      const result = await this.messageModel.updateOne(
+        {
+          id: message.id,
+          tenantId: message.tenantId,
+          deletedAt: null,
+          ...(expectedVersion !== undefined
+            ? { version: versionFilter(expectedVersion) }
+            : {}),
+        },
+        {
+          $set: { deletedAt: message.deletedAt, deletedBy: message.deletedBy },
+          $inc: { version: 1 },
+        },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to soft delete message: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Clear the deletion tombstone of a soft-deleted message
+   *
+   * @param id The unique identifier of the message to restore
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to true if the message was deleted and is now restored
+   */
+  async restore(id: string, tenantId: string): Promise<boolean> {
+    this.logger.debug(
+      `Restoring message with ID: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const result = await this.messageModel.updateOne(
+        { id, tenantId, deletedAt: { $ne: null } },
+        { $unset: { deletedAt: 1, deletedBy: 1 }, $inc: { version: 1 } },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to restore message: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find soft-deleted messages of all tenants deleted before a point in time
+   *
+   * Used by the purge job, which runs outside of any tenant request.
+   *
+   * @param deletedBefore Upper bound of the deletion timestamp
+   * @param limit Maximum number of messages to return
+   * @returns Promise resolving to the oldest matching tombstones
+   */
+  async findDeletedBefore(
+    deletedBefore: Date,
+    limit: number,
+  ): Promise<Message[]> {
+    this.logger.debug(
+      `Finding messages deleted before: ${deletedBefore.toISOString()}`,
+    );
+    try {
+      const messageDocuments = await this.messageModel
+        .find({ deletedAt: { $lte: deletedBefore } })
+        .sort({ deletedAt: 1 })
+        .limit(limit)
+        .exec();
+
+      return messageDocuments.map((doc) =>
+        Message.fromDatabase(doc.toObject()),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error finding deleted messages: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find ephemeral messages of all tenants that have expired
+   *
+   * Used by the expiry job, which runs outside of any tenant request.
+   *
+   * @param now Point in time to check the expiry against
+   * @param limit Maximum number of messages to return
+   * @returns Promise resolving to the messages that expired first
+   */
+  async findExpired(now: Date, limit: number): Promise<Message[]> {
+    this.logger.debug(`Finding messages expired by: ${now.toISOString()}`);
+    try {
+      const messageDocuments = await this.messageModel
+        .find({ expiresAt: { $lte: now } })
+        .sort({ expiresAt: 1 })
+        .limit(limit)
+        .exec();
+
+      return messageDocuments.map((doc) =>
+        Message.fromDatabase(doc.toObject()),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error finding expired messages: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Find messages by conversation ID with pagination and sorting
    *
@@ -158,58 +400,777 @@ export class MessageRepository implements IMessageRepository {
     );
 
     try {
-      // Ensure page and limit are positive integers
-      const page = Math.max(1, options.page);
-      const limit = Math.max(1, options.limit);
+      const result = await this.findPage({ conversationId, tenantId }, options);
 
-      // Calculate skip value for pagination
-      const skip = (page - 1) * limit;
+      this.logger.debug(
+        `Found ${result.messages.length} messages out of ${result.total} total`,
+      );
 
-      // Build sort options
-      const sortOptions: Record<string, 1 | -1> = {};
-      if (options.sort && options.sort.field) {
-        sortOptions[options.sort.field] =
-          options.sort.direction === 'asc' ? 1 : -1;
-      } else {
-        // Default sort by timestamp descending (newest first)
-        sortOptions.timestamp = -1;
-      }
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error finding messages by conversation: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
 
-      // Execute query with pagination and sorting
-      const messageDocuments = await this.messageModel
+  /**
+   * Stream all messages of a conversation, oldest first
+   *
+   * @param conversationId The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Async iterable of the messages in timestamp order
+   */
+  async *streamByConversationId(
+    conversationId: string,
+    tenantId: string,
+  ): AsyncIterable<Message> {
+    this.logger.debug(
+      `Streaming messages of conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+
+    try {
+      // Soft-deleted, expired and moderated messages are never listed
+      const cursor = this.messageModel
         .find({
           conversationId,
           tenantId,
+          deletedAt: null,
+          expiresAt: this.notExpired(),
+          'moderation.status': this.notHiddenByModeration(),
         })
-        .sort(sortOptions)
-        .skip(skip)
-        .limit(limit)
-        .exec();
+        .sort({ timestamp: 1, id: 1 })
+        .batchSize(STREAM_BATCH_SIZE)
+        .cursor();
 
-      // Count total messages for pagination metadata
-      const total = await this.messageModel
-        .countDocuments({
-          conversationId,
-          tenantId,
-        })
-        .exec();
+      for await (const messageDocument of cursor) {
+        yield Message.fromDatabase(messageDocument.toObject());
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error streaming messages of conversation: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
 
-      // Map documents to domain entities
-      const messages = messageDocuments.map((doc) =>
-        Message.fromDatabase(doc.toObject()),
+  /**
+   * Find direct replies to a message with pagination and sorting
+   *
+   * @param parentMessageId The unique identifier of the parent message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated reply results
+   */
+  async findByParentId(
+    parentMessageId: string,
+    tenantId: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }> {
+    this.logger.debug(
+      `Finding replies to message: ${parentMessageId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    try {
+      const result = await this.findPage(
+        { parentMessageId, tenantId },
+        options,
+      );
+
+      this.logger.debug(
+        `Found ${result.messages.length} replies out of ${result.total} total`,
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error finding replies: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find messages mentioning a user with pagination and sorting
+   *
+   * @param userId The mentioned user
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated message results
+   */
+  async findByMentionedUser(
+    userId: string,
+    tenantId: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }> {
+    this.logger.debug(
+      `Finding messages mentioning user: ${userId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    try {
+      const result = await this.findPage(
+        { mentionedUserIds: userId, tenantId },
+        options,
       );
 
       this.logger.debug(
-        `Found ${messages.length} messages out of ${total} total`,
+        `Found ${result.messages.length} mentions out of ${result.total} total`,
       );
 
-      return { messages, total };
+      return result;
     } catch (error) {
       this.logger.error(
-        `Error finding messages by conversation: ${error.message}`,
+        `Error finding mentions: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find messages held for review, oldest first
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options and an optional conversation to review
+   * @returns Promise resolving to paginated message results
+   */
+  async findHeldForReview(
+    tenantId: string,
+    options: { page: number; limit: number; conversationId?: string },
+  ): Promise<{ messages: Message[]; total: number }> {
+    this.logger.debug(
+      `Finding messages held for review for tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    try {
+      const filter: Record<string, any> = {
+        tenantId,
+        'moderation.status': ModerationStatus.PENDING,
+      };
+      if (options.conversationId) {
+        filter.conversationId = options.conversationId;
+      }
+
+      const result = await this.findPage(filter, {
+        page: options.page,
+        limit: options.limit,
+        sort: { field: 'timestamp', direction: 'asc' },
+      });
+
+      this.logger.debug(
+        `Found ${result.messages.length} messages held for review out of ${result.total} total`,
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error finding messages held for review: ${error.message}`,
         error.stack,
       );
       throw error;
     }
   }
+
+  /**
+   * Find messages matching a filter in the order of their ID
+   *
+   * Used to walk through the messages of a bulk change batch by batch.
+   *
+   * @param filter Criteria the messages must match
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options `afterId` to continue after a message, `limit` for the batch size
+   * @returns Promise resolving to the matching messages, excluding deleted and expired ones
+   */
+  async findByFilter(
+    filter: MessageFilter,
+    tenantId: string,
+    options: { afterId?: string; limit: number },
+  ): Promise<Message[]> {
+    this.logger.debug(
+      `Finding messages by filter for tenant: ${tenantId} after: ${options.afterId ?? 'start'}, limit: ${options.limit}`,
+    );
+    try {
+      const query = this.buildFilterQuery(filter, tenantId);
+      if (options.afterId) {
+        query.id = { ...query.id, $gt: options.afterId };
+      }
+
+      const messageDocuments = await this.messageModel
+        .find(query)
+        .sort({ id: 1 })
+        .limit(Math.max(1, options.limit))
+        .exec();
+      return messageDocuments.map((doc) =>
+        Message.fromDatabase(doc.toObject()),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error finding messages by filter: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Count the messages matching a filter
+   *
+   * @param filter Criteria the messages must match
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the number of matching messages, excluding deleted and expired ones
+   */
+  async countByFilter(
+    filter: MessageFilter,
+    tenantId: string,
+  ): Promise<number> {
+    this.logger.debug(`Counting messages by filter for tenant: ${tenantId}`);
+    try {
+      return await this.messageModel
+        .countDocuments(this.buildFilterQuery(filter, tenantId))
+        .exec();
+    } catch (error) {
+      this.logger.error(
+        `Error counting messages by filter: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find which of the given message IDs are taken, including by deleted and
+   * expired messages
+   *
+   * @param ids The message IDs to look up
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the IDs that exist
+   */
+  async findExistingIds(ids: string[], tenantId: string): Promise<string[]> {
+    this.logger.debug(
+      `Looking up ${ids.length} message IDs for tenant: ${tenantId}`,
+    );
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const existingIds: string[] = await this.messageModel
+        .distinct('id', { tenantId, id: { $in: ids } })
+        .exec();
+      return existingIds;
+    } catch (error) {
+      this.logger.error(
+        `Error looking up message IDs: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically increment the reply count of a message
+   *
+   * @param id The unique identifier of the parent message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param amount Amount to add, negative when a reply is deleted
+   */
+  async incrementReplyCount(
+    id: string,
+    tenantId: string,
+    amount = 1,
+  ): Promise<void> {
+    this.logger.debug(
+      `Incrementing reply count of message: ${id} by ${amount}`,
+    );
+    try {
+      await this.messageModel.updateOne(
+        { id, tenantId },
+        { $inc: { replyCount: amount, version: 1 } },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to increment reply count: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Add a reaction to a message unless the user already reacted with that emoji
+   *
+   * The existence check is part of the update filter so concurrent requests
+   * cannot add the same reaction twice.
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @returns Promise resolving to true if the reaction was added
+   */
+  async addReaction(
+    id: string,
+    tenantId: string,
+    emoji: string,
+    userId: string,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Adding reaction ${emoji} by user: ${userId} to message: ${id}`,
+    );
+    try {
+      const result = await this.messageModel.updateOne(
+        {
+          id,
+          tenantId,
+          reactions: { $not: { $elemMatch: { emoji, userId } } },
+        },
+        {
+          $push: { reactions: { emoji, userId, reactedAt: new Date() } },
+          $inc: { version: 1 },
+        },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to add reaction: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a user's reaction from a message
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @returns Promise resolving to true if a reaction was removed
+   */
+  async removeReaction(
+    id: string,
+    tenantId: string,
+    emoji: string,
+    userId: string,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Removing reaction ${emoji} by user: ${userId} from message: ${id}`,
+    );
+    try {
+      // Only matches if there is a reaction to remove, so that the version
+      // is not bumped for nothing
+      const result = await this.messageModel.updateOne(
+        { id, tenantId, reactions: { $elemMatch: { emoji, userId } } },
+        { $pull: { reactions: { emoji, userId } }, $inc: { version: 1 } },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove reaction: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Record the vote of a user in a poll unless the user already voted or the poll is closed
+   *
+   * The checks are part of the update filter so concurrent requests cannot
+   * record two votes of the same user or a vote after the poll closed.
+   *
+   * @param id The unique identifier of the poll message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param userId The voting user
+   * @param optionIndexes Indexes of the chosen options
+   * @param votedAt When the user voted, checked against the closing time
+   * @returns Promise resolving to true if the vote was recorded
+   */
+  async castVote(
+    id: string,
+    tenantId: string,
+    userId: string,
+    optionIndexes: number[],
+    votedAt: Date,
+  ): Promise<boolean> {
+    this.logger.debug(`Casting vote by user: ${userId} in poll: ${id}`);
+    try {
+      const result = await this.messageModel.updateOne(
+        {
+          id,
+          tenantId,
+          contentType: MessageContentType.POLL,
+          deletedAt: null,
+          'pollVotes.userId': { $ne: userId },
+          pollClosedAt: null,
+          pollClosesAt: { $not: { $lte: votedAt } },
+        },
+        {
+          $push: { pollVotes: { userId, optionIndexes, votedAt } },
+          $inc: { version: 1 },
+        },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(`Failed to cast vote: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find polls of all tenants that reached their closing time but were not closed yet
+   *
+   * Used by the poll closing job, which runs outside of any tenant request.
+   * Deleted polls are left out, as nobody can see their results.
+   *
+   * @param now Point in time to check the closing time against
+   * @param limit Maximum number of polls to return
+   * @returns Promise resolving to the polls that closed first
+   */
+  async findPollsToClose(now: Date, limit: number): Promise<Message[]> {
+    this.logger.debug(`Finding polls closed by: ${now.toISOString()}`);
+    try {
+      const messageDocuments = await this.messageModel
+        .find({
+          pollClosesAt: { $lte: now },
+          pollClosedAt: null,
+          deletedAt: null,
+        })
+        .sort({ pollClosesAt: 1 })
+        .limit(limit)
+        .exec();
+
+      return messageDocuments.map((doc) =>
+        Message.fromDatabase(doc.toObject()),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error finding polls to close: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a poll as closed unless it already is
+   *
+   * @param id The unique identifier of the poll message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param closedAt When the poll closed
+   * @returns Promise resolving to true if the poll was marked as closed
+   */
+  async closePoll(
+    id: string,
+    tenantId: string,
+    closedAt: Date,
+  ): Promise<boolean> {
+    this.logger.debug(`Closing poll: ${id} for tenant: ${tenantId}`);
+    try {
+      const result = await this.messageModel.updateOne(
+        { id, tenantId, pollClosedAt: null },
+        { $set: { pollClosedAt: closedAt }, $inc: { version: 1 } },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(`Failed to close poll: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Change the delivery status of a message if it is still in the expected status
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param from The status the message is expected to be in
+   * @param to The new status
+   * @param deliveries The recipients of a message being sent
+   * @returns Promise resolving to true if the status was changed
+   */
+  async updateDeliveryStatus(
+    id: string,
+    tenantId: string,
+    from: MessageDeliveryStatus,
+    to: MessageDeliveryStatus,
+    deliveries?: RecipientDelivery[],
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Changing delivery status of message: ${id} from ${from} to ${to}`,
+    );
+    try {
+      // The expected status in the filter makes the change a compare-and-set
+      const result = await this.messageModel.updateOne(
+        { id, tenantId, deliveryStatus: from },
+        {
+          $set: {
+            deliveryStatus: to,
+            ...(deliveries ? { deliveries } : {}),
+          },
+          $inc: { version: 1 },
+        },
+      );
+
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to change delivery status: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Change the delivery status of a recipient if it is still in the expected status
+   *
+   * @param id The unique identifier of the message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param delivery The new status of the recipient
+   * @param from The status the recipient is expected to be in
+   * @returns Promise resolving to the updated message, or null if the recipient is no longer in the expected status
+   */
+  async updateRecipientDelivery(
+    id: string,
+    tenantId: string,
+    delivery: RecipientDelivery,
+    from: MessageDeliveryStatus,
+  ): Promise<Message | null> {
+    this.logger.debug(
+      `Changing delivery of message: ${id} to user: ${delivery.userId} from ${from} to ${delivery.status}`,
+    );
+    try {
+      const messageDocument = await this.messageModel
+        .findOneAndUpdate(
+          {
+            id,
+            tenantId,
+            deliveries: {
+              $elemMatch: { userId: delivery.userId, status: from },
+            },
+          },
+          {
+            $set: {
+              'deliveries.$.status': delivery.status,
+              'deliveries.$.updatedAt': delivery.updatedAt,
+            },
+            $inc: { version: 1 },
+          },
+          { new: true },
+        )
+        .exec();
+
+      return messageDocument
+        ? Message.fromDatabase(messageDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to change recipient delivery: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Count messages of a conversation that a user has not read yet
+   *
+   * @param conversationId The unique identifier of the conversation
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param userId The reading user; their own messages are never unread
+   * @param after Timestamp of the last read message, or undefined if nothing was read
+   * @returns Promise resolving to the number of unread messages
+   */
+  async countUnread(
+    conversationId: string,
+    tenantId: string,
+    userId: string,
+    after?: Date,
+  ): Promise<number> {
+    this.logger.debug(
+      `Counting unread messages for user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const filter: Record<string, any> = {
+        conversationId,
+        tenantId,
+        senderId: { $ne: userId },
+        deletedAt: null,
+        expiresAt: this.notExpired(),
+        'moderation.status': this.notHiddenByModeration(),
+      };
+      if (after) {
+        filter.timestamp = { $gt: after };
+      }
+
+      return await this.messageModel.countDocuments(filter).exec();
+    } catch (error) {
+      this.logger.error(
+        `Error counting unread messages: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Run a paginated, sorted query against the messages collection
+   *
+   * @param filter MongoDB filter, always including the tenant; tombstones and expired messages are excluded, and so are messages hidden by moderation unless the filter selects a moderation status
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to the page of messages and the total count
+   * @private
+   */
+  private async findPage(
+    filter: Record<string, any>,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }> {
+    // Ensure page and limit are positive integers
+    const page = Math.max(1, options.page);
+    const limit = Math.max(1, options.limit);
+
+    // Calculate skip value for pagination
+    const skip = (page - 1) * limit;
+
+    // Build sort options
+    const sortOptions: Record<string, 1 | -1> = {};
+    if (options.sort && options.sort.field) {
+      sortOptions[options.sort.field] =
+        options.sort.direction === 'asc' ? 1 : -1;
+    } else {
+      // Default sort by timestamp descending (newest first)
+      sortOptions.timestamp = -1;
+    }
+
+    // Soft-deleted and expired messages are never listed, messages hidden
+    // by moderation only when asked for
+    const liveFilter = {
+      'moderation.status': this.notHiddenByModeration(),
+      ...filter,
+      deletedAt: null,
+      expiresAt: this.notExpired(),
+    };
+
+    // Execute query with pagination and sorting
+    const messageDocuments = await this.messageModel
+      .find(liveFilter)
+      .sort(sortOptions)
+      .skip(skip)
+      .limit(limit)
+      .exec();
+
+    // Count total messages for pagination metadata
+    const total = await this.messageModel.countDocuments(liveFilter).exec();
+
+    // Map documents to domain entities
+    const messages = messageDocuments.map((doc) =>
+      Message.fromDatabase(doc.toObject()),
+    );
+
+    return { messages, total };
+  }
+
+  /**
+   * Translate a message filter into a MongoDB filter
+   *
+   * @param filter Criteria the messages must match
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns MongoDB filter excluding deleted and expired messages
+   * @throws Error if a metadata key or value would be interpreted by the query
+   * @private
+   */
+  private buildFilterQuery(
+    filter: MessageFilter,
+    tenantId: string,
+  ): Record<string, any> {
+    const query: Record<string, any> = {
+      tenantId,
+      deletedAt: null,
+      expiresAt: this.notExpired(),
+    };
+
+    if (filter.messageIds) {
+      query.id = { $in: filter.messageIds };
+    }
+    if (filter.conversationId) {
+      query.conversationId = filter.conversationId;
+    }
+    if (filter.senderId) {
+      query.senderId = filter.senderId;
+    }
+    if (filter.from || filter.to) {
+      query.timestamp = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lte: filter.to }),
+      };
+    }
+    for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+      // Dropping the criterion instead would widen the filter
+      if (!METADATA_KEY_PATTERN.test(key) || !isMetadataFilterValue(value)) {
+        throw new Error(`Invalid metadata filter on key "${key}"`);
+      }
+      query[`metadata.${key}`] = value;
+    }
+
+    return query;
+  }
+
+  /**
+   * Filter on `moderation.status` matching messages that were never flagged
+   * and those a moderator approved
+   *
+   * @private
+   */
+  private notHiddenByModeration(): Record<string, any> {
+    return { $nin: HIDDEN_MODERATION_STATUSES };
+  }
+
+  /**
+   * Fields an edit may have cleared, which `$set` would leave in place
+   *
+   * An edit leaving nothing to redact drops the redaction record, and one
+   * removing the closing time of a poll leaves the poll open.
+   *
+   * @private
+   */
+  private unsetCleared(message: Message): {
+    $unset?: Record<string, 1>;
+  } {
+    const cleared: Record<string, 1> = {
+      ...(message.redaction ? {} : { redaction: 1 }),
+      ...(message.pollClosesAt ? {} : { pollClosesAt: 1 }),
+    };
+    return Object.keys(cleared).length > 0 ? { $unset: cleared } : {};
+  }
+
+  /**
+   * Filter on `expiresAt` matching messages without expiry and those that
+   * have not expired yet
+   *
+   * Expired messages stay in the collection until the expiry job or the TTL
+   * index removes them, so reads have to exclude them explicitly.
+   *
+   * @private
+   */
+  private notExpired(): Record<string, any> {
+    return { $not: { $lte: new Date() } };
+  }
 }
@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ReadState } from '../entities/read-state.entity';
+import { IReadStateRepository } from './read-state.repository.interface';
+import {
+  ReadStateModel,
+  ReadStateDocument,
+} from '../schemas/read-state.schema';
+
+/**
+ * MongoDB implementation of the Read State Repository
+ */
+@Injectable()
+export class ReadStateRepository implements IReadStateRepository {
+  private readonly logger = new Logger(ReadStateRepository.name);
+
+  constructor(
+    @InjectModel(ReadStateModel.name)
+    private readStateModel: Model<ReadStateDocument>,
+  ) {
+    this.logger.log('ReadStateRepository initialized');
+  }
+
+  /**
+   * Find the read state of a user in a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param userId The unique identifier of the user
+   * @returns Promise resolving to the read state or null if the user never read the conversation
+   */
+  async find(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<ReadState | null> {
+    this.logger.debug(
+      `Finding read state for user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+    try {
+      const readStateDocument = await this.readStateModel
+        .findOne({ tenantId, conversationId, userId })
+        .exec();
+
+      return readStateDocument
+        ? ReadState.fromDatabase(readStateDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Error finding read state: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Insert or replace the read state of a user in a conversation
+   *
+   * @param readState The read state entity to store
+   * @returns Promise resolving to the stored read state
+   */
+  async upsert(readState: ReadState): Promise<ReadState> {
+    this.logger.debug(
+      `Storing read state for user: ${readState.userId} in conversation: ${readState.conversationId}`,
+    );
+    try {
+      await this.readStateModel.updateOne(
+        {
+          tenantId: readState.tenantId,
+          conversationId: readState.conversationId,
+          userId: readState.userId,
+        },
+        readState.toDatabase(),
+        { upsert: true },
+      );
+      return readState;
+    } catch (error) {
+      this.logger.error(
+        `Failed to store read state: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+} from '../entities/scheduled-message.entity';
+import { IScheduledMessageRepository } from './scheduled-message.repository.interface';
+import {
+  ScheduledMessageModel,
+  ScheduledMessageDocument,
+} from '../schemas/scheduled-message.schema';
+
+/**
+ * MongoDB implementation of the Scheduled Message Repository
+ */
+@Injectable()
+export class ScheduledMessageRepository implements IScheduledMessageRepository {
+  private readonly logger = new Logger(ScheduledMessageRepository.name);
+
+  constructor(
+    @InjectModel(ScheduledMessageModel.name)
+    private scheduledMessageModel: Model<ScheduledMessageDocument>,
+  ) {
+    this.logger.log('ScheduledMessageRepository initialized');
+  }
+
+  /**
+   * Save a new scheduled message
+   *
+   * @param scheduledMessage The scheduled message entity to save
+   * @returns Promise resolving to the saved scheduled message
+   */
+  async save(scheduledMessage: ScheduledMessage): Promise<ScheduledMessage> {
+    this.logger.debug(
+      `Saving scheduled message: ${scheduledMessage.id} due at ${scheduledMessage.sendAt.toISOString()}`,
+    );
+    try {
+      const scheduledMessageDocument = new this.scheduledMessageModel(
+        scheduledMessage.toDatabase(),
+      );
+      const savedDocument = await scheduledMessageDocument.save();
+      return ScheduledMessage.fromDatabase(savedDocument.toObject());
+    } catch (error) {
+      this.logger.error(
+        `Failed to save scheduled message: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a scheduled message by its ID and tenant
+   *
+   * @param id The unique identifier of the scheduled message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the scheduled message or null if not found
+   */
+  async findById(
+    id: string,
+    tenantId: string,
+  ): Promise<ScheduledMessage | null> {
+    this.logger.debug(
+      `Finding scheduled message: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const scheduledMessageDocument = await this.scheduledMessageModel
+        .findOne({ id, tenantId })
+        .exec();
+
+      return scheduledMessageDocument
+        ? ScheduledMessage.fromDatabase(scheduledMessageDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Error finding scheduled message: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the pending scheduled messages of a sender, soonest first
+   *
+   * @param senderId The sender of the messages
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options
+   * @returns Promise resolving to paginated scheduled messages
+   */
+  async findPendingBySender(
+    senderId: string,
+    tenantId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ scheduledMessages: ScheduledMessage[]; total: number }> {
+    // Ensure page and limit are positive integers
+    const page = Math.max(1, options.page);
+    const limit = Math.max(1, options.limit);
+    this.logger.debug(
+      `Finding pending scheduled messages of sender: ${senderId} for tenant: ${tenantId}, page: ${page}, limit: ${limit}`,
+    );
+    try {
+      const filter = {
+        senderId,
+        tenantId,
+        status: ScheduledMessageStatus.PENDING,
+      };
+      const [scheduledMessageDocuments, total] = await Promise.all([
+        this.scheduledMessageModel
+          .find(filter)
+          .sort({ sendAt: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .exec(),
+        this.scheduledMessageModel.countDocuments(filter).exec(),
+      ]);
+
+      return {
+        scheduledMessages: scheduledMessageDocuments.map((doc) =>
+          ScheduledMessage.fromDatabase(doc.toObject()),
+        ),
+        total,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Error finding scheduled messages: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a scheduled message that is still pending
+   *
+   * @param id The unique identifier of the scheduled message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param cancelledAt When the message was cancelled
+   * @returns Promise resolving to true if the message was pending and is now cancelled
+   */
+  async cancel(
+    id: string,
+    tenantId: string,
+    cancelledAt: Date,
+  ): Promise<boolean> {
+    this.logger.debug(
+      `Cancelling scheduled message: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      // Only pending messages can be cancelled, a claimed one is being sent
+      const result = await this.scheduledMessageModel.updateOne(
+        { id, tenantId, status: ScheduledMessageStatus.PENDING },
+        { $set: { status: ScheduledMessageStatus.CANCELLED, cancelledAt } },
+      );
+      return result.modifiedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to cancel scheduled message: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Claim the next due message of any tenant for sending
+   *
+   * @param now Current time
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to the claimed message or null if none is due
+   */
+  async claimDue(
+    now: Date,
+    lockedUntil: Date,
+  ): Promise<ScheduledMessage | null> {
+    try {
+      const scheduledMessageDocument = await this.scheduledMessageModel
+        .findOneAndUpdate(
+          {
+            $or: [
+              { status: ScheduledMessageStatus.PENDING, sendAt: { $lte: now } },
+              // Claimed by a dispatcher that did not finish in time
+              {
+                status: ScheduledMessageStatus.PROCESSING,
+                lockedUntil: { $lte: now },
+              },
+            ],
+          },
+          {
+            $set: { status: ScheduledMessageStatus.PROCESSING, lockedUntil },
+            $inc: { attempts: 1 },
+          },
+          { sort: { sendAt: 1 }, new: true },
+        )
+        .exec();
+
+      return scheduledMessageDocument
+        ? ScheduledMessage.fromDatabase(scheduledMessageDocument.toObject())
+        : null;
+    } catch (error) {
+      this.logger.error(
+        `Failed to claim scheduled message: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a claimed message as sent, if the claim is still held
+   *
+   * @param scheduledMessage The message as claimed
+   * @param sentAt When the message was sent
+   * @returns Promise resolving to false if the claim was lost
+   */
+  async markSent(
+    scheduledMessage: ScheduledMessage,
+    sentAt: Date,
+  ): Promise<boolean> {
+    try {
+      const result = await this.scheduledMessageModel.updateOne(
+        this.claimFilter(scheduledMessage),
+        {
+          $set: { status: ScheduledMessageStatus.SENT, sentAt },
+          $unset: { lockedUntil: '', lastError: '' },
+        },
+      );
+      return result.matchedCount > 0;
+    } catch (error) {
+      this.logger.error(
+        `Failed to mark scheduled message as sent: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Release a claimed message so that it is retried, if the claim is still
+   * held
+   *
+   * @param scheduledMessage The message as claimed
+   * @param error Reason of the failed attempt
+   */
+  async release(
+    scheduledMessage: ScheduledMessage,
+    error: string,
+  ): Promise<void> {
+    try {
+      await this.scheduledMessageModel.updateOne(
+        this.claimFilter(scheduledMessage),
+        {
+          $set: { status: ScheduledMessageStatus.PENDING, lastError: error },
+          $unset: { lockedUntil: '' },
+        },
+      );
+    } catch (releaseError) {
+      this.logger.error(
+        `Failed to release scheduled message: ${releaseError.message}`,
+        releaseError.stack,
+      );
+      throw releaseError;
+    }
+  }
+
+  /**
+   * Mark a claimed message as failed for good, if the claim is still held
+   *
+   * @param scheduledMessage The message as claimed
+   * @param error Reason of the failure
+   */
+  async markFailed(
+    scheduledMessage: ScheduledMessage,
+    error: string,
+  ): Promise<void> {
+    try {
+      await this.scheduledMessageModel.updateOne(
+        this.claimFilter(scheduledMessage),
+        {
+          $set: { status: ScheduledMessageStatus.FAILED, lastError: error },
+          $unset: { lockedUntil: '' },
+        },
+      );
+    } catch (markError) {
+      this.logger.error(
+        `Failed to mark scheduled message as failed: ${markError.message}`,
+        markError.stack,
+      );
+      throw markError;
+    }
+  }
+
+  /**
+   * Filter matching a message while the dispatcher still holds its claim;
+   * every claim counts an attempt, so a later claim has other attempts
+   *
+   * @private
+   */
+  private claimFilter(scheduledMessage: ScheduledMessage): Record<string, any> {
+    return {
+      id: scheduledMessage.id,
+      tenantId: scheduledMessage.tenantId,
+      status: ScheduledMessageStatus.PROCESSING,
+      attempts: scheduledMessage.attempts,
+    };
+  }
+}
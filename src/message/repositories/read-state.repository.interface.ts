@@ -0,0 +1,30 @@
+import { ReadState } from '../entities/read-state.entity';
+
+/**
+ * Read State Repository Interface
+ *
+ * Defines the contract for storing per-participant read cursors.
+ */
+export interface IReadStateRepository {
+  /**
+   * Find the read state of a user in a conversation
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param conversationId The unique identifier of the conversation
+   * @param userId The unique identifier of the user
+   * @returns Promise resolving to the read state or null if the user never read the conversation
+   */
+  find(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<ReadState | null>;
+
+  /**
+   * Insert or replace the read state of a user in a conversation
+   *
+   * @param readState The read state entity to store
+   * @returns Promise resolving to the stored read state
+   */
+  upsert(readState: ReadState): Promise<ReadState>;
+}
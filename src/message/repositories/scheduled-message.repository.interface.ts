@@ -0,0 +1,89 @@
+import { ScheduledMessage } from '../entities/scheduled-message.entity';
+
+/**
+ * Scheduled Message Repository Interface
+ *
+ * Defines the contract for storing messages that wait for their send time
+ * and for claiming them safely from several application instances.
+ */
+export interface IScheduledMessageRepository {
+  /**
+   * Save a new scheduled message
+   *
+   * @param scheduledMessage The scheduled message entity to save
+   * @returns Promise resolving to the saved scheduled message
+   */
+  save(scheduledMessage: ScheduledMessage): Promise<ScheduledMessage>;
+
+  /**
+   * Find a scheduled message by its ID and tenant
+   *
+   * @param id The unique identifier of the scheduled message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the scheduled message or null if not found
+   */
+  findById(id: string, tenantId: string): Promise<ScheduledMessage | null>;
+
+  /**
+   * Find the pending scheduled messages of a sender, soonest first
+   *
+   * @param senderId The sender of the messages
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options
+   * @returns Promise resolving to paginated scheduled messages
+   */
+  findPendingBySender(
+    senderId: string,
+    tenantId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ scheduledMessages: ScheduledMessage[]; total: number }>;
+
+  /**
+   * Cancel a scheduled message that is still pending
+   *
+   * @param id The unique identifier of the scheduled message
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param cancelledAt When the message was cancelled
+   * @returns Promise resolving to true if the message was pending and is now cancelled
+   */
+  cancel(id: string, tenantId: string, cancelledAt: Date): Promise<boolean>;
+
+  /**
+   * Claim the next due message of any tenant for sending
+   *
+   * Due pending messages and messages whose claim has expired because
+   * their dispatcher stopped are both eligible. Claiming is atomic, so a
+   * message is only ever held by one dispatcher at a time.
+   *
+   * @param now Current time
+   * @param lockedUntil Until when the claim holds
+   * @returns Promise resolving to the claimed message or null if none is due
+   */
+  claimDue(now: Date, lockedUntil: Date): Promise<ScheduledMessage | null>;
+
+  /**
+   * Mark a claimed message as sent, if the claim is still held
+   *
+   * @param scheduledMessage The message as claimed
+   * @param sentAt When the message was sent
+   * @returns Promise resolving to false if the claim was lost
+   */
+  markSent(scheduledMessage: ScheduledMessage, sentAt: Date): Promise<boolean>;
+
+  /**
+   * Release a claimed message so that it is retried, if the claim is still
+   * held
+   *
+   * @param scheduledMessage The message as claimed
+   * @param error Reason of the failed attempt
+   */
+  release(scheduledMessage: ScheduledMessage, error: string): Promise<void>;
+
+  /**
+   * Mark a claimed message as failed for good, if the claim is still held
+   *
+   * @param scheduledMessage The message as claimed
+   * @param error Reason of the failure
+   */
+  markFailed(scheduledMessage: ScheduledMessage, error: string): Promise<void>;
+}
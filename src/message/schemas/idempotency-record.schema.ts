@@ -0,0 +1,84 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { IdempotencyRecordStatus } from '../entities/idempotency-record.entity';
+
+/**
+ * Type definition for IdempotencyRecordDocument combining IdempotencyRecordModel with Mongoose Document
+ */
+export type IdempotencyRecordDocument = IdempotencyRecordModel & Document;
+
+/**
+ * Mongoose schema for requests made with an idempotency key
+ *
+ * One document per (tenant, key)
+ */
+@Schema({
+  collection: 'idempotency_records',
+})
+export class IdempotencyRecordModel {
+  /**
+   * Identifier of the tenant the key belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Idempotency key sent by the client
+   */
+  @Prop({ required: true })
+  key: string;
+
+  /**
+   * Identifier of the attempt currently holding the key
+   */
+  @Prop({ required: true })
+  claimId: string;
+
+  /**
+   * Hash of the request made with the key
+   */
+  @Prop({ required: true })
+  fingerprint: string;
+
+  /**
+   * Processing status of the request
+   */
+  @Prop({
+    required: true,
+    enum: Object.values(IdempotencyRecordStatus),
+  })
+  status: IdempotencyRecordStatus;
+
+  /**
+   * Response body of the completed request
+   */
+  @Prop({ type: Object })
+  response?: Record<string, any>;
+
+  /**
+   * Until when the attempt processing the request holds the key
+   */
+  @Prop()
+  lockedUntil?: Date;
+
+  /**
+   * Timestamp when the key was first used
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+
+  /**
+   * Timestamp after which the key is forgotten
+   */
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+// Create the schema from the class
+export const IdempotencyRecordSchema = SchemaFactory.createForClass(
+  IdempotencyRecordModel,
+);
+
+IdempotencyRecordSchema.index({ tenantId: 1, key: 1 }, { unique: true });
+// Lets MongoDB remove records once their window has passed
+IdempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
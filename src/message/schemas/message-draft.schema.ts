@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PiiType } from '../../common/redaction/pii-detectors';
+
+/**
+ * Type definition for MessageDraftDocument combining MessageDraftModel with Mongoose Document
+ */
+export type MessageDraftDocument = MessageDraftModel & Document;
+
+/**
+ * Mongoose schema for unsent message drafts
+ *
+ * One document per (tenant, conversation, user)
+ */
+@Schema({
+  collection: 'message_drafts',
+})
+export class MessageDraftModel {
+  /**
+   * Identifier of the tenant the draft belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Identifier of the conversation the draft is written in
+   */
+  @Prop({ required: true })
+  conversationId: string;
+
+  /**
+   * Identifier of the user writing the draft
+   */
+  @Prop({ required: true })
+  userId: string;
+
+  /**
+   * Content of the draft
+   */
+  @Prop({ required: true })
+  content: string;
+
+  /**
+   * Additional metadata of the draft
+   */
+  @Prop({ type: Object })
+  metadata?: Record<string, any>;
+
+  /**
+   * Kinds of personal data redacted from the content, with the original
+   * content encrypted if the tenant keeps it
+   */
+  @Prop({
+    type: {
+      detected: [String],
+      original: { iv: String, tag: String, data: String, _id: false },
+      _id: false,
+    },
+  })
+  redaction?: {
+    detected: PiiType[];
+    original?: { iv: string; tag: string; data: string };
+  };
+
+  /**
+   * Timestamp when the draft was last saved
+   */
+  @Prop({ required: true })
+  updatedAt: Date;
+}
+
+// Create the schema from the class
+export const MessageDraftSchema =
+  SchemaFactory.createForClass(MessageDraftModel);
+
+// One draft per user and conversation
+MessageDraftSchema.index(
+  { tenantId: 1, conversationId: 1, userId: 1 },
+  { unique: true },
+);
+// Used to list the drafts of a user, most recently saved first
+MessageDraftSchema.index({ tenantId: 1, userId: 1, updatedAt: -1 });
@@ -0,0 +1,141 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  MessageJobStatus,
+  MessageJobType,
+} from '../entities/message-job.entity';
+
+/**
+ * Type definition for MessageJobDocument combining MessageJobModel with Mongoose Document
+ */
+export type MessageJobDocument = MessageJobModel & Document;
+
+/**
+ * Mongoose schema for changes applied to many messages in the background
+ */
+@Schema({
+  collection: 'message_jobs',
+})
+export class MessageJobModel {
+  /**
+   * Unique identifier for the job
+   */
+  @Prop({ required: true })
+  id: string;
+
+  /**
+   * Identifier of the tenant the job belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Kind of change the job applies
+   */
+  @Prop({ required: true, enum: Object.values(MessageJobType) })
+  type: MessageJobType;
+
+  /**
+   * Identifier of the user who requested the job
+   */
+  @Prop({ required: true })
+  requestedBy: string;
+
+  /**
+   * Criteria selecting the messages the job applies to
+   */
+  @Prop({ type: Object, required: true })
+  filter: Record<string, any>;
+
+  /**
+   * Metadata set on the messages by a bulk update
+   */
+  @Prop({ type: Object })
+  metadata?: Record<string, any>;
+
+  /**
+   * Run status of the job
+   */
+  @Prop({ required: true, enum: Object.values(MessageJobStatus) })
+  status: MessageJobStatus;
+
+  /**
+   * Number of messages the job applies to, counted when it starts
+   */
+  @Prop()
+  total?: number;
+
+  /**
+   * Number of messages processed so far
+   */
+  @Prop({ default: 0 })
+  processed: number;
+
+  /**
+   * Number of messages changed so far
+   */
+  @Prop({ default: 0 })
+  succeeded: number;
+
+  /**
+   * Number of messages that could not be changed so far
+   */
+  @Prop({ default: 0 })
+  failed: number;
+
+  /**
+   * The first messages that could not be changed, with the reason
+   */
+  @Prop({ type: [Object], default: [] })
+  failures: { messageId: string; error: string }[];
+
+  /**
+   * ID of the last processed message, where a resumed job continues
+   */
+  @Prop()
+  cursor?: string;
+
+  /**
+   * Number of times the job was claimed by a runner
+   */
+  @Prop({ default: 0 })
+  attempts: number;
+
+  /**
+   * Until when the runner that claimed the job holds it
+   */
+  @Prop()
+  lockedUntil?: Date;
+
+  /**
+   * Reason the last run of the job stopped
+   */
+  @Prop()
+  lastError?: string;
+
+  /**
+   * Timestamp when the job was requested
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+
+  /**
+   * Timestamp when a runner first claimed the job
+   */
+  @Prop()
+  startedAt?: Date;
+
+  /**
+   * Timestamp when the job completed or failed
+   */
+  @Prop()
+  completedAt?: Date;
+}
+
+// Create the schema from the class
+export const MessageJobSchema = SchemaFactory.createForClass(MessageJobModel);
+
+MessageJobSchema.index({ tenantId: 1, id: 1 }, { unique: true });
+// Used by the runner to find pending and abandoned jobs of all tenants
+MessageJobSchema.index({ status: 1, createdAt: 1 });
+MessageJobSchema.index({ status: 1, lockedUntil: 1 });
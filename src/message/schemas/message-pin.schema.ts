@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Type definition for MessagePinDocument combining MessagePinModel with Mongoose Document
+ */
+export type MessagePinDocument = MessagePinModel & Document;
+
+/**
+ * Mongoose schema for messages pinned to a conversation
+ *
+ * One document per (tenant, conversation, message)
+ */
+@Schema({
+  collection: 'message_pins',
+})
+export class MessagePinModel {
+  /**
+   * Identifier of the tenant the pin belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Identifier of the conversation the message is pinned to
+   */
+  @Prop({ required: true })
+  conversationId: string;
+
+  /**
+   * Identifier of the pinned message
+   */
+  @Prop({ required: true })
+  messageId: string;
+
+  /**
+   * Identifier of the user who pinned the message
+   */
+  @Prop({ required: true })
+  pinnedBy: string;
+
+  /**
+   * Timestamp when the message was pinned
+   */
+  @Prop({ required: true })
+  pinnedAt: Date;
+}
+
+// Create the schema from the class
+export const MessagePinSchema = SchemaFactory.createForClass(MessagePinModel);
+
+// A message can only be pinned once
+MessagePinSchema.index(
+  { tenantId: 1, conversationId: 1, messageId: 1 },
+  { unique: true },
+);
+MessagePinSchema.index({ tenantId: 1, conversationId: 1, pinnedAt: -1 });
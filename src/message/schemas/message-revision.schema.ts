@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Type definition for MessageRevisionDocument combining MessageRevisionModel with Mongoose Document
+ */
+export type MessageRevisionDocument = MessageRevisionModel & Document;
+
+/**
+ * Mongoose schema for message edit history
+ *
+ * One document per edit, holding the message as it was before the edit
+ */
+@Schema({
+  collection: 'message_revisions',
+})
+export class MessageRevisionModel {
+  /**
+   * Identifier of the edited message
+   */
+  @Prop({ required: true })
+  messageId: string;
+
+  /**
+   * Identifier of the tenant the message belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Revision number of the snapshot
+   */
+  @Prop({ required: true })
+  revision: number;
+
+  /**
+   * Content of the message before the edit
+   */
+  @Prop({ required: true })
+  content: string;
+
+  /**
+   * Metadata of the message before the edit
+   */
+  @Prop({ type: Object })
+  metadata?: Record<string, any>;
+
+  /**
+   * Structured body of the message before the edit
+   */
+  @Prop({ type: Object })
+  body?: Record<string, any>;
+
+  /**
+   * Identifier of the user who made the edit
+   */
+  @Prop({ required: true })
+  editorId: string;
+
+  /**
+   * Timestamp of the edit
+   */
+  @Prop({ required: true })
+  editedAt: Date;
+
+  /**
+   * Fields changed by the edit with their before and after values
+   */
+  @Prop({ type: Object, required: true })
+  diff: Record<string, any>;
+}
+
+// Create the schema from the class
+export const MessageRevisionSchema =
+  SchemaFactory.createForClass(MessageRevisionModel);
+
+// A revision number is recorded once per message
+MessageRevisionSchema.index(
+  { tenantId: 1, messageId: 1, revision: -1 },
+  { unique: true },
+);
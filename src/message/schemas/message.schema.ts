@@ -1,5 +1,12 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { MessageContentType } from '../entities/message-content';
+import { MessageDeliveryStatus } from '../entities/message-delivery';
+import {
+  ModerationAction,
+  ModerationStatus,
+} from '../entities/message-moderation';
+import { PiiType } from '../../common/redaction/pii-detectors';
 
 /**
  * Type definition for MessageDocument combining MessageModel with Mongoose Document
@@ -47,6 +54,21 @@ export class MessageModel {
   @Prop({ required: true })
   content: string;
 
+  /**
+   * Kind of content, which determines the shape of the body
+   */
+  @Prop({
+    enum: Object.values(MessageContentType),
+    default: MessageContentType.TEXT,
+  })
+  contentType: MessageContentType;
+
+  /**
+   * Structured body of card, system, poll and file messages
+   */
+  @Prop({ type: Object })
+  body?: Record<string, any>;
+
   /**
    * Timestamp when the message was sent
    */
@@ -66,12 +88,219 @@ export class MessageModel {
    */
   @Prop({ type: Object })
   metadata?: Record<string, any>;
+
+  /**
+   * Identifier of the message this message replies to
+   */
+  @Prop({ index: true })
+  parentMessageId?: string;
+
+  /**
+   * Identifier of the top-level message of the thread this message belongs to
+   */
+  @Prop({ index: true })
+  threadRootId?: string;
+
+  /**
+   * Identifiers of the attachments referenced by this message
+   */
+  @Prop({ type: [String], default: [] })
+  attachmentIds: string[];
+
+  /**
+   * Identifiers of the users mentioned with `@user` in the content
+   */
+  @Prop({ type: [String], default: [] })
+  mentionedUserIds: string[];
+
+  /**
+   * Number of direct replies to this message
+   */
+  @Prop({ default: 0 })
+  replyCount: number;
+
+  /**
+   * Reactions to the message, one entry per (user, emoji)
+   */
+  @Prop({
+    type: [{ emoji: String, userId: String, reactedAt: Date, _id: false }],
+    default: [],
+  })
+  reactions: { emoji: string; userId: string; reactedAt: Date }[];
+
+  /**
+   * Current revision of the message, starting at 1 and bumped on every edit
+   */
+  @Prop({ default: 1 })
+  revision: number;
+
+  /**
+   * Version of the message, bumped on every change to it and returned as
+   * its ETag. Messages stored before versioning have none.
+   */
+  @Prop()
+  version?: number;
+
+  /**
+   * Timestamp of the last edit
+   */
+  @Prop()
+  editedAt?: Date;
+
+  /**
+   * Timestamp of the soft deletion, unset while the message is live
+   */
+  @Prop()
+  deletedAt?: Date;
+
+  /**
+   * Identifier of the user who deleted the message
+   */
+  @Prop()
+  deletedBy?: string;
+
+  /**
+   * Timestamp after which an ephemeral message is no longer visible
+   */
+  @Prop()
+  expiresAt?: Date;
+
+  /**
+   * Snapshot of the message this message forwards
+   */
+  @Prop({
+    type: {
+      messageId: String,
+      conversationId: String,
+      senderId: String,
+      content: String,
+      timestamp: Date,
+      _id: false,
+    },
+  })
+  forwardedFrom?: {
+    messageId: string;
+    conversationId: string;
+    senderId: string;
+    content: string;
+    timestamp: Date;
+  };
+
+  /**
+   * ID of the template the content was rendered from
+   */
+  @Prop()
+  templateId?: string;
+
+  /**
+   * Delivery status of the message, the least advanced of its recipients
+   */
+  @Prop({
+    enum: Object.values(MessageDeliveryStatus),
+    default: MessageDeliveryStatus.PENDING,
+  })
+  deliveryStatus: MessageDeliveryStatus;
+
+  /**
+   * Delivery status per recipient
+   */
+  @Prop({
+    type: [{ userId: String, status: String, updatedAt: Date, _id: false }],
+    default: [],
+  })
+  deliveries: {
+    userId: string;
+    status: MessageDeliveryStatus;
+    updatedAt: Date;
+  }[];
+
+  /**
+   * Moderation state of a message that was flagged for review
+   */
+  @Prop({
+    type: {
+      status: { type: String, enum: Object.values(ModerationStatus) },
+      reasons: [{ rule: String, action: String, _id: false }],
+      flaggedAt: Date,
+      reviewedBy: String,
+      reviewedAt: Date,
+      _id: false,
+    },
+  })
+  moderation?: {
+    status: ModerationStatus;
+    reasons: { rule: string; action: ModerationAction }[];
+    flaggedAt: Date;
+    reviewedBy?: string;
+    reviewedAt?: Date;
+  };
+
+  /**
+   * Kinds of personal data redacted from the content, with the original
+   * content encrypted if the tenant keeps it
+   */
+  @Prop({
+    type: {
+      detected: [String],
+      original: { iv: String, tag: String, data: String, _id: false },
+      _id: false,
+    },
+  })
+  redaction?: {
+    detected: PiiType[];
+    original?: { iv: string; tag: string; data: string };
+  };
+
+  /**
+   * Votes of a poll message, one entry per user
+   */
+  @Prop({
+    type: [
+      { userId: String, optionIndexes: [Number], votedAt: Date, _id: false },
+    ],
+    default: undefined,
+  })
+  pollVotes?: { userId: string; optionIndexes: number[]; votedAt: Date }[];
+
+  /**
+   * Time after which a poll message accepts no more votes
+   */
+  @Prop()
+  pollClosesAt?: Date;
+
+  /**
+   * When a poll message closed, set once its closing has been announced
+   */
+  @Prop()
+  pollClosedAt?: Date;
 }
 
 // Create the schema from the class
 export const MessageSchema = SchemaFactory.createForClass(MessageModel);
 
 // Create compound indexes for efficient queries
+// Messages created with an ID assigned in advance, by scheduled messages
+// and imports, are only created once even if two instances race
+MessageSchema.index({ tenantId: 1, id: 1 }, { unique: true });
 MessageSchema.index({ conversationId: 1, timestamp: -1 });
 MessageSchema.index({ content: 'text' });
 MessageSchema.index({ tenantId: 1, conversationId: 1 });
+MessageSchema.index({ tenantId: 1, parentMessageId: 1, timestamp: -1 });
+MessageSchema.index({ tenantId: 1, mentionedUserIds: 1, timestamp: -1 });
+// Serves the export in timestamp order without sorting in memory
+MessageSchema.index({ tenantId: 1, conversationId: 1, timestamp: 1, id: 1 });
+// Serves the moderation queue, oldest first
+MessageSchema.index({ tenantId: 1, 'moderation.status': 1, timestamp: 1 });
+// Sparse so that only templated messages are indexed, serves usage reports
+MessageSchema.index(
+  { tenantId: 1, templateId: 1, timestamp: -1 },
+  { sparse: true },
+);
+// Sparse so that only polls with a closing time are indexed, used by the
+// poll closing job
+MessageSchema.index({ pollClosesAt: 1 }, { sparse: true });
+// Sparse so that only tombstones are indexed, used by the purge job
+MessageSchema.index({ deletedAt: 1 }, { sparse: true });
+// Used by the expiry job, which also cleans up the cache and the search index.
+// The TTL only removes what the job has missed, an hour after expiry.
+MessageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 3600 });
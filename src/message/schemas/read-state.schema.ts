@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+/**
+ * Type definition for ReadStateDocument combining ReadStateModel with Mongoose Document
+ */
+export type ReadStateDocument = ReadStateModel & Document;
+
+/**
+ * Mongoose schema for per-participant read cursors
+ *
+ * One document per (tenant, conversation, user)
+ */
+@Schema({
+  collection: 'read_states',
+})
+export class ReadStateModel {
+  /**
+   * Identifier of the tenant the read state belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Identifier of the conversation being read
+   */
+  @Prop({ required: true })
+  conversationId: string;
+
+  /**
+   * Identifier of the reading user
+   */
+  @Prop({ required: true })
+  userId: string;
+
+  /**
+   * Identifier of the last message the user has read
+   */
+  @Prop()
+  lastReadMessageId?: string;
+
+  /**
+   * Timestamp of the last message the user has read
+   */
+  @Prop()
+  lastReadAt?: Date;
+
+  /**
+   * Timestamp when the cursor last moved
+   */
+  @Prop({ required: true })
+  updatedAt: Date;
+}
+
+// Create the schema from the class
+export const ReadStateSchema = SchemaFactory.createForClass(ReadStateModel);
+
+// One cursor per user and conversation
+ReadStateSchema.index(
+  { tenantId: 1, conversationId: 1, userId: 1 },
+  { unique: true },
+);
@@ -0,0 +1,185 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ScheduledMessageStatus } from '../entities/scheduled-message.entity';
+import { MessageContentType } from '../entities/message-content';
+import { PiiType } from '../../common/redaction/pii-detectors';
+
+/**
+ * Type definition for ScheduledMessageDocument combining ScheduledMessageModel with Mongoose Document
+ */
+export type ScheduledMessageDocument = ScheduledMessageModel & Document;
+
+/**
+ * Mongoose schema for messages waiting for their send time
+ */
+@Schema({
+  collection: 'scheduled_messages',
+})
+export class ScheduledMessageModel {
+  /**
+   * Unique identifier for the scheduled message
+   */
+  @Prop({ required: true })
+  id: string;
+
+  /**
+   * Identifier of the tenant the scheduled message belongs to
+   */
+  @Prop({ required: true })
+  tenantId: string;
+
+  /**
+   * Identifier of the conversation the message will be posted to
+   */
+  @Prop({ required: true })
+  conversationId: string;
+
+  /**
+   * Identifier of the sender
+   */
+  @Prop({ required: true })
+  senderId: string;
+
+  /**
+   * Content of the message
+   */
+  @Prop({ required: true })
+  content: string;
+
+  /**
+   * Kind of content of the message
+   */
+  @Prop({ enum: Object.values(MessageContentType) })
+  contentType?: MessageContentType;
+
+  /**
+   * Structured body of the message
+   */
+  @Prop({ type: Object })
+  body?: Record<string, any>;
+
+  /**
+   * Additional metadata of the message
+   */
+  @Prop({ type: Object })
+  metadata?: Record<string, any>;
+
+  /**
+   * Identifier of the message the message will reply to
+   */
+  @Prop()
+  parentMessageId?: string;
+
+  /**
+   * Identifiers of the attachments of the message
+   */
+  @Prop({ type: [String], default: [] })
+  attachmentIds: string[];
+
+  /**
+   * When the message will expire once sent
+   */
+  @Prop()
+  expiresAt?: Date;
+
+  /**
+   * Seconds after sending at which the message will expire
+   */
+  @Prop()
+  ttlSeconds?: number;
+
+  /**
+   * ID of the template the content was rendered from
+   */
+  @Prop()
+  templateId?: string;
+
+  /**
+   * Kinds of personal data redacted from the content, with the original
+   * content encrypted if the tenant keeps it
+   */
+  @Prop({
+    type: {
+      detected: [String],
+      original: { iv: String, tag: String, data: String, _id: false },
+      _id: false,
+    },
+  })
+  redaction?: {
+    detected: PiiType[];
+    original?: { iv: string; tag: string; data: string };
+  };
+
+  /**
+   * When the message is to be sent
+   */
+  @Prop({ required: true })
+  sendAt: Date;
+
+  /**
+   * Identifier assigned to the message once sent
+   */
+  @Prop({ required: true })
+  messageId: string;
+
+  /**
+   * Dispatch status of the scheduled message
+   */
+  @Prop({
+    required: true,
+    enum: Object.values(ScheduledMessageStatus),
+  })
+  status: ScheduledMessageStatus;
+
+  /**
+   * Number of send attempts so far
+   */
+  @Prop({ default: 0 })
+  attempts: number;
+
+  /**
+   * Until when the dispatcher that claimed the message holds it
+   */
+  @Prop()
+  lockedUntil?: Date;
+
+  /**
+   * Reason of the last failed send attempt
+   */
+  @Prop()
+  lastError?: string;
+
+  /**
+   * Timestamp when the message was scheduled
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+
+  /**
+   * Timestamp when the message was sent
+   */
+  @Prop()
+  sentAt?: Date;
+
+  /**
+   * Timestamp when the message was cancelled
+   */
+  @Prop()
+  cancelledAt?: Date;
+}
+
+// Create the schema from the class
+export const ScheduledMessageSchema = SchemaFactory.createForClass(
+  ScheduledMessageModel,
+);
+
+ScheduledMessageSchema.index({ tenantId: 1, id: 1 }, { unique: true });
+// Used by the dispatcher to find due and abandoned messages of all tenants
+ScheduledMessageSchema.index({ status: 1, sendAt: 1 });
+ScheduledMessageSchema.index({ status: 1, lockedUntil: 1 });
+ScheduledMessageSchema.index({
+  tenantId: 1,
+  senderId: 1,
+  status: 1,
+  sendAt: 1,
+});
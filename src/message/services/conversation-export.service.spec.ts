@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Readable } from 'stream';
+import { ConversationExportService } from './conversation-export.service';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
+import { Message } from '../entities/message.entity';
+import { MessageContentType } from '../entities/message-content';
+import { TranscriptFormat } from '../dto/export-conversation.dto';
+import { MessageResponseDto } from '../dto/message-response.dto';
+
+jest.mock('../repositories/mongodb-message.repository');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../conversation/services/conversation-application.service');
+
+describe('ConversationExportService', () => {
+  let service: ConversationExportService;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+
+  const conversation = () =>
+    Conversation.create({
+      id: 'conv1',
+      tenantId: 'tenant123',
+      title: 'Support <Acme>',
+      type: ConversationType.GROUP,
+      participants: ['user1', 'agent1'],
+    });
+
+  const messages = () => [
+    Message.create({
+      id: 'msg1',
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: 'Hello, "support"',
+      tenantId: 'tenant123',
+      timestamp: new Date('2024-01-01T10:00:00Z'),
+    }),
+    Message.create({
+      id: 'msg2',
+      conversationId: 'conv1',
+      senderId: 'agent1',
+      content: '=HYPERLINK("http://evil")',
+      tenantId: 'tenant123',
+      timestamp: new Date('2024-01-01T10:01:00Z'),
+    }),
+    Message.create({
+      id: 'msg3',
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: '**<script>alert(1)</script>**',
+      contentType: MessageContentType.MARKDOWN,
+      tenantId: 'tenant123',
+      timestamp: new Date('2024-01-01T10:02:00Z'),
+    }),
+  ];
+
+  const read = async (content: Readable): Promise<string> => {
+    let text = '';
+    for await (const chunk of content) {
+      text += String(chunk);
+    }
+    return text;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversationExportService,
+        MessageRepository,
+        TenantContext,
+        ConversationApplicationService,
+      ],
+    }).compile();
+
+    service = module.get<ConversationExportService>(ConversationExportService);
+    messageRepository = module.get(MessageRepository);
+    tenantContext = module.get(TenantContext);
+    conversationService = module.get(ConversationApplicationService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    conversationService.getConversationById.mockResolvedValue(conversation());
+    messageRepository.streamByConversationId.mockImplementation(() =>
+      Readable.from(messages()),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportConversation', () => {
+    it('should return null if the conversation does not exist', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      const result = await service.exportConversation(
+        'missing',
+        TranscriptFormat.JSONL,
+      );
+
+      expect(result).toBeNull();
+      expect(messageRepository.streamByConversationId).not.toHaveBeenCalled();
+    });
+
+    it('should stream the messages of the tenant as JSON Lines', async () => {
+      const result = await service.exportConversation(
+        'conv1',
+        TranscriptFormat.JSONL,
+      );
+
+      const lines = (await read(result!.content)).trimEnd().split('\n');
+
+      expect(messageRepository.streamByConversationId).toHaveBeenCalledWith(
+        'conv1',
+        'tenant123',
+      );
+      expect(result!.conversation.id).toBe('conv1');
+      expect(lines).toHaveLength(3);
+      expect(
+        lines.map((line) => (JSON.parse(line) as MessageResponseDto).id),
+      ).toEqual(['msg1', 'msg2', 'msg3']);
+      expect(JSON.parse(lines[2]).text).toBe('<script>alert(1)</script>');
+    });
+
+    it('should quote CSV values and neutralize formulas', async () => {
+      const result = await service.exportConversation(
+        'conv1',
+        TranscriptFormat.CSV,
+      );
+
+      const rows = (await read(result!.content)).split('\r\n');
+
+      expect(rows[0]).toBe(
+        '"id","timestamp","senderId","contentType","text","parentMessageId","editedAt","attachmentIds"',
+      );
+      expect(rows[1]).toBe(
+        '"msg1","2024-01-01T10:00:00.000Z","user1","text","Hello, ""support""","","",""',
+      );
+      expect(rows[2]).toContain('"\'=HYPERLINK(""http://evil"")"');
+      expect(rows).toHaveLength(5);
+    });
+
+    it('should escape the HTML transcript', async () => {
+      const result = await service.exportConversation(
+        'conv1',
+        TranscriptFormat.HTML,
+      );
+
+      const html = await read(result!.content);
+
+      expect(html).toContain('<title>Support &lt;Acme&gt;</title>');
+      expect(html).toContain('Participants: user1, agent1');
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).not.toContain('<script>');
+      expect(html.indexOf('id="message-msg1"')).toBeLessThan(
+        html.indexOf('id="message-msg3"'),
+      );
+      expect(html.trimEnd().endsWith('</html>')).toBe(true);
+    });
+  });
+});
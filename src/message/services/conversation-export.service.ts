@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Readable } from 'stream';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { Conversation } from '../../conversation/entities/conversation.entity';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { Message } from '../entities/message.entity';
+import { MessageContentType } from '../entities/message-content';
+import { MessageResponseDto } from '../dto/message-response.dto';
+import { TranscriptFormat } from '../dto/export-conversation.dto';
+
+/**
+ * Columns of a CSV export
+ */
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'senderId',
+  'contentType',
+  'text',
+  'parentMessageId',
+  'editedAt',
+  'attachmentIds',
+];
+
+/**
+ * Conversation Export Service
+ *
+ * Renders the messages of a conversation as a downloadable transcript. The
+ * transcript is streamed while the messages are read, so a conversation of
+ * any size is exported without holding it in memory.
+ */
+@Injectable()
+export class ConversationExportService {
+  private readonly logger = new Logger(ConversationExportService.name);
+
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly tenantContext: TenantContext,
+  ) {
+    this.logger.log('ConversationExportService initialized');
+  }
+
+  /**
+   * Export all messages of a conversation, oldest first
+   *
+   * Conversations of other tenants are reported as not found. Deleted and
+   * expired messages are left out, as in listings.
+   *
+   * @param conversationId The conversation to export
+   * @param format The format of the transcript
+   * @returns Promise resolving to the conversation and the transcript, or null if not found
+   */
+  async exportConversation(
+    conversationId: string,
+    format: TranscriptFormat,
+  ): Promise<{ conversation: Conversation; content: Readable } | null> {
+    // Read before streaming starts, while the request context is available
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Exporting conversation: ${conversationId} as ${format}, tenant: ${tenantId}`,
+    );
+
+    const conversation =
+      await this.conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      this.logger.warn(`Conversation not found with ID: ${conversationId}`);
+      return null;
+    }
+
+    const messages = this.messageRepository.streamByConversationId(
+      conversationId,
+      tenantId,
+    );
+
+    return {
+      conversation,
+      content: Readable.from(this.render(conversation, messages, format)),
+    };
+  }
+
+  /**
+   * Render the transcript chunk by chunk
+   *
+   * @private
+   */
+  private async *render(
+    conversation: Conversation,
+    messages: AsyncIterable<Message>,
+    format: TranscriptFormat,
+  ): AsyncGenerator<string> {
+    let count = 0;
+
+    switch (format) {
+      case TranscriptFormat.CSV:
+        yield this.toCsvRow(CSV_COLUMNS);
+        for await (const message of messages) {
+          count++;
+          yield this.toCsvRow([
+            message.id,
+            message.timestamp.toISOString(),
+            message.senderId,
+            message.contentType ?? MessageContentType.TEXT,
+            Message.renderText(message),
+            message.parentMessageId,
+            message.editedAt?.toISOString(),
+            (message.attachmentIds ?? []).join(' '),
+          ]);
+        }
+        break;
+
+      case TranscriptFormat.HTML:
+        yield this.toHtmlHeader(conversation);
+        for await (const message of messages) {
+          count++;
+          yield this.toHtmlMessage(message);
+        }
+        yield '</ol>\n</body>\n</html>\n';
+        break;
+
+      default:
+        for await (const message of messages) {
+          count++;
+          yield `${JSON.stringify(MessageResponseDto.fromEntity(message))}\n`;
+        }
+    }
+
+    this.logger.log(
+      `Exported ${count} messages of conversation: ${conversation.id} as ${format}`,
+    );
+  }
+
+  /**
+   * Render a CSV row, quoting every value
+   *
+   * Values that a spreadsheet would evaluate as a formula are prefixed with
+   * a quote, so that opening a transcript cannot run its content.
+   *
+   * @private
+   */
+  private toCsvRow(values: (string | undefined)[]): string {
+    return `${values
+      .map((value = '') => {
+        const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+        return `"${text.replace(/"/g, '""')}"`;
+      })
+      .join(',')}\r\n`;
+  }
+
+  /**
+   * Render the start of an HTML transcript, up to the message list
+   *
+   * @private
+   */
+  private toHtmlHeader(conversation: Conversation): string {
+    const title = this.escapeHtml(conversation.title);
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${title}</title>`,
+      '<style>',
+      'body { font-family: sans-serif; margin: 2em; }',
+      'ol { list-style: none; padding: 0; }',
+      'li { margin-bottom: 1em; }',
+      '.meta { color: #666; font-size: 0.85em; }',
+      '.text { white-space: pre-wrap; margin: 0.25em 0 0; }',
+      '</style>',
+      '</head>',
+      '<body>',
+      `<h1>${title}</h1>`,
+      `<p class="meta">Participants: ${this.escapeHtml(conversation.participants.join(', '))}</p>`,
+      `<p class="meta">Exported at ${new Date().toISOString()}</p>`,
+      '<ol>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Render a message of an HTML transcript
+   *
+   * @private
+   */
+  private toHtmlMessage(message: Message): string {
+    const timestamp = message.timestamp.toISOString();
+    const details = [
+      message.parentMessageId &&
+        `in reply to ${this.escapeHtml(message.parentMessageId)}`,
+      message.editedAt && `edited ${message.editedAt.toISOString()}`,
+    ].filter(Boolean);
+
+    return [
+      `<li id="message-${this.escapeHtml(message.id)}">`,
+      `<div class="meta"><strong>${this.escapeHtml(message.senderId)}</strong> <time datetime="${timestamp}">${timestamp}</time>${details.length > 0 ? ` (${details.join(', ')})` : ''}</div>`,
+      `<p class="text">${this.escapeHtml(Message.renderText(message))}</p>`,
+      '</li>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Escape text for use in HTML content and attribute values
+   *
+   * @private
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { DraftApplicationService } from './draft-application.service';
+import { MessageDraftRepository } from '../repositories/mongodb-message-draft.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { RedactionService } from '../../common/redaction/redaction.service';
+import { PiiType } from '../../common/redaction/pii-detectors';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
+
+jest.mock('../repositories/mongodb-message-draft.repository');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../conversation/services/conversation-application.service');
+jest.mock('../../common/redaction/redaction.service');
+
+describe('DraftApplicationService', () => {
+  let service: DraftApplicationService;
+  let messageDraftRepository: jest.Mocked<MessageDraftRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+  let redactionService: jest.Mocked<RedactionService>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DraftApplicationService,
+        MessageDraftRepository,
+        TenantContext,
+        ConversationApplicationService,
+        RedactionService,
+      ],
+    }).compile();
+
+    service = module.get<DraftApplicationService>(DraftApplicationService);
+    messageDraftRepository = module.get(MessageDraftRepository);
+    tenantContext = module.get(TenantContext);
+    conversationService = module.get(ConversationApplicationService);
+    redactionService = module.get(RedactionService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    conversationService.getConversationById.mockResolvedValue(
+      Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1', 'user2'],
+      }),
+    );
+    redactionService.redactForStorage.mockImplementation(
+      (_tenantId, message) => ({
+        content: message.content,
+        body: message.body,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('saveDraft', () => {
+    it('should store the draft of the user in the conversation', async () => {
+      messageDraftRepository.upsert.mockImplementation((draft) =>
+        Promise.resolve(draft),
+      );
+
+      const result = await service.saveDraft('conv1', 'user1', {
+        content: 'Hello, wor',
+        metadata: { parentMessageId: 'msg1' },
+      });
+
+      expect(result).toMatchObject({
+        tenantId: 'tenant123',
+        conversationId: 'conv1',
+        userId: 'user1',
+        content: 'Hello, wor',
+        metadata: { parentMessageId: 'msg1' },
+      });
+      expect(messageDraftRepository.upsert).toHaveBeenCalledWith(result);
+    });
+
+    it('should store the draft redacted', async () => {
+      const redaction = {
+        detected: [PiiType.EMAIL],
+        original: { iv: 'iv', tag: 'tag', data: 'data' },
+      };
+      redactionService.redactForStorage.mockReturnValue({
+        content: 'Mail [redacted email]',
+        redaction,
+      });
+      messageDraftRepository.upsert.mockImplementation((draft) =>
+        Promise.resolve(draft),
+      );
+
+      const result = await service.saveDraft('conv1', 'user1', {
+        content: 'Mail jane@example.com',
+      });
+
+      expect(redactionService.redactForStorage).toHaveBeenCalledWith(
+        'tenant123',
+        { content: 'Mail jane@example.com' },
+      );
+      expect(result.content).toBe('Mail [redacted email]');
+      expect(result.redaction).toEqual(redaction);
+    });
+
+    it('should reject unknown conversations', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      await expect(
+        service.saveDraft('missing', 'user1', { content: 'Hello' }),
+      ).rejects.toThrow(NotFoundException);
+      expect(messageDraftRepository.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearDraft', () => {
+    it('should delete the draft of the sender', async () => {
+      messageDraftRepository.delete.mockResolvedValue(true);
+
+      await service.clearDraft('conv1', 'user1');
+
+      expect(messageDraftRepository.delete).toHaveBeenCalledWith(
+        'tenant123',
+        'conv1',
+        'user1',
+      );
+    });
+
+    it('should not fail when the draft cannot be deleted', async () => {
+      messageDraftRepository.delete.mockRejectedValue(
+        new Error('Connection lost'),
+      );
+
+      await expect(
+        service.clearDraft('conv1', 'user1'),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { RedactionService } from '../../common/redaction/redaction.service';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { SaveDraftDto } from '../dto/save-draft.dto';
+import { MessageDraft } from '../entities/message-draft.entity';
+import { MessageDraftRepository } from '../repositories/mongodb-message-draft.repository';
+
+/**
+ * Draft Application Service
+ *
+ * Keeps one unsent draft per user and conversation. The draft of a user is
+ * cleared once they post a message to the conversation.
+ */
+@Injectable()
+export class DraftApplicationService {
+  private readonly logger = new Logger(DraftApplicationService.name);
+
+  constructor(
+    private readonly messageDraftRepository: MessageDraftRepository,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly redactionService: RedactionService,
+    private readonly tenantContext: TenantContext,
+  ) {
+    this.logger.log('DraftApplicationService initialized');
+  }
+
+  /**
+   * Ensure the conversation exists for the current tenant
+   *
+   * @param conversationId Conversation ID
+   * @throws NotFoundException if the conversation does not exist
+   */
+  private async assertConversationExists(
+    conversationId: string,
+  ): Promise<void> {
+    const conversation =
+      await this.conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+  }
+
+  /**
+   * Save the draft of a user in a conversation, replacing the previous one
+   *
+   * Personal data is redacted before the draft is stored, as it is from
+   * messages.
+   *
+   * @param conversationId The conversation the draft is written in
+   * @param userId The user writing the draft
+   * @param saveDraftDto Content and metadata of the draft
+   * @returns Promise resolving to the stored draft
+   * @throws NotFoundException if the conversation does not exist
+   */
+  async saveDraft(
+    conversationId: string,
+    userId: string,
+    saveDraftDto: SaveDraftDto,
+  ): Promise<MessageDraft> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Saving draft of user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+
+    await this.assertConversationExists(conversationId);
+
+    const redacted = this.redactionService.redactForStorage(tenantId, {
+      content: saveDraftDto.content,
+    });
+    const draft = MessageDraft.create({
+      tenantId,
+      conversationId,
+      userId,
+      content: redacted.content,
+      metadata: saveDraftDto.metadata,
+      redaction: redacted.redaction,
+    });
+
+    return this.messageDraftRepository.upsert(draft);
+  }
+
+  /**
+   * Get the draft of a user in a conversation
+   *
+   * @param conversationId The conversation
+   * @param userId The user
+   * @returns Promise resolving to the draft or null if the user has none
+   */
+  async getDraft(
+    conversationId: string,
+    userId: string,
+  ): Promise<MessageDraft | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Getting draft of user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+
+    return this.messageDraftRepository.find(tenantId, conversationId, userId);
+  }
+
+  /**
+   * Get the drafts of a user across conversations, most recently saved first
+   *
+   * @param userId The user
+   * @param options Pagination options
+   * @returns Promise resolving to paginated drafts
+   */
+  async getDrafts(
+    userId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ drafts: MessageDraft[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Getting drafts of user: ${userId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    return this.messageDraftRepository.findByUserId(tenantId, userId, options);
+  }
+
+  /**
+   * Delete the draft of a user in a conversation
+   *
+   * @param conversationId The conversation
+   * @param userId The user
+   * @returns Promise resolving to true if a draft was deleted
+   */
+  async deleteDraft(conversationId: string, userId: string): Promise<boolean> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Deleting draft of user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+
+    return this.messageDraftRepository.delete(tenantId, conversationId, userId);
+  }
+
+  /**
+   * Clear the draft of a user who has just posted to a conversation
+   *
+   * Best effort: the message is already posted, so a failure is only logged.
+   *
+   * @param conversationId The conversation posted to
+   * @param userId The sender
+   */
+  async clearDraft(conversationId: string, userId: string): Promise<void> {
+    try {
+      await this.deleteDraft(conversationId, userId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to clear draft of user: ${userId} in conversation: ${conversationId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyRecordRepository } from '../repositories/mongodb-idempotency-record.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import {
+  IdempotencyRecord,
+  IdempotencyRecordStatus,
+} from '../entities/idempotency-record.entity';
+
+jest.mock('../repositories/mongodb-idempotency-record.repository');
+jest.mock('../../common/contexts/tenant.context');
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let idempotencyRecordRepository: jest.Mocked<IdempotencyRecordRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+
+  const request = { route: 'POST /messages', body: { content: 'Hello' } };
+
+  /**
+   * Records the fingerprint the service computes for a request
+   */
+  const fingerprintOf = async (body: unknown): Promise<string> => {
+    idempotencyRecordRepository.claim.mockResolvedValueOnce(true);
+    await service.execute('probe', body, () => Promise.resolve(null));
+    const [record] = idempotencyRecordRepository.claim.mock.calls.pop()!;
+    idempotencyRecordRepository.complete.mockClear();
+    return record.fingerprint;
+  };
+
+  const storedRecord = (props: {
+    fingerprint: string;
+    status: IdempotencyRecordStatus;
+    response?: unknown;
+    lockedUntil?: Date;
+  }): IdempotencyRecord =>
+    IdempotencyRecord.fromDatabase({
+      tenantId: 'tenant123',
+      key: 'key1',
+      claimId: 'claim1',
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      lockedUntil: new Date(Date.now() + 60000),
+      ...props,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        IdempotencyRecordRepository,
+        TenantContext,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+    idempotencyRecordRepository = module.get(IdempotencyRecordRepository);
+    tenantContext = module.get(TenantContext);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    idempotencyRecordRepository.complete.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should process a new key and store the response', async () => {
+    idempotencyRecordRepository.claim.mockResolvedValue(true);
+    const handler = jest.fn().mockResolvedValue({ id: 'msg1' });
+
+    const result = await service.execute('key1', request, handler);
+
+    expect(result).toEqual({ id: 'msg1' });
+    expect(handler).toHaveBeenCalledTimes(1);
+    const [record] = idempotencyRecordRepository.claim.mock.calls[0];
+    expect(record).toMatchObject({
+      tenantId: 'tenant123',
+      key: 'key1',
+      status: IdempotencyRecordStatus.PROCESSING,
+    });
+    expect(idempotencyRecordRepository.complete).toHaveBeenCalledWith(record, {
+      id: 'msg1',
+    });
+  });
+
+  it('should fingerprint requests regardless of key order', async () => {
+    const first = await fingerprintOf({ a: 1, b: { c: 2, d: 3 } });
+    const second = await fingerprintOf({ b: { d: 3, c: 2 }, a: 1 });
+    const different = await fingerprintOf({ a: 1, b: { c: 2, d: 4 } });
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(different);
+  });
+
+  it('should replay the stored response of a completed request', async () => {
+    const fingerprint = await fingerprintOf(request);
+    idempotencyRecordRepository.claim.mockResolvedValue(false);
+    idempotencyRecordRepository.find.mockResolvedValue(
+      storedRecord({
+        fingerprint,
+        status: IdempotencyRecordStatus.COMPLETED,
+        response: { id: 'msg1' },
+      }),
+    );
+    const handler = jest.fn();
+
+    const result = await service.execute('key1', request, handler);
+
+    expect(result).toEqual({ id: 'msg1' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(idempotencyRecordRepository.complete).not.toHaveBeenCalled();
+  });
+
+  it('should reject a key reused for a different request', async () => {
+    idempotencyRecordRepository.claim.mockResolvedValue(false);
+    idempotencyRecordRepository.find.mockResolvedValue(
+      storedRecord({
+        fingerprint: 'another request',
+        status: IdempotencyRecordStatus.COMPLETED,
+        response: { id: 'msg1' },
+      }),
+    );
+
+    await expect(service.execute('key1', request, jest.fn())).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('should reject a retry while the first request is processed', async () => {
+    const fingerprint = await fingerprintOf(request);
+    idempotencyRecordRepository.claim.mockResolvedValue(false);
+    idempotencyRecordRepository.find.mockResolvedValue(
+      storedRecord({ fingerprint, status: IdempotencyRecordStatus.PROCESSING }),
+    );
+    const handler = jest.fn();
+
+    await expect(service.execute('key1', request, handler)).rejects.toThrow(
+      ConflictException,
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should take over a key whose request was abandoned', async () => {
+    const fingerprint = await fingerprintOf(request);
+    idempotencyRecordRepository.claim.mockResolvedValue(false);
+    idempotencyRecordRepository.find.mockResolvedValue(
+      storedRecord({
+        fingerprint,
+        status: IdempotencyRecordStatus.PROCESSING,
+        lockedUntil: new Date(Date.now() - 1000),
+      }),
+    );
+    idempotencyRecordRepository.takeOver.mockResolvedValue(true);
+    const handler = jest.fn().mockResolvedValue({ id: 'msg1' });
+
+    const result = await service.execute('key1', request, handler);
+
+    expect(result).toEqual({ id: 'msg1' });
+    expect(idempotencyRecordRepository.takeOver).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'key1' }),
+      'claim1',
+    );
+  });
+
+  it('should release the key when the request fails', async () => {
+    idempotencyRecordRepository.claim.mockResolvedValue(true);
+    const error = new Error('Conversation closed');
+
+    await expect(
+      service.execute('key1', request, () => Promise.reject(error)),
+    ).rejects.toBe(error);
+    expect(idempotencyRecordRepository.release).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'key1' }),
+    );
+    expect(idempotencyRecordRepository.complete).not.toHaveBeenCalled();
+  });
+
+  it('should reject keys that are too long', async () => {
+    await expect(
+      service.execute('k'.repeat(256), request, jest.fn()),
+    ).rejects.toThrow(BadRequestException);
+    expect(idempotencyRecordRepository.claim).not.toHaveBeenCalled();
+  });
+});
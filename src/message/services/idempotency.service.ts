@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { IdempotencyRecord } from '../entities/idempotency-record.entity';
+import { IdempotencyRecordRepository } from '../repositories/mongodb-idempotency-record.repository';
+
+// Longest idempotency key accepted
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serializes a value to JSON with object keys sorted, so that equal requests
+ * always give the same string
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, nested: unknown) =>
+    nested && typeof nested === 'object' && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+}
+
+/**
+ * Idempotency Service
+ *
+ * Processes a request made with an `Idempotency-Key` header at most once per
+ * tenant and key. Retries of the request get the response of the first
+ * attempt; reusing the key for a different request is rejected.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  // How long a key is remembered, in seconds
+  private readonly windowSeconds: number;
+
+  // How long a request may take before a retry may process it again, in seconds
+  private readonly lockSeconds: number;
+
+  constructor(
+    private readonly idempotencyRecordRepository: IdempotencyRecordRepository,
+    private readonly tenantContext: TenantContext,
+    private readonly configService: ConfigService,
+  ) {
+    this.windowSeconds = this.configService.get<number>(
+      'idempotency.windowSeconds',
+      86400,
+    );
+    this.lockSeconds = this.configService.get<number>(
+      'idempotency.lockSeconds',
+      60,
+    );
+    this.logger.log('IdempotencyService initialized');
+  }
+
+  /**
+   * Process a request once per idempotency key
+   *
+   * The key is claimed before the request is processed. A failed request
+   * releases its key, so that it can be retried; the response of a
+   * successful one is stored and returned to every retry within the window.
+   *
+   * @param key Idempotency key sent by the client
+   * @param request What identifies the request, e.g. its route and body
+   * @param handler Processes the request
+   * @returns Promise resolving to the response of the request
+   * @throws BadRequestException if the key is empty or too long
+   * @throws UnprocessableEntityException if the key was used for a different request
+   * @throws ConflictException if the key is held by an attempt still being processed
+   */
+  async execute<T>(
+    key: string,
+    request: unknown,
+    handler: () => Promise<T>,
+  ): Promise<T> {
+    if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const tenantId = this.tenantContext.getCurrentTenant();
+    const fingerprint = createHash('sha256')
+      .update(canonicalJson(request))
+      .digest('hex');
+    this.logger.debug(
+      `Processing request with idempotency key: ${key} for tenant: ${tenantId}`,
+    );
+
+    const record = IdempotencyRecord.create({
+      tenantId,
+      key,
+      claimId: uuidv4(),
+      fingerprint,
+      windowMs: this.windowSeconds * 1000,
+      lockMs: this.lockSeconds * 1000,
+    });
+
+    if (!(await this.idempotencyRecordRepository.claim(record))) {
+      const existing = await this.idempotencyRecordRepository.find(
+        tenantId,
+        key,
+      );
+
+      if (existing && !existing.isStale()) {
+        if (!existing.matches(fingerprint)) {
+          throw new UnprocessableEntityException(
+            `Idempotency key "${key}" was already used for a different request`,
+          );
+        }
+
+        if (existing.isCompleted()) {
+          this.logger.log(`Replaying response for idempotency key: ${key}`);
+          return existing.response as T;
+        }
+
+        throw new ConflictException(
+          `A request with idempotency key "${key}" is still being processed`,
+        );
+      }
+
+      // The key was released, has expired or its attempt was abandoned
+      const claimed = existing
+        ? await this.idempotencyRecordRepository.takeOver(
+            record,
+            existing.claimId,
+          )
+        : await this.idempotencyRecordRepository.claim(record);
+      if (!claimed) {
+        throw new ConflictException(
+          `A request with idempotency key "${key}" is still being processed`,
+        );
+      }
+    }
+
+    let response: T;
+    try {
+      response = await handler();
+    } catch (error) {
+      await this.release(record);
+      throw error;
+    }
+
+    try {
+      // Stored as serialized, so that replays return exactly the same body
+      await this.idempotencyRecordRepository.complete(
+        record,
+        JSON.parse(JSON.stringify(response)),
+      );
+    } catch (error) {
+      // The request has been processed; its retries are blocked until the claim expires
+      this.logger.error(
+        `Failed to store response for idempotency key: ${key}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Release the key of a failed request
+   *
+   * Best effort: if it fails, the key is freed once its claim expires.
+   */
+  private async release(record: IdempotencyRecord): Promise<void> {
+    try {
+      await this.idempotencyRecordRepository.release(record);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to release idempotency key: ${record.key}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -1,26 +1,78 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { MessageApplicationService } from './message-application.service';
 import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageRevisionRepository } from '../repositories/mongodb-message-revision.repository';
 import { MessageProducerService } from './message-producer.service';
 import { TenantContext } from '../../common/contexts/tenant.context';
 import { CreateMessageDto } from '../dto/create-message.dto';
 import { UpdateMessageDto } from '../dto/update-message.dto';
 import { Message } from '../entities/message.entity';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  NotFoundException,
+  PreconditionFailedException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { ReadStateApplicationService } from './read-state-application.service';
+import { PinApplicationService } from './pin-application.service';
+import { DraftApplicationService } from './draft-application.service';
+import { ModerationService } from './moderation.service';
+import { RedactionService } from '../../common/redaction/redaction.service';
+import { PiiType } from '../../common/redaction/pii-detectors';
+import { MessageContentType } from '../entities/message-content';
+import { MessageDeliveryStatus } from '../entities/message-delivery';
+import {
+  ModerationAction,
+  ModerationStatus,
+} from '../entities/message-moderation';
+import { InvalidStateTransitionError } from '../../common/errors/invalid-state-transition.error';
+import { AttachmentApplicationService } from '../../attachment/services/attachment-application.service';
+import { TemplateApplicationService } from '../../template/services/template-application.service';
+import { Template } from '../../template/entities/template.entity';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
 
 jest.mock('../repositories/mongodb-message.repository');
+jest.mock('../repositories/mongodb-message-revision.repository');
 jest.mock('./message-producer.service');
 jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../conversation/services/conversation-application.service');
+jest.mock('./read-state-application.service');
+jest.mock('./pin-application.service');
+jest.mock('./draft-application.service');
+jest.mock('./moderation.service');
+jest.mock('../../common/redaction/redaction.service');
+jest.mock('../../attachment/services/attachment-application.service');
+jest.mock('../../template/services/template-application.service');
 
 describe('MessageApplicationService', () => {
   let service: MessageApplicationService;
   let messageRepository: jest.Mocked<MessageRepository>;
+  let messageRevisionRepository: jest.Mocked<MessageRevisionRepository>;
   let kafkaProducer: jest.Mocked<MessageProducerService>;
   let tenantContext: jest.Mocked<TenantContext>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+  let readStateService: jest.Mocked<ReadStateApplicationService>;
+  let pinService: jest.Mocked<PinApplicationService>;
+  let draftService: jest.Mocked<DraftApplicationService>;
+  let attachmentService: jest.Mocked<AttachmentApplicationService>;
+  let templateService: jest.Mocked<TemplateApplicationService>;
+  let moderationService: jest.Mocked<ModerationService>;
+  let redactionService: jest.Mocked<RedactionService>;
   const mockCacheManager = {
     get: jest.fn(),
     set: jest.fn(),
     del: jest.fn(),
+    mset: jest.fn(),
+    mdel: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -28,8 +80,25 @@ describe('MessageApplicationService', () => {
       providers: [
         MessageApplicationService,
         MessageRepository,
+        MessageRevisionRepository,
         MessageProducerService,
         TenantContext,
+        ConversationApplicationService,
+        ReadStateApplicationService,
+        PinApplicationService,
+        DraftApplicationService,
+        AttachmentApplicationService,
+        TemplateApplicationService,
+        ModerationService,
+        RedactionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'messages.restoreWindowSeconds' ? 3600 : defaultValue,
+            ),
+          },
+        },
         {
           provide: CACHE_MANAGER,
           useValue: mockCacheManager,
@@ -39,171 +108,2216 @@ describe('MessageApplicationService', () => {
 
     service = module.get<MessageApplicationService>(MessageApplicationService);
     messageRepository = module.get(MessageRepository);
+    messageRevisionRepository = module.get(MessageRevisionRepository);
     kafkaProducer = module.get(MessageProducerService);
     tenantContext = module.get(TenantContext);
+    conversationService = module.get(ConversationApplicationService);
+    readStateService = module.get(ReadStateApplicationService);
+    pinService = module.get(PinApplicationService);
+    draftService = module.get(DraftApplicationService);
+    attachmentService = module.get(AttachmentApplicationService);
+    templateService = module.get(TemplateApplicationService);
+    moderationService = module.get(ModerationService);
+    redactionService = module.get(RedactionService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    conversationService.getConversationById.mockResolvedValue(
+      Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1', 'user2'],
+      }),
+    );
+    messageRevisionRepository.save.mockImplementation((revision) =>
+      Promise.resolve(revision),
+    );
+    moderationService.moderate.mockImplementation((_tenantId, text) => ({
+      text,
+      flagged: false,
+      reasons: [],
+    }));
+    redactionService.redactForStorage.mockImplementation(
+      (_tenantId, message) => ({
+        content: message.content,
+        body: message.body,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createMessage', () => {
+    it('should create, save, and publish a new message', async () => {
+      const createDto: CreateMessageDto = {
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello world',
+        metadata: { important: true },
+      };
+
+      const savedMessage = Message.create({
+        id: 'msg1',
+        conversationId: createDto.conversationId,
+        senderId: createDto.senderId,
+        content: 'Hello world',
+        tenantId: 'tenant123',
+        metadata: createDto.metadata,
+      });
+
+      messageRepository.save.mockResolvedValue(savedMessage);
+
+      const result = await service.createMessage(createDto, {
+        draftOf: 'user1',
+      });
+
+      expect(messageRepository.save).toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(
+        savedMessage,
+      );
+      expect(result).toEqual(savedMessage);
+      expect(conversationService.recordMessageActivity).toHaveBeenCalledWith(
+        'conv1',
+        savedMessage.timestamp,
+      );
+      expect(readStateService.invalidateUnreadCounts).toHaveBeenCalledWith(
+        'conv1',
+        ['user1', 'user2'],
+      );
+      expect(draftService.clearDraft).toHaveBeenCalledWith('conv1', 'user1');
+      expect(result.deliveryStatus).toBe(MessageDeliveryStatus.SENT);
+      expect(messageRepository.updateDeliveryStatus).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        MessageDeliveryStatus.PENDING,
+        MessageDeliveryStatus.SENT,
+        [
+          expect.objectContaining({
+            userId: 'user2',
+            status: MessageDeliveryStatus.SENT,
+          }),
+        ],
+      );
+    });
+
+    it('should clear the draft of the authenticated user, not the sender given', async () => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+
+      await service.createMessage(
+        { conversationId: 'conv1', senderId: 'user2', content: 'Hello' },
+        { draftOf: 'user1' },
+      );
+
+      expect(draftService.clearDraft).toHaveBeenCalledWith('conv1', 'user1');
+      expect(draftService.clearDraft).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use an ID assigned in advance', async () => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+
+      const result = await service.createMessage(
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello world',
+        },
+        { id: 'preassigned' },
+      );
+
+      expect(result.id).toBe('preassigned');
+      expect(draftService.clearDraft).not.toHaveBeenCalled();
+    });
+
+    it('should expire a message ttlSeconds after it is sent', async () => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+
+      const before = Date.now();
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Self-destructing',
+        ttlSeconds: 60,
+      });
+
+      expect(result.expiresAt!.getTime()).toBeGreaterThanOrEqual(
+        before + 60000,
+      );
+      expect(result.expiresAt!.getTime()).toBeLessThanOrEqual(
+        Date.now() + 60000,
+      );
+      // Not cached beyond the expiry
+      const [, , ttl] = mockCacheManager.set.mock.calls[0] as [
+        string,
+        unknown,
+        number,
+      ];
+      expect(ttl).toBeLessThanOrEqual(60000);
+    });
+
+    it('should reject an expiry that is not after the send time', async () => {
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Too late',
+          expiresAt: new Date(Date.now() - 1000),
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject both expiresAt and ttlSeconds', async () => {
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Ambiguous',
+          expiresAt: new Date(Date.now() + 60000),
+          ttlSeconds: 60,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject messages for an unknown conversation', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      await expect(
+        service.createMessage({
+          conversationId: 'missing',
+          senderId: 'user1',
+          content: 'Hello world',
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+      expect(draftService.clearDraft).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages for a closed conversation', async () => {
+      const conversation = Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1'],
+      });
+      conversation.close();
+      conversationService.getConversationById.mockResolvedValue(conversation);
+
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello world',
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should attach validated attachments to the message', async () => {
+      messageRepository.save.mockImplementation((m) => Promise.resolve(m));
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'See attached',
+        attachmentIds: ['att1', 'att2', 'att1'],
+      });
+
+      expect(attachmentService.assertAttachable).toHaveBeenCalledWith(
+        ['att1', 'att2'],
+        'conv1',
+      );
+      expect(result.attachmentIds).toEqual(['att1', 'att2']);
+    });
+
+    it('should attach the file of a file message and default its text', async () => {
+      messageRepository.save.mockImplementation((m) => Promise.resolve(m));
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        contentType: MessageContentType.FILE,
+        body: { attachmentId: 'att2', name: 'report.pdf', caption: 'Q3' },
+        attachmentIds: ['att1'],
+      });
+
+      expect(attachmentService.assertAttachable).toHaveBeenCalledWith(
+        ['att1', 'att2'],
+        'conv1',
+      );
+      expect(result).toMatchObject({
+        content: 'report.pdf\nQ3',
+        contentType: MessageContentType.FILE,
+        body: { attachmentId: 'att2', name: 'report.pdf', caption: 'Q3' },
+        attachmentIds: ['att1', 'att2'],
+      });
+    });
+
+    it('should store mentions of conversation participants', async () => {
+      messageRepository.save.mockImplementation((m) => Promise.resolve(m));
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hi @user2 and @stranger, ping @user2',
+      });
+
+      expect(result.mentionedUserIds).toEqual(['user2']);
+      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(
+        expect.objectContaining({ mentionedUserIds: ['user2'] }),
+      );
+    });
+
+    it('should reject messages referencing invalid attachments', async () => {
+      attachmentService.assertAttachable.mockRejectedValue(
+        new BadRequestException('Attachment with ID "att1" not found'),
+      );
+
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'See attached',
+          attachmentIds: ['att1'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMentions', () => {
+    it('should return messages mentioning the user for the current tenant', async () => {
+      const mention = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user2',
+        content: 'Hi @user1',
+        tenantId: 'tenant123',
+      });
+      messageRepository.findByMentionedUser.mockResolvedValue({
+        messages: [mention],
+        total: 1,
+      });
+
+      const result = await service.getMentions('user1', {
+        page: 0,
+        limit: 10,
+      });
+
+      expect(messageRepository.findByMentionedUser).toHaveBeenCalledWith(
+        'user1',
+        'tenant123',
+        { page: 1, limit: 10 },
+      );
+      expect(result).toEqual({ messages: [mention], total: 1 });
+    });
+  });
+
+  describe('createMessage replies', () => {
+    const parent = () =>
+      Message.create({
+        id: 'parent1',
+        conversationId: 'conv1',
+        senderId: 'user2',
+        content: 'Parent',
+        tenantId: 'tenant123',
+      });
+
+    it('should thread a reply under its parent and bump the reply count', async () => {
+      messageRepository.findById.mockResolvedValue(parent());
+      messageRepository.save.mockImplementation((m) => Promise.resolve(m));
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Reply',
+        parentMessageId: 'parent1',
+      });
+
+      expect(messageRepository.findById).toHaveBeenCalledWith(
+        'parent1',
+        'tenant123',
+      );
+      expect(result.parentMessageId).toBe('parent1');
+      expect(result.threadRootId).toBe('parent1');
+      expect(messageRepository.incrementReplyCount).toHaveBeenCalledWith(
+        'parent1',
+        'tenant123',
+      );
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'message:tenant123:parent1',
+      );
+      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(
+        expect.objectContaining({ threadRootId: 'parent1' }),
+      );
+    });
+
+    it('should reject a reply to a message of another conversation', async () => {
+      messageRepository.findById.mockResolvedValue(parent());
+
+      await expect(
+        service.createMessage({
+          conversationId: 'conv2',
+          senderId: 'user1',
+          content: 'Reply',
+          parentMessageId: 'parent1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a reply to an unknown parent', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Reply',
+          parentMessageId: 'missing',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('createMessages', () => {
+    beforeEach(() => {
+      messageRepository.insertMany.mockImplementation((messages) =>
+        Promise.resolve({ inserted: messages, failed: [] }),
+      );
+    });
+
+    it('should create the valid messages and report the others', async () => {
+      messageRepository.findById.mockImplementation((id) =>
+        Promise.resolve(
+          id === 'parent1'
+            ? Message.create({
+                id: 'parent1',
+                conversationId: 'conv1',
+                senderId: 'user2',
+                content: 'Parent',
+                tenantId: 'tenant123',
+              })
+            : null,
+        ),
+      );
+
+      const results = await service.createMessages([
+        { conversationId: 'conv1', senderId: 'user1', content: 'First' },
+        { conversationId: 'conv1', senderId: 'user1' },
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Reply',
+          parentMessageId: 'parent1',
+        },
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Orphan',
+          parentMessageId: 'missing',
+        },
+      ]);
+
+      expect(results.map((result) => !!result.message)).toEqual([
+        true,
+        false,
+        true,
+        false,
+      ]);
+      expect(results[1].error).toContain('content');
+      expect(results[3].error).toBe(
+        'Parent message with ID "missing" not found',
+      );
+      expect(messageRepository.insertMany).toHaveBeenCalledTimes(1);
+      expect(messageRepository.insertMany.mock.calls[0][0]).toHaveLength(2);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+      expect(messageRepository.incrementReplyCount).toHaveBeenCalledWith(
+        'parent1',
+        'tenant123',
+        1,
+      );
+      expect(kafkaProducer.publishBatchEvents).toHaveBeenCalledTimes(1);
+      expect(kafkaProducer.publishBatchEvents).toHaveBeenCalledWith([
+        expect.objectContaining({ payload: results[0].message }),
+        expect.objectContaining({ payload: results[2].message }),
+      ]);
+      expect(kafkaProducer.publishMessageCreated).not.toHaveBeenCalled();
+      expect(results[0].message!.deliveryStatus).toBe(
+        MessageDeliveryStatus.SENT,
+      );
+      expect(mockCacheManager.mset).toHaveBeenCalledWith([
+        expect.objectContaining({
+          key: `message:tenant123:${results[0].message!.id}`,
+        }),
+        expect.objectContaining({
+          key: `message:tenant123:${results[2].message!.id}`,
+        }),
+      ]);
+      expect(conversationService.recordMessageActivity).toHaveBeenCalledTimes(
+        1,
+      );
+      expect(readStateService.invalidateUnreadCounts).toHaveBeenCalledTimes(1);
+      expect(draftService.clearDraft).not.toHaveBeenCalled();
+    });
+
+    it('should report the messages the insert rejected', async () => {
+      messageRepository.insertMany.mockImplementation(([first, second]) =>
+        Promise.resolve({
+          inserted: [first],
+          failed: [{ message: second, error: 'Document too large' }],
+        }),
+      );
+
+      const results = await service.createMessages([
+        { conversationId: 'conv1', senderId: 'user1', content: 'First' },
+        { conversationId: 'conv1', senderId: 'user1', content: 'Second' },
+      ]);
+
+      expect(results[0].message).toBeDefined();
+      expect(results[1]).toEqual({ index: 1, error: 'Document too large' });
+      expect(kafkaProducer.publishBatchEvents).toHaveBeenCalledWith([
+        expect.objectContaining({ payload: results[0].message }),
+      ]);
+    });
+
+    it('should keep the original timestamp of imported messages', async () => {
+      const results = await service.createMessages(
+        [
+          {
+            conversationId: 'conv1',
+            senderId: 'user1',
+            content: 'Old',
+            timestamp: '2020-01-01T00:00:00.000Z',
+          },
+          {
+            conversationId: 'conv1',
+            senderId: 'user1',
+            content: 'Future',
+            timestamp: '2999-01-01T00:00:00.000Z',
+          },
+        ],
+        { canImport: true },
+      );
+
+      expect(results[0].message!.timestamp).toEqual(
+        new Date('2020-01-01T00:00:00.000Z'),
+      );
+      expect(results[1].error).toBe('timestamp must not be in the future');
+    });
+
+    it('should only let importers set the timestamp', async () => {
+      await expect(
+        service.createMessages([
+          {
+            conversationId: 'conv1',
+            senderId: 'user1',
+            content: 'Old',
+            timestamp: '2020-01-01T00:00:00.000Z',
+          },
+        ]),
+      ).rejects.toThrow(ForbiddenException);
+      expect(messageRepository.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject more messages than allowed at once', async () => {
+      await expect(
+        service.createMessages(
+          Array.from({ length: 501 }, () => ({
+            conversationId: 'conv1',
+            senderId: 'user1',
+            content: 'Hello',
+          })),
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('forwardMessage', () => {
+    const sourceMessage = Message.create({
+      id: 'msg1',
+      conversationId: 'conv1',
+      senderId: 'user2',
+      content: 'Release on Friday',
+      tenantId: 'tenant123',
+    });
+
+    beforeEach(() => {
+      messageRepository.findById.mockResolvedValue(sourceMessage);
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+      conversationService.getConversationById.mockImplementation((id) =>
+        Promise.resolve(
+          Conversation.create({
+            id,
+            tenantId: 'tenant123',
+            title: id,
+            type: ConversationType.GROUP,
+            participants:
+              id === 'conv2' ? ['user1', 'user3'] : ['user1', 'user2'],
+          }),
+        ),
+      );
+    });
+
+    it('should post a message quoting the original to the target conversation', async () => {
+      const result = await service.forwardMessage(
+        'msg1',
+        { conversationId: 'conv2', content: 'FYI' },
+        'user1',
+      );
+
+      expect(result).toMatchObject({
+        conversationId: 'conv2',
+        senderId: 'user1',
+        content: 'FYI',
+        forwardedFrom: {
+          messageId: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user2',
+          content: 'Release on Friday',
+          timestamp: sourceMessage.timestamp,
+        },
+      });
+      expect(result!.parentMessageId).toBeUndefined();
+      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(result);
+    });
+
+    it('should default the content to the forwarded content', async () => {
+      const result = await service.forwardMessage(
+        'msg1',
+        { conversationId: 'conv2' },
+        'user1',
+      );
+
+      expect(result!.content).toBe('Release on Friday');
+    });
+
+    it('should leave the draft of the user in place', async () => {
+      await service.forwardMessage(
+        'msg1',
+        { conversationId: 'conv2', content: 'FYI' },
+        'user1',
+      );
+
+      expect(draftService.clearDraft).not.toHaveBeenCalled();
+    });
+
+    it('should report messages the user cannot read as missing', async () => {
+      const result = await service.forwardMessage(
+        'msg1',
+        { conversationId: 'conv2' },
+        'user3',
+      );
+
+      expect(result).toBeNull();
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject target conversations the user cannot post to', async () => {
+      await expect(
+        service.forwardMessage('msg1', { conversationId: 'conv2' }, 'user2'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledgeDelivery', () => {
+    const sentMessage = () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+      });
+      message.markSent(['user2', 'user3']);
+      return message;
+    };
+
+    it('should record the receipt and publish the status change', async () => {
+      messageRepository.findById.mockResolvedValue(sentMessage());
+      const storedMessage = sentMessage();
+      storedMessage.deliveries[0].status = MessageDeliveryStatus.DELIVERED;
+      storedMessage.deliveries[1].status = MessageDeliveryStatus.DELIVERED;
+      messageRepository.updateRecipientDelivery.mockResolvedValue(
+        storedMessage,
+      );
+
+      const result = await service.acknowledgeDelivery(
+        'msg1',
+        'user2',
+        MessageDeliveryStatus.DELIVERED,
+      );
+
+      expect(messageRepository.updateRecipientDelivery).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        expect.objectContaining({
+          userId: 'user2',
+          status: MessageDeliveryStatus.DELIVERED,
+        }),
+        MessageDeliveryStatus.SENT,
+      );
+      // The other recipient acknowledged concurrently
+      expect(result?.deliveryStatus).toBe(MessageDeliveryStatus.DELIVERED);
+      expect(messageRepository.updateDeliveryStatus).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        MessageDeliveryStatus.SENT,
+        MessageDeliveryStatus.DELIVERED,
+      );
+      expect(kafkaProducer.publishMessageStatusChanged).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'msg1',
+          userId: 'user2',
+          previousRecipientStatus: MessageDeliveryStatus.SENT,
+          recipientStatus: MessageDeliveryStatus.DELIVERED,
+          status: MessageDeliveryStatus.DELIVERED,
+        }),
+      );
+    });
+
+    it('should ignore a repeated receipt', async () => {
+      const message = sentMessage();
+      message.acknowledge('user2', MessageDeliveryStatus.READ);
+      messageRepository.findById.mockResolvedValue(message);
+
+      await service.acknowledgeDelivery(
+        'msg1',
+        'user2',
+        MessageDeliveryStatus.READ,
+      );
+
+      expect(messageRepository.updateRecipientDelivery).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageStatusChanged).not.toHaveBeenCalled();
+    });
+
+    it('should reject a status going backwards', async () => {
+      const message = sentMessage();
+      message.acknowledge('user2', MessageDeliveryStatus.READ);
+      messageRepository.findById.mockResolvedValue(message);
+
+      await expect(
+        service.acknowledgeDelivery(
+          'msg1',
+          'user2',
+          MessageDeliveryStatus.DELIVERED,
+        ),
+      ).rejects.toThrow(InvalidStateTransitionError);
+      expect(messageRepository.updateRecipientDelivery).not.toHaveBeenCalled();
+    });
+
+    it('should reject users who are not recipients', async () => {
+      messageRepository.findById.mockResolvedValue(sentMessage());
+
+      await expect(
+        service.acknowledgeDelivery(
+          'msg1',
+          'user1',
+          MessageDeliveryStatus.READ,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should report a concurrent change of the recipient', async () => {
+      messageRepository.findById.mockResolvedValue(sentMessage());
+      messageRepository.updateRecipientDelivery.mockResolvedValue(null);
+
+      await expect(
+        service.acknowledgeDelivery(
+          'msg1',
+          'user2',
+          MessageDeliveryStatus.READ,
+        ),
+      ).rejects.toThrow(ConflictException);
+      expect(kafkaProducer.publishMessageStatusChanged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReplies', () => {
+    it('should return replies of an existing message', async () => {
+      const parent = Message.create({
+        id: 'parent1',
+        conversationId: 'conv1',
+        senderId: 'user2',
+        content: 'Parent',
+        tenantId: 'tenant123',
+      });
+      const replies = [
+        parent.reply({ id: 'r1', senderId: 'user1', content: 'Reply' }),
+      ];
+      messageRepository.findById.mockResolvedValue(parent);
+      messageRepository.findByParentId.mockResolvedValue({
+        messages: replies,
+        total: 1,
+      });
+
+      const result = await service.getReplies('parent1', {
+        page: 1,
+        limit: 10,
+      });
+
+      expect(messageRepository.findByParentId).toHaveBeenCalledWith(
+        'parent1',
+        'tenant123',
+        { page: 1, limit: 10 },
+      );
+      expect(result).toEqual({ messages: replies, total: 1 });
+    });
+
+    it('should return null if the parent message does not exist', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.getReplies('missing', {
+        page: 1,
+        limit: 10,
+      });
+
+      expect(result).toBeNull();
+      expect(messageRepository.findByParentId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reactions', () => {
+    const reactedMessage = () =>
+      Message.fromDatabase({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+        timestamp: new Date(),
+        reactions: [
+          { emoji: '👍', userId: 'user2', reactedAt: new Date() },
+          { emoji: '👍', userId: 'user3', reactedAt: new Date() },
+        ],
+      });
+
+    it('should add a reaction and publish an event', async () => {
+      messageRepository.addReaction.mockResolvedValue(true);
+      messageRepository.findById.mockResolvedValue(reactedMessage());
+
+      const result = await service.addReaction('msg1', '👍', 'user3');
+
+      expect(messageRepository.addReaction).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        '👍',
+        'user3',
+      );
+      expect(kafkaProducer.publishReactionAdded).toHaveBeenCalledWith({
+        id: 'msg1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+        emoji: '👍',
+        userId: 'user3',
+        reactions: [{ emoji: '👍', count: 2, userIds: ['user2', 'user3'] }],
+      });
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'message:tenant123:msg1',
+      );
+      expect(result?.reactions).toHaveLength(2);
+    });
+
+    it('should not publish when the reaction already exists', async () => {
+      messageRepository.addReaction.mockResolvedValue(false);
+      messageRepository.findById.mockResolvedValue(reactedMessage());
+
+      await service.addReaction('msg1', '👍', 'user2');
+
+      expect(kafkaProducer.publishReactionAdded).not.toHaveBeenCalled();
+    });
+
+    it('should remove a reaction and publish an event', async () => {
+      messageRepository.removeReaction.mockResolvedValue(true);
+      messageRepository.findById.mockResolvedValue(reactedMessage());
+
+      await service.removeReaction('msg1', '👍', 'user4');
+
+      expect(kafkaProducer.publishReactionRemoved).toHaveBeenCalled();
+    });
+
+    it('should return null if message not found', async () => {
+      messageRepository.addReaction.mockResolvedValue(false);
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.addReaction('missing', '👍', 'user2');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getMessageById', () => {
+    it('should return a message if found', async () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+        metadata: {},
+      });
+
+      mockCacheManager.get.mockResolvedValue(null);
+      messageRepository.findById.mockResolvedValue(message);
+
+      const result = await service.getMessageById('msg1');
+
+      expect(messageRepository.findById).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+      );
+      expect(result).toEqual(message);
+    });
+
+    it('should return cached message if available', async () => {
+      const cachedMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+        metadata: {},
+      });
+
+      // The cache holds the fields of the message, not the entity
+      mockCacheManager.get.mockResolvedValue({ ...cachedMessage });
+
+      const result = await service.getMessageById('msg1');
+
+      expect(messageRepository.findById).not.toHaveBeenCalled();
+      expect(result).toBeInstanceOf(Message);
+      expect(result).toEqual(cachedMessage);
+    });
+
+    it('should return null if message not found', async () => {
+      mockCacheManager.get.mockResolvedValue(null);
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.getMessageById('non-existent');
+
+      expect(result).toBeNull();
+    });
+
+    it('should not return a cached message that has expired', async () => {
+      const cachedMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      // Redis returns dates as strings
+      mockCacheManager.get.mockResolvedValue(
+        JSON.parse(JSON.stringify(cachedMessage)),
+      );
+
+      const result = await service.getMessageById('msg1');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('expireMessage', () => {
+    const buildExpiredMessage = () =>
+      Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+        parentMessageId: 'root',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+    beforeEach(() => {
+      messageRepository.delete.mockResolvedValue(true);
+    });
+
+    it('should remove the message with its history and pin and publish an event', async () => {
+      const message = buildExpiredMessage();
+
+      await service.expireMessage(message);
+
+      expect(pinService.removePinOfMessage).toHaveBeenCalledWith(
+        message,
+        'user1',
+      );
+      expect(messageRevisionRepository.deleteByMessageId).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+      );
+      expect(messageRepository.delete).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+      );
+      expect(messageRepository.incrementReplyCount).toHaveBeenCalledWith(
+        'root',
+        'tenant123',
+        -1,
+      );
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'message:tenant123:msg1',
+      );
+      expect(kafkaProducer.publishMessageExpired).toHaveBeenCalledWith({
+        id: 'msg1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+        expiresAt: message.expiresAt,
+      });
+    });
+
+    it('should not adjust the reply count of a deleted message again', async () => {
+      const message = buildExpiredMessage();
+      message.softDelete('user1');
+
+      await service.expireMessage(message);
+
+      expect(messageRepository.delete).toHaveBeenCalled();
+      expect(messageRepository.incrementReplyCount).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageExpired).toHaveBeenCalled();
+    });
+
+    it('should leave a message another instance expired first alone', async () => {
+      messageRepository.delete.mockResolvedValue(false);
+
+      await service.expireMessage(buildExpiredMessage());
+
+      expect(messageRepository.incrementReplyCount).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageExpired).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMessage', () => {
+    it('should replace the body and the text of a structured message', async () => {
+      const existingMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Build #42',
+        contentType: MessageContentType.CARD,
+        body: { title: 'Build #42' },
+        tenantId: 'tenant123',
+      });
+      messageRepository.findById.mockResolvedValue(existingMessage);
+      messageRepository.update.mockImplementation((m) => Promise.resolve(m));
+
+      const result = await service.updateMessage(
+        'msg1',
+        {
+          contentType: MessageContentType.CARD,
+          body: { title: 'Build #42', text: 'Deployed' },
+        },
+        'user1',
+      );
+
+      expect(result).toMatchObject({
+        content: 'Build #42\nDeployed',
+        body: { title: 'Build #42', text: 'Deployed' },
+        revision: 2,
+      });
+    });
+
+    it('should not change the content type of a message', async () => {
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          tenantId: 'tenant123',
+        }),
+      );
+
+      await expect(
+        service.updateMessage(
+          'msg1',
+          { contentType: MessageContentType.MARKDOWN, content: '**Hello**' },
+          'user1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should update content and metadata', async () => {
+      const existingMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Old content',
+        tenantId: 'tenant123',
+        metadata: {},
+      });
+
+      const updateDto: UpdateMessageDto = {
+        content: 'New content',
+        metadata: { updated: true },
+      };
+
+      messageRepository.findById.mockResolvedValue(existingMessage);
+      messageRepository.update.mockResolvedValue(existingMessage);
+
+      const result = await service.updateMessage('msg1', updateDto, 'user1');
+
+      expect(existingMessage.content).toBe('New content');
+      expect(existingMessage.metadata).toEqual({ updated: true });
+      expect(messageRepository.update).toHaveBeenCalledWith(existingMessage);
+      expect(kafkaProducer.publishMessageUpdated).toHaveBeenCalledWith(
+        existingMessage,
+      );
+      expect(result).toEqual(existingMessage);
+      expect(result?.revision).toBe(2);
+    });
+
+    it('should re-resolve mentions when the content changes', async () => {
+      const existingMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hi @user2',
+        tenantId: 'tenant123',
+      });
+      existingMessage.resolveMentions(['user1', 'user2']);
+
+      messageRepository.findById.mockResolvedValue(existingMessage);
+      messageRepository.update.mockImplementation((m) => Promise.resolve(m));
+
+      const result = await service.updateMessage(
+        'msg1',
+        { content: 'Hi @user1' },
+        'user1',
+      );
+
+      expect(conversationService.getConversationById).toHaveBeenCalledWith(
+        'conv1',
+      );
+      expect(result?.mentionedUserIds).toEqual(['user1']);
+    });
+
+    it('should store the previous version as a revision', async () => {
+      const existingMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Old content',
+        tenantId: 'tenant123',
+      });
+
+      messageRepository.findById.mockResolvedValue(existingMessage);
+      messageRepository.update.mockResolvedValue(existingMessage);
+
+      await service.updateMessage('msg1', { content: 'New content' }, 'user2');
+
+      expect(messageRevisionRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messageId: 'msg1',
+          revision: 1,
+          content: 'Old content',
+          editorId: 'user2',
+          diff: { content: { before: 'Old content', after: 'New content' } },
+        }),
+      );
+    });
+
+    it('should not write or publish an update that changes nothing', async () => {
+      const existingMessage = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Same content',
+        tenantId: 'tenant123',
+      });
+
+      messageRepository.findById.mockResolvedValue(existingMessage);
+
+      const result = await service.updateMessage(
+        'msg1',
+        { content: 'Same content' },
+        'user1',
+      );
+
+      expect(result).toBe(existingMessage);
+      expect(messageRevisionRepository.save).not.toHaveBeenCalled();
+      expect(messageRepository.update).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageUpdated).not.toHaveBeenCalled();
+    });
+
+    describe('with an expected version', () => {
+      const storedMessage = () =>
+        Message.fromDatabase({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Old content',
+          tenantId: 'tenant123',
+          timestamp: new Date(),
+          version: 3,
+        });
+
+      it('should update the message at that version', async () => {
+        messageRepository.findById.mockResolvedValue(storedMessage());
+        messageRepository.update.mockImplementation((m) =>
+          Promise.resolve(Message.fromDatabase({ ...m, version: 4 })),
+        );
+
+        const result = await service.updateMessage(
+          'msg1',
+          { content: 'New content' },
+          'user2',
+          3,
+        );
+
+        expect(messageRepository.update).toHaveBeenCalledWith(
+          expect.objectContaining({ content: 'New content', version: 3 }),
+        );
+        expect(result?.version).toBe(4);
+      });
+
+      it('should reject an update of another version', async () => {
+        messageRepository.findById.mockResolvedValue(storedMessage());
+
+        await expect(
+          service.updateMessage('msg1', { content: 'New content' }, 'user2', 2),
+        ).rejects.toThrow(PreconditionFailedException);
+        expect(messageRevisionRepository.save).not.toHaveBeenCalled();
+        expect(messageRepository.update).not.toHaveBeenCalled();
+      });
+
+      it('should reject an update losing to a concurrent change', async () => {
+        messageRepository.findById.mockResolvedValue(storedMessage());
+        messageRepository.update.mockResolvedValue(null);
+
+        await expect(
+          service.updateMessage('msg1', { content: 'New content' }, 'user2', 3),
+        ).rejects.toThrow(PreconditionFailedException);
+        // The revision of the lost edit is not kept
+        expect(messageRevisionRepository.delete).toHaveBeenCalledWith(
+          expect.objectContaining({ messageId: 'msg1', revision: 1 }),
+        );
+        expect(kafkaProducer.publishMessageUpdated).not.toHaveBeenCalled();
+      });
+
+      it('should reject a delete of another version', async () => {
+        messageRepository.findById.mockResolvedValue(storedMessage());
+
+        await expect(service.deleteMessage('msg1', 'user2', 2)).rejects.toThrow(
+          PreconditionFailedException,
+        );
+        expect(messageRepository.softDelete).not.toHaveBeenCalled();
+        expect(pinService.removePinOfMessage).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should report a concurrent edit of the same revision', async () => {
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Old content',
+          tenantId: 'tenant123',
+        }),
+      );
+      messageRevisionRepository.save.mockResolvedValue(null);
+
+      await expect(
+        service.updateMessage('msg1', { content: 'New content' }, 'user2'),
+      ).rejects.toThrow(ConflictException);
+      expect(messageRepository.update).not.toHaveBeenCalled();
+      expect(messageRevisionRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return null if message does not exist', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.updateMessage(
+        'msg1',
+        {
+          content: 'New content',
+        },
+        'user1',
+      );
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getRevisions', () => {
+    it('should return the revisions of an existing message', async () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Old content',
+        tenantId: 'tenant123',
+      });
+      const revision = message.edit({ content: 'New content' }, 'user1');
+      messageRepository.findById.mockResolvedValue(message);
+      messageRevisionRepository.findByMessageId.mockResolvedValue({
+        revisions: revision ? [revision] : [],
+        total: 1,
+      });
+
+      const result = await service.getRevisions('msg1', 'user1', {
+        page: 1,
+        limit: 10,
+      });
+
+      expect(messageRevisionRepository.findByMessageId).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        { page: 1, limit: 10 },
+      );
+      expect(result?.total).toBe(1);
+      expect(result?.revisions[0].content).toBe('Old content');
+    });
+
+    it('should return null if message does not exist', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.getRevisions('missing', 'user1', {
+        page: 1,
+        limit: 10,
+      });
+
+      expect(result).toBeNull();
+      expect(messageRevisionRepository.findByMessageId).not.toHaveBeenCalled();
+    });
+
+    it('should hide the revisions of a held message from other users', async () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+      });
+      message.holdForReview([{ rule: 'links', action: ModerationAction.FLAG }]);
+      messageRepository.findById.mockResolvedValue(message);
+
+      const result = await service.getRevisions('msg1', 'user2', {
+        page: 1,
+        limit: 10,
+      });
+
+      expect(result).toBeNull();
+      expect(messageRevisionRepository.findByMessageId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should delete a message and publish event', async () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+        metadata: {},
+      });
+
+      messageRepository.findById.mockResolvedValue(message);
+      messageRepository.softDelete.mockResolvedValue(true);
+
+      const result = await service.deleteMessage('msg1', 'user2');
+
+      expect(messageRepository.softDelete).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'msg1', deletedBy: 'user2' }),
+        undefined,
+      );
+      expect(messageRepository.delete).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageDeleted).toHaveBeenCalledWith({
+        id: 'msg1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+        deletedAt: message.deletedAt,
+        deletedBy: 'user2',
+      });
+      expect(readStateService.invalidateUnreadCounts).toHaveBeenCalledWith(
+        'conv1',
+        ['user1', 'user2'],
+      );
+      expect(pinService.removePinOfMessage).toHaveBeenCalledWith(
+        message,
+        'user2',
+      );
+      expect(result).toBe(true);
+    });
+
+    it('should decrement the reply count of the parent of a deleted reply', async () => {
+      const parent = Message.create({
+        id: 'root',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Root',
+        tenantId: 'tenant123',
+      });
+      const reply = parent.reply({
+        id: 'msg1',
+        senderId: 'user2',
+        content: 'Reply',
+      });
+
+      messageRepository.findById.mockResolvedValue(reply);
+      messageRepository.softDelete.mockResolvedValue(true);
+
+      await service.deleteMessage('msg1', 'user2');
+
+      expect(messageRepository.incrementReplyCount).toHaveBeenCalledWith(
+        'root',
+        'tenant123',
+        -1,
+      );
+    });
+
+    it('should return false if message not found', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.deleteMessage('notfound', 'user1');
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('restoreMessage', () => {
+    const buildDeletedMessage = (deletedAt: Date) => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello',
+        tenantId: 'tenant123',
+      });
+      message.softDelete('user1');
+      message.deletedAt = deletedAt;
+      return message;
+    };
+
+    it('should restore a message within the restore window', async () => {
+      messageRepository.findById.mockResolvedValue(
+        buildDeletedMessage(new Date()),
+      );
+      messageRepository.restore.mockResolvedValue(true);
+
+      const result = await service.restoreMessage('msg1');
+
+      expect(messageRepository.findById).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        { includeDeleted: true },
+      );
+      expect(messageRepository.restore).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+      );
+      expect(result?.isDeleted()).toBe(false);
+      expect(kafkaProducer.publishMessageRestored).toHaveBeenCalledWith(result);
+    });
+
+    it('should reject a restore after the restore window', async () => {
+      messageRepository.findById.mockResolvedValue(
+        buildDeletedMessage(new Date(Date.now() - 7200 * 1000)),
+      );
+
+      await expect(service.restoreMessage('msg1')).rejects.toThrow(
+        GoneException,
+      );
+      expect(messageRepository.restore).not.toHaveBeenCalled();
+    });
+
+    it('should reject a restore of a message that is not deleted', async () => {
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          tenantId: 'tenant123',
+        }),
+      );
+
+      await expect(service.restoreMessage('msg1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should return null if message not found', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.restoreMessage('notfound');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('moderation', () => {
+    const flagged = {
+      flagged: true,
+      reasons: [{ rule: 'links', action: ModerationAction.FLAG }],
+    };
+
+    const buildHeldMessage = () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'See http://example.com',
+        tenantId: 'tenant123',
+      });
+      message.holdForReview(flagged.reasons);
+      return message;
+    };
+
+    beforeEach(() => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+      messageRepository.update.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+    });
+
+    it('should store the masked content of a message', async () => {
+      moderationService.moderate.mockReturnValue({
+        text: 'Hello ****',
+        flagged: false,
+        reasons: [{ rule: 'profanity', action: ModerationAction.MASK }],
+      });
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Hello darn',
+      });
+
+      expect(moderationService.moderate).toHaveBeenCalledWith(
+        'tenant123',
+        'Hello darn',
+        { canMask: true },
+      );
+      expect(result.content).toBe('Hello ****');
+      expect(result.moderation).toBeUndefined();
+      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(result);
+    });
+
+    it('should moderate the rendered text of a structured message without masking it', async () => {
+      await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: '',
+        contentType: MessageContentType.CARD,
+        body: { title: 'Build #42', text: 'Deployed' },
+      });
+
+      expect(moderationService.moderate).toHaveBeenCalledWith(
+        'tenant123',
+        'Build #42\nDeployed',
+        { canMask: false },
+      );
+    });
+
+    it('should not save a message rejected by a rule', async () => {
+      moderationService.moderate.mockImplementation(() => {
+        throw new UnprocessableEntityException(
+          'Message rejected by moderation rule "profanity"',
+        );
+      });
+
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello darn',
+        }),
+      ).rejects.toThrow(UnprocessableEntityException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should hold a flagged message without announcing it', async () => {
+      moderationService.moderate.mockImplementation((_tenantId, text) => ({
+        text,
+        ...flagged,
+      }));
+
+      const result = await service.createMessage(
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'See http://example.com',
+        },
+        { draftOf: 'user1' },
+      );
+
+      expect(result.moderation).toMatchObject({
+        status: ModerationStatus.PENDING,
+        reasons: flagged.reasons,
+      });
+      expect(result.deliveryStatus).toBe(MessageDeliveryStatus.PENDING);
+      expect(draftService.clearDraft).toHaveBeenCalledWith('conv1', 'user1');
+      expect(kafkaProducer.publishMessageCreated).not.toHaveBeenCalled();
+      expect(conversationService.recordMessageActivity).not.toHaveBeenCalled();
+      expect(readStateService.invalidateUnreadCounts).not.toHaveBeenCalled();
+      expect(mockCacheManager.set).not.toHaveBeenCalled();
+    });
+
+    it('should hold a flagged edit without publishing it', async () => {
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          tenantId: 'tenant123',
+        }),
+      );
+      moderationService.moderate.mockImplementation((_tenantId, text) => ({
+        text,
+        ...flagged,
+      }));
+
+      const result = await service.updateMessage(
+        'msg1',
+        { content: 'See http://example.com' },
+        'user1',
+      );
+
+      expect(result?.isHiddenByModeration()).toBe(true);
+      expect(messageRepository.update).toHaveBeenCalledWith(result);
+      expect(kafkaProducer.publishMessageUpdated).not.toHaveBeenCalled();
+    });
+
+    it('should only show a held message to its sender', async () => {
+      mockCacheManager.get.mockResolvedValue(null);
+      messageRepository.findById.mockResolvedValue(buildHeldMessage());
+
+      expect(await service.getMessageById('msg1', 'user2')).toBeNull();
+      expect(await service.getMessageById('msg1', 'user1')).not.toBeNull();
+    });
+
+    it('should list the moderation queue of the tenant', async () => {
+      messageRepository.findHeldForReview.mockResolvedValue({
+        messages: [buildHeldMessage()],
+        total: 1,
+      });
+
+      const result = await service.getModerationQueue({ page: 1, limit: 10 });
+
+      expect(result.total).toBe(1);
+      expect(messageRepository.findHeldForReview).toHaveBeenCalledWith(
+        'tenant123',
+        { page: 1, limit: 10 },
+      );
+    });
+
+    it('should announce a held message once it is approved', async () => {
+      messageRepository.findById.mockResolvedValue(buildHeldMessage());
+
+      const result = await service.reviewMessage(
+        'msg1',
+        ModerationStatus.APPROVED,
+        'mod1',
+      );
+
+      expect(result?.moderation).toMatchObject({
+        status: ModerationStatus.APPROVED,
+        reviewedBy: 'mod1',
+      });
+      expect(messageRepository.update).toHaveBeenCalledWith(result);
+      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(result);
+      expect(conversationService.recordMessageActivity).toHaveBeenCalledWith(
+        'conv1',
+        result?.timestamp,
+      );
+      expect(result?.deliveryStatus).toBe(MessageDeliveryStatus.SENT);
+    });
+
+    it('should keep a rejected message hidden', async () => {
+      messageRepository.findById.mockResolvedValue(buildHeldMessage());
 
-    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
-  });
+      const result = await service.reviewMessage(
+        'msg1',
+        ModerationStatus.REJECTED,
+        'mod1',
+      );
 
-  afterEach(() => {
-    jest.clearAllMocks();
-  });
+      expect(result?.isHiddenByModeration()).toBe(true);
+      expect(kafkaProducer.publishMessageCreated).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageUpdated).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageRejected).not.toHaveBeenCalled();
+    });
 
-  describe('createMessage', () => {
-    it('should create, save, and publish a new message', async () => {
-      const createDto: CreateMessageDto = {
-        conversationId: 'conv1',
-        senderId: 'user1',
-        content: 'Hello world',
-        metadata: { important: true },
-      };
+    it('should take a rejected edit out of the search index', async () => {
+      const message = buildHeldMessage();
+      message.markSent(['user2']);
+      messageRepository.findById.mockResolvedValue(message);
 
-      const savedMessage = Message.create({
+      await service.reviewMessage('msg1', ModerationStatus.REJECTED, 'mod1');
+
+      expect(kafkaProducer.publishMessageRejected).toHaveBeenCalledWith({
         id: 'msg1',
-        conversationId: createDto.conversationId,
-        senderId: createDto.senderId,
-        content: createDto.content,
+        conversationId: 'conv1',
         tenantId: 'tenant123',
-        metadata: createDto.metadata,
       });
+      expect(kafkaProducer.publishMessageUpdated).not.toHaveBeenCalled();
+    });
 
-      messageRepository.save.mockResolvedValue(savedMessage);
+    it('should publish an approved edit as an update', async () => {
+      const message = buildHeldMessage();
+      message.markSent(['user2']);
+      messageRepository.findById.mockResolvedValue(message);
 
-      const result = await service.createMessage(createDto);
+      const result = await service.reviewMessage(
+        'msg1',
+        ModerationStatus.APPROVED,
+        'mod1',
+      );
 
-      expect(messageRepository.save).toHaveBeenCalled();
-      expect(kafkaProducer.publishMessageCreated).toHaveBeenCalledWith(
-        savedMessage,
+      expect(kafkaProducer.publishMessageUpdated).toHaveBeenCalledWith(result);
+      expect(kafkaProducer.publishMessageCreated).not.toHaveBeenCalled();
+    });
+
+    it('should only review a message waiting for review', async () => {
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          tenantId: 'tenant123',
+        }),
       );
-      expect(result).toEqual(savedMessage);
+
+      await expect(
+        service.reviewMessage('msg1', ModerationStatus.APPROVED, 'mod1'),
+      ).rejects.toThrow(InvalidStateTransitionError);
+      expect(messageRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should return null when reviewing a message that does not exist', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      const result = await service.reviewMessage(
+        'notfound',
+        ModerationStatus.REJECTED,
+        'mod1',
+      );
+
+      expect(result).toBeNull();
     });
   });
 
-  describe('getMessageById', () => {
-    it('should return a message if found', async () => {
+  describe('redaction', () => {
+    const original = { iv: 'aXY=', tag: 'dGFn', data: 'ZGF0YQ==' };
+
+    beforeEach(() => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+      messageRepository.update.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+    });
+
+    it('should store and moderate the redacted content of a message', async () => {
+      redactionService.redactForStorage.mockReturnValue({
+        content: 'Mail me at [redacted email]',
+        body: undefined,
+        redaction: { detected: [PiiType.EMAIL], original },
+      });
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Mail me at jane@example.com',
+      });
+
+      expect(redactionService.redactForStorage).toHaveBeenCalledWith(
+        'tenant123',
+        { content: 'Mail me at jane@example.com', body: undefined },
+      );
+      expect(moderationService.moderate).toHaveBeenCalledWith(
+        'tenant123',
+        'Mail me at [redacted email]',
+        { canMask: true },
+      );
+      expect(result.content).toBe('Mail me at [redacted email]');
+      expect(result.redaction).toEqual({
+        detected: [PiiType.EMAIL],
+        original,
+      });
+      expect(messageRepository.save).toHaveBeenCalledWith(result);
+    });
+
+    it('should keep the redaction of a scheduled message when it is sent', async () => {
+      const redaction = { detected: [PiiType.EMAIL], original };
+
+      const result = await service.createMessage(
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Mail me at [redacted email]',
+        },
+        { id: 'msg1', redaction },
+      );
+
+      expect(result.content).toBe('Mail me at [redacted email]');
+      expect(result.redaction).toEqual(redaction);
+    });
+
+    it('should redact an edit together with the kept original of the message', async () => {
       const message = Message.create({
         id: 'msg1',
         conversationId: 'conv1',
         senderId: 'user1',
-        content: 'Hello',
+        content: 'Mail me at [redacted email]',
         tenantId: 'tenant123',
-        metadata: {},
       });
-
-      mockCacheManager.get.mockResolvedValue(null);
+      message.redaction = { detected: [PiiType.EMAIL], original };
       messageRepository.findById.mockResolvedValue(message);
+      redactionService.decryptOriginal.mockReturnValue({
+        content: 'Mail me at jane@example.com',
+      });
 
-      const result = await service.getMessageById('msg1');
-
-      expect(messageRepository.findById).toHaveBeenCalledWith(
+      const result = await service.updateMessage(
         'msg1',
+        { content: 'Call me instead' },
+        'user1',
+      );
+
+      expect(redactionService.redactForStorage).toHaveBeenCalledWith(
         'tenant123',
+        { content: 'Call me instead', body: undefined },
       );
-      expect(result).toEqual(message);
+      expect(result?.content).toBe('Call me instead');
+      expect(result?.redaction).toBeUndefined();
+      expect(messageRepository.update).toHaveBeenCalledWith(result);
     });
 
-    it('should return cached message if available', async () => {
-      const cachedMessage = Message.create({
+    it('should return the original content of a redacted message', async () => {
+      const message = Message.create({
         id: 'msg1',
         conversationId: 'conv1',
         senderId: 'user1',
-        content: 'Hello',
+        content: 'Mail me at [redacted email]',
         tenantId: 'tenant123',
-        metadata: {},
+      });
+      message.redaction = { detected: [PiiType.EMAIL], original };
+      messageRepository.findById.mockResolvedValue(message);
+      redactionService.decryptOriginal.mockReturnValue({
+        content: 'Mail me at jane@example.com',
       });
 
-      mockCacheManager.get.mockResolvedValue(cachedMessage);
-
-      const result = await service.getMessageById('msg1');
+      const result = await service.getOriginalContent('msg1', 'auditor1');
 
-      expect(messageRepository.findById).not.toHaveBeenCalled();
-      expect(result).toEqual(cachedMessage);
+      expect(result).toEqual({ content: 'Mail me at jane@example.com' });
+      expect(redactionService.decryptOriginal).toHaveBeenCalledWith(original);
     });
 
-    it('should return null if message not found', async () => {
-      mockCacheManager.get.mockResolvedValue(null);
-      messageRepository.findById.mockResolvedValue(null);
+    it('should return null if the original of a message was not kept', async () => {
+      const message = Message.create({
+        id: 'msg1',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Mail me at [redacted email]',
+        tenantId: 'tenant123',
+      });
+      message.redaction = { detected: [PiiType.EMAIL] };
+      messageRepository.findById.mockResolvedValue(message);
 
-      const result = await service.getMessageById('non-existent');
+      const result = await service.getOriginalContent('msg1', 'auditor1');
 
       expect(result).toBeNull();
+      expect(redactionService.decryptOriginal).not.toHaveBeenCalled();
     });
   });
 
-  describe('updateMessage', () => {
-    it('should update content and metadata', async () => {
-      const existingMessage = Message.create({
-        id: 'msg1',
+  describe('templates', () => {
+    const template = Template.create({
+      id: 'tmpl1',
+      tenantId: 'tenant123',
+      name: 'Refund confirmation',
+      content: '**Hi {{ firstName }}**',
+      contentType: MessageContentType.MARKDOWN,
+    });
+
+    beforeEach(() => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+      templateService.renderTemplate.mockResolvedValue({
+        template,
+        content: '**Hi Jane**',
+      });
+    });
+
+    it('should create a message from a template and record the template', async () => {
+      const result = await service.createMessage({
         conversationId: 'conv1',
         senderId: 'user1',
-        content: 'Old content',
-        tenantId: 'tenant123',
-        metadata: {},
+        templateId: 'tmpl1',
+        variables: { firstName: 'Jane' },
       });
 
-      const updateDto: UpdateMessageDto = {
-        content: 'New content',
-        metadata: { updated: true },
-      };
-
-      messageRepository.findById.mockResolvedValue(existingMessage);
-      messageRepository.update.mockResolvedValue(existingMessage);
+      expect(templateService.renderTemplate).toHaveBeenCalledWith('tmpl1', {
+        firstName: 'Jane',
+      });
+      expect(result.content).toBe('**Hi Jane**');
+      expect(result.contentType).toBe(MessageContentType.MARKDOWN);
+      expect(result.templateId).toBe('tmpl1');
+      expect(moderationService.moderate).toHaveBeenCalledWith(
+        'tenant123',
+        '**Hi Jane**',
+        { canMask: true },
+      );
+    });
 
-      const result = await service.updateMessage('msg1', updateDto);
+    it('should not combine a template with content', async () => {
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          templateId: 'tmpl1',
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'A message created from a template cannot have content, contentType or body',
+        ),
+      );
+      expect(templateService.renderTemplate).not.toHaveBeenCalled();
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
 
-      expect(existingMessage.content).toBe('New content');
-      expect(existingMessage.metadata).toEqual({ updated: true });
-      expect(messageRepository.update).toHaveBeenCalledWith(existingMessage);
-      expect(kafkaProducer.publishMessageUpdated).toHaveBeenCalledWith(
-        existingMessage,
+    it('should reject variables without a template', async () => {
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          variables: { firstName: 'Jane' },
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'variables can only be given together with templateId',
+        ),
       );
-      expect(result).toEqual(existingMessage);
     });
 
-    it('should return null if message does not exist', async () => {
-      messageRepository.findById.mockResolvedValue(null);
+    it('should not save a message whose variables do not match the template', async () => {
+      templateService.renderTemplate.mockRejectedValue(
+        new BadRequestException(
+          'Missing values for template variables: firstName',
+        ),
+      );
 
-      const result = await service.updateMessage('msg1', {
-        content: 'New content',
-      });
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          templateId: 'tmpl1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
 
-      expect(result).toBeNull();
+    it('should record the template of a scheduled message when it is sent', async () => {
+      const result = await service.createMessage(
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: '**Hi Jane**',
+          contentType: MessageContentType.MARKDOWN,
+        },
+        { id: 'msg1', templateId: 'tmpl1' },
+      );
+
+      expect(templateService.renderTemplate).not.toHaveBeenCalled();
+      expect(result.templateId).toBe('tmpl1');
     });
   });
 
-  describe('deleteMessage', () => {
-    it('should delete a message and publish event', async () => {
-      const message = Message.create({
-        id: 'msg1',
+  describe('polls', () => {
+    const closesAt = new Date(Date.now() + 3600 * 1000);
+    const pollMessage = (
+      votes: { userId: string; optionIndexes: number[] }[] = [],
+      props: Record<string, any> = {},
+    ) =>
+      Message.fromDatabase({
+        id: 'poll1',
         conversationId: 'conv1',
         senderId: 'user1',
-        content: 'Hello',
+        content: 'Lunch?',
+        contentType: MessageContentType.POLL,
+        body: {
+          question: 'Lunch?',
+          options: ['Pizza', 'Sushi', 'Salad'],
+          closesAt: closesAt.toISOString(),
+        },
         tenantId: 'tenant123',
-        metadata: {},
+        timestamp: new Date(),
+        pollVotes: votes.map((vote) => ({ ...vote, votedAt: new Date() })),
+        pollClosesAt: closesAt,
+        ...props,
       });
 
-      messageRepository.findById.mockResolvedValue(message);
+    it('should take the closing time of a new poll from its body', async () => {
+      messageRepository.save.mockImplementation((message) =>
+        Promise.resolve(message),
+      );
+
+      const result = await service.createMessage({
+        conversationId: 'conv1',
+        senderId: 'user1',
+        contentType: MessageContentType.POLL,
+        body: {
+          question: 'Lunch?',
+          options: ['Pizza', 'Sushi'],
+          closesAt: closesAt.toISOString(),
+        },
+      });
 
-      const result = await service.deleteMessage('msg1');
+      expect(result.pollClosesAt).toEqual(closesAt);
+      expect(Message.tallyPoll(result)).toEqual({
+        tallies: [
+          { option: 'Pizza', votes: 0 },
+          { option: 'Sushi', votes: 0 },
+        ],
+        totalVoters: 0,
+        closesAt,
+        closedAt: undefined,
+        closed: false,
+      });
+    });
 
-      expect(messageRepository.delete).toHaveBeenCalledWith(
-        'msg1',
+    it('should reject a poll closing before it is sent', async () => {
+      await expect(
+        service.createMessage({
+          conversationId: 'conv1',
+          senderId: 'user1',
+          contentType: MessageContentType.POLL,
+          body: {
+            question: 'Lunch?',
+            options: ['Pizza', 'Sushi'],
+            closesAt: '2020-01-01T00:00:00Z',
+          },
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'closesAt of a poll must be after the time the message is sent',
+        ),
+      );
+      expect(messageRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should record a vote and publish the tallies', async () => {
+      messageRepository.findById
+        .mockResolvedValueOnce(
+          pollMessage([{ userId: 'user1', optionIndexes: [1] }]),
+        )
+        .mockResolvedValueOnce(
+          pollMessage([
+            { userId: 'user1', optionIndexes: [1] },
+            { userId: 'user2', optionIndexes: [1] },
+          ]),
+        );
+      messageRepository.castVote.mockResolvedValue(true);
+
+      const result = await service.castVote('poll1', [1], 'user2');
+
+      expect(messageRepository.castVote).toHaveBeenCalledWith(
+        'poll1',
         'tenant123',
+        'user2',
+        [1],
+        expect.any(Date),
       );
-      expect(kafkaProducer.publishMessageDeleted).toHaveBeenCalledWith({
-        id: 'msg1',
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'message:tenant123:poll1',
+      );
+      expect(kafkaProducer.publishPollVoted).toHaveBeenCalledWith({
+        id: 'poll1',
         conversationId: 'conv1',
         tenantId: 'tenant123',
+        userId: 'user2',
+        optionIndexes: [1],
+        results: {
+          tallies: [
+            { option: 'Pizza', votes: 0 },
+            { option: 'Sushi', votes: 2 },
+            { option: 'Salad', votes: 0 },
+          ],
+          totalVoters: 2,
+          closesAt,
+          closedAt: undefined,
+          closed: false,
+        },
       });
-      expect(result).toBe(true);
+      expect(result?.pollVotes).toHaveLength(2);
     });
 
-    it('should return false if message not found', async () => {
+    it.each([
+      [
+        'several options in a single-choice poll',
+        [0, 1],
+        'Poll "poll1" allows a single option to be chosen',
+      ],
+      [
+        'an option that does not exist',
+        [3],
+        'Poll "poll1" has no option with index 3',
+      ],
+    ])('should reject %s', async (_description, optionIndexes, error) => {
+      messageRepository.findById.mockResolvedValue(pollMessage());
+
+      await expect(
+        service.castVote('poll1', optionIndexes, 'user2'),
+      ).rejects.toThrow(new BadRequestException(error));
+      expect(messageRepository.castVote).not.toHaveBeenCalled();
+    });
+
+    it('should reject a vote on a message that is not a poll', async () => {
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'msg1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Hello',
+          tenantId: 'tenant123',
+        }),
+      );
+
+      await expect(service.castVote('msg1', [0], 'user2')).rejects.toThrow(
+        new BadRequestException('Message "msg1" is not a poll'),
+      );
+    });
+
+    it('should reject a vote of a user outside the conversation', async () => {
+      messageRepository.findById.mockResolvedValue(pollMessage());
+
+      await expect(service.castVote('poll1', [0], 'user9')).rejects.toThrow(
+        new ForbiddenException(
+          'User "user9" is not a participant of conversation "conv1"',
+        ),
+      );
+      expect(messageRepository.castVote).not.toHaveBeenCalled();
+    });
+
+    it('should reject a second vote of the same user', async () => {
+      messageRepository.findById.mockResolvedValue(
+        pollMessage([{ userId: 'user2', optionIndexes: [0] }]),
+      );
+
+      await expect(service.castVote('poll1', [1], 'user2')).rejects.toThrow(
+        new ConflictException('User "user2" has already voted in poll "poll1"'),
+      );
+      expect(messageRepository.castVote).not.toHaveBeenCalled();
+    });
+
+    it('should report a concurrent vote of the same user as a second vote', async () => {
+      messageRepository.findById
+        .mockResolvedValueOnce(pollMessage())
+        .mockResolvedValueOnce(
+          pollMessage([{ userId: 'user2', optionIndexes: [0] }]),
+        );
+      messageRepository.castVote.mockResolvedValue(false);
+
+      await expect(service.castVote('poll1', [1], 'user2')).rejects.toThrow(
+        new ConflictException('User "user2" has already voted in poll "poll1"'),
+      );
+      expect(kafkaProducer.publishPollVoted).not.toHaveBeenCalled();
+    });
+
+    it('should reject a vote once the poll reached its closing time', async () => {
+      messageRepository.findById.mockResolvedValue(
+        pollMessage([], { pollClosesAt: new Date(Date.now() - 1000) }),
+      );
+
+      await expect(service.castVote('poll1', [0], 'user2')).rejects.toThrow(
+        new ConflictException('Poll "poll1" is closed'),
+      );
+      expect(messageRepository.castVote).not.toHaveBeenCalled();
+    });
+
+    it('should return null if the poll does not exist', async () => {
       messageRepository.findById.mockResolvedValue(null);
 
-      const result = await service.deleteMessage('notfound');
+      expect(await service.castVote('missing', [0], 'user2')).toBeNull();
+    });
 
-      expect(result).toBe(false);
+    it('should close a poll at its closing time and publish the final results', async () => {
+      messageRepository.closePoll.mockResolvedValue(true);
+      const poll = pollMessage([
+        { userId: 'user1', optionIndexes: [0] },
+        { userId: 'user2', optionIndexes: [2] },
+      ]);
+
+      expect(await service.closePoll(poll)).toBe(true);
+
+      expect(messageRepository.closePoll).toHaveBeenCalledWith(
+        'poll1',
+        'tenant123',
+        closesAt,
+      );
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'message:tenant123:poll1',
+      );
+      expect(kafkaProducer.publishPollClosed).toHaveBeenCalledWith({
+        id: 'poll1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+        closedAt: closesAt,
+        results: expect.objectContaining({
+          tallies: [
+            { option: 'Pizza', votes: 1 },
+            { option: 'Sushi', votes: 0 },
+            { option: 'Salad', votes: 1 },
+          ],
+          totalVoters: 2,
+          closed: true,
+        }),
+      });
+    });
+
+    it('should not announce a poll that was already closed', async () => {
+      messageRepository.closePoll.mockResolvedValue(false);
+
+      expect(await service.closePoll(pollMessage())).toBe(false);
+      expect(kafkaProducer.publishPollClosed).not.toHaveBeenCalled();
+    });
+
+    it('should not change the options of a poll that has votes', async () => {
+      messageRepository.findById.mockResolvedValue(
+        pollMessage([{ userId: 'user2', optionIndexes: [0] }]),
+      );
+
+      await expect(
+        service.updateMessage(
+          'poll1',
+          {
+            contentType: MessageContentType.POLL,
+            body: { question: 'Lunch?', options: ['Pizza', 'Tacos'] },
+          },
+          'user1',
+        ),
+      ).rejects.toThrow(
+        new ConflictException(
+          'The poll of message "poll1" cannot be changed once it has votes or is closed',
+        ),
+      );
+      expect(messageRepository.update).not.toHaveBeenCalled();
     });
   });
 
@@ -304,7 +2418,7 @@ describe('MessageApplicationService', () => {
         id: 'msg1',
         conversationId: createDto.conversationId,
         senderId: createDto.senderId,
-        content: createDto.content,
+        content: 'Hello world',
         tenantId: 'tenant123',
         metadata: createDto.metadata,
       });
@@ -333,7 +2447,7 @@ describe('MessageApplicationService', () => {
         id: 'msg1',
         conversationId: createDto.conversationId,
         senderId: createDto.senderId,
-        content: createDto.content,
+        content: 'Hello world',
         tenantId: 'tenant123',
         metadata: createDto.metadata,
       });
@@ -347,6 +2461,14 @@ describe('MessageApplicationService', () => {
 
       // Should still complete the operation even if Kafka fails
       expect(result).toEqual(savedMessage);
+      expect(result.deliveryStatus).toBe(MessageDeliveryStatus.FAILED);
+      expect(messageRepository.updateDeliveryStatus).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+        MessageDeliveryStatus.PENDING,
+        MessageDeliveryStatus.FAILED,
+        [],
+      );
     });
   });
 });
@@ -1,14 +1,73 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  GoneException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PreconditionFailedException,
+} from '@nestjs/common';
 import { v4 as uuidv4 } from 'uuid';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConfigService } from '@nestjs/config';
 import { Inject } from '@nestjs/common';
 import { Cache } from 'cache-manager';
 import { TenantContext } from '../../common/contexts/tenant.context';
+import { RedactionService } from '../../common/redaction/redaction.service';
+import {
+  RedactableContent,
+  RedactionRecord,
+} from '../../common/redaction/redaction.interface';
 import { CreateMessageDto } from '../dto/create-message.dto';
 import { UpdateMessageDto } from '../dto/update-message.dto';
-import { Message } from '../entities/message.entity';
+import { ForwardMessageDto } from '../dto/forward-message.dto';
+import {
+  BulkMessageItemDto,
+  parseBulkMessageItem,
+} from '../dto/bulk-create-messages.dto';
+import { Message, MessageForward } from '../entities/message.entity';
+import {
+  FileBody,
+  MessageBody,
+  MessageContentType,
+  PollBody,
+  isStructuredContentType,
+} from '../entities/message-content';
+import { MessageDeliveryStatus } from '../entities/message-delivery';
+import {
+  ModerationReason,
+  ModerationStatus,
+} from '../entities/message-moderation';
 import { MessageRepository } from '../repositories/mongodb-message.repository';
-import { MessageProducerService } from './message-producer.service';
+import { MessageRevisionRepository } from '../repositories/mongodb-message-revision.repository';
+import { MessageRevision } from '../entities/message-revision.entity';
+import {
+  MessageEventType,
+  MessageProducerService,
+} from './message-producer.service';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { Conversation } from '../../conversation/entities/conversation.entity';
+import { ReadStateApplicationService } from './read-state-application.service';
+import { PinApplicationService } from './pin-application.service';
+import { DraftApplicationService } from './draft-application.service';
+import { ModerationService } from './moderation.service';
+import { AttachmentApplicationService } from '../../attachment/services/attachment-application.service';
+import { TemplateApplicationService } from '../../template/services/template-application.service';
+
+/**
+ * Result of one message of a bulk creation request
+ *
+ * Carries the created message, or the reason it was not created.
+ */
+export interface BulkCreateResult {
+  /** Position of the message in the request */
+  index: number;
+  message?: Message;
+  error?: string;
+}
 
 /**
  * Message Application Service
@@ -31,12 +90,46 @@ export class MessageApplicationService {
   private readonly MESSAGE_CACHE_TTL = 3600; // 1 hour
   private readonly CONVERSATION_MESSAGES_CACHE_TTL = 300; // 5 minutes
 
+  // Number of message.created events sent to Kafka at once by bulk creation
+  private readonly BULK_PUBLISH_BATCH_SIZE = 100;
+
+  // How long after deletion a message can be restored, in seconds
+  private readonly restoreWindowSeconds: number;
+
+  // Whether updates and deletes must name the version they apply to
+  private readonly requireIfMatch: boolean;
+
+  // Maximum number of messages in a single bulk creation request
+  private readonly bulkMaxItems: number;
+
   constructor(
     private readonly messageRepository: MessageRepository,
+    private readonly messageRevisionRepository: MessageRevisionRepository,
     private readonly tenantContext: TenantContext,
     private readonly kafkaProducer: MessageProducerService,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly readStateService: ReadStateApplicationService,
+    private readonly pinService: PinApplicationService,
+    private readonly draftService: DraftApplicationService,
+    private readonly attachmentService: AttachmentApplicationService,
+    private readonly templateService: TemplateApplicationService,
+    private readonly moderationService: ModerationService,
+    private readonly redactionService: RedactionService,
+    private readonly configService: ConfigService,
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
   ) {
+    this.restoreWindowSeconds = this.configService.get<number>(
+      'messages.restoreWindowSeconds',
+      604800,
+    );
+    this.requireIfMatch = this.configService.get<boolean>(
+      'messages.requireIfMatch',
+      false,
+    );
+    this.bulkMaxItems = this.configService.get<number>(
+      'messages.bulkMaxItems',
+      500,
+    );
     this.logger.log('MessageApplicationService initialized with cache manager');
   }
 
@@ -51,6 +144,26 @@ export class MessageApplicationService {
     return `${this.MESSAGE_CACHE_KEY_PREFIX}${tenantId}:${id}`;
   }
 
+  /**
+   * Get the cache TTL of a message in milliseconds
+   *
+   * Ephemeral messages are not cached beyond their expiry.
+   *
+   * @param message The message to cache
+   * @returns The TTL, as expected by the NestJS Cache Manager
+   */
+  private getMessageCacheTtl(message: Message): number {
+    const ttl = this.MESSAGE_CACHE_TTL * 1000;
+    if (!message.expiresAt) {
+      return ttl;
+    }
+
+    return Math.max(
+      1,
+      Math.min(ttl, new Date(message.expiresAt).getTime() - Date.now()),
+    );
+  }
+
   /**
    * Generate a cache key for conversation messages with pagination
    *
@@ -112,361 +225,2307 @@ export class MessageApplicationService {
   }
 
   /**
-   * Create a new message
+   * Ensure a message is still at the version the client last read
    *
-   * @param createMessageDto DTO containing message creation data
-   * @returns Promise resolving to the created Message entity
+   * @param message The stored message
+   * @param expectedVersion The version from the `If-Match` header, if any
+   * @throws HttpException 428 if the version is required but missing
+   * @throws PreconditionFailedException if the message has changed since
    */
-  async createMessage(createMessageDto: CreateMessageDto): Promise<Message> {
-    const tenantId = this.tenantContext.getCurrentTenant();
-    this.logger.debug(`Creating message for tenant: ${tenantId}`);
+  private assertVersion(message: Message, expectedVersion?: number): void {
+    if (expectedVersion === undefined) {
+      if (this.requireIfMatch) {
+        throw new HttpException(
+          `Changes to message "${message.id}" require an If-Match header`,
+          HttpStatus.PRECONDITION_REQUIRED,
+        );
+      }
+      return;
+    }
 
-    // Create a new message entity
-    const message = Message.create({
-      id: uuidv4(),
-      conversationId: createMessageDto.conversationId,
-      senderId: createMessageDto.senderId,
-      content: createMessageDto.content,
-      tenantId,
-      metadata: createMessageDto.metadata,
-    });
+    if (message.version !== expectedVersion) {
+      throw new PreconditionFailedException(
+        `Message with ID "${message.id}" has changed since version ${expectedVersion}`,
+      );
+    }
+  }
 
-    // Save to repository
-    const savedMessage = await this.messageRepository.save(message);
+  /**
+   * Error reported when a message changed between reading and writing it
+   *
+   * @param id Message ID
+   * @param expectedVersion The version from the `If-Match` header, if any
+   */
+  private concurrentChangeError(
+    id: string,
+    expectedVersion?: number,
+  ): HttpException {
+    return expectedVersion === undefined
+      ? new ConflictException(`Message with ID "${id}" changed concurrently`)
+      : new PreconditionFailedException(
+          `Message with ID "${id}" has changed since version ${expectedVersion}`,
+        );
+  }
 
-    try {
-      // Cache the new message
-      const messageCacheKey = this.getMessageCacheKey(
-        savedMessage.id,
-        tenantId,
-      );
-      await this.cacheManager.set(
-        messageCacheKey,
-        savedMessage,
-        this.MESSAGE_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
-      );
-      this.logger.debug(`Cached message: ${messageCacheKey}`);
+  /**
+   * Ensure a conversation exists and still accepts messages
+   *
+   * @param conversationId Conversation ID
+   * @returns The open Conversation entity
+   * @throws NotFoundException if the conversation does not exist for the tenant
+   * @throws ConflictException if the conversation is closed
+   */
+  private async assertConversationOpen(
+    conversationId: string,
+  ): Promise<Conversation> {
+    const conversation =
+      await this.conversationService.getConversationById(conversationId);
 
-      // Invalidate conversation cache since we've added a new message
-      const conversationCacheKey = this.getConversationMessagesCacheKey(
-        message.conversationId,
-        tenantId,
-        1, // First page is most commonly accessed
-        10, // Default page size
+    if (!conversation) {
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
       );
-      await this.cacheManager.del(conversationCacheKey);
-      this.logger.debug(
-        `Invalidated conversation cache: ${conversationCacheKey}`,
+    }
+
+    if (conversation.isClosed()) {
+      throw new ConflictException(
+        `Conversation with ID "${conversationId}" is closed`,
       );
-    } catch (error) {
-      this.logger.warn(`Cache operation error: ${error.message}`, error.stack);
-      // Continue execution even if cache operations fail
     }
 
-    // Publish event to Kafka
-    try {
-      await this.kafkaProducer.publishMessageCreated(savedMessage);
-      this.logger.debug(
-        `Published message.created event for message ID: ${savedMessage.id}`,
+    return conversation;
+  }
+
+  /**
+   * Load the parent of a reply and ensure it belongs to the same conversation
+   *
+   * @param parentMessageId Parent message ID
+   * @param conversationId Conversation the reply is posted to
+   * @param tenantId Tenant ID
+   * @returns The parent Message entity
+   * @throws NotFoundException if the parent does not exist for the tenant or is hidden by moderation
+   * @throws BadRequestException if the parent belongs to another conversation
+   */
+  private async findParentMessage(
+    parentMessageId: string,
+    conversationId: string,
+    tenantId: string,
+  ): Promise<Message> {
+    const parentMessage = await this.messageRepository.findById(
+      parentMessageId,
+      tenantId,
+    );
+
+    if (!parentMessage || parentMessage.isHiddenByModeration()) {
+      throw new NotFoundException(
+        `Parent message with ID "${parentMessageId}" not found`,
       );
-    } catch (error) {
-      this.logger.error(
-        `Failed to publish message.created event: ${error.message}`,
-        error.stack,
+    }
+
+    if (parentMessage.conversationId !== conversationId) {
+      throw new BadRequestException(
+        `Parent message with ID "${parentMessageId}" belongs to another conversation`,
       );
-      // We continue execution as the message is already saved to the database
     }
 
-    this.logger.log(`Created message with ID: ${savedMessage.id}`);
-    return savedMessage;
+    return parentMessage;
   }
 
   /**
-   * Get a message by its ID
+   * Check that a message can be posted as described
    *
-   * @param id The unique identifier of the message
-   * @returns Promise resolving to the Message entity or null if not found
+   * Used when creating a message and when scheduling one, so that a
+   * scheduled message is rejected up front rather than at its send time.
+   *
+   * @param createMessageDto DTO containing message creation data
+   * @returns The conversation, the parent message if replying, the content, the template it was rendered from, the distinct attachment IDs and the expiry
+   * @throws NotFoundException if the conversation, the parent message or the template does not exist
+   * @throws ConflictException if the conversation is closed
+   * @throws BadRequestException if the parent message is in another conversation
+   * @throws BadRequestException if the variables of the template do not match the values given
+   * @throws BadRequestException if an attachment does not exist or was uploaded to another conversation
+   * @throws BadRequestException if both `expiresAt` and `ttlSeconds` are given, or the message would expire before it is sent
+   * @throws BadRequestException if a poll would close before it is sent
    */
-  async getMessageById(id: string): Promise<Message | null> {
+  async validateNewMessage(createMessageDto: CreateMessageDto): Promise<{
+    conversation: Conversation;
+    parentMessage: Message | null;
+    content: string;
+    contentType: MessageContentType;
+    body?: MessageBody;
+    templateId?: string;
+    attachmentIds: string[];
+    expiresAt?: Date;
+  }> {
     const tenantId = this.tenantContext.getCurrentTenant();
-    this.logger.debug(`Retrieving message ID: ${id} for tenant: ${tenantId}`);
 
-    try {
-      // Try to get from cache first
-      const cacheKey = this.getMessageCacheKey(id, tenantId);
-      const cachedMessage = await this.cacheManager.get<Message>(cacheKey);
+    const expiresAt = this.resolveExpiresAt(createMessageDto);
 
-      if (cachedMessage) {
-        this.logger.debug(`Cache hit for message ID: ${id}`);
-        return cachedMessage;
+    const conversation = await this.assertConversationOpen(
+      createMessageDto.conversationId,
+    );
+
+    const parentMessage = createMessageDto.parentMessageId
+      ? await this.findParentMessage(
+          createMessageDto.parentMessageId,
+          createMessageDto.conversationId,
+          tenantId,
+        )
+      : null;
+
+    const template = await this.resolveTemplate(createMessageDto);
+
+    const contentType =
+      template?.contentType ??
+      createMessageDto.contentType ??
+      MessageContentType.TEXT;
+    const { body } = createMessageDto;
+    if (contentType === MessageContentType.POLL) {
+      this.assertPollClosingTime(
+        (body as PollBody | undefined)?.closesAt,
+        createMessageDto.sendAt,
+      );
+    }
+    // Structured messages without a text fall back to the text of their body
+    const content =
+      template?.content ??
+      createMessageDto.content ??
+      Message.renderText({ content: '', contentType, body });
+
+    // The file of a file message is one of its attachments
+    const attachmentIds = [
+      ...new Set([
+        ...(createMessageDto.attachmentIds ?? []),
+        ...(contentType === MessageContentType.FILE
+          ? [(body as FileBody).attachmentId]
+          : []),
+      ]),
+    ];
+    await this.attachmentService.assertAttachable(
+      attachmentIds,
+      createMessageDto.conversationId,
+    );
+
+    return {
+      conversation,
+      parentMessage,
+      content,
+      contentType,
+      body,
+      templateId: template?.templateId,
+      attachmentIds,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Render the template a new message is created from, if any
+   *
+   * @param createMessageDto DTO containing message creation data
+   * @returns The rendered content and its content type, or undefined if the message is not created from a template
+   * @throws BadRequestException if variables are given without a template, or a template is combined with content, contentType or body
+   * @throws NotFoundException if the template does not exist
+   * @throws BadRequestException if the variables of the template do not match the values given
+   */
+  private async resolveTemplate(createMessageDto: CreateMessageDto): Promise<
+    | {
+        templateId: string;
+        content: string;
+        contentType: MessageContentType;
       }
+    | undefined
+  > {
+    const { templateId, variables } = createMessageDto;
+    if (templateId === undefined) {
+      if (variables !== undefined) {
+        throw new BadRequestException(
+          'variables can only be given together with templateId',
+        );
+      }
+      return undefined;
+    }
 
-      this.logger.debug(
-        `Cache miss for message ID: ${id}, fetching from repository`,
+    if (
+      createMessageDto.content !== undefined ||
+      createMessageDto.contentType !== undefined ||
+      createMessageDto.body !== undefined
+    ) {
+      throw new BadRequestException(
+        'A message created from a template cannot have content, contentType or body',
       );
-    } catch (error) {
-      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
-      // Continue to repository on cache error
     }
 
-    // Not in cache, get from repository
-    const message = await this.messageRepository.findById(id, tenantId);
+    const { template, content } = await this.templateService.renderTemplate(
+      templateId,
+      variables,
+    );
+    return {
+      templateId: template.id,
+      content,
+      contentType: template.contentType,
+    };
+  }
 
-    if (!message) {
-      this.logger.warn(
-        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+  /**
+   * Compute when a new ephemeral message expires
+   *
+   * A `ttlSeconds` counts from the time the message is sent, which is
+   * `sendAt` for a scheduled message.
+   *
+   * @param createMessageDto DTO containing message creation data
+   * @returns The expiry, or undefined if the message does not expire
+   * @throws BadRequestException if both `expiresAt` and `ttlSeconds` are given, or the message would expire before it is sent
+   */
+  private resolveExpiresAt(
+    createMessageDto: CreateMessageDto,
+  ): Date | undefined {
+    const { expiresAt, ttlSeconds, sendAt } = createMessageDto;
+
+    if (expiresAt && ttlSeconds !== undefined) {
+      throw new BadRequestException(
+        'Only one of expiresAt and ttlSeconds can be given',
       );
-      return null;
     }
 
-    try {
-      // Cache the message for future requests
-      const cacheKey = this.getMessageCacheKey(id, tenantId);
-      await this.cacheManager.set(
-        cacheKey,
-        message,
-        this.MESSAGE_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
+    const sentAt = Math.max(Date.now(), sendAt?.getTime() ?? 0);
+
+    if (ttlSeconds !== undefined) {
+      return new Date(sentAt + ttlSeconds * 1000);
+    }
+
+    if (expiresAt && expiresAt.getTime() <= sentAt) {
+      throw new BadRequestException(
+        'expiresAt must be after the time the message is sent',
       );
-      this.logger.debug(`Cached message ID: ${id}`);
-    } catch (error) {
-      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
-      // Continue execution even if cache operations fail
     }
 
-    this.logger.log(`Retrieved message with ID: ${id}`);
-    return message;
+    return expiresAt;
   }
 
   /**
-   * Update an existing message
+   * Ensure a poll closes after the time it is sent
    *
-   * @param id The unique identifier of the message to update
-   * @param updateMessageDto DTO containing message update data
-   * @returns Promise resolving to the updated Message entity or null if not found
+   * @param closesAt The closing time from the body of the poll, if any
+   * @param sendAt When a scheduled poll is sent
+   * @throws BadRequestException if the poll would close before it is sent
    */
-  async updateMessage(
-    id: string,
-    updateMessageDto: UpdateMessageDto,
-  ): Promise<Message | null> {
-    const tenantId = this.tenantContext.getCurrentTenant();
-    this.logger.debug(`Updating message ID: ${id} for tenant: ${tenantId}`);
+  private assertPollClosingTime(closesAt?: string, sendAt?: Date): void {
+    if (closesAt === undefined) {
+      return;
+    }
 
-    // First check if message exists
-    const existingMessage = await this.messageRepository.findById(id, tenantId);
-    if (!existingMessage) {
-      this.logger.warn(
-        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+    const sentAt = Math.max(Date.now(), sendAt?.getTime() ?? 0);
+    if (new Date(closesAt).getTime() <= sentAt) {
+      throw new BadRequestException(
+        'closesAt of a poll must be after the time the message is sent',
       );
-      return null;
     }
+  }
+
+  /**
+   * Run the moderation rules of the tenant over the text of a message
+   *
+   * The text of text and markdown messages is stored masked. Structured
+   * messages are moderated on the text rendered from their body as well,
+   * which cannot be masked, so masking rules flag them instead.
+   *
+   * @param tenantId Tenant ID
+   * @param content The text of the message
+   * @param contentType The content type of the message
+   * @param body The structured body of the message, if any
+   * @returns The content to store, and why the message is held for review if it was flagged
+   * @throws UnprocessableEntityException if a moderation rule rejects the message
+   */
+  private moderateContent(
+    tenantId: string,
+    content: string,
+    contentType: MessageContentType,
+    body?: MessageBody,
+  ): { content: string; flaggedFor?: ModerationReason[] } {
+    const structured = isStructuredContentType(contentType);
+    const text = structured
+      ? [
+          ...new Set([
+            content,
+            Message.renderText({ content, contentType, body }),
+          ]),
+        ]
+          .filter((part) => part.length > 0)
+          .join('\n')
+      : content;
+
+    const outcome = this.moderationService.moderate(tenantId, text, {
+      canMask: !structured,
+    });
+
+    return {
+      content: structured ? content : outcome.text,
+      flaggedFor: outcome.flagged ? outcome.reasons : undefined,
+    };
+  }
+
+  /**
+   * Create a new message
+   *
+   * @param createMessageDto DTO containing message creation data
+   * @param options Set `id` to use an ID assigned in advance, e.g. by a scheduled message, `draftOf` to clear the draft of the authenticated user who sent the message, `forwardedFrom` to quote a forwarded message, `templateId` to record the template a scheduled message was rendered from, and `redaction` to keep what was redacted from a scheduled message when it was scheduled
+   * @returns Promise resolving to the created Message entity, which is held for review if moderation flagged it
+   * @throws NotFoundException if the conversation or the template does not exist
+   * @throws ConflictException if the conversation is closed
+   * @throws BadRequestException if the parent message is in another conversation
+   * @throws BadRequestException if the variables of the template do not match the values given
+   * @throws BadRequestException if an attachment does not exist or was uploaded to another conversation
+   * @throws UnprocessableEntityException if a moderation rule rejects the message
+   */
+  async createMessage(
+    createMessageDto: CreateMessageDto,
+    options: {
+      id?: string;
+      draftOf?: string;
+      forwardedFrom?: MessageForward;
+      templateId?: string;
+      redaction?: RedactionRecord;
+    } = {},
+  ): Promise<Message> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Creating message for tenant: ${tenantId}`);
+
+    const {
+      conversation,
+      parentMessage,
+      content,
+      contentType,
+      body,
+      templateId,
+      attachmentIds,
+      expiresAt,
+    } = await this.validateNewMessage(createMessageDto);
+    // Personal data never reaches the database, nor the moderation reasons
+    const redacted = this.redactionService.redactForStorage(tenantId, {
+      content,
+      body,
+    });
+    const moderated = this.moderateContent(
+      tenantId,
+      redacted.content,
+      contentType,
+      redacted.body,
+    );
+
+    // Create a new message entity, threaded under the parent if replying
+    const messageProps = {
+      id: options.id ?? uuidv4(),
+      senderId: createMessageDto.senderId,
+      content: moderated.content,
+      contentType,
+      body: redacted.body,
+      metadata: createMessageDto.metadata,
+      attachmentIds,
+      expiresAt,
+      forwardedFrom: options.forwardedFrom,
+      templateId: options.templateId ?? templateId,
+    };
+    const message = parentMessage
+      ? parentMessage.reply(messageProps)
+      : Message.create({
+          ...messageProps,
+          conversationId: createMessageDto.conversationId,
+          tenantId,
+        });
+    message.resolveMentions(conversation.participants);
+    // Redacting the content of a scheduled message again finds nothing, so
+    // its record from scheduling time is kept
+    message.redaction = options.redaction ?? redacted.redaction;
+    if (moderated.flaggedFor) {
+      message.holdForReview(moderated.flaggedFor);
+    }
+
+    // Save to repository
+    const savedMessage = await this.messageRepository.save(message);
 
-    // Update message properties
-    if (updateMessageDto.content) {
-      existingMessage.updateContent(updateMessageDto.content);
+    // The draft has been sent
+    if (options.draftOf) {
+      await this.draftService.clearDraft(
+        savedMessage.conversationId,
+        options.draftOf,
+      );
     }
 
-    if (updateMessageDto.metadata) {
-      existingMessage.updateMetadata(updateMessageDto.metadata);
+    if (savedMessage.isHiddenByModeration()) {
+      // Announced once a moderator approves it
+      this.logger.log(
+        `Created message with ID: ${savedMessage.id}, held for review`,
+      );
+      return savedMessage;
     }
 
-    // Save updated message
-    const updatedMessage = await this.messageRepository.update(existingMessage);
+    await this.announceMessage(savedMessage, conversation.participants);
 
-    try {
-      // Invalidate caches
+    this.logger.log(`Created message with ID: ${savedMessage.id}`);
+    return savedMessage;
+  }
+
+  /**
+   * Apply the effects of a new message becoming visible
+   *
+   * Counts it as a reply, records the activity of the conversation,
+   * publishes message.created, which hands the message over for delivery,
+   * and caches it. Runs when a message is created, or when a moderator
+   * approves a message that was held for review.
+   *
+   * @param savedMessage The saved, still pending message
+   * @param participants The participants of its conversation
+   */
+  private async announceMessage(
+    savedMessage: Message,
+    participants: string[],
+  ): Promise<void> {
+    const tenantId = savedMessage.tenantId;
+
+    if (savedMessage.parentMessageId) {
+      await this.messageRepository.incrementReplyCount(
+        savedMessage.parentMessageId,
+        tenantId,
+      );
+      // The cached parent carries a stale reply count
       await this.invalidateMessageCache(
-        id,
+        savedMessage.parentMessageId,
         tenantId,
-        updatedMessage.conversationId,
+        savedMessage.conversationId,
       );
+    }
 
-      // Update cache with new data
-      const messageCacheKey = this.getMessageCacheKey(id, tenantId);
-      await this.cacheManager.set(
-        messageCacheKey,
-        updatedMessage,
-        this.MESSAGE_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
+    try {
+      await this.conversationService.recordMessageActivity(
+        savedMessage.conversationId,
+        savedMessage.timestamp,
       );
-      this.logger.debug(`Updated cache for message ID: ${id}`);
     } catch (error) {
-      this.logger.warn(`Cache operation error: ${error.message}`, error.stack);
-      // Continue execution even if cache operations fail
+      this.logger.warn(
+        `Failed to record conversation activity: ${error.message}`,
+        error.stack,
+      );
+      // The message is already saved, lastMessageAt is best effort
     }
 
-    // Publish event to Kafka
+    // A new message changes the unread count of every participant
+    await this.readStateService.invalidateUnreadCounts(
+      savedMessage.conversationId,
+      participants,
+    );
+
+    // Publish event to Kafka, which hands the message over for delivery
+    let published = false;
     try {
-      await this.kafkaProducer.publishMessageUpdated(updatedMessage);
+      await this.kafkaProducer.publishMessageCreated(savedMessage);
+      published = true;
       this.logger.debug(
-        `Published message.updated event for message ID: ${id}`,
+        `Published message.created event for message ID: ${savedMessage.id}`,
       );
     } catch (error) {
       this.logger.error(
-        `Failed to publish message.updated event: ${error.message}`,
+        `Failed to publish message.created event: ${error.message}`,
         error.stack,
       );
-      // We continue execution as the message is already updated in the database
+      // We continue execution as the message is already saved to the database
     }
 
-    this.logger.log(`Updated message with ID: ${id}`);
-    return updatedMessage;
-  }
+    await this.recordDispatch(
+      savedMessage,
+      participants.filter((userId) => userId !== savedMessage.senderId),
+      published,
+    );
 
-  /**
-   * Delete a message by its ID
+    try {
+      // Cache the new message
+      const messageCacheKey = this.getMessageCacheKey(
+        savedMessage.id,
+        tenantId,
+      );
+      await this.cacheManager.set(
+        messageCacheKey,
+        savedMessage,
+        this.getMessageCacheTtl(savedMessage),
+      );
+      this.logger.debug(`Cached message: ${messageCacheKey}`);
+
+      // Invalidate conversation cache since we've added a new message
+      const conversationCacheKey = this.getConversationMessagesCacheKey(
+        savedMessage.conversationId,
+        tenantId,
+        1, // First page is most commonly accessed
+        10, // Default page size
+      );
+      await this.cacheManager.del(conversationCacheKey);
+      this.logger.debug(
+        `Invalidated conversation cache: ${conversationCacheKey}`,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache operation error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+  }
+
+  /**
+   * Create several messages at once, e.g. to backfill history
+   *
+   * Each message is validated on its own and reported in its result, so an
+   * invalid message does not prevent the others from being created. The
+   * messages are saved with a single insert, then cached and announced to
+   * Kafka in batches. Replies must refer to messages that already exist,
+   * not to messages of the same request. Drafts are left in place.
+   *
+   * @param items The messages as sent by the client
+   * @param options Set `canImport` if the caller may keep the original `timestamp` of the messages, and `ids` to give the messages predetermined IDs, in the order of `items`
+   * @returns Promise resolving to the result of each message, in the order of the request
+   * @throws BadRequestException if there are more messages than allowed in one request
+   * @throws ForbiddenException if a message has a timestamp and the caller cannot import messages
+   */
+  async createMessages(
+    items: Record<string, any>[],
+    options: { canImport?: boolean; ids?: string[] } = {},
+  ): Promise<BulkCreateResult[]> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Creating ${items.length} messages in bulk for tenant: ${tenantId}`,
+    );
+
+    if (items.length > this.bulkMaxItems) {
+      throw new BadRequestException(
+        `At most ${this.bulkMaxItems} messages can be created at once`,
+      );
+    }
+
+    const parsedItems = items.map((item) => parseBulkMessageItem(item));
+    if (
+      !options.canImport &&
+      parsedItems.some((item) => 'message' in item && item.message.timestamp)
+    ) {
+      throw new ForbiddenException(
+        'Only importers can keep the original timestamp of messages',
+      );
+    }
+
+    const results: BulkCreateResult[] = items.map((_, index) => ({ index }));
+    const newMessages: {
+      index: number;
+      message: Message;
+      conversation: Conversation;
+      parentMessage: Message | null;
+    }[] = [];
+
+    for (const [index, item] of parsedItems.entries()) {
+      if ('errors' in item) {
+        results[index].error = item.errors.join('; ');
+        continue;
+      }
+
+      try {
+        newMessages.push({
+          index,
+          ...(await this.buildBulkMessage(
+            item.message,
+            tenantId,
+            options.ids?.[index],
+          )),
+        });
+      } catch (error) {
+        // Rejections of the message are reported, server errors are not
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+        results[index].error = error.message;
+      }
+    }
+
+    if (newMessages.length === 0) {
+      this.logger.log(`Created none of ${items.length} messages in bulk`);
+      return results;
+    }
+
+    const { failed } = await this.messageRepository.insertMany(
+      newMessages.map(({ message }) => message),
+    );
+    const insertErrors = new Map(
+      failed.map(({ message, error }) => [message.id, error]),
+    );
+    const savedMessages = newMessages.filter(({ index, message }) => {
+      const error = insertErrors.get(message.id);
+      if (error !== undefined) {
+        results[index].error = error;
+      }
+      return error === undefined;
+    });
+
+    // Messages held for review are announced once a moderator approves them
+    const visibleMessages = savedMessages.filter(
+      ({ message }) => !message.isHiddenByModeration(),
+    );
+    if (visibleMessages.length > 0) {
+      await this.recordBulkCreation(visibleMessages, tenantId);
+    }
+
+    for (const { index, message } of savedMessages) {
+      results[index].message = message;
+    }
+
+    this.logger.log(
+      `Created ${savedMessages.length} of ${items.length} messages in bulk`,
+    );
+    return results;
+  }
+
+  /**
+   * Validate a message of a bulk creation request and build its entity
+   *
+   * @param item The validated message DTO
+   * @param tenantId Tenant ID
+   * @param id ID of the new message, generated if not given
+   * @returns The new message, its conversation and its parent if replying
+   * @throws BadRequestException if the timestamp is in the future
+   * @throws NotFoundException, ConflictException, BadRequestException or UnprocessableEntityException as for a single message
+   */
+  private async buildBulkMessage(
+    item: BulkMessageItemDto,
+    tenantId: string,
+    id: string = uuidv4(),
+  ): Promise<{
+    message: Message;
+    conversation: Conversation;
+    parentMessage: Message | null;
+  }> {
+    if (item.timestamp && item.timestamp.getTime() > Date.now()) {
+      throw new BadRequestException('timestamp must not be in the future');
+    }
+
+    const {
+      conversation,
+      parentMessage,
+      content,
+      contentType,
+      body,
+      templateId,
+      attachmentIds,
+      expiresAt,
+    } = await this.validateNewMessage(item);
+    const redacted = this.redactionService.redactForStorage(tenantId, {
+      content,
+      body,
+    });
+    const moderated = this.moderateContent(
+      tenantId,
+      redacted.content,
+      contentType,
+      redacted.body,
+    );
+
+    const messageProps = {
+      id,
+      senderId: item.senderId,
+      content: moderated.content,
+      contentType,
+      body: redacted.body,
+      metadata: item.metadata,
+      attachmentIds,
+      expiresAt,
+      templateId,
+      timestamp: item.timestamp,
+    };
+    const message = parentMessage
+      ? parentMessage.reply(messageProps)
+      : Message.create({
+          ...messageProps,
+          conversationId: item.conversationId,
+          tenantId,
+        });
+    message.resolveMentions(conversation.participants);
+    message.redaction = redacted.redaction;
+    if (moderated.flaggedFor) {
+      message.holdForReview(moderated.flaggedFor);
+    }
+
+    return { message, conversation, parentMessage };
+  }
+
+  /**
+   * Apply the effects of messages created in bulk
+   *
+   * Does what creating a single message does, grouped per parent and per
+   * conversation, and publishes the message.created events in batches.
+   *
+   * @param savedMessages The saved messages with their conversation and parent
+   * @param tenantId Tenant ID
+   */
+  private async recordBulkCreation(
+    savedMessages: {
+      message: Message;
+      conversation: Conversation;
+      parentMessage: Message | null;
+    }[],
+    tenantId: string,
+  ): Promise<void> {
+    const parents = new Map<string, { parent: Message; replies: number }>();
+    const conversations = new Map<
+      string,
+      { conversation: Conversation; lastMessageAt: Date }
+    >();
+
+    for (const { message, conversation, parentMessage } of savedMessages) {
+      if (parentMessage) {
+        const entry = parents.get(parentMessage.id);
+        parents.set(parentMessage.id, {
+          parent: parentMessage,
+          replies: (entry?.replies ?? 0) + 1,
+        });
+      }
+
+      const entry = conversations.get(conversation.id);
+      if (!entry || entry.lastMessageAt < message.timestamp) {
+        conversations.set(conversation.id, {
+          conversation,
+          lastMessageAt: message.timestamp,
+        });
+      }
+    }
+
+    for (const { parent, replies } of parents.values()) {
+      await this.messageRepository.incrementReplyCount(
+        parent.id,
+        tenantId,
+        replies,
+      );
+      // The cached parent carries a stale reply count
+      await this.invalidateMessageCache(
+        parent.id,
+        tenantId,
+        parent.conversationId,
+      );
+    }
+
+    for (const { conversation, lastMessageAt } of conversations.values()) {
+      try {
+        await this.conversationService.recordMessageActivity(
+          conversation.id,
+          lastMessageAt,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to record conversation activity: ${error.message}`,
+          error.stack,
+        );
+        // The messages are already saved, lastMessageAt is best effort
+      }
+
+      // New messages change the unread count of every participant
+      await this.readStateService.invalidateUnreadCounts(
+        conversation.id,
+        conversation.participants,
+      );
+    }
+
+    // Publish events to Kafka in batches, which hands the messages over for delivery
+    for (
+      let start = 0;
+      start < savedMessages.length;
+      start += this.BULK_PUBLISH_BATCH_SIZE
+    ) {
+      const batch = savedMessages.slice(
+        start,
+        start + this.BULK_PUBLISH_BATCH_SIZE,
+      );
+
+      let published = false;
+      try {
+        await this.kafkaProducer.publishBatchEvents(
+          batch.map(({ message }) => ({
+            type: MessageEventType.CREATED,
+            payload: message,
+          })),
+        );
+        published = true;
+        this.logger.debug(
+          `Published ${batch.length} message.created events in a batch`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to publish message.created events: ${error.message}`,
+          error.stack,
+        );
+        // We continue execution as the messages are already saved to the database
+      }
+
+      for (const { message, conversation } of batch) {
+        await this.recordDispatch(
+          message,
+          conversation.participants.filter(
+            (userId) => userId !== message.senderId,
+          ),
+          published,
+        );
+      }
+    }
+
+    try {
+      // Cache the new messages
+      await this.cacheManager.mset(
+        savedMessages.map(({ message }) => ({
+          key: this.getMessageCacheKey(message.id, tenantId),
+          value: message,
+          ttl: this.getMessageCacheTtl(message),
+        })),
+      );
+      this.logger.debug(`Cached ${savedMessages.length} messages`);
+
+      // Invalidate the cache of the conversations that got new messages
+      await this.cacheManager.mdel(
+        [...conversations.keys()].map((conversationId) =>
+          this.getConversationMessagesCacheKey(
+            conversationId,
+            tenantId,
+            1, // First page is most commonly accessed
+            10, // Default page size
+          ),
+        ),
+      );
+    } catch (error) {
+      this.logger.warn(`Cache operation error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+  }
+
+  /**
+   * Record whether a new message was handed over for delivery
+   *
+   * @param message The saved, still pending message
+   * @param recipientIds The participants the message is delivered to
+   * @param published Whether the message.created event was published
+   */
+  private async recordDispatch(
+    message: Message,
+    recipientIds: string[],
+    published: boolean,
+  ): Promise<void> {
+    if (published) {
+      message.markSent(recipientIds);
+    } else {
+      message.markFailed();
+    }
+
+    try {
+      const recorded = await this.messageRepository.updateDeliveryStatus(
+        message.id,
+        message.tenantId,
+        MessageDeliveryStatus.PENDING,
+        message.deliveryStatus,
+        message.deliveries,
+      );
+      if (recorded) {
+        // Follows the version of the stored message, which is cached next
+        message.version += 1;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to record delivery status of message ID: ${message.id}: ${error.message}`,
+        error.stack,
+      );
+      // The message is already saved, its delivery status is best effort
+    }
+  }
+
+  /**
+   * Record a delivery receipt of a recipient
+   *
+   * Acknowledging a status the recipient already has changes nothing and
+   * publishes no event, so clients can safely retry.
+   *
+   * @param id The unique identifier of the message
+   * @param userId The acknowledging recipient
+   * @param status `delivered` or `read`
+   * @returns Promise resolving to the updated Message entity or null if not found
+   * @throws ForbiddenException if the user is not a recipient of the message
+   * @throws InvalidStateTransitionError if the status would go backwards or the message was not sent
+   * @throws ConflictException if the status of the recipient changed concurrently
+   */
+  async acknowledgeDelivery(
+    id: string,
+    userId: string,
+    status: MessageDeliveryStatus,
+  ): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Acknowledging message ID: ${id} as ${status} by user: ${userId} for tenant: ${tenantId}`,
+    );
+
+    const message = await this.messageRepository.findById(id, tenantId);
+    if (!message) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    if (!message.isRecipient(userId)) {
+      throw new ForbiddenException(
+        `User "${userId}" is not a recipient of message "${id}"`,
+      );
+    }
+
+    // The entity enforces the lifecycle of the delivery status
+    const acknowledgedAt = new Date();
+    const previousRecipientStatus = message.acknowledge(
+      userId,
+      status,
+      acknowledgedAt,
+    );
+    if (!previousRecipientStatus) {
+      this.logger.debug(`Delivery of message ID: ${id} to ${userId} unchanged`);
+      return message;
+    }
+
+    const updatedMessage = await this.messageRepository.updateRecipientDelivery(
+      id,
+      tenantId,
+      { userId, status, updatedAt: acknowledgedAt },
+      previousRecipientStatus,
+    );
+    if (!updatedMessage) {
+      throw new ConflictException(
+        `Delivery of message "${id}" to user "${userId}" changed concurrently`,
+      );
+    }
+
+    // Derived from the stored recipients, so concurrent receipts of other
+    // recipients are taken into account
+    const previousStatus = updatedMessage.deliveryStatus;
+    if (
+      updatedMessage.refreshDeliveryStatus() &&
+      (await this.messageRepository.updateDeliveryStatus(
+        id,
+        tenantId,
+        previousStatus,
+        updatedMessage.deliveryStatus,
+      ))
+    ) {
+      updatedMessage.version += 1;
+    }
+
+    await this.invalidateMessageCache(
+      id,
+      tenantId,
+      updatedMessage.conversationId,
+    );
+
+    try {
+      await this.kafkaProducer.publishMessageStatusChanged({
+        id,
+        conversationId: updatedMessage.conversationId,
+        tenantId,
+        senderId: updatedMessage.senderId,
+        userId,
+        previousRecipientStatus,
+        recipientStatus: status,
+        status: updatedMessage.deliveryStatus,
+        changedAt: acknowledgedAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.status_changed event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the receipt is already stored
+    }
+
+    this.logger.log(
+      `Message ID: ${id} acknowledged as ${status} by user: ${userId}`,
+    );
+    return updatedMessage;
+  }
+
+  /**
+   * Forward a message to a conversation of the same tenant
+   *
+   * The new message quotes a snapshot of the original content and sender.
+   * Attachments are not forwarded, as they belong to the source conversation.
+   * Messages hidden by moderation cannot be forwarded, even by their sender.
+   *
+   * @param id The ID of the message to forward
+   * @param forwardMessageDto DTO containing the target conversation and an optional comment
+   * @param userId The user forwarding the message
+   * @returns Promise resolving to the new message, or null if the message does not exist or the user cannot read it
+   * @throws NotFoundException if the target conversation does not exist
+   * @throws ForbiddenException if the user is not a participant of the target conversation
+   * @throws ConflictException if the target conversation is closed
+   */
+  async forwardMessage(
+    id: string,
+    forwardMessageDto: ForwardMessageDto,
+    userId: string,
+  ): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Forwarding message ID: ${id} to conversation: ${forwardMessageDto.conversationId} for tenant: ${tenantId}`,
+    );
+
+    const sourceMessage = await this.messageRepository.findById(id, tenantId);
+    const sourceConversation = sourceMessage
+      ? await this.conversationService.getConversationById(
+          sourceMessage.conversationId,
+        )
+      : null;
+
+    // Messages the user cannot read are reported as missing
+    if (
+      !sourceMessage ||
+      sourceMessage.isHiddenByModeration() ||
+      !sourceConversation ||
+      !sourceConversation.hasParticipant(userId)
+    ) {
+      this.logger.warn(`Message not found with ID: ${id}`);
+      return null;
+    }
+
+    const targetConversation = await this.assertConversationOpen(
+      forwardMessageDto.conversationId,
+    );
+    if (!targetConversation.hasParticipant(userId)) {
+      throw new ForbiddenException(
+        `User "${userId}" is not a participant of conversation "${targetConversation.id}"`,
+      );
+    }
+
+    const forwardedMessage = await this.createMessage(
+      {
+        conversationId: targetConversation.id,
+        senderId: userId,
+        content: forwardMessageDto.content ?? sourceMessage.content,
+        metadata: forwardMessageDto.metadata,
+      },
+      // Forwarding is not sent from the composer, so the draft is kept
+      { forwardedFrom: sourceMessage.quote() },
+    );
+
+    this.logger.log(
+      `Forwarded message ID: ${id} as message ID: ${forwardedMessage.id}`,
+    );
+    return forwardedMessage;
+  }
+
+  /**
+   * Get a message by its ID
+   *
+   * Messages hidden by moderation are only returned to their sender.
+   *
+   * @param id The unique identifier of the message
+   * @param viewerId The user reading the message
+   * @returns Promise resolving to the Message entity or null if not found
+   */
+  async getMessageById(id: string, viewerId?: string): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Retrieving message ID: ${id} for tenant: ${tenantId}`);
+
+    try {
+      // Try to get from cache first
+      const cacheKey = this.getMessageCacheKey(id, tenantId);
+      const cachedMessage = await this.cacheManager.get<Message>(cacheKey);
+
+      if (cachedMessage) {
+        this.logger.debug(`Cache hit for message ID: ${id}`);
+        const message = Message.fromDatabase(cachedMessage);
+        // The expiry job may not have removed an expired message yet
+        if (message.isExpired()) {
+          this.logger.debug(`Cached message ID: ${id} has expired`);
+          return null;
+        }
+        if (!message.isVisibleTo(viewerId)) {
+          this.logger.debug(`Cached message ID: ${id} is hidden by moderation`);
+          return null;
+        }
+        return message;
+      }
+
+      this.logger.debug(
+        `Cache miss for message ID: ${id}, fetching from repository`,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
+      // Continue to repository on cache error
+    }
+
+    // Not in cache, get from repository
+    const message = await this.messageRepository.findById(id, tenantId);
+
+    if (!message) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    try {
+      // Cache the message for future requests
+      const cacheKey = this.getMessageCacheKey(id, tenantId);
+      await this.cacheManager.set(
+        cacheKey,
+        message,
+        this.getMessageCacheTtl(message),
+      );
+      this.logger.debug(`Cached message ID: ${id}`);
+    } catch (error) {
+      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+
+    if (!message.isVisibleTo(viewerId)) {
+      this.logger.debug(`Message ID: ${id} is hidden by moderation`);
+      return null;
+    }
+
+    this.logger.log(`Retrieved message with ID: ${id}`);
+    return message;
+  }
+
+  /**
+   * Get the content of a redacted message as it was sent
+   *
+   * Every read is logged with the reading user for auditing.
+   *
+   * @param id The unique identifier of the message
+   * @param userId The user reading the original
+   * @returns Promise resolving to the original content and body, or null if the message does not exist or its original was not kept
+   */
+  async getOriginalContent(
+    id: string,
+    userId: string,
+  ): Promise<RedactableContent<MessageBody> | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Retrieving original content of message ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const message = await this.messageRepository.findById(id, tenantId);
+    if (!message?.redaction?.original) {
+      this.logger.warn(
+        `Original content of message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    const original = this.redactionService.decryptOriginal<MessageBody>(
+      message.redaction.original,
+    );
+
+    this.logger.log(
+      `User: ${userId} read the original content of message with ID: ${id}`,
+    );
+    return original;
+  }
+
+  /**
+   * Update an existing message
+   *
+   * @param id The unique identifier of the message to update
+   * @param updateMessageDto DTO containing message update data
+   * @param editorId The user making the edit, recorded in the revision history
+   * @param expectedVersion The version the client last read, from the `If-Match` header
+   * @returns Promise resolving to the updated Message entity, which is held for review if moderation flagged the edit, or null if not found
+   * @throws BadRequestException if the edit changes the content type or the file of a file message
+   * @throws PreconditionFailedException if the message is no longer at the expected version
+   * @throws ConflictException if the message changed concurrently and no version was expected
+   * @throws UnprocessableEntityException if a moderation rule rejects the edited message
+   */
+  async updateMessage(
+    id: string,
+    updateMessageDto: UpdateMessageDto,
+    editorId: string,
+    expectedVersion?: number,
+  ): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Updating message ID: ${id} for tenant: ${tenantId}`);
+
+    // First check if message exists
+    const existingMessage = await this.messageRepository.findById(id, tenantId);
+    if (!existingMessage) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    this.assertVersion(existingMessage, expectedVersion);
+
+    const { contentType, body } = updateMessageDto;
+    if (contentType && contentType !== existingMessage.contentType) {
+      throw new BadRequestException(
+        `The content type of message "${id}" cannot be changed`,
+      );
+    }
+    if (
+      contentType === MessageContentType.FILE &&
+      (body as FileBody).attachmentId !==
+        (existingMessage.body as FileBody | undefined)?.attachmentId
+    ) {
+      throw new BadRequestException(
+        `The file of message "${id}" cannot be changed`,
+      );
+    }
+    if (contentType === MessageContentType.POLL && body) {
+      // Changing the options would change what the votes were cast for
+      if (
+        existingMessage.pollVotes.length > 0 ||
+        existingMessage.isPollClosed()
+      ) {
+        throw new ConflictException(
+          `The poll of message "${id}" cannot be changed once it has votes or is closed`,
+        );
+      }
+      this.assertPollClosingTime((body as PollBody).closesAt);
+    }
+
+    // A new body without a text replaces the text of a structured message
+    let content =
+      updateMessageDto.content ??
+      (body && isStructuredContentType(contentType)
+        ? Message.renderText({ content: '', contentType, body })
+        : undefined);
+    let editedBody = body;
+    let redaction: RedactionRecord | undefined;
+    let flaggedFor: ModerationReason[] | undefined;
+    if (content !== undefined || body) {
+      // The edited message is redacted as a whole, from the original of the
+      // parts left as they were, so that the kept original stays complete
+      const original =
+        existingMessage.redaction?.original &&
+        this.redactionService.decryptOriginal<MessageBody>(
+          existingMessage.redaction.original,
+        );
+      const redacted = this.redactionService.redactForStorage(tenantId, {
+        content: content ?? original?.content ?? existingMessage.content,
+        body: body ?? original?.body ?? existingMessage.body,
+      });
+      redaction = redacted.redaction;
+
+      const moderated = this.moderateContent(
+        tenantId,
+        redacted.content,
+        existingMessage.contentType,
+        redacted.body,
+      );
+      content = content !== undefined ? moderated.content : undefined;
+      editedBody = body && redacted.body;
+      flaggedFor = moderated.flaggedFor;
+    }
+
+    // Apply the edit, keeping the previous version as a revision
+    const previousRevision = existingMessage.edit(
+      {
+        content,
+        metadata: updateMessageDto.metadata,
+        body: editedBody,
+      },
+      editorId,
+    );
+    if (!previousRevision) {
+      this.logger.debug(`Update of message ID: ${id} changes nothing`);
+      return existingMessage;
+    }
+    if (previousRevision.diff.content || previousRevision.diff.body) {
+      existingMessage.redaction = redaction;
+      if (flaggedFor) {
+        existingMessage.holdForReview(flaggedFor);
+      }
+    }
+
+    if (previousRevision.diff.content) {
+      const conversation = await this.conversationService.getConversationById(
+        existingMessage.conversationId,
+      );
+      if (conversation) {
+        existingMessage.resolveMentions(conversation.participants);
+      }
+    }
+
+    // History is written first so that no edit is ever stored without it.
+    // Both writes fail if another change got in since the message was read.
+    const savedRevision =
+      await this.messageRevisionRepository.save(previousRevision);
+    const updatedMessage =
+      savedRevision && (await this.messageRepository.update(existingMessage));
+    if (!updatedMessage) {
+      if (savedRevision) {
+        await this.messageRevisionRepository.delete(previousRevision);
+      }
+      this.logger.warn(`Message with ID: ${id} changed concurrently`);
+      throw this.concurrentChangeError(id, expectedVersion);
+    }
+
+    try {
+      // Invalidate caches
+      await this.invalidateMessageCache(
+        id,
+        tenantId,
+        updatedMessage.conversationId,
+      );
+
+      // Update cache with new data
+      const messageCacheKey = this.getMessageCacheKey(id, tenantId);
+      await this.cacheManager.set(
+        messageCacheKey,
+        updatedMessage,
+        this.getMessageCacheTtl(updatedMessage),
+      );
+      this.logger.debug(`Updated cache for message ID: ${id}`);
+    } catch (error) {
+      this.logger.warn(`Cache operation error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+
+    if (updatedMessage.isHiddenByModeration()) {
+      // The edit is announced once a moderator approves it
+      this.logger.log(`Updated message with ID: ${id}, held for review`);
+      return updatedMessage;
+    }
+
+    // Publish event to Kafka
+    try {
+      await this.kafkaProducer.publishMessageUpdated(updatedMessage);
+      this.logger.debug(
+        `Published message.updated event for message ID: ${id}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.updated event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the message is already updated in the database
+    }
+
+    this.logger.log(`Updated message with ID: ${id}`);
+    return updatedMessage;
+  }
+
+  /**
+   * Soft delete a message by its ID
+   *
+   * The message is kept as a tombstone that can be restored within the
+   * restore window, after which the purge job removes it permanently.
+   *
+   * @param id The unique identifier of the message to delete
+   * @param deletedBy The user deleting the message
+   * @param expectedVersion The version the client last read, from the `If-Match` header
+   * @returns Promise resolving to a boolean indicating success
+   * @throws PreconditionFailedException if the message is no longer at the expected version
+   */
+  async deleteMessage(
+    id: string,
+    deletedBy: string,
+    expectedVersion?: number,
+  ): Promise<boolean> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Deleting message ID: ${id} for tenant: ${tenantId}`);
+
+    // First check if message exists
+    const existingMessage = await this.messageRepository.findById(id, tenantId);
+    if (!existingMessage) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return false;
+    }
+
+    this.assertVersion(existingMessage, expectedVersion);
+
+    // Get conversation ID for cache invalidation
+    const conversationId = existingMessage.conversationId;
+
+    // Unpin first so that a failed delete can be retried without leaving a
+    // pin to a deleted message behind
+    await this.pinService.removePinOfMessage(existingMessage, deletedBy);
+
+    // Leave a tombstone instead of removing the message
+    existingMessage.softDelete(deletedBy);
+    const deleted = await this.messageRepository.softDelete(
+      existingMessage,
+      expectedVersion,
+    );
+    if (!deleted && expectedVersion !== undefined) {
+      throw this.concurrentChangeError(id, expectedVersion);
+    }
+    if (!deleted) {
+      this.logger.warn(`Message with ID: ${id} was deleted concurrently`);
+      return false;
+    }
+
+    await this.afterVisibilityChange(existingMessage, -1);
+
+    // Publish event to Kafka
+    try {
+      await this.kafkaProducer.publishMessageDeleted({
+        id,
+        conversationId,
+        tenantId,
+        deletedAt: existingMessage.deletedAt,
+        deletedBy,
+      });
+      this.logger.debug(
+        `Published message.deleted event for message ID: ${id}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.deleted event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the message is already deleted from the database
+    }
+
+    this.logger.log(`Deleted message with ID: ${id}`);
+    return true;
+  }
+
+  /**
+   * Restore a soft-deleted message within the restore window
+   *
+   * @param id The unique identifier of the message to restore
+   * @returns Promise resolving to the restored Message entity or null if not found
+   * @throws ConflictException if the message is not deleted
+   * @throws GoneException if the restore window has passed
+   */
+  async restoreMessage(id: string): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Restoring message ID: ${id} for tenant: ${tenantId}`);
+
+    const message = await this.messageRepository.findById(id, tenantId, {
+      includeDeleted: true,
+    });
+    if (!message) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    if (!message.isDeleted()) {
+      throw new ConflictException(`Message with ID "${id}" is not deleted`);
+    }
+
+    if (!message.isRestorable(this.restoreWindowSeconds * 1000)) {
+      throw new GoneException(
+        `Message with ID "${id}" can no longer be restored`,
+      );
+    }
+
+    const restored = await this.messageRepository.restore(id, tenantId);
+    if (!restored) {
+      throw new ConflictException(`Message with ID "${id}" is not deleted`);
+    }
+    message.restore();
+
+    await this.afterVisibilityChange(message, 1);
+
+    // Publish event to Kafka
+    try {
+      await this.kafkaProducer.publishMessageRestored(message);
+      this.logger.debug(
+        `Published message.restored event for message ID: ${id}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.restored event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the message is already restored in the database
+    }
+
+    this.logger.log(`Restored message with ID: ${id}`);
+    return message;
+  }
+
+  /**
+   * Permanently remove an ephemeral message that has expired
+   *
+   * Used by the expiry job. Removes the message together with its edit
+   * history and pin, cleans up the caches and publishes `message.expired`
+   * so that the search index and other consumers drop it as well. The job
+   * runs on every instance, so only the one that removes the message
+   * adjusts derived state and publishes the event.
+   *
+   * @param message The expired message, which may also be soft-deleted
+   */
+  async expireMessage(message: Message): Promise<void> {
+    const { id, tenantId, conversationId } = message;
+    this.logger.debug(`Expiring message ID: ${id} for tenant: ${tenantId}`);
+
+    // The message removes itself on behalf of its sender
+    await this.pinService.removePinOfMessage(message, message.senderId);
+    await this.messageRevisionRepository.deleteByMessageId(id, tenantId);
+    if (!(await this.messageRepository.delete(id, tenantId))) {
+      this.logger.debug(`Message ID: ${id} was already expired elsewhere`);
+      return;
+    }
+
+    if (message.isDeleted()) {
+      // Derived state was already adjusted when the message was deleted
+      await this.invalidateMessageCache(id, tenantId, conversationId);
+    } else {
+      await this.afterVisibilityChange(message, -1);
+    }
+
+    // Publish event to Kafka
+    try {
+      await this.kafkaProducer.publishMessageExpired({
+        id,
+        conversationId,
+        tenantId,
+        expiresAt: message.expiresAt,
+      });
+      this.logger.debug(
+        `Published message.expired event for message ID: ${id}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.expired event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the message is already removed from the database
+    }
+
+    this.logger.log(`Expired message with ID: ${id}`);
+  }
+
+  /**
+   * Keep derived state consistent after a message is deleted or restored
+   *
+   * Adjusts the reply count of the parent and invalidates the caches that
+   * list the message or count it as unread.
+   *
+   * @param message The deleted or restored message
+   * @param replyCountChange -1 on delete, 1 on restore
+   */
+  private async afterVisibilityChange(
+    message: Message,
+    replyCountChange: number,
+  ): Promise<void> {
+    const tenantId = message.tenantId;
+
+    if (message.parentMessageId) {
+      await this.messageRepository.incrementReplyCount(
+        message.parentMessageId,
+        tenantId,
+        replyCountChange,
+      );
+      await this.invalidateMessageCache(
+        message.parentMessageId,
+        tenantId,
+        message.conversationId,
+      );
+    }
+
+    await this.invalidateMessageCache(
+      message.id,
+      tenantId,
+      message.conversationId,
+    );
+
+    try {
+      const conversation = await this.conversationService.getConversationById(
+        message.conversationId,
+      );
+      if (conversation) {
+        await this.readStateService.invalidateUnreadCounts(
+          message.conversationId,
+          conversation.participants,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to invalidate unread counts: ${error.message}`,
+        error.stack,
+      );
+      // Unread counts expire with their TTL
+    }
+  }
+
+  /**
+   * Get messages for a specific conversation with pagination
+   *
+   * @param conversationId The unique identifier of the conversation
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated message results
+   */
+  async getMessagesByConversation(
+    conversationId: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+
+    this.logger.debug(
+      `Finding messages for conversation: ${conversationId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    // Input validation
+    if (options.page < 1) {
+      this.logger.warn(
+        `Invalid page number: ${options.page}, using default page 1`,
+      );
+      options.page = 1;
+    }
+
+    if (options.limit < 1) {
+      this.logger.warn(
+        `Invalid limit: ${options.limit}, using default limit 10`,
+      );
+      options.limit = 10;
+    }
+
+    try {
+      // Try to get from cache first
+      const cacheKey = this.getConversationMessagesCacheKey(
+        conversationId,
+        tenantId,
+        options.page,
+        options.limit,
+        options.sort?.field,
+        options.sort?.direction,
+      );
+
+      const cachedResult = await this.cacheManager.get<{
+        messages: Message[];
+        total: number;
+      }>(cacheKey);
+
+      // A page listing a message that has expired since is reloaded
+      if (
+        cachedResult &&
+        !cachedResult.messages.some((message) =>
+          Message.fromDatabase(message).isExpired(),
+        )
+      ) {
+        this.logger.debug(`Cache hit for conversation messages: ${cacheKey}`);
+        return cachedResult;
+      }
+
+      this.logger.debug(
+        `Cache miss for conversation messages: ${cacheKey}, fetching from repository`,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
+      // Continue to repository on cache error
+    }
+
+    // Get messages from repository with pagination
+    const result = await this.messageRepository.findByConversationId(
+      conversationId,
+      tenantId,
+      options,
+    );
+
+    try {
+      // Cache the result
+      const cacheKey = this.getConversationMessagesCacheKey(
+        conversationId,
+        tenantId,
+        options.page,
+        options.limit,
+        options.sort?.field,
+        options.sort?.direction,
+      );
+
+      await this.cacheManager.set(
+        cacheKey,
+        result,
+        this.CONVERSATION_MESSAGES_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
+      );
+      this.logger.debug(`Cached conversation messages: ${cacheKey}`);
+    } catch (error) {
+      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+
+    this.logger.log(
+      `Retrieved ${result.messages.length} messages for conversation: ${conversationId} (total: ${result.total})`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Get direct replies to a message with pagination
+   *
+   * @param id The unique identifier of the parent message
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated replies or null if the parent is not found
+   */
+  async getReplies(
+    id: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number } | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Finding replies to message: ${id}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    // Input validation
+    if (options.page < 1) {
+      this.logger.warn(
+        `Invalid page number: ${options.page}, using default page 1`,
+      );
+      options.page = 1;
+    }
+
+    if (options.limit < 1) {
+      this.logger.warn(
+        `Invalid limit: ${options.limit}, using default limit 10`,
+      );
+      options.limit = 10;
+    }
+
+    const parentMessage = await this.messageRepository.findById(id, tenantId);
+    if (!parentMessage) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    const result = await this.messageRepository.findByParentId(
+      id,
+      tenantId,
+      options,
+    );
+
+    this.logger.log(
+      `Retrieved ${result.messages.length} replies to message: ${id} (total: ${result.total})`,
+    );
+    return result;
+  }
+
+  /**
+   * Get the messages mentioning a user with pagination and sorting
+   *
+   * @param userId The mentioned user
+   * @param options Pagination and sorting options
+   * @returns Promise resolving to paginated message results
+   */
+  async getMentions(
+    userId: string,
+    options: {
+      page: number;
+      limit: number;
+      sort?: { field: string; direction: 'asc' | 'desc' };
+    },
+  ): Promise<{ messages: Message[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Finding mentions of user: ${userId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    // Input validation
+    if (options.page < 1) {
+      this.logger.warn(
+        `Invalid page number: ${options.page}, using default page 1`,
+      );
+      options.page = 1;
+    }
+
+    if (options.limit < 1) {
+      this.logger.warn(
+        `Invalid limit: ${options.limit}, using default limit 10`,
+      );
+      options.limit = 10;
+    }
+
+    const result = await this.messageRepository.findByMentionedUser(
+      userId,
+      tenantId,
+      options,
+    );
+
+    this.logger.log(
+      `Retrieved ${result.messages.length} mentions of user: ${userId} (total: ${result.total})`,
+    );
+    return result;
+  }
+
+  /**
+   * Get the messages held for review, oldest first
+   *
+   * @param options Pagination options and an optional conversation to review
+   * @returns Promise resolving to paginated message results
+   */
+  async getModerationQueue(options: {
+    page: number;
+    limit: number;
+    conversationId?: string;
+  }): Promise<{ messages: Message[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Finding messages held for review, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    const result = await this.messageRepository.findHeldForReview(
+      tenantId,
+      options,
+    );
+
+    this.logger.log(
+      `Retrieved ${result.messages.length} messages held for review (total: ${result.total})`,
+    );
+    return result;
+  }
+
+  /**
+   * Approve or reject a message held for review
    *
-   * @param id The unique identifier of the message to delete
-   * @returns Promise resolving to a boolean indicating success
+   * An approved new message is announced as if it had just been created;
+   * an approved edit is published as message.updated. A rejected message
+   * stays hidden from everyone but its sender; a rejected edit publishes
+   * message.rejected so the earlier version leaves the search index.
+   *
+   * @param id The unique identifier of the message
+   * @param status `approved` or `rejected`
+   * @param reviewerId The reviewing moderator
+   * @returns Promise resolving to the reviewed Message entity or null if not found
+   * @throws InvalidStateTransitionError if the message is not held for review
+   * @throws ConflictException if the message changed concurrently
    */
-  async deleteMessage(id: string): Promise<boolean> {
+  async reviewMessage(
+    id: string,
+    status: ModerationStatus.APPROVED | ModerationStatus.REJECTED,
+    reviewerId: string,
+  ): Promise<Message | null> {
     const tenantId = this.tenantContext.getCurrentTenant();
-    this.logger.debug(`Deleting message ID: ${id} for tenant: ${tenantId}`);
+    this.logger.debug(
+      `Reviewing message ID: ${id} as ${status} for tenant: ${tenantId}`,
+    );
 
-    // First check if message exists
-    const existingMessage = await this.messageRepository.findById(id, tenantId);
-    if (!existingMessage) {
+    const message = await this.messageRepository.findById(id, tenantId);
+    if (!message) {
       this.logger.warn(
         `Message with ID: ${id} not found for tenant: ${tenantId}`,
       );
-      return false;
+      return null;
     }
 
-    // Get conversation ID for cache invalidation
-    const conversationId = existingMessage.conversationId;
+    // Messages held on creation were never handed over for delivery
+    const announced = message.deliveryStatus !== MessageDeliveryStatus.PENDING;
+    message.review(status, reviewerId);
 
-    // Delete message
-    await this.messageRepository.delete(id, tenantId);
+    const reviewedMessage = await this.messageRepository.update(message);
+    if (!reviewedMessage) {
+      this.logger.warn(`Message with ID: ${id} changed concurrently`);
+      throw this.concurrentChangeError(id);
+    }
 
-    try {
-      // Invalidate caches
-      await this.invalidateMessageCache(id, tenantId, conversationId);
-    } catch (error) {
+    if (status === ModerationStatus.REJECTED) {
+      if (announced) {
+        // A rejected edit takes the message out of the conversation
+        await this.afterVisibilityChange(reviewedMessage, -1);
+
+        // Publish event to Kafka so the message leaves the search index
+        try {
+          await this.kafkaProducer.publishMessageRejected({
+            id,
+            conversationId: reviewedMessage.conversationId,
+            tenantId,
+          });
+          this.logger.debug(
+            `Published message.rejected event for message ID: ${id}`,
+          );
+        } catch (error) {
+          this.logger.error(
+            `Failed to publish message.rejected event: ${error.message}`,
+            error.stack,
+          );
+          // We continue execution as the review is already stored
+        }
+      } else {
+        await this.invalidateMessageCache(id, tenantId, message.conversationId);
+      }
+    } else if (!announced) {
+      const conversation = await this.conversationService.getConversationById(
+        reviewedMessage.conversationId,
+      );
+      await this.announceMessage(
+        reviewedMessage,
+        conversation?.participants ?? [],
+      );
+    } else {
+      await this.invalidateMessageCache(id, tenantId, message.conversationId);
+
+      // Publish event to Kafka
+      try {
+        await this.kafkaProducer.publishMessageUpdated(reviewedMessage);
+        this.logger.debug(
+          `Published message.updated event for message ID: ${id}`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to publish message.updated event: ${error.message}`,
+          error.stack,
+        );
+        // We continue execution as the review is already stored
+      }
+    }
+
+    this.logger.log(`Reviewed message with ID: ${id} as ${status}`);
+    return reviewedMessage;
+  }
+
+  /**
+   * Get the edit history of a message with pagination, newest first
+   *
+   * @param id The unique identifier of the message
+   * @param viewerId The user reading the history
+   * @param options Pagination options
+   * @returns Promise resolving to paginated revisions or null if the message is not found or hidden from the viewer
+   */
+  async getRevisions(
+    id: string,
+    viewerId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ revisions: MessageRevision[]; total: number } | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Finding revisions of message: ${id}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    const message = await this.messageRepository.findById(id, tenantId);
+    if (!message) {
       this.logger.warn(
-        `Cache invalidation error: ${error.message}`,
-        error.stack,
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
       );
-      // Continue execution even if cache operations fail
+      return null;
     }
 
-    // Publish event to Kafka
+    if (!message.isVisibleTo(viewerId)) {
+      this.logger.debug(`Message ID: ${id} is hidden by moderation`);
+      return null;
+    }
+
+    const result = await this.messageRevisionRepository.findByMessageId(
+      id,
+      tenantId,
+      options,
+    );
+
+    this.logger.log(
+      `Retrieved ${result.revisions.length} revisions of message: ${id} (total: ${result.total})`,
+    );
+    return result;
+  }
+
+  /**
+   * Add a reaction of a user to a message
+   *
+   * Idempotent per (user, emoji): reacting twice leaves a single reaction and
+   * publishes a single event.
+   *
+   * @param id The unique identifier of the message
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @returns Promise resolving to the updated Message entity or null if not found
+   */
+  async addReaction(
+    id: string,
+    emoji: string,
+    userId: string,
+  ): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Adding reaction ${emoji} by user: ${userId} to message ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const added = await this.messageRepository.addReaction(
+      id,
+      tenantId,
+      emoji,
+      userId,
+    );
+
+    return this.completeReactionChange(
+      id,
+      tenantId,
+      emoji,
+      userId,
+      added,
+      true,
+    );
+  }
+
+  /**
+   * Remove a reaction of a user from a message
+   *
+   * @param id The unique identifier of the message
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @returns Promise resolving to the updated Message entity or null if not found
+   */
+  async removeReaction(
+    id: string,
+    emoji: string,
+    userId: string,
+  ): Promise<Message | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Removing reaction ${emoji} by user: ${userId} from message ID: ${id} for tenant: ${tenantId}`,
+    );
+
+    const removed = await this.messageRepository.removeReaction(
+      id,
+      tenantId,
+      emoji,
+      userId,
+    );
+
+    return this.completeReactionChange(
+      id,
+      tenantId,
+      emoji,
+      userId,
+      removed,
+      false,
+    );
+  }
+
+  /**
+   * Reload a message after a reaction change, refresh caches and publish the event
+   *
+   * @param id Message ID
+   * @param tenantId Tenant ID
+   * @param emoji The reaction emoji
+   * @param userId The reacting user
+   * @param changed Whether the repository actually changed the reactions
+   * @param added Whether the reaction was added (true) or removed (false)
+   * @returns The current Message entity or null if not found
+   */
+  private async completeReactionChange(
+    id: string,
+    tenantId: string,
+    emoji: string,
+    userId: string,
+    changed: boolean,
+    added: boolean,
+  ): Promise<Message | null> {
+    const message = await this.messageRepository.findById(id, tenantId);
+    if (!message) {
+      this.logger.warn(
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    if (!changed) {
+      this.logger.debug(`Reactions of message ID: ${id} unchanged`);
+      return message;
+    }
+
+    await this.invalidateMessageCache(id, tenantId, message.conversationId);
+
     try {
-      await this.kafkaProducer.publishMessageDeleted({
+      const payload = {
         id,
-        conversationId,
+        conversationId: message.conversationId,
         tenantId,
-      });
-      this.logger.debug(
-        `Published message.deleted event for message ID: ${id}`,
-      );
+        emoji,
+        userId,
+        reactions: Message.summarizeReactions(message.reactions),
+      };
+      if (added) {
+        await this.kafkaProducer.publishReactionAdded(payload);
+      } else {
+        await this.kafkaProducer.publishReactionRemoved(payload);
+      }
     } catch (error) {
       this.logger.error(
-        `Failed to publish message.deleted event: ${error.message}`,
+        `Failed to publish reaction event: ${error.message}`,
         error.stack,
       );
-      // We continue execution as the message is already deleted from the database
+      // We continue execution as the reaction is already stored
     }
 
-    this.logger.log(`Deleted message with ID: ${id}`);
-    return true;
+    this.logger.log(
+      `${added ? 'Added' : 'Removed'} reaction ${emoji} on message ID: ${id}`,
+    );
+    return message;
   }
 
   /**
-   * Get messages for a specific conversation with pagination
+   * Cast the vote of a user in a poll
    *
-   * @param conversationId The unique identifier of the conversation
-   * @param options Pagination and sorting options
-   * @returns Promise resolving to paginated message results
+   * Every participant of the conversation votes once, for exactly one option
+   * unless the poll allows several.
+   *
+   * @param id The unique identifier of the poll message
+   * @param optionIndexes Indexes of the chosen options
+   * @param userId The voting user
+   * @returns Promise resolving to the updated Message entity or null if not found
+   * @throws BadRequestException if the message is not a poll, or the options do not fit the poll
+   * @throws ForbiddenException if the user is not a participant of the conversation
+   * @throws ConflictException if the user already voted or the poll is closed
    */
-  async getMessagesByConversation(
-    conversationId: string,
-    options: {
-      page: number;
-      limit: number;
-      sort?: { field: string; direction: 'asc' | 'desc' };
-    },
-  ): Promise<{ messages: Message[]; total: number }> {
+  async castVote(
+    id: string,
+    optionIndexes: number[],
+    userId: string,
+  ): Promise<Message | null> {
     const tenantId = this.tenantContext.getCurrentTenant();
-
     this.logger.debug(
-      `Finding messages for conversation: ${conversationId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+      `Casting vote by user: ${userId} in poll ID: ${id} for tenant: ${tenantId}`,
     );
 
-    // Input validation
-    if (options.page < 1) {
+    const message = await this.messageRepository.findById(id, tenantId);
+    if (!message || !message.isVisibleTo(userId)) {
       this.logger.warn(
-        `Invalid page number: ${options.page}, using default page 1`,
+        `Message with ID: ${id} not found for tenant: ${tenantId}`,
       );
-      options.page = 1;
+      return null;
     }
 
-    if (options.limit < 1) {
-      this.logger.warn(
-        `Invalid limit: ${options.limit}, using default limit 10`,
+    if (message.contentType !== MessageContentType.POLL) {
+      throw new BadRequestException(`Message "${id}" is not a poll`);
+    }
+
+    const poll = message.body as PollBody;
+    const outOfRange = optionIndexes.find(
+      (index) => index >= poll.options.length,
+    );
+    if (outOfRange !== undefined) {
+      throw new BadRequestException(
+        `Poll "${id}" has no option with index ${outOfRange}`,
+      );
+    }
+    if (!poll.multipleChoice && optionIndexes.length !== 1) {
+      throw new BadRequestException(
+        `Poll "${id}" allows a single option to be chosen`,
       );
-      options.limit = 10;
     }
 
-    try {
-      // Try to get from cache first
-      const cacheKey = this.getConversationMessagesCacheKey(
-        conversationId,
-        tenantId,
-        options.page,
-        options.limit,
-        options.sort?.field,
-        options.sort?.direction,
+    const conversation = await this.conversationService.getConversationById(
+      message.conversationId,
+    );
+    if (!conversation?.hasParticipant(userId)) {
+      throw new ForbiddenException(
+        `User "${userId}" is not a participant of conversation "${message.conversationId}"`,
       );
+    }
 
-      const cachedResult = await this.cacheManager.get<{
-        messages: Message[];
-        total: number;
-      }>(cacheKey);
+    const votedAt = new Date();
+    this.assertCanVote(message, userId, votedAt);
 
-      if (cachedResult) {
-        this.logger.debug(`Cache hit for conversation messages: ${cacheKey}`);
-        return cachedResult;
+    const cast = await this.messageRepository.castVote(
+      id,
+      tenantId,
+      userId,
+      optionIndexes,
+      votedAt,
+    );
+
+    const updatedMessage = await this.messageRepository.findById(id, tenantId);
+    if (!cast) {
+      // Another vote of the user or the closing of the poll got in first
+      if (updatedMessage) {
+        this.assertCanVote(updatedMessage, userId, votedAt);
       }
+      throw new ConflictException(`Poll "${id}" changed concurrently`);
+    }
+    if (!updatedMessage) {
+      return null;
+    }
 
-      this.logger.debug(
-        `Cache miss for conversation messages: ${cacheKey}, fetching from repository`,
-      );
+    await this.invalidateMessageCache(id, tenantId, message.conversationId);
+
+    try {
+      await this.kafkaProducer.publishPollVoted({
+        id,
+        conversationId: message.conversationId,
+        tenantId,
+        userId,
+        optionIndexes,
+        results: Message.tallyPoll(updatedMessage, votedAt)!,
+      });
     } catch (error) {
-      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
-      // Continue to repository on cache error
+      this.logger.error(
+        `Failed to publish poll.voted event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the vote is already stored
     }
 
-    // Get messages from repository with pagination
-    const result = await this.messageRepository.findByConversationId(
-      conversationId,
+    this.logger.log(`User ${userId} voted in poll ID: ${id}`);
+    return updatedMessage;
+  }
+
+  /**
+   * Ensure a user can still vote in a poll
+   *
+   * @param message The poll message
+   * @param userId The voting user
+   * @param votedAt When the user votes
+   * @throws ConflictException if the user already voted or the poll is closed
+   */
+  private assertCanVote(message: Message, userId: string, votedAt: Date): void {
+    if (message.hasVoted(userId)) {
+      throw new ConflictException(
+        `User "${userId}" has already voted in poll "${message.id}"`,
+      );
+    }
+    if (message.isPollClosed(votedAt)) {
+      throw new ConflictException(`Poll "${message.id}" is closed`);
+    }
+  }
+
+  /**
+   * Close a poll that reached its closing time and announce its final results
+   *
+   * Called by the poll closing job once no more votes are accepted, so the
+   * votes of the given message are final.
+   *
+   * @param message The poll message to close
+   * @returns Promise resolving to true if the poll was closed, false if it already was
+   */
+  async closePoll(message: Message): Promise<boolean> {
+    const { id, tenantId, conversationId } = message;
+    this.logger.debug(`Closing poll ID: ${id} for tenant: ${tenantId}`);
+
+    // The poll closed at its closing time, however late the job gets to it
+    const closedAt = message.pollClosesAt ?? new Date();
+    const closed = await this.messageRepository.closePoll(
+      id,
       tenantId,
-      options,
+      closedAt,
     );
+    if (!closed) {
+      this.logger.debug(`Poll ID: ${id} was already closed`);
+      return false;
+    }
+    message.pollClosedAt = closedAt;
+
+    await this.invalidateMessageCache(id, tenantId, conversationId);
 
     try {
-      // Cache the result
-      const cacheKey = this.getConversationMessagesCacheKey(
+      await this.kafkaProducer.publishPollClosed({
+        id,
         conversationId,
         tenantId,
-        options.page,
-        options.limit,
-        options.sort?.field,
-        options.sort?.direction,
-      );
-
-      await this.cacheManager.set(
-        cacheKey,
-        result,
-        this.CONVERSATION_MESSAGES_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
-      );
-      this.logger.debug(`Cached conversation messages: ${cacheKey}`);
+        closedAt,
+        results: Message.tallyPoll(message)!,
+      });
     } catch (error) {
-      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
-      // Continue execution even if cache operations fail
+      this.logger.error(
+        `Failed to publish poll.closed event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the poll is already closed
     }
 
-    this.logger.log(
-      `Retrieved ${result.messages.length} messages for conversation: ${conversationId} (total: ${result.total})`,
-    );
-
-    return result;
+    this.logger.log(`Closed poll with ID: ${id}`);
+    return true;
   }
 }
@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { MessageExpiryService } from './message-expiry.service';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { Message } from '../entities/message.entity';
+
+jest.mock('../repositories/mongodb-message.repository');
+
+describe('MessageExpiryService', () => {
+  let service: MessageExpiryService;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  const tenantContext = { setCurrentTenant: jest.fn() };
+  const messageService = { expireMessage: jest.fn() };
+  const moduleRef = {
+    resolve: jest.fn((token: unknown) =>
+      Promise.resolve(token === TenantContext ? tenantContext : messageService),
+    ),
+  };
+
+  const buildExpiredMessage = (id: string, tenantId = 'tenant123') =>
+    Message.create({
+      id,
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: 'Hello',
+      tenantId,
+      expiresAt: new Date('2024-01-01T11:00:00Z'),
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageExpiryService,
+        MessageRepository,
+        {
+          provide: ModuleRef,
+          useValue: moduleRef,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(60) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessageExpiryService>(MessageExpiryService);
+    messageRepository = module.get(MessageRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('removeExpired', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+
+    it('should expire each message in the context of its tenant', async () => {
+      const first = buildExpiredMessage('msg1');
+      const second = buildExpiredMessage('msg2', 'tenant456');
+      messageRepository.findExpired.mockResolvedValue([first, second]);
+
+      const result = await service.removeExpired(now);
+
+      expect(result).toBe(2);
+      expect(messageRepository.findExpired).toHaveBeenCalledWith(now, 100);
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant123');
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant456');
+      expect(messageService.expireMessage).toHaveBeenCalledWith(first);
+      expect(messageService.expireMessage).toHaveBeenCalledWith(second);
+    });
+
+    it('should continue with the next message when one fails', async () => {
+      messageRepository.findExpired.mockResolvedValue([
+        buildExpiredMessage('msg1'),
+        buildExpiredMessage('msg2'),
+      ]);
+      messageService.expireMessage.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      const result = await service.removeExpired(now);
+
+      expect(result).toBe(1);
+      expect(messageService.expireMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should do nothing when no message has expired', async () => {
+      messageRepository.findExpired.mockResolvedValue([]);
+
+      const result = await service.removeExpired(now);
+
+      expect(result).toBe(0);
+      expect(moduleRef.resolve).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ContextIdFactory, ModuleRef } from '@nestjs/core';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageApplicationService } from './message-application.service';
+
+/**
+ * Message Expiry Service
+ *
+ * Background job that removes ephemeral messages once they have expired,
+ * from MongoDB and the cache, and emits a `message.expired` event for each of
+ * them so that they are dropped from the search index. Reads exclude expired
+ * messages before the job gets to them; a TTL index on `expiresAt` removes
+ * whatever the job misses.
+ *
+ * Runs outside of any request, so it works across all tenants.
+ */
+@Injectable()
+export class MessageExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessageExpiryService.name);
+
+  // Number of expired messages removed per query
+  private readonly EXPIRY_BATCH_SIZE = 100;
+
+  private readonly expiryIntervalSeconds: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+  ) {
+    this.expiryIntervalSeconds = this.configService.get<number>(
+      'messages.expiryIntervalSeconds',
+      60,
+    );
+  }
+
+  /**
+   * Schedules the expiry job
+   */
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.removeExpired();
+    }, this.expiryIntervalSeconds * 1000);
+    // Do not keep the process alive only for the expiry job
+    this.timer.unref();
+
+    this.logger.log(
+      `Removing expired messages every ${this.expiryIntervalSeconds}s`,
+    );
+  }
+
+  /**
+   * Stops the expiry job
+   */
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Remove all messages that have expired
+   *
+   * Skips the run if the previous one is still in progress. A failure on one
+   * message is logged and the message is retried on the next run.
+   *
+   * @param now Point in time to check the expiry against
+   * @returns Promise resolving to the number of removed messages
+   */
+  async removeExpired(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      this.logger.debug('Previous expiry run still in progress, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let removed = 0;
+
+    try {
+      let batch = await this.messageRepository.findExpired(
+        now,
+        this.EXPIRY_BATCH_SIZE,
+      );
+
+      while (batch.length > 0) {
+        let removedInBatch = 0;
+
+        for (const message of batch) {
+          try {
+            // Resolve the request-scoped services for the tenant of the message
+            const contextId = ContextIdFactory.create();
+            const tenantContext = await this.moduleRef.resolve(
+              TenantContext,
+              contextId,
+              { strict: false },
+            );
+            tenantContext.setCurrentTenant(message.tenantId);
+            const messageService = await this.moduleRef.resolve(
+              MessageApplicationService,
+              contextId,
+              { strict: false },
+            );
+
+            await messageService.expireMessage(message);
+            removedInBatch++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to remove expired message ${message.id}: ${error.message}`,
+              error.stack,
+            );
+          }
+        }
+
+        removed += removedInBatch;
+
+        // Stop when nothing could be removed so failing messages are not retried in a loop
+        if (removedInBatch === 0 || batch.length < this.EXPIRY_BATCH_SIZE) {
+          break;
+        }
+
+        batch = await this.messageRepository.findExpired(
+          now,
+          this.EXPIRY_BATCH_SIZE,
+        );
+      }
+
+      if (removed > 0) {
+        this.logger.log(`Removed ${removed} expired messages`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove expired messages: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return removed;
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { MessageJobApplicationService } from './message-job-application.service';
+import { MessageJobRepository } from '../repositories/mongodb-message-job.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import {
+  MessageJobStatus,
+  MessageJobType,
+} from '../entities/message-job.entity';
+
+jest.mock('../repositories/mongodb-message-job.repository');
+jest.mock('../../common/contexts/tenant.context');
+
+describe('MessageJobApplicationService', () => {
+  let service: MessageJobApplicationService;
+  let messageJobRepository: jest.Mocked<MessageJobRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageJobApplicationService,
+        MessageJobRepository,
+        TenantContext,
+      ],
+    }).compile();
+
+    service = module.get<MessageJobApplicationService>(
+      MessageJobApplicationService,
+    );
+    messageJobRepository = module.get(MessageJobRepository);
+    tenantContext = module.get(TenantContext);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    messageJobRepository.save.mockImplementation((job) => Promise.resolve(job));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startBulkDelete', () => {
+    it('should save a pending job for the filter', async () => {
+      const from = new Date('2024-01-01T00:00:00Z');
+
+      const job = await service.startBulkDelete(
+        { filter: { senderId: 'spammer', from, metadata: { flagged: true } } },
+        'moderator1',
+      );
+
+      expect(job).toMatchObject({
+        tenantId: 'tenant123',
+        type: MessageJobType.BULK_DELETE,
+        status: MessageJobStatus.PENDING,
+        requestedBy: 'moderator1',
+        filter: { senderId: 'spammer', from, metadata: { flagged: true } },
+        processed: 0,
+      });
+      expect(messageJobRepository.save).toHaveBeenCalledWith(job);
+    });
+
+    it('should save a pending job for a list of IDs', async () => {
+      const job = await service.startBulkDelete(
+        { ids: ['msg1', 'msg2'] },
+        'moderator1',
+      );
+
+      expect(job.filter).toEqual({ messageIds: ['msg1', 'msg2'] });
+    });
+
+    it.each<[string, Record<string, any>]>([
+      ['neither filter nor ids', {}],
+      ['an empty filter', { filter: {} }],
+      ['an empty metadata filter', { filter: { metadata: {} } }],
+      ['both filter and ids', { filter: { senderId: 'user1' }, ids: ['msg1'] }],
+      [
+        'a time range ending before it starts',
+        {
+          filter: {
+            from: new Date('2024-02-01T00:00:00Z'),
+            to: new Date('2024-01-01T00:00:00Z'),
+          },
+        },
+      ],
+      [
+        'a metadata key the query would interpret',
+        { filter: { metadata: { $where: 'sleep(1000)' } } },
+      ],
+      [
+        'a metadata key naming a nested field',
+        { filter: { metadata: { 'profile.role': 'admin' } } },
+      ],
+      [
+        'a metadata value that is not a plain value',
+        { filter: { metadata: { tags: { $ne: null } } } },
+      ],
+    ])('should reject %s', async (_description, selection) => {
+      await expect(
+        service.startBulkDelete(selection, 'moderator1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(messageJobRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startBulkUpdate', () => {
+    it('should save a pending job with the metadata to set', async () => {
+      const job = await service.startBulkUpdate(
+        {
+          filter: { conversationId: 'conv1' },
+          metadata: { label: 'archived' },
+        },
+        'moderator1',
+      );
+
+      expect(job.type).toBe(MessageJobType.BULK_UPDATE);
+      expect(job.metadata).toEqual({ label: 'archived' });
+    });
+
+    it('should reject empty metadata', async () => {
+      await expect(
+        service.startBulkUpdate(
+          { filter: { conversationId: 'conv1' }, metadata: {} },
+          'moderator1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getJob', () => {
+    it('should find the job in the current tenant', async () => {
+      messageJobRepository.findById.mockResolvedValue(null);
+
+      const result = await service.getJob('job1');
+
+      expect(result).toBeNull();
+      expect(messageJobRepository.findById).toHaveBeenCalledWith(
+        'job1',
+        'tenant123',
+      );
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import {
+  BulkDeleteMessagesDto,
+  BulkMessageSelectionDto,
+  BulkUpdateMessagesDto,
+} from '../dto/bulk-message-job.dto';
+import { MessageJob, MessageJobType } from '../entities/message-job.entity';
+import {
+  isMetadataFilterValue,
+  MessageFilter,
+  METADATA_KEY_PATTERN,
+} from '../entities/message-filter';
+import { MessageJobRepository } from '../repositories/mongodb-message-job.repository';
+
+/**
+ * Message Job Application Service
+ *
+ * Accepts bulk deletes and bulk metadata updates of messages and reports
+ * their progress. The changes themselves are applied in the background by
+ * the message job runner.
+ */
+@Injectable()
+export class MessageJobApplicationService {
+  private readonly logger = new Logger(MessageJobApplicationService.name);
+
+  constructor(
+    private readonly messageJobRepository: MessageJobRepository,
+    private readonly tenantContext: TenantContext,
+  ) {
+    this.logger.log('MessageJobApplicationService initialized');
+  }
+
+  /**
+   * Start deleting the selected messages
+   *
+   * @param bulkDeleteMessagesDto The filter or the IDs of the messages
+   * @param requestedBy The user deleting the messages
+   * @returns Promise resolving to the pending job
+   * @throws BadRequestException if the selection is invalid
+   */
+  async startBulkDelete(
+    bulkDeleteMessagesDto: BulkDeleteMessagesDto,
+    requestedBy: string,
+  ): Promise<MessageJob> {
+    return this.startJob(
+      MessageJobType.BULK_DELETE,
+      this.toFilter(bulkDeleteMessagesDto),
+      requestedBy,
+    );
+  }
+
+  /**
+   * Start updating the metadata of the selected messages
+   *
+   * @param bulkUpdateMessagesDto The filter or the IDs of the messages, and the metadata to set
+   * @param requestedBy The user updating the messages
+   * @returns Promise resolving to the pending job
+   * @throws BadRequestException if the selection is invalid or the metadata is empty
+   */
+  async startBulkUpdate(
+    bulkUpdateMessagesDto: BulkUpdateMessagesDto,
+    requestedBy: string,
+  ): Promise<MessageJob> {
+    if (Object.keys(bulkUpdateMessagesDto.metadata).length === 0) {
+      throw new BadRequestException('metadata must not be empty');
+    }
+
+    return this.startJob(
+      MessageJobType.BULK_UPDATE,
+      this.toFilter(bulkUpdateMessagesDto),
+      requestedBy,
+      bulkUpdateMessagesDto.metadata,
+    );
+  }
+
+  /**
+   * Get a job of the current tenant
+   *
+   * @param id The unique identifier of the job
+   * @returns Promise resolving to the job or null if not found
+   */
+  async getJob(id: string): Promise<MessageJob | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Finding message job: ${id} for tenant: ${tenantId}`);
+
+    return this.messageJobRepository.findById(id, tenantId);
+  }
+
+  /**
+   * Save a new pending job for the runner to pick up
+   */
+  private async startJob(
+    type: MessageJobType,
+    filter: MessageFilter,
+    requestedBy: string,
+    metadata?: Record<string, any>,
+  ): Promise<MessageJob> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+
+    const job = await this.messageJobRepository.save(
+      MessageJob.create({
+        id: uuidv4(),
+        tenantId,
+        type,
+        requestedBy,
+        filter,
+        metadata,
+      }),
+    );
+
+    this.logger.log(
+      `Started ${type} job ${job.id} for tenant: ${tenantId} by user: ${requestedBy}`,
+    );
+    return job;
+  }
+
+  /**
+   * Turn the selection of a request into the filter of a job
+   *
+   * @throws BadRequestException if both or neither of filter and ids are given, the filter is empty or has invalid criteria
+   */
+  private toFilter(selection: BulkMessageSelectionDto): MessageFilter {
+    const { filter, ids } = selection;
+
+    if (ids && filter) {
+      throw new BadRequestException('Only one of filter and ids can be given');
+    }
+
+    if (ids) {
+      return { messageIds: ids };
+    }
+
+    // An empty filter would change every message of the tenant
+    if (
+      !filter ||
+      (!filter.conversationId &&
+        !filter.senderId &&
+        !filter.from &&
+        !filter.to &&
+        Object.keys(filter.metadata ?? {}).length === 0)
+    ) {
+      throw new BadRequestException(
+        'Either ids or a filter with at least one criterion must be given',
+      );
+    }
+
+    if (filter.from && filter.to && filter.from > filter.to) {
+      throw new BadRequestException('filter.from must not be after filter.to');
+    }
+
+    for (const [key, value] of Object.entries(filter.metadata ?? {})) {
+      if (!METADATA_KEY_PATTERN.test(key)) {
+        throw new BadRequestException(
+          `filter.metadata key "${key}" may only contain letters, digits and _`,
+        );
+      }
+      if (!isMetadataFilterValue(value)) {
+        throw new BadRequestException(
+          `filter.metadata.${key} must be a string, number or boolean`,
+        );
+      }
+    }
+
+    return {
+      conversationId: filter.conversationId,
+      senderId: filter.senderId,
+      from: filter.from,
+      to: filter.to,
+      metadata: filter.metadata,
+    };
+  }
+}
@@ -0,0 +1,251 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { PreconditionFailedException } from '@nestjs/common';
+import { MessageJobRunner } from './message-job-runner.service';
+import { MessageJobRepository } from '../repositories/mongodb-message-job.repository';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { MessageJob, MessageJobType } from '../entities/message-job.entity';
+import { Message } from '../entities/message.entity';
+
+jest.mock('../repositories/mongodb-message-job.repository');
+jest.mock('../repositories/mongodb-message.repository');
+
+describe('MessageJobRunner', () => {
+  let runner: MessageJobRunner;
+  let messageJobRepository: jest.Mocked<MessageJobRepository>;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  const tenantContext = { setCurrentTenant: jest.fn() };
+  const messageService = {
+    deleteMessage: jest.fn(),
+    updateMessage: jest.fn(),
+  };
+  const moduleRef = {
+    resolve: jest.fn((token: unknown) =>
+      Promise.resolve(token === TenantContext ? tenantContext : messageService),
+    ),
+  };
+  const config: Record<string, unknown> = {
+    'messageJobs.lockSeconds': 300,
+    'messageJobs.maxAttempts': 3,
+  };
+
+  const buildJob = (
+    type: MessageJobType,
+    props: Record<string, unknown> = {},
+  ) =>
+    MessageJob.fromDatabase({
+      ...MessageJob.create({
+        id: 'job1',
+        tenantId: 'tenant123',
+        type,
+        requestedBy: 'moderator1',
+        filter: { conversationId: 'conv1' },
+        metadata:
+          type === MessageJobType.BULK_UPDATE ? { label: 'spam' } : undefined,
+      }).toDatabase(),
+      status: 'running',
+      attempts: 1,
+      ...props,
+    });
+
+  const buildMessage = (id: string) =>
+    Message.create({
+      id,
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: 'Hello',
+      tenantId: 'tenant123',
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessageJobRunner,
+        MessageJobRepository,
+        MessageRepository,
+        {
+          provide: ModuleRef,
+          useValue: moduleRef,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    runner = module.get<MessageJobRunner>(MessageJobRunner);
+    messageJobRepository = module.get(MessageJobRepository);
+    messageRepository = module.get(MessageRepository);
+
+    messageJobRepository.saveProgress.mockResolvedValue(true);
+    messageJobRepository.complete.mockResolvedValue(true);
+    messageRepository.countByFilter.mockResolvedValue(2);
+    messageService.deleteMessage.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('runPending', () => {
+    const now = new Date('2024-01-01T09:00:00Z');
+
+    it('should delete the matching messages in the tenant of the job', async () => {
+      const job = buildJob(MessageJobType.BULK_DELETE);
+      messageJobRepository.claimNext
+        .mockResolvedValueOnce(job)
+        .mockResolvedValueOnce(null);
+      messageRepository.findByFilter
+        .mockResolvedValueOnce([buildMessage('msg1'), buildMessage('msg2')])
+        .mockResolvedValueOnce([]);
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(1);
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant123');
+      expect(messageRepository.findByFilter).toHaveBeenNthCalledWith(
+        1,
+        { conversationId: 'conv1', to: job.createdAt },
+        'tenant123',
+        { afterId: undefined, limit: 100 },
+      );
+      expect(messageRepository.findByFilter).toHaveBeenNthCalledWith(
+        2,
+        expect.anything(),
+        'tenant123',
+        { afterId: 'msg2', limit: 100 },
+      );
+      expect(messageService.deleteMessage).toHaveBeenCalledWith(
+        'msg1',
+        'moderator1',
+        1,
+      );
+      expect(messageJobRepository.complete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          total: 2,
+          processed: 2,
+          succeeded: 2,
+          failed: 0,
+          cursor: 'msg2',
+        }),
+        expect.any(Date),
+      );
+    });
+
+    it('should record the messages that could not be updated', async () => {
+      messageJobRepository.claimNext
+        .mockResolvedValueOnce(buildJob(MessageJobType.BULK_UPDATE))
+        .mockResolvedValueOnce(null);
+      messageRepository.findByFilter
+        .mockResolvedValueOnce([buildMessage('msg1'), buildMessage('msg2')])
+        .mockResolvedValueOnce([]);
+      messageService.updateMessage
+        .mockResolvedValueOnce(buildMessage('msg1'))
+        .mockRejectedValueOnce(
+          new PreconditionFailedException('Message changed'),
+        );
+
+      await runner.runPending(now);
+
+      expect(messageService.updateMessage).toHaveBeenCalledWith(
+        'msg1',
+        { metadata: { label: 'spam' } },
+        'moderator1',
+        1,
+      );
+      expect(messageJobRepository.complete).toHaveBeenCalledWith(
+        expect.objectContaining({
+          succeeded: 1,
+          failed: 1,
+          failures: [{ messageId: 'msg2', error: 'Message changed' }],
+        }),
+        expect.any(Date),
+      );
+    });
+
+    it('should resume a job after its last processed message', async () => {
+      messageJobRepository.claimNext
+        .mockResolvedValueOnce(
+          buildJob(MessageJobType.BULK_DELETE, {
+            total: 5,
+            processed: 3,
+            cursor: 'msg3',
+          }),
+        )
+        .mockResolvedValueOnce(null);
+      messageRepository.findByFilter.mockResolvedValueOnce([]);
+
+      await runner.runPending(now);
+
+      expect(messageRepository.countByFilter).not.toHaveBeenCalled();
+      expect(messageRepository.findByFilter).toHaveBeenCalledWith(
+        expect.anything(),
+        'tenant123',
+        { afterId: 'msg3', limit: 100 },
+      );
+    });
+
+    it('should release a job that fails and stop the run', async () => {
+      messageJobRepository.claimNext.mockResolvedValueOnce(
+        buildJob(MessageJobType.BULK_DELETE),
+      );
+      messageRepository.findByFilter.mockResolvedValueOnce([
+        buildMessage('msg1'),
+        buildMessage('msg2'),
+      ]);
+      messageService.deleteMessage
+        .mockResolvedValueOnce(true)
+        .mockRejectedValueOnce(new Error('Connection lost'));
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(0);
+      expect(messageJobRepository.release).toHaveBeenCalledWith(
+        expect.objectContaining({ processed: 1, cursor: 'msg1' }),
+        'Connection lost',
+      );
+      expect(messageJobRepository.claimNext).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail a job that ran out of attempts', async () => {
+      messageJobRepository.claimNext
+        .mockResolvedValueOnce(
+          buildJob(MessageJobType.BULK_DELETE, { attempts: 3 }),
+        )
+        .mockResolvedValueOnce(null);
+      messageRepository.countByFilter.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      await runner.runPending(now);
+
+      expect(messageJobRepository.markFailed).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'job1' }),
+        'Connection lost',
+        expect.any(Date),
+      );
+      expect(messageJobRepository.release).not.toHaveBeenCalled();
+    });
+
+    it('should stop a job that another runner took over', async () => {
+      messageJobRepository.claimNext
+        .mockResolvedValueOnce(buildJob(MessageJobType.BULK_DELETE))
+        .mockResolvedValueOnce(null);
+      messageRepository.findByFilter.mockResolvedValue([buildMessage('msg1')]);
+      messageJobRepository.saveProgress.mockResolvedValueOnce(false);
+
+      const result = await runner.runPending(now);
+
+      expect(result).toBe(0);
+      expect(messageRepository.findByFilter).toHaveBeenCalledTimes(1);
+      expect(messageJobRepository.complete).not.toHaveBeenCalled();
+    });
+  });
+});
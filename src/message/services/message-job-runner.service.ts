@@ -0,0 +1,284 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ContextIdFactory, ModuleRef } from '@nestjs/core';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { Message } from '../entities/message.entity';
+import { MessageJob, MessageJobType } from '../entities/message-job.entity';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageJobRepository } from '../repositories/mongodb-message-job.repository';
+import { MessageApplicationService } from './message-application.service';
+
+/**
+ * Message Job Runner
+ *
+ * Background job that applies bulk deletes and bulk metadata updates. Each
+ * message goes through the message service, so the database, the caches and
+ * the search index (through the message events) stay consistent, just as
+ * when the message is changed on its own.
+ *
+ * Jobs are claimed atomically with a lease that is extended after every
+ * batch, so several instances can run side by side. A job whose runner dies
+ * is resumed from its last recorded progress once the lease expires.
+ *
+ * Runs outside of any request, so it works across all tenants.
+ */
+@Injectable()
+export class MessageJobRunner implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessageJobRunner.name);
+
+  // Number of messages processed between progress updates
+  private readonly JOB_BATCH_SIZE = 100;
+
+  private readonly pollIntervalSeconds: number;
+  private readonly lockSeconds: number;
+  private readonly maxAttempts: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly messageJobRepository: MessageJobRepository,
+    private readonly messageRepository: MessageRepository,
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalSeconds = this.configService.get<number>(
+      'messageJobs.pollIntervalSeconds',
+      5,
+    );
+    this.lockSeconds = this.configService.get<number>(
+      'messageJobs.lockSeconds',
+      300,
+    );
+    this.maxAttempts = this.configService.get<number>(
+      'messageJobs.maxAttempts',
+      3,
+    );
+  }
+
+  /**
+   * Schedules the job runner
+   */
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.runPending();
+    }, this.pollIntervalSeconds * 1000);
+    // Do not keep the process alive only for the job runner
+    this.timer.unref();
+
+    this.logger.log(`Running message jobs every ${this.pollIntervalSeconds}s`);
+  }
+
+  /**
+   * Stops the job runner
+   */
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Run all pending jobs and resume abandoned ones
+   *
+   * Skips the run if the previous one is still in progress. A job that
+   * fails is released and resumed on the next run, until it runs out of
+   * attempts.
+   *
+   * @param now Point in time at which abandoned jobs are taken over
+   * @returns Promise resolving to the number of completed jobs
+   */
+  async runPending(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      this.logger.debug('Previous job run still in progress, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let completed = 0;
+
+    try {
+      for (;;) {
+        // Jobs can run long, so the claim counts from the current time
+        const job = await this.messageJobRepository.claimNext(
+          now,
+          this.lockedUntil(),
+        );
+        if (!job) {
+          break;
+        }
+
+        const outcome = await this.run(job);
+        if (outcome === 'completed') {
+          completed++;
+        } else if (outcome === 'released') {
+          // Stop so the released job is not claimed again in a loop
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to run message jobs: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return completed;
+  }
+
+  /**
+   * Until when a claim taken or extended now holds
+   */
+  private lockedUntil(): Date {
+    return new Date(Date.now() + this.lockSeconds * 1000);
+  }
+
+  /**
+   * Work through the messages of a claimed job in the context of its tenant
+   *
+   * @param job The claimed job
+   * @returns Promise resolving to whether the job completed, was released for a retry, failed for good, or was taken over by another runner
+   */
+  private async run(
+    job: MessageJob,
+  ): Promise<'completed' | 'released' | 'failed' | 'lost'> {
+    const { id, tenantId } = job;
+    this.logger.log(`Running ${job.type} job ${id} of tenant: ${tenantId}`);
+
+    try {
+      // Resolve the request-scoped services for the tenant of the job
+      const contextId = ContextIdFactory.create();
+      const tenantContext = await this.moduleRef.resolve(
+        TenantContext,
+        contextId,
+        { strict: false },
+      );
+      tenantContext.setCurrentTenant(tenantId);
+      const messageService = await this.moduleRef.resolve(
+        MessageApplicationService,
+        contextId,
+        { strict: false },
+      );
+
+      const scope = job.scope();
+      if (job.total === undefined) {
+        job.total = await this.messageRepository.countByFilter(scope, tenantId);
+      }
+
+      for (;;) {
+        const batch = await this.messageRepository.findByFilter(
+          scope,
+          tenantId,
+          { afterId: job.cursor, limit: this.JOB_BATCH_SIZE },
+        );
+        if (batch.length === 0) {
+          break;
+        }
+
+        for (const message of batch) {
+          job.recordResult(
+            message.id,
+            await this.apply(job, message, messageService),
+          );
+        }
+
+        if (
+          !(await this.messageJobRepository.saveProgress(
+            job,
+            this.lockedUntil(),
+          ))
+        ) {
+          this.logger.warn(`Message job ${id} was taken over, stopping`);
+          return 'lost';
+        }
+      }
+
+      if (!(await this.messageJobRepository.complete(job, new Date()))) {
+        this.logger.warn(`Message job ${id} was taken over, stopping`);
+        return 'lost';
+      }
+
+      this.logger.log(
+        `Completed ${job.type} job ${id}: ${job.succeeded} changed, ${job.failed} failed`,
+      );
+      return 'completed';
+    } catch (error) {
+      this.logger.error(
+        `Failed to run message job ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      const outcome = job.attempts >= this.maxAttempts ? 'failed' : 'released';
+
+      try {
+        if (outcome === 'failed') {
+          await this.messageJobRepository.markFailed(
+            job,
+            error.message,
+            new Date(),
+          );
+        } else {
+          await this.messageJobRepository.release(job, error.message);
+        }
+      } catch (updateError) {
+        this.logger.error(
+          `Failed to update message job ${id}: ${updateError.message}`,
+          updateError.stack,
+        );
+        // The claim expires and the job is resumed by the next claim
+        return 'released';
+      }
+      return outcome;
+    }
+  }
+
+  /**
+   * Apply the change of a job to one message
+   *
+   * @param job The running job
+   * @param message The message to change, as read with the batch
+   * @param messageService The message service of the tenant of the job
+   * @returns Promise resolving to why the message could not be changed, or undefined if it was
+   * @throws Error if the change failed for another reason than the message, e.g. the database being down
+   */
+  private async apply(
+    job: MessageJob,
+    message: Message,
+    messageService: MessageApplicationService,
+  ): Promise<string | undefined> {
+    try {
+      if (job.type === MessageJobType.BULK_DELETE) {
+        // False if the message was deleted meanwhile, which is the goal anyway
+        await messageService.deleteMessage(
+          message.id,
+          job.requestedBy,
+          message.version,
+        );
+        return undefined;
+      }
+
+      const updatedMessage = await messageService.updateMessage(
+        message.id,
+        { metadata: job.metadata },
+        job.requestedBy,
+        message.version,
+      );
+      return updatedMessage
+        ? undefined
+        : `Message with ID "${message.id}" not found`;
+    } catch (error) {
+      // Rejections of the message are recorded, other errors stop the run
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      return error.message;
+    }
+  }
+}
@@ -2,6 +2,86 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { BaseKafkaProducer } from '../../shared/kafka/base.produer';
 import { v4 as uuidv4 } from 'uuid';
+import { PollResults, ReactionSummary } from '../entities/message.entity';
+import { MessageDeliveryStatus } from '../entities/message-delivery';
+
+/**
+ * Payload of message reaction events
+ */
+export interface MessageReactionPayload {
+  /** ID of the message reacted to */
+  id: string;
+  conversationId: string;
+  tenantId: string;
+  /** Emoji that was added or removed */
+  emoji: string;
+  /** User who added or removed the reaction */
+  userId: string;
+  /** Reactions of the message after the change */
+  reactions: ReactionSummary[];
+}
+
+/**
+ * Payload of message pin events
+ */
+export interface MessagePinPayload {
+  /** ID of the pinned or unpinned message */
+  id: string;
+  conversationId: string;
+  tenantId: string;
+  /** User who pinned or unpinned the message */
+  userId: string;
+  /** When the message was pinned */
+  pinnedAt: Date;
+}
+
+/**
+ * Payload of message delivery status events
+ */
+export interface MessageStatusChangedPayload {
+  /** ID of the acknowledged message */
+  id: string;
+  conversationId: string;
+  tenantId: string;
+  senderId: string;
+  /** Recipient who acknowledged the message */
+  userId: string;
+  /** Status of the recipient before and after the acknowledgement */
+  previousRecipientStatus: MessageDeliveryStatus;
+  recipientStatus: MessageDeliveryStatus;
+  /** Status of the message after the acknowledgement */
+  status: MessageDeliveryStatus;
+  changedAt: Date;
+}
+
+/**
+ * Payload of poll vote events
+ */
+export interface PollVotedPayload {
+  /** ID of the poll message */
+  id: string;
+  conversationId: string;
+  tenantId: string;
+  /** User who voted */
+  userId: string;
+  /** Indexes of the options the user chose */
+  optionIndexes: number[];
+  /** Results of the poll after the vote */
+  results: PollResults;
+}
+
+/**
+ * Payload of poll closing events
+ */
+export interface PollClosedPayload {
+  /** ID of the poll message */
+  id: string;
+  conversationId: string;
+  tenantId: string;
+  closedAt: Date;
+  /** Final results of the poll */
+  results: PollResults;
+}
 
 /**
  * Enum defining the types of message events
@@ -11,6 +91,17 @@ export enum MessageEventType {
   CREATED = 'message.created',
   UPDATED = 'message.updated',
   DELETED = 'message.deleted',
+  RESTORED = 'message.restored',
+  PURGED = 'message.purged',
+  EXPIRED = 'message.expired',
+  REJECTED = 'message.rejected',
+  REACTION_ADDED = 'message.reaction.added',
+  REACTION_REMOVED = 'message.reaction.removed',
+  PINNED = 'message.pinned',
+  UNPINNED = 'message.unpinned',
+  STATUS_CHANGED = 'message.status_changed',
+  POLL_VOTED = 'poll.voted',
+  POLL_CLOSED = 'poll.closed',
 }
 
 /**
@@ -66,12 +157,19 @@ export class MessageProducerService extends BaseKafkaProducer {
   /**
    * Publishes a message created event to Kafka
    *
+   * The payload carries `mentionedUserIds` so that notifiers can subscribe
+   * to mentions without reading the message back.
+   *
    * @param payload - The message entity that was created
    * @returns Promise that resolves when the event is published
    */
-  async publishMessageCreated<T extends { id: string; conversationId: string }>(
-    payload: T,
-  ): Promise<void> {
+  async publishMessageCreated<
+    T extends {
+      id: string;
+      conversationId: string;
+      mentionedUserIds: string[];
+    },
+  >(payload: T): Promise<void> {
     const correlationId = uuidv4();
 
     await this.publishMessageEvent(
@@ -89,12 +187,15 @@ export class MessageProducerService extends BaseKafkaProducer {
   /**
    * Publishes a message updated event to Kafka
    *
+   * The payload carries the revision number of the message so that consumers
+   * can discard updates older than the version they already hold.
+   *
    * @param payload - The message entity that was updated
    * @returns Promise that resolves when the event is published
    */
-  async publishMessageUpdated<T extends { id: string; conversationId: string }>(
-    payload: T,
-  ): Promise<void> {
+  async publishMessageUpdated<
+    T extends { id: string; conversationId: string; revision: number },
+  >(payload: T): Promise<void> {
     const correlationId = uuidv4();
 
     await this.publishMessageEvent(
@@ -105,20 +206,24 @@ export class MessageProducerService extends BaseKafkaProducer {
     );
 
     this.logger.debug(
-      `Published message.updated event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+      `Published message.updated event for message ID: ${payload.id}, revision: ${payload.revision}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
     );
   }
 
   /**
    * Publishes a message deleted event to Kafka
    *
-   * @param payload - Object containing id, conversationId, and tenantId of the deleted message
+   * Deletion is soft; the message can be restored until it is purged.
+   *
+   * @param payload - Object containing id, conversationId, tenantId and the tombstone of the deleted message
    * @returns Promise that resolves when the event is published
    */
   async publishMessageDeleted(payload: {
     id: string;
     conversationId: string;
     tenantId: string;
+    deletedAt?: Date;
+    deletedBy?: string;
   }): Promise<void> {
     const correlationId = uuidv4();
 
@@ -134,6 +239,263 @@ export class MessageProducerService extends BaseKafkaProducer {
     );
   }
 
+  /**
+   * Publishes a message restored event to Kafka
+   *
+   * @param payload - The message entity that was restored
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessageRestored<
+    T extends { id: string; conversationId: string },
+  >(payload: T): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.RESTORED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.restored event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message purged event to Kafka
+   *
+   * Emitted once a deleted message has been permanently removed after the
+   * restore window.
+   *
+   * @param payload - Object containing id, conversationId, and tenantId of the purged message
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessagePurged(payload: {
+    id: string;
+    conversationId: string;
+    tenantId: string;
+  }): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.PURGED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.purged event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message expired event to Kafka
+   *
+   * Emitted once an ephemeral message has been permanently removed after
+   * its expiry.
+   *
+   * @param payload - Object containing id, conversationId, tenantId and the expiry of the expired message
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessageExpired(payload: {
+    id: string;
+    conversationId: string;
+    tenantId: string;
+    expiresAt?: Date;
+  }): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.EXPIRED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.expired event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message rejected event to Kafka
+   *
+   * Emitted when a moderator rejects an edit of a message that was already
+   * announced, which takes the message out of the conversation.
+   *
+   * @param payload - Object containing id, conversationId, and tenantId of the rejected message
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessageRejected(payload: {
+    id: string;
+    conversationId: string;
+    tenantId: string;
+  }): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.REJECTED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.rejected event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message reaction added event to Kafka
+   *
+   * @param payload - The reaction that was added and the resulting reaction summary
+   * @returns Promise that resolves when the event is published
+   */
+  async publishReactionAdded(payload: MessageReactionPayload): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.REACTION_ADDED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.reaction.added event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message reaction removed event to Kafka
+   *
+   * @param payload - The reaction that was removed and the resulting reaction summary
+   * @returns Promise that resolves when the event is published
+   */
+  async publishReactionRemoved(payload: MessageReactionPayload): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.REACTION_REMOVED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.reaction.removed event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a poll voted event to Kafka
+   *
+   * @param payload - The vote and the resulting results of the poll
+   * @returns Promise that resolves when the event is published
+   */
+  async publishPollVoted(payload: PollVotedPayload): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.POLL_VOTED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published poll.voted event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a poll closed event to Kafka
+   *
+   * @param payload - The closed poll and its final results
+   * @returns Promise that resolves when the event is published
+   */
+  async publishPollClosed(payload: PollClosedPayload): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.POLL_CLOSED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published poll.closed event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message pinned event to Kafka
+   *
+   * @param payload - The pinned message and who pinned it
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessagePinned(payload: MessagePinPayload): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.PINNED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.pinned event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message unpinned event to Kafka
+   *
+   * @param payload - The unpinned message and who unpinned it
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessageUnpinned(payload: MessagePinPayload): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.UNPINNED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.unpinned event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
+  /**
+   * Publishes a message status changed event to Kafka
+   *
+   * @param payload - The acknowledged message and its delivery status
+   * @returns Promise that resolves when the event is published
+   */
+  async publishMessageStatusChanged(
+    payload: MessageStatusChangedPayload,
+  ): Promise<void> {
+    const correlationId = uuidv4();
+
+    await this.publishMessageEvent(
+      MessageEventType.STATUS_CHANGED,
+      payload,
+      payload.conversationId, // Use conversationId as the partition key
+      correlationId,
+    );
+
+    this.logger.debug(
+      `Published message.status_changed event for message ID: ${payload.id}, conversation: ${payload.conversationId}, correlationId: ${correlationId}`,
+    );
+  }
+
   /**
    * Generic method to publish any message event
    *
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MessagePurgeService } from './message-purge.service';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageRevisionRepository } from '../repositories/mongodb-message-revision.repository';
+import { MessageProducerService } from './message-producer.service';
+import { Message } from '../entities/message.entity';
+
+jest.mock('../repositories/mongodb-message.repository');
+jest.mock('../repositories/mongodb-message-revision.repository');
+jest.mock('./message-producer.service');
+
+describe('MessagePurgeService', () => {
+  let service: MessagePurgeService;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  let messageRevisionRepository: jest.Mocked<MessageRevisionRepository>;
+  let kafkaProducer: jest.Mocked<MessageProducerService>;
+
+  const buildTombstone = (id: string) => {
+    const message = Message.create({
+      id,
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: 'Hello',
+      tenantId: 'tenant123',
+    });
+    message.softDelete('user1');
+    return message;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MessagePurgeService,
+        MessageRepository,
+        MessageRevisionRepository,
+        MessageProducerService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(3600) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MessagePurgeService>(MessagePurgeService);
+    messageRepository = module.get(MessageRepository);
+    messageRevisionRepository = module.get(MessageRevisionRepository);
+    kafkaProducer = module.get(MessageProducerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('purgeExpired', () => {
+    it('should hard delete tombstones older than the restore window', async () => {
+      const now = new Date('2024-01-01T12:00:00Z');
+      messageRepository.findDeletedBefore.mockResolvedValue([
+        buildTombstone('msg1'),
+        buildTombstone('msg2'),
+      ]);
+
+      const result = await service.purgeExpired(now);
+
+      expect(messageRepository.findDeletedBefore).toHaveBeenCalledWith(
+        new Date('2024-01-01T11:00:00Z'),
+        100,
+      );
+      expect(messageRevisionRepository.deleteByMessageId).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+      );
+      expect(messageRepository.delete).toHaveBeenCalledWith(
+        'msg1',
+        'tenant123',
+      );
+      expect(messageRepository.delete).toHaveBeenCalledWith(
+        'msg2',
+        'tenant123',
+      );
+      expect(kafkaProducer.publishMessagePurged).toHaveBeenCalledWith({
+        id: 'msg1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+      });
+      expect(result).toBe(2);
+    });
+
+    it('should continue with other messages when one fails', async () => {
+      messageRepository.findDeletedBefore.mockResolvedValue([
+        buildTombstone('msg1'),
+        buildTombstone('msg2'),
+      ]);
+      messageRepository.delete
+        .mockRejectedValueOnce(new Error('write failed'))
+        .mockResolvedValueOnce(true);
+
+      const result = await service.purgeExpired();
+
+      expect(kafkaProducer.publishMessagePurged).toHaveBeenCalledTimes(1);
+      expect(result).toBe(1);
+    });
+
+    it('should do nothing when there are no expired tombstones', async () => {
+      messageRepository.findDeletedBefore.mockResolvedValue([]);
+
+      const result = await service.purgeExpired();
+
+      expect(messageRepository.delete).not.toHaveBeenCalled();
+      expect(result).toBe(0);
+    });
+  });
+});
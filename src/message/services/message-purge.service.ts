@@ -0,0 +1,161 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageRevisionRepository } from '../repositories/mongodb-message-revision.repository';
+import { MessageProducerService } from './message-producer.service';
+
+/**
+ * Message Purge Service
+ *
+ * Background job that permanently deletes soft-deleted messages once their
+ * restore window has passed, together with their edit history, and emits a
+ * `message.purged` event for each of them.
+ *
+ * Runs outside of any request, so it works across all tenants.
+ */
+@Injectable()
+export class MessagePurgeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessagePurgeService.name);
+
+  // Number of tombstones purged per query
+  private readonly PURGE_BATCH_SIZE = 100;
+
+  private readonly restoreWindowSeconds: number;
+  private readonly purgeIntervalSeconds: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly messageRevisionRepository: MessageRevisionRepository,
+    private readonly kafkaProducer: MessageProducerService,
+    private readonly configService: ConfigService,
+  ) {
+    this.restoreWindowSeconds = this.configService.get<number>(
+      'messages.restoreWindowSeconds',
+      604800,
+    );
+    this.purgeIntervalSeconds = this.configService.get<number>(
+      'messages.purgeIntervalSeconds',
+      3600,
+    );
+  }
+
+  /**
+   * Schedules the purge job
+   */
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.purgeExpired();
+    }, this.purgeIntervalSeconds * 1000);
+    // Do not keep the process alive only for the purge job
+    this.timer.unref();
+
+    this.logger.log(
+      `Purging deleted messages every ${this.purgeIntervalSeconds}s after a restore window of ${this.restoreWindowSeconds}s`,
+    );
+  }
+
+  /**
+   * Stops the purge job
+   */
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Permanently delete all messages whose restore window has passed
+   *
+   * Skips the run if the previous one is still in progress. A failure on one
+   * message is logged and the message is retried on the next run.
+   *
+   * @param now Point in time to compute the end of the restore window from
+   * @returns Promise resolving to the number of purged messages
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      this.logger.debug('Previous purge still running, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    const deletedBefore = new Date(
+      now.getTime() - this.restoreWindowSeconds * 1000,
+    );
+    let purged = 0;
+
+    try {
+      let batch = await this.messageRepository.findDeletedBefore(
+        deletedBefore,
+        this.PURGE_BATCH_SIZE,
+      );
+
+      while (batch.length > 0) {
+        let purgedInBatch = 0;
+
+        for (const message of batch) {
+          try {
+            await this.messageRevisionRepository.deleteByMessageId(
+              message.id,
+              message.tenantId,
+            );
+            await this.messageRepository.delete(message.id, message.tenantId);
+            purgedInBatch++;
+          } catch (error) {
+            this.logger.error(
+              `Failed to purge message ${message.id}: ${error.message}`,
+              error.stack,
+            );
+            continue;
+          }
+
+          try {
+            await this.kafkaProducer.publishMessagePurged({
+              id: message.id,
+              conversationId: message.conversationId,
+              tenantId: message.tenantId,
+            });
+          } catch (error) {
+            this.logger.error(
+              `Failed to publish message.purged event: ${error.message}`,
+              error.stack,
+            );
+            // The message is already gone, the event is best effort
+          }
+        }
+
+        purged += purgedInBatch;
+
+        // Stop when nothing could be purged so failing messages are not retried in a loop
+        if (purgedInBatch === 0 || batch.length < this.PURGE_BATCH_SIZE) {
+          break;
+        }
+
+        batch = await this.messageRepository.findDeletedBefore(
+          deletedBefore,
+          this.PURGE_BATCH_SIZE,
+        );
+      }
+
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} deleted messages`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to purge deleted messages: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return purged;
+  }
+}
@@ -0,0 +1,226 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModerationService } from './moderation.service';
+import { ModerationAction } from '../entities/message-moderation';
+import { ModerationRuleConfig } from '../entities/moderation-rule';
+
+describe('ModerationService', () => {
+  const buildService = async (
+    rules: ModerationRuleConfig[],
+    tenantRules: Record<string, ModerationRuleConfig[]> = {},
+  ): Promise<ModerationService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'moderation.rules' ? rules : tenantRules,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<ModerationService>(ModerationService);
+  };
+
+  describe('moderate', () => {
+    it('should let a text breaking no rule through', async () => {
+      const service = await buildService([
+        {
+          type: 'blocked-words',
+          action: ModerationAction.REJECT,
+          words: ['darn'],
+        },
+      ]);
+
+      expect(
+        service.moderate('tenant123', 'Hello world', { canMask: true }),
+      ).toEqual({ text: 'Hello world', flagged: false, reasons: [] });
+    });
+
+    it('should reject a text containing a blocked word', async () => {
+      const service = await buildService([
+        {
+          type: 'blocked-words',
+          name: 'profanity',
+          action: ModerationAction.REJECT,
+          words: ['darn'],
+        },
+      ]);
+
+      expect(() =>
+        service.moderate('tenant123', 'Well, DARN it', { canMask: true }),
+      ).toThrow(
+        new UnprocessableEntityException(
+          'Message rejected by moderation rule "profanity"',
+        ),
+      );
+    });
+
+    it('should only block whole words', async () => {
+      const service = await buildService([
+        {
+          type: 'blocked-words',
+          action: ModerationAction.REJECT,
+          words: ['ass'],
+        },
+      ]);
+
+      expect(
+        service.moderate('tenant123', 'A class of its own', { canMask: true })
+          .reasons,
+      ).toEqual([]);
+    });
+
+    it('should mask the matches of a regex rule', async () => {
+      const service = await buildService([
+        {
+          type: 'regex',
+          name: 'card-numbers',
+          action: ModerationAction.MASK,
+          pattern: '\\d{4}-\\d{4}',
+        },
+      ]);
+
+      expect(
+        service.moderate('tenant123', 'Use 1234-5678 or 8765-4321', {
+          canMask: true,
+        }),
+      ).toEqual({
+        text: 'Use ********* or *********',
+        flagged: false,
+        reasons: [{ rule: 'card-numbers', action: ModerationAction.MASK }],
+      });
+    });
+
+    it('should flag links to domains that are not allowed', async () => {
+      const service = await buildService([
+        {
+          type: 'link-allow-list',
+          action: ModerationAction.FLAG,
+          domains: ['example.com'],
+        },
+      ]);
+
+      expect(
+        service.moderate('tenant123', 'See https://docs.example.com/a', {
+          canMask: true,
+        }).flagged,
+      ).toBe(false);
+      expect(
+        service.moderate('tenant123', 'See https://example.com.evil.io', {
+          canMask: true,
+        }),
+      ).toEqual({
+        text: 'See https://example.com.evil.io',
+        flagged: true,
+        reasons: [{ rule: 'link-allow-list', action: ModerationAction.FLAG }],
+      });
+    });
+
+    it('should remove links that are not allowed when masking', async () => {
+      const service = await buildService([
+        {
+          type: 'link-allow-list',
+          action: ModerationAction.MASK,
+          domains: ['example.com'],
+        },
+      ]);
+
+      expect(
+        service.moderate(
+          'tenant123',
+          'https://example.com/ok and http://spam.io/buy',
+          { canMask: true },
+        ).text,
+      ).toBe('https://example.com/ok and [link removed]');
+    });
+
+    it('should truncate a text longer than the maximum length', async () => {
+      const service = await buildService([
+        { type: 'max-length', action: ModerationAction.MASK, maxLength: 5 },
+      ]);
+
+      expect(
+        service.moderate('tenant123', 'Hello world', { canMask: true }).text,
+      ).toBe('Hello');
+    });
+
+    it('should flag instead of masking a text that cannot be masked', async () => {
+      const service = await buildService([
+        { type: 'max-length', action: ModerationAction.MASK, maxLength: 5 },
+      ]);
+
+      expect(
+        service.moderate('tenant123', 'Hello world', { canMask: false }),
+      ).toEqual({
+        text: 'Hello world',
+        flagged: true,
+        reasons: [{ rule: 'max-length', action: ModerationAction.FLAG }],
+      });
+    });
+
+    it('should use the rules of a tenant instead of the default rules', async () => {
+      const service = await buildService(
+        [{ type: 'max-length', action: ModerationAction.REJECT, maxLength: 5 }],
+        {
+          tenant123: [
+            {
+              type: 'blocked-words',
+              action: ModerationAction.FLAG,
+              words: ['darn'],
+            },
+          ],
+        },
+      );
+
+      expect(
+        service.moderate('tenant123', 'Hello world', { canMask: true }).flagged,
+      ).toBe(false);
+      expect(() =>
+        service.moderate('tenant456', 'Hello world', { canMask: true }),
+      ).toThrow(UnprocessableEntityException);
+    });
+  });
+
+  describe('configuration', () => {
+    it.each([
+      [
+        'an unknown type',
+        { type: 'unknown', action: ModerationAction.FLAG },
+        'Unknown moderation rule type "unknown"',
+      ],
+      [
+        'an inherited type',
+        { type: 'constructor', action: ModerationAction.FLAG },
+        'Unknown moderation rule type "constructor"',
+      ],
+      [
+        'an unknown action',
+        { type: 'regex', action: 'delete' },
+        'Moderation rule "regex" has an unknown action "delete"',
+      ],
+      [
+        'no words to block',
+        { type: 'blocked-words', action: ModerationAction.FLAG, words: [] },
+        'Moderation rule "blocked-words" needs a non-empty list of words',
+      ],
+      [
+        'a maximum length of 0',
+        { type: 'max-length', action: ModerationAction.FLAG, maxLength: 0 },
+        'Moderation rule "max-length" needs a positive maxLength',
+      ],
+    ])(
+      'should refuse to start with a misconfigured rule: %s',
+      async (_description, config, message) => {
+        await expect(
+          buildService([config as ModerationRuleConfig]),
+        ).rejects.toThrow(message);
+      },
+    );
+  });
+});
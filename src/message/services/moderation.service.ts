@@ -0,0 +1,126 @@
+import {
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ModerationAction,
+  ModerationReason,
+} from '../entities/message-moderation';
+import {
+  ModerationRule,
+  ModerationRuleConfig,
+  createModerationRule,
+} from '../entities/moderation-rule';
+
+/**
+ * Outcome of moderating the text of a message that was not rejected
+ */
+export interface ModerationOutcome {
+  /** The text, with the parts breaking masking rules hidden */
+  text: string;
+  /** Whether the message must be held for review */
+  flagged: boolean;
+  /** The rules the text broke, in the order they were applied */
+  reasons: ModerationReason[];
+}
+
+/**
+ * Moderation Service
+ *
+ * Runs the moderation rules of a tenant over the text of new and edited
+ * messages. Tenants without rules of their own get the default rules. The
+ * rules are built when the service starts, so a misconfigured rule stops
+ * the application instead of letting messages through.
+ */
+@Injectable()
+export class ModerationService {
+  private readonly logger = new Logger(ModerationService.name);
+
+  private readonly defaultRules: ModerationRule[];
+  private readonly tenantRules: Map<string, ModerationRule[]>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.defaultRules = this.configService
+      .get<ModerationRuleConfig[]>('moderation.rules', [])
+      .map((config) => createModerationRule(config));
+    this.tenantRules = new Map(
+      Object.entries(
+        this.configService.get<Record<string, ModerationRuleConfig[]>>(
+          'moderation.tenantRules',
+          {},
+        ),
+      ).map(([tenantId, configs]) => [
+        tenantId,
+        configs.map((config) => createModerationRule(config)),
+      ]),
+    );
+    this.logger.log(
+      `ModerationService initialized with ${this.defaultRules.length} default rules and rules for ${this.tenantRules.size} tenants`,
+    );
+  }
+
+  /**
+   * Get the rules a tenant's messages are moderated with
+   *
+   * @param tenantId Tenant ID
+   * @returns The tenant's own rules, or the default rules
+   */
+  getRules(tenantId: string): ModerationRule[] {
+    return this.tenantRules.get(tenantId) ?? this.defaultRules;
+  }
+
+  /**
+   * Moderate the text of a message
+   *
+   * Rules apply in the order they are configured, each to the text left by
+   * the previous ones. A rule that would mask a text that cannot be changed,
+   * e.g. the text rendered from a structured body, flags it instead.
+   *
+   * @param tenantId Tenant ID
+   * @param text The text of the message
+   * @param options Set `canMask` if the text can be stored as masked
+   * @returns The text to store and whether the message is held for review
+   * @throws UnprocessableEntityException if a rule rejects the message
+   */
+  moderate(
+    tenantId: string,
+    text: string,
+    options: { canMask: boolean },
+  ): ModerationOutcome {
+    const outcome: ModerationOutcome = { text, flagged: false, reasons: [] };
+
+    for (const rule of this.getRules(tenantId)) {
+      if (!rule.test(outcome.text)) {
+        continue;
+      }
+
+      const action =
+        rule.action === ModerationAction.MASK && !options.canMask
+          ? ModerationAction.FLAG
+          : rule.action;
+      this.logger.debug(
+        `Moderation rule ${rule.name} applies to a message of tenant: ${tenantId}, action: ${action}`,
+      );
+
+      switch (action) {
+        case ModerationAction.REJECT:
+          throw new UnprocessableEntityException(
+            `Message rejected by moderation rule "${rule.name}"`,
+          );
+
+        case ModerationAction.MASK:
+          outcome.text = rule.mask(outcome.text);
+          break;
+
+        case ModerationAction.FLAG:
+          outcome.flagged = true;
+          break;
+      }
+      outcome.reasons.push({ rule: rule.name, action });
+    }
+
+    return outcome;
+  }
+}
@@ -0,0 +1,291 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PinApplicationService } from './pin-application.service';
+import { MessagePinRepository } from '../repositories/mongodb-message-pin.repository';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageProducerService } from './message-producer.service';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
+import { Message } from '../entities/message.entity';
+import { MessagePin } from '../entities/message-pin.entity';
+
+jest.mock('../repositories/mongodb-message-pin.repository');
+jest.mock('../repositories/mongodb-message.repository');
+jest.mock('./message-producer.service');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../conversation/services/conversation-application.service');
+
+describe('PinApplicationService', () => {
+  let service: PinApplicationService;
+  let messagePinRepository: jest.Mocked<MessagePinRepository>;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  let kafkaProducer: jest.Mocked<MessageProducerService>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+  const mockCacheManager = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+  const config: Record<string, unknown> = {
+    'pins.maxPerConversation': 3,
+    'pins.tenantLimits': { bigTenant: 100 },
+  };
+
+  const message = (conversationId = 'conv1') =>
+    Message.create({
+      id: 'msg1',
+      conversationId,
+      senderId: 'user1',
+      content: 'Hello',
+      tenantId: 'tenant123',
+    });
+
+  const pin = () =>
+    MessagePin.create({
+      tenantId: 'tenant123',
+      conversationId: 'conv1',
+      messageId: 'msg1',
+      pinnedBy: 'user1',
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PinApplicationService,
+        MessagePinRepository,
+        MessageRepository,
+        MessageProducerService,
+        TenantContext,
+        ConversationApplicationService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: mockCacheManager,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PinApplicationService>(PinApplicationService);
+    messagePinRepository = module.get(MessagePinRepository);
+    messageRepository = module.get(MessageRepository);
+    kafkaProducer = module.get(MessageProducerService);
+    tenantContext = module.get(TenantContext);
+    conversationService = module.get(ConversationApplicationService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    conversationService.getConversationById.mockResolvedValue(
+      Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1', 'user2'],
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getMaxPins', () => {
+    it('should prefer the tenant override over the default', () => {
+      expect(service.getMaxPins('bigTenant')).toBe(100);
+      expect(service.getMaxPins('tenant123')).toBe(3);
+    });
+  });
+
+  describe('pinMessage', () => {
+    it('should pin a message and publish an event', async () => {
+      messageRepository.findById.mockResolvedValue(message());
+      messagePinRepository.find.mockResolvedValue(null);
+      messagePinRepository.countByConversationId
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(1);
+      messagePinRepository.create.mockResolvedValue(true);
+
+      const result = await service.pinMessage('conv1', 'msg1', 'user2');
+
+      expect(messagePinRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'tenant123',
+          conversationId: 'conv1',
+          messageId: 'msg1',
+          pinnedBy: 'user2',
+        }),
+      );
+      expect(kafkaProducer.publishMessagePinned).toHaveBeenCalledWith({
+        id: 'msg1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+        userId: 'user2',
+        pinnedAt: result.pinnedAt,
+      });
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'conversation-pins:tenant123:conv1',
+      );
+    });
+
+    it('should return the existing pin of an already pinned message', async () => {
+      const existingPin = pin();
+      messageRepository.findById.mockResolvedValue(message());
+      messagePinRepository.find.mockResolvedValue(existingPin);
+
+      const result = await service.pinMessage('conv1', 'msg1', 'user2');
+
+      expect(result).toBe(existingPin);
+      expect(messagePinRepository.create).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessagePinned).not.toHaveBeenCalled();
+    });
+
+    it('should reject pins beyond the cap of the tenant', async () => {
+      messageRepository.findById.mockResolvedValue(message());
+      messagePinRepository.find.mockResolvedValue(null);
+      messagePinRepository.countByConversationId.mockResolvedValue(3);
+
+      await expect(
+        service.pinMessage('conv1', 'msg1', 'user2'),
+      ).rejects.toThrow(ConflictException);
+      expect(messagePinRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should remove a pin stored concurrently beyond the cap', async () => {
+      messageRepository.findById.mockResolvedValue(message());
+      messagePinRepository.find.mockResolvedValue(null);
+      messagePinRepository.countByConversationId
+        .mockResolvedValueOnce(2)
+        .mockResolvedValueOnce(4);
+      messagePinRepository.create.mockResolvedValue(true);
+
+      await expect(
+        service.pinMessage('conv1', 'msg1', 'user2'),
+      ).rejects.toThrow(ConflictException);
+      expect(messagePinRepository.delete).toHaveBeenCalledWith(
+        'tenant123',
+        'conv1',
+        'msg1',
+      );
+      expect(kafkaProducer.publishMessagePinned).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages of another conversation', async () => {
+      messageRepository.findById.mockResolvedValue(message('conv2'));
+
+      await expect(
+        service.pinMessage('conv1', 'msg1', 'user2'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject unknown messages', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.pinMessage('conv1', 'msg1', 'user2'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject unknown conversations', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      await expect(
+        service.pinMessage('missing', 'msg1', 'user2'),
+      ).rejects.toThrow(NotFoundException);
+      expect(messageRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unpinMessage', () => {
+    it('should remove the pin and publish an event', async () => {
+      const existingPin = pin();
+      messagePinRepository.find.mockResolvedValue(existingPin);
+      messagePinRepository.delete.mockResolvedValue(true);
+
+      const result = await service.unpinMessage('conv1', 'msg1', 'user2');
+
+      expect(messagePinRepository.delete).toHaveBeenCalledWith(
+        'tenant123',
+        'conv1',
+        'msg1',
+      );
+      expect(kafkaProducer.publishMessageUnpinned).toHaveBeenCalledWith({
+        id: 'msg1',
+        conversationId: 'conv1',
+        tenantId: 'tenant123',
+        userId: 'user2',
+        pinnedAt: existingPin.pinnedAt,
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the message is not pinned', async () => {
+      messagePinRepository.find.mockResolvedValue(null);
+
+      const result = await service.unpinMessage('conv1', 'msg1', 'user2');
+
+      expect(result).toBe(false);
+      expect(messagePinRepository.delete).not.toHaveBeenCalled();
+      expect(kafkaProducer.publishMessageUnpinned).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removePinOfMessage', () => {
+    it('should unpin a deleted message in its own tenant and conversation', async () => {
+      messagePinRepository.find.mockResolvedValue(pin());
+      messagePinRepository.delete.mockResolvedValue(true);
+
+      await service.removePinOfMessage(message(), 'user1');
+
+      expect(messagePinRepository.delete).toHaveBeenCalledWith(
+        'tenant123',
+        'conv1',
+        'msg1',
+      );
+      expect(conversationService.getConversationById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPins', () => {
+    it('should return cached pins when available', async () => {
+      const cachedPin = pin();
+      mockCacheManager.get.mockResolvedValueOnce([cachedPin.toDatabase()]);
+
+      const result = await service.getPins('conv1');
+
+      expect(result).toEqual([cachedPin]);
+      expect(messagePinRepository.findByConversationId).not.toHaveBeenCalled();
+    });
+
+    it('should load and cache pins on a cache miss', async () => {
+      const storedPin = pin();
+      mockCacheManager.get.mockResolvedValueOnce(undefined);
+      messagePinRepository.findByConversationId.mockResolvedValue([storedPin]);
+
+      const result = await service.getPins('conv1');
+
+      expect(result).toEqual([storedPin]);
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'conversation-pins:tenant123:conv1',
+        [storedPin],
+        300000,
+      );
+    });
+  });
+});
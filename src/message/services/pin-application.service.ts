@@ -0,0 +1,391 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { ConfigService } from '@nestjs/config';
+import { Cache } from 'cache-manager';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { MessagePin } from '../entities/message-pin.entity';
+import { Message } from '../entities/message.entity';
+import { MessagePinRepository } from '../repositories/mongodb-message-pin.repository';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageProducerService } from './message-producer.service';
+
+/**
+ * Pin Application Service
+ *
+ * Pins messages to their conversation up to a per-tenant cap and publishes
+ * pin/unpin events. The pin list of a conversation is cached and
+ * invalidated on every change.
+ */
+@Injectable()
+export class PinApplicationService {
+  private readonly logger = new Logger(PinApplicationService.name);
+
+  // Cache key prefix for the pins of a conversation
+  private readonly CONVERSATION_PINS_CACHE_KEY_PREFIX = 'conversation-pins:';
+
+  // Cache TTL in seconds (override default from module when needed)
+  private readonly CONVERSATION_PINS_CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly messagePinRepository: MessagePinRepository,
+    private readonly messageRepository: MessageRepository,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly kafkaProducer: MessageProducerService,
+    private readonly tenantContext: TenantContext,
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+  ) {
+    this.logger.log('PinApplicationService initialized');
+  }
+
+  /**
+   * Generate a cache key for the pins of a conversation
+   *
+   * @param tenantId Tenant ID
+   * @param conversationId Conversation ID
+   * @returns Formatted cache key
+   */
+  private getConversationPinsCacheKey(
+    tenantId: string,
+    conversationId: string,
+  ): string {
+    return `${this.CONVERSATION_PINS_CACHE_KEY_PREFIX}${tenantId}:${conversationId}`;
+  }
+
+  /**
+   * Get the maximum number of pins per conversation of a tenant
+   *
+   * @param tenantId Tenant ID
+   * @returns The tenant override, or the default cap
+   */
+  getMaxPins(tenantId: string): number {
+    return (
+      this.configService.get<Record<string, number>>('pins.tenantLimits')?.[
+        tenantId
+      ] ?? this.configService.get<number>('pins.maxPerConversation', 50)
+    );
+  }
+
+  /**
+   * Ensure the conversation exists for the current tenant
+   *
+   * @param conversationId Conversation ID
+   * @throws NotFoundException if the conversation does not exist
+   */
+  private async assertConversationExists(
+    conversationId: string,
+  ): Promise<void> {
+    const conversation =
+      await this.conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+  }
+
+  /**
+   * Pin a message to its conversation
+   *
+   * Pinning an already pinned message returns the existing pin. The cap is
+   * checked again once the pin is stored, and a pin that went over it is
+   * removed, so concurrent pins cannot exceed it.
+   *
+   * @param conversationId The conversation to pin to
+   * @param messageId The message to pin
+   * @param userId The pinning user
+   * @returns Promise resolving to the pin
+   * @throws NotFoundException if the conversation or message does not exist or the message is hidden by moderation
+   * @throws BadRequestException if the message belongs to another conversation
+   * @throws ConflictException if the conversation already has the maximum number of pins
+   */
+  async pinMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<MessagePin> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Pinning message: ${messageId} in conversation: ${conversationId} for user: ${userId}, tenant: ${tenantId}`,
+    );
+
+    await this.assertConversationExists(conversationId);
+
+    // Pins are shown to every participant, so held messages cannot be pinned
+    const message = await this.messageRepository.findById(messageId, tenantId);
+    if (!message || message.isHiddenByModeration()) {
+      throw new NotFoundException(`Message with ID "${messageId}" not found`);
+    }
+
+    if (message.conversationId !== conversationId) {
+      throw new BadRequestException(
+        `Message with ID "${messageId}" belongs to another conversation`,
+      );
+    }
+
+    const existingPin = await this.messagePinRepository.find(
+      tenantId,
+      conversationId,
+      messageId,
+    );
+    if (existingPin) {
+      this.logger.debug(`Message: ${messageId} is already pinned`);
+      return existingPin;
+    }
+
+    const maxPins = this.getMaxPins(tenantId);
+    const pinCount = await this.messagePinRepository.countByConversationId(
+      tenantId,
+      conversationId,
+    );
+    if (pinCount >= maxPins) {
+      throw this.pinLimitError(conversationId, maxPins);
+    }
+
+    const pin = MessagePin.create({
+      tenantId,
+      conversationId,
+      messageId,
+      pinnedBy: userId,
+    });
+
+    const created = await this.messagePinRepository.create(pin);
+    if (!created) {
+      // Pinned concurrently, report the pin that won
+      return (
+        (await this.messagePinRepository.find(
+          tenantId,
+          conversationId,
+          messageId,
+        )) || pin
+      );
+    }
+
+    // Other pins may have passed the check above at the same time
+    const pinCountAfter = await this.messagePinRepository.countByConversationId(
+      tenantId,
+      conversationId,
+    );
+    if (pinCountAfter > maxPins) {
+      await this.messagePinRepository.delete(
+        tenantId,
+        conversationId,
+        messageId,
+      );
+      await this.invalidatePinsCache(tenantId, conversationId);
+      this.logger.warn(
+        `Removed pin of message: ${messageId} pinned concurrently beyond the cap`,
+      );
+      throw this.pinLimitError(conversationId, maxPins);
+    }
+
+    await this.invalidatePinsCache(tenantId, conversationId);
+
+    try {
+      await this.kafkaProducer.publishMessagePinned({
+        id: messageId,
+        conversationId,
+        tenantId,
+        userId,
+        pinnedAt: pin.pinnedAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.pinned event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the pin is already stored
+    }
+
+    this.logger.log(
+      `Pinned message: ${messageId} in conversation: ${conversationId}`,
+    );
+    return pin;
+  }
+
+  /**
+   * Unpin a message from its conversation
+   *
+   * @param conversationId The conversation to unpin from
+   * @param messageId The message to unpin
+   * @param userId The unpinning user
+   * @returns Promise resolving to true if the message was pinned
+   * @throws NotFoundException if the conversation does not exist
+   */
+  async unpinMessage(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Unpinning message: ${messageId} in conversation: ${conversationId} for user: ${userId}, tenant: ${tenantId}`,
+    );
+
+    await this.assertConversationExists(conversationId);
+
+    return this.removePin(tenantId, conversationId, messageId, userId);
+  }
+
+  /**
+   * Remove the pin of a deleted message, if it is pinned
+   *
+   * @param message The deleted message
+   * @param userId The user who deleted the message
+   */
+  async removePinOfMessage(message: Message, userId: string): Promise<void> {
+    await this.removePin(
+      message.tenantId,
+      message.conversationId,
+      message.id,
+      userId,
+    );
+  }
+
+  /**
+   * Get the pins of a conversation, most recently pinned first
+   *
+   * @param conversationId The conversation
+   * @returns Promise resolving to the pins
+   * @throws NotFoundException if the conversation does not exist
+   */
+  async getPins(conversationId: string): Promise<MessagePin[]> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Getting pins of conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+
+    await this.assertConversationExists(conversationId);
+
+    const cacheKey = this.getConversationPinsCacheKey(tenantId, conversationId);
+
+    try {
+      const cachedPins = await this.cacheManager.get<any[]>(cacheKey);
+
+      if (cachedPins) {
+        this.logger.debug(`Cache hit for pins: ${cacheKey}`);
+        return cachedPins.map((pin) => MessagePin.fromDatabase(pin));
+      }
+
+      this.logger.debug(
+        `Cache miss for pins: ${cacheKey}, querying repository`,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
+      // Continue to repository on cache error
+    }
+
+    const pins = await this.messagePinRepository.findByConversationId(
+      tenantId,
+      conversationId,
+    );
+
+    try {
+      await this.cacheManager.set(
+        cacheKey,
+        pins,
+        this.CONVERSATION_PINS_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
+      );
+      this.logger.debug(`Cached pins: ${cacheKey}`);
+    } catch (error) {
+      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+
+    return pins;
+  }
+
+  /**
+   * Error for a pin beyond the cap of the conversation
+   */
+  private pinLimitError(
+    conversationId: string,
+    maxPins: number,
+  ): ConflictException {
+    return new ConflictException(
+      `Conversation with ID "${conversationId}" already has the maximum of ${maxPins} pinned messages`,
+    );
+  }
+
+  /**
+   * Remove a pin, invalidate the pin list and publish the unpin event
+   *
+   * @returns Whether the message was pinned
+   */
+  private async removePin(
+    tenantId: string,
+    conversationId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<boolean> {
+    const pin = await this.messagePinRepository.find(
+      tenantId,
+      conversationId,
+      messageId,
+    );
+    if (!pin) {
+      return false;
+    }
+
+    const removed = await this.messagePinRepository.delete(
+      tenantId,
+      conversationId,
+      messageId,
+    );
+    if (!removed) {
+      // Unpinned concurrently
+      return false;
+    }
+
+    await this.invalidatePinsCache(tenantId, conversationId);
+
+    try {
+      await this.kafkaProducer.publishMessageUnpinned({
+        id: messageId,
+        conversationId,
+        tenantId,
+        userId,
+        pinnedAt: pin.pinnedAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish message.unpinned event: ${error.message}`,
+        error.stack,
+      );
+      // We continue execution as the pin is already removed
+    }
+
+    this.logger.log(
+      `Unpinned message: ${messageId} in conversation: ${conversationId}`,
+    );
+    return true;
+  }
+
+  /**
+   * Invalidate the cached pins of a conversation
+   */
+  private async invalidatePinsCache(
+    tenantId: string,
+    conversationId: string,
+  ): Promise<void> {
+    try {
+      await this.cacheManager.del(
+        this.getConversationPinsCacheKey(tenantId, conversationId),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Cache invalidation error: ${error.message}`,
+        error.stack,
+      );
+      // Continue execution even if cache operations fail
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { PollClosingService } from './poll-closing.service';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { Message } from '../entities/message.entity';
+import { MessageContentType } from '../entities/message-content';
+
+jest.mock('../repositories/mongodb-message.repository');
+
+describe('PollClosingService', () => {
+  let service: PollClosingService;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  const tenantContext = { setCurrentTenant: jest.fn() };
+  const messageService = { closePoll: jest.fn() };
+  const moduleRef = {
+    resolve: jest.fn((token: unknown) =>
+      Promise.resolve(token === TenantContext ? tenantContext : messageService),
+    ),
+  };
+
+  const buildDuePoll = (id: string, tenantId = 'tenant123') =>
+    Message.create({
+      id,
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: 'Lunch?',
+      contentType: MessageContentType.POLL,
+      body: {
+        question: 'Lunch?',
+        options: ['Pizza', 'Sushi'],
+        closesAt: '2024-01-01T11:00:00Z',
+      },
+      tenantId,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollClosingService,
+        MessageRepository,
+        {
+          provide: ModuleRef,
+          useValue: moduleRef,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(30) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PollClosingService>(PollClosingService);
+    messageRepository = module.get(MessageRepository);
+    messageService.closePoll.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('closeDuePolls', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+
+    it('should close each poll in the context of its tenant', async () => {
+      const first = buildDuePoll('poll1');
+      const second = buildDuePoll('poll2', 'tenant456');
+      messageRepository.findPollsToClose.mockResolvedValue([first, second]);
+
+      const result = await service.closeDuePolls(now);
+
+      expect(result).toBe(2);
+      expect(messageRepository.findPollsToClose).toHaveBeenCalledWith(now, 100);
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant123');
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant456');
+      expect(messageService.closePoll).toHaveBeenCalledWith(first);
+      expect(messageService.closePoll).toHaveBeenCalledWith(second);
+    });
+
+    it('should not count polls another instance closed first', async () => {
+      messageRepository.findPollsToClose.mockResolvedValue([
+        buildDuePoll('poll1'),
+        buildDuePoll('poll2'),
+      ]);
+      messageService.closePoll.mockResolvedValueOnce(false);
+
+      const result = await service.closeDuePolls(now);
+
+      expect(result).toBe(1);
+    });
+
+    it('should continue with the next poll when one fails', async () => {
+      messageRepository.findPollsToClose.mockResolvedValue([
+        buildDuePoll('poll1'),
+        buildDuePoll('poll2'),
+      ]);
+      messageService.closePoll.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      const result = await service.closeDuePolls(now);
+
+      expect(result).toBe(1);
+      expect(messageService.closePoll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should do nothing when no poll is due', async () => {
+      messageRepository.findPollsToClose.mockResolvedValue([]);
+
+      const result = await service.closeDuePolls(now);
+
+      expect(result).toBe(0);
+      expect(moduleRef.resolve).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ContextIdFactory, ModuleRef } from '@nestjs/core';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { MessageApplicationService } from './message-application.service';
+
+/**
+ * Poll Closing Service
+ *
+ * Background job that closes polls once they reach their closing time and
+ * emits a `poll.closed` event with the final results of each of them. Votes
+ * are refused from the closing time on, before the job gets to the poll.
+ *
+ * Runs outside of any request, so it works across all tenants.
+ */
+@Injectable()
+export class PollClosingService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PollClosingService.name);
+
+  // Number of polls closed per query
+  private readonly CLOSING_BATCH_SIZE = 100;
+
+  private readonly closingIntervalSeconds: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly messageRepository: MessageRepository,
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+  ) {
+    this.closingIntervalSeconds = this.configService.get<number>(
+      'messages.pollCloseIntervalSeconds',
+      30,
+    );
+  }
+
+  /**
+   * Schedules the closing job
+   */
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.closeDuePolls();
+    }, this.closingIntervalSeconds * 1000);
+    // Do not keep the process alive only for the closing job
+    this.timer.unref();
+
+    this.logger.log(`Closing due polls every ${this.closingIntervalSeconds}s`);
+  }
+
+  /**
+   * Stops the closing job
+   */
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Close all polls that reached their closing time
+   *
+   * Skips the run if the previous one is still in progress. A failure on one
+   * poll is logged and the poll is retried on the next run.
+   *
+   * @param now Point in time to check the closing time against
+   * @returns Promise resolving to the number of closed polls
+   */
+  async closeDuePolls(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      this.logger.debug('Previous closing run still in progress, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let closed = 0;
+
+    try {
+      let batch = await this.messageRepository.findPollsToClose(
+        now,
+        this.CLOSING_BATCH_SIZE,
+      );
+
+      while (batch.length > 0) {
+        let closedInBatch = 0;
+
+        for (const message of batch) {
+          try {
+            // Resolve the request-scoped services for the tenant of the poll
+            const contextId = ContextIdFactory.create();
+            const tenantContext = await this.moduleRef.resolve(
+              TenantContext,
+              contextId,
+              { strict: false },
+            );
+            tenantContext.setCurrentTenant(message.tenantId);
+            const messageService = await this.moduleRef.resolve(
+              MessageApplicationService,
+              contextId,
+              { strict: false },
+            );
+
+            if (await messageService.closePoll(message)) {
+              closedInBatch++;
+            }
+          } catch (error) {
+            this.logger.error(
+              `Failed to close poll ${message.id}: ${error.message}`,
+              error.stack,
+            );
+          }
+        }
+
+        closed += closedInBatch;
+
+        // Stop when nothing could be closed so failing polls are not retried in a loop
+        if (closedInBatch === 0 || batch.length < this.CLOSING_BATCH_SIZE) {
+          break;
+        }
+
+        batch = await this.messageRepository.findPollsToClose(
+          now,
+          this.CLOSING_BATCH_SIZE,
+        );
+      }
+
+      if (closed > 0) {
+        this.logger.log(`Closed ${closed} polls`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to close due polls: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return closed;
+  }
+}
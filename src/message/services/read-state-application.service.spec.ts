@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ReadStateApplicationService } from './read-state-application.service';
+import { ReadStateRepository } from '../repositories/mongodb-read-state.repository';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
+import { Message } from '../entities/message.entity';
+import { ReadState } from '../entities/read-state.entity';
+
+jest.mock('../repositories/mongodb-read-state.repository');
+jest.mock('../repositories/mongodb-message.repository');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../conversation/services/conversation-application.service');
+
+describe('ReadStateApplicationService', () => {
+  let service: ReadStateApplicationService;
+  let readStateRepository: jest.Mocked<ReadStateRepository>;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  let conversationService: jest.Mocked<ConversationApplicationService>;
+  const mockCacheManager = {
+    get: jest.fn(),
+    set: jest.fn(),
+    del: jest.fn(),
+  };
+
+  const buildMessage = (conversationId = 'conv1') =>
+    Message.create({
+      id: 'msg1',
+      conversationId,
+      senderId: 'user2',
+      content: 'Hello',
+      tenantId: 'tenant123',
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReadStateApplicationService,
+        ReadStateRepository,
+        MessageRepository,
+        TenantContext,
+        ConversationApplicationService,
+        {
+          provide: CACHE_MANAGER,
+          useValue: mockCacheManager,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReadStateApplicationService>(
+      ReadStateApplicationService,
+    );
+    readStateRepository = module.get(ReadStateRepository);
+    messageRepository = module.get(MessageRepository);
+    tenantContext = module.get(TenantContext);
+    conversationService = module.get(ConversationApplicationService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    conversationService.getConversationById.mockResolvedValue(
+      Conversation.create({
+        id: 'conv1',
+        tenantId: 'tenant123',
+        title: 'General',
+        type: ConversationType.GROUP,
+        participants: ['user1', 'user2'],
+      }),
+    );
+    readStateRepository.upsert.mockImplementation((r) => Promise.resolve(r));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('markRead', () => {
+    it('should advance the cursor and invalidate the unread count', async () => {
+      const message = buildMessage();
+      readStateRepository.find.mockResolvedValue(null);
+      messageRepository.findById.mockResolvedValue(message);
+
+      const result = await service.markRead('conv1', 'msg1', 'user1');
+
+      expect(readStateRepository.upsert).toHaveBeenCalled();
+      expect(result.lastReadMessageId).toBe('msg1');
+      expect(result.lastReadAt).toEqual(message.timestamp);
+      expect(mockCacheManager.del).toHaveBeenCalledWith(
+        'unread-count:tenant123:conv1:user1',
+      );
+    });
+
+    it('should not move the cursor backwards', async () => {
+      const readState = ReadState.create({
+        tenantId: 'tenant123',
+        conversationId: 'conv1',
+        userId: 'user1',
+      });
+      readState.advanceTo('msg2', new Date(Date.now() + 60000));
+      readStateRepository.find.mockResolvedValue(readState);
+      messageRepository.findById.mockResolvedValue(buildMessage());
+
+      const result = await service.markRead('conv1', 'msg1', 'user1');
+
+      expect(result.lastReadMessageId).toBe('msg2');
+      expect(readStateRepository.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if the message does not exist', async () => {
+      messageRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        service.markRead('conv1', 'missing', 'user1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should reject a message from another conversation', async () => {
+      messageRepository.findById.mockResolvedValue(buildMessage('conv2'));
+
+      await expect(service.markRead('conv1', 'msg1', 'user1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('getUnreadCount', () => {
+    it('should count messages after the cursor and cache the result', async () => {
+      const readState = ReadState.create({
+        tenantId: 'tenant123',
+        conversationId: 'conv1',
+        userId: 'user1',
+      });
+      const lastReadAt = new Date();
+      readState.advanceTo('msg1', lastReadAt);
+      readStateRepository.find.mockResolvedValue(readState);
+      mockCacheManager.get.mockResolvedValue(undefined);
+      messageRepository.countUnread.mockResolvedValue(3);
+
+      const result = await service.getUnreadCount('conv1', 'user1');
+
+      expect(messageRepository.countUnread).toHaveBeenCalledWith(
+        'conv1',
+        'tenant123',
+        'user1',
+        lastReadAt,
+      );
+      expect(mockCacheManager.set).toHaveBeenCalledWith(
+        'unread-count:tenant123:conv1:user1',
+        3,
+        300000,
+      );
+      expect(result.unreadCount).toBe(3);
+    });
+
+    it('should return a cached count without counting', async () => {
+      readStateRepository.find.mockResolvedValue(null);
+      mockCacheManager.get.mockResolvedValue(0);
+
+      const result = await service.getUnreadCount('conv1', 'user1');
+
+      expect(messageRepository.countUnread).not.toHaveBeenCalled();
+      expect(result.unreadCount).toBe(0);
+      expect(result.readState.lastReadMessageId).toBeUndefined();
+    });
+
+    it('should throw NotFoundException for an unknown conversation', async () => {
+      conversationService.getConversationById.mockResolvedValue(null);
+
+      await expect(service.getUnreadCount('missing', 'user1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ConversationApplicationService } from '../../conversation/services/conversation-application.service';
+import { ReadState } from '../entities/read-state.entity';
+import { ReadStateRepository } from '../repositories/mongodb-read-state.repository';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+
+/**
+ * Read State Application Service
+ *
+ * Maintains per-participant read cursors and computes unread counts against
+ * message timestamps. Unread counts are cached and invalidated whenever a
+ * cursor moves or a new message is posted to the conversation.
+ */
+@Injectable()
+export class ReadStateApplicationService {
+  private readonly logger = new Logger(ReadStateApplicationService.name);
+
+  // Cache key prefix for unread counts
+  private readonly UNREAD_COUNT_CACHE_KEY_PREFIX = 'unread-count:';
+
+  // Cache TTL in seconds (override default from module when needed)
+  private readonly UNREAD_COUNT_CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private readonly readStateRepository: ReadStateRepository,
+    private readonly messageRepository: MessageRepository,
+    private readonly conversationService: ConversationApplicationService,
+    private readonly tenantContext: TenantContext,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+  ) {
+    this.logger.log('ReadStateApplicationService initialized');
+  }
+
+  /**
+   * Generate a cache key for the unread count of a user in a conversation
+   *
+   * @param tenantId Tenant ID
+   * @param conversationId Conversation ID
+   * @param userId User ID
+   * @returns Formatted cache key
+   */
+  private getUnreadCountCacheKey(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): string {
+    return `${this.UNREAD_COUNT_CACHE_KEY_PREFIX}${tenantId}:${conversationId}:${userId}`;
+  }
+
+  /**
+   * Ensure the conversation exists for the current tenant
+   *
+   * @param conversationId Conversation ID
+   * @throws NotFoundException if the conversation does not exist
+   */
+  private async assertConversationExists(
+    conversationId: string,
+  ): Promise<void> {
+    const conversation =
+      await this.conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      throw new NotFoundException(
+        `Conversation with ID "${conversationId}" not found`,
+      );
+    }
+  }
+
+  /**
+   * Load the read state of a user, or an empty one if nothing was read yet
+   */
+  private async findOrCreate(
+    tenantId: string,
+    conversationId: string,
+    userId: string,
+  ): Promise<ReadState> {
+    const readState = await this.readStateRepository.find(
+      tenantId,
+      conversationId,
+      userId,
+    );
+
+    return readState || ReadState.create({ tenantId, conversationId, userId });
+  }
+
+  /**
+   * Advance the read cursor of a user to a message
+   *
+   * @param conversationId The conversation being read
+   * @param messageId The last message the user has read
+   * @param userId The reading user
+   * @returns Promise resolving to the current read state
+   * @throws NotFoundException if the conversation or message does not exist
+   * @throws BadRequestException if the message belongs to another conversation
+   */
+  async markRead(
+    conversationId: string,
+    messageId: string,
+    userId: string,
+  ): Promise<ReadState> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Marking conversation: ${conversationId} read up to message: ${messageId} for user: ${userId}, tenant: ${tenantId}`,
+    );
+
+    await this.assertConversationExists(conversationId);
+
+    const message = await this.messageRepository.findById(messageId, tenantId);
+    if (!message) {
+      throw new NotFoundException(`Message with ID "${messageId}" not found`);
+    }
+
+    if (message.conversationId !== conversationId) {
+      throw new BadRequestException(
+        `Message with ID "${messageId}" belongs to another conversation`,
+      );
+    }
+
+    const readState = await this.findOrCreate(tenantId, conversationId, userId);
+
+    if (!readState.advanceTo(message.id, message.timestamp)) {
+      this.logger.debug(
+        `Read cursor of user: ${userId} already at or past message: ${messageId}`,
+      );
+      return readState;
+    }
+
+    const savedReadState = await this.readStateRepository.upsert(readState);
+    await this.invalidateUnreadCounts(conversationId, [userId]);
+
+    this.logger.log(
+      `Advanced read cursor of user: ${userId} in conversation: ${conversationId} to message: ${messageId}`,
+    );
+    return savedReadState;
+  }
+
+  /**
+   * Get the unread count of a user in a conversation
+   *
+   * @param conversationId The conversation being read
+   * @param userId The reading user
+   * @returns Promise resolving to the read state and the number of unread messages
+   * @throws NotFoundException if the conversation does not exist
+   */
+  async getUnreadCount(
+    conversationId: string,
+    userId: string,
+  ): Promise<{ readState: ReadState; unreadCount: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Getting unread count for user: ${userId} in conversation: ${conversationId}, tenant: ${tenantId}`,
+    );
+
+    await this.assertConversationExists(conversationId);
+
+    const readState = await this.findOrCreate(tenantId, conversationId, userId);
+    const cacheKey = this.getUnreadCountCacheKey(
+      tenantId,
+      conversationId,
+      userId,
+    );
+
+    try {
+      const cachedCount = await this.cacheManager.get<number>(cacheKey);
+
+      if (cachedCount !== undefined && cachedCount !== null) {
+        this.logger.debug(`Cache hit for unread count: ${cacheKey}`);
+        return { readState, unreadCount: cachedCount };
+      }
+
+      this.logger.debug(
+        `Cache miss for unread count: ${cacheKey}, counting in repository`,
+      );
+    } catch (error) {
+      this.logger.warn(`Cache read error: ${error.message}`, error.stack);
+      // Continue to repository on cache error
+    }
+
+    const unreadCount = await this.messageRepository.countUnread(
+      conversationId,
+      tenantId,
+      userId,
+      readState.lastReadAt,
+    );
+
+    try {
+      await this.cacheManager.set(
+        cacheKey,
+        unreadCount,
+        this.UNREAD_COUNT_CACHE_TTL * 1000, // NestJS Cache Manager expects milliseconds
+      );
+      this.logger.debug(`Cached unread count: ${cacheKey}`);
+    } catch (error) {
+      this.logger.warn(`Cache write error: ${error.message}`, error.stack);
+      // Continue execution even if cache operations fail
+    }
+
+    return { readState, unreadCount };
+  }
+
+  /**
+   * Invalidate cached unread counts of users in a conversation
+   *
+   * @param conversationId Conversation ID
+   * @param userIds Users whose unread counts changed
+   */
+  async invalidateUnreadCounts(
+    conversationId: string,
+    userIds: string[],
+  ): Promise<void> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+
+    try {
+      await Promise.all(
+        userIds.map((userId) =>
+          this.cacheManager.del(
+            this.getUnreadCountCacheKey(tenantId, conversationId, userId),
+          ),
+        ),
+      );
+      this.logger.debug(
+        `Invalidated unread counts of ${userIds.length} users in conversation: ${conversationId}`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Cache invalidation error: ${error.message}`,
+        error.stack,
+      );
+      // Continue execution even if cache operations fail
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ScheduledMessageApplicationService } from './scheduled-message-application.service';
+import { ScheduledMessageRepository } from '../repositories/mongodb-scheduled-message.repository';
+import { MessageApplicationService } from './message-application.service';
+import { DraftApplicationService } from './draft-application.service';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { RedactionService } from '../../common/redaction/redaction.service';
+import { PiiType } from '../../common/redaction/pii-detectors';
+import {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+} from '../entities/scheduled-message.entity';
+import { MessageContentType } from '../entities/message-content';
+import {
+  Conversation,
+  ConversationType,
+} from '../../conversation/entities/conversation.entity';
+
+jest.mock('../repositories/mongodb-scheduled-message.repository');
+jest.mock('./message-application.service');
+jest.mock('./draft-application.service');
+jest.mock('../../common/contexts/tenant.context');
+jest.mock('../../common/redaction/redaction.service');
+
+describe('ScheduledMessageApplicationService', () => {
+  let service: ScheduledMessageApplicationService;
+  let scheduledMessageRepository: jest.Mocked<ScheduledMessageRepository>;
+  let messageService: jest.Mocked<MessageApplicationService>;
+  let draftService: jest.Mocked<DraftApplicationService>;
+  let tenantContext: jest.Mocked<TenantContext>;
+  let redactionService: jest.Mocked<RedactionService>;
+
+  const sendAt = new Date('2030-01-01T09:00:00Z');
+
+  const scheduledMessage = (senderId = 'user1') =>
+    ScheduledMessage.create({
+      id: 'sched1',
+      tenantId: 'tenant123',
+      conversationId: 'conv1',
+      senderId,
+      content: 'Good morning',
+      sendAt,
+      messageId: 'msg1',
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledMessageApplicationService,
+        ScheduledMessageRepository,
+        MessageApplicationService,
+        DraftApplicationService,
+        RedactionService,
+        TenantContext,
+      ],
+    }).compile();
+
+    service = module.get<ScheduledMessageApplicationService>(
+      ScheduledMessageApplicationService,
+    );
+    scheduledMessageRepository = module.get(ScheduledMessageRepository);
+    messageService = module.get(MessageApplicationService);
+    draftService = module.get(DraftApplicationService);
+    tenantContext = module.get(TenantContext);
+    redactionService = module.get(RedactionService);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    redactionService.redactForStorage.mockImplementation(
+      (_tenantId, message) => ({
+        content: message.content,
+        body: message.body,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('scheduleMessage', () => {
+    const createMessageDto = {
+      conversationId: 'conv1',
+      senderId: 'user1',
+      content: 'Good morning',
+      attachmentIds: ['att1', 'att1'],
+      sendAt,
+    };
+
+    it('should validate and store the message without sending it', async () => {
+      messageService.validateNewMessage.mockResolvedValue({
+        conversation: Conversation.create({
+          id: 'conv1',
+          tenantId: 'tenant123',
+          title: 'General',
+          type: ConversationType.GROUP,
+          participants: ['user1'],
+        }),
+        parentMessage: null,
+        content: 'Good morning',
+        contentType: MessageContentType.TEXT,
+        attachmentIds: ['att1'],
+      });
+      scheduledMessageRepository.save.mockImplementation((saved) =>
+        Promise.resolve(saved),
+      );
+
+      const result = await service.scheduleMessage(createMessageDto, 'user1');
+
+      expect(messageService.validateNewMessage).toHaveBeenCalledWith(
+        createMessageDto,
+      );
+      expect(messageService.createMessage).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        tenantId: 'tenant123',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        attachmentIds: ['att1'],
+        sendAt,
+        status: ScheduledMessageStatus.PENDING,
+      });
+      expect(result.messageId).toEqual(expect.any(String));
+      expect(draftService.clearDraft).toHaveBeenCalledWith('conv1', 'user1');
+    });
+
+    it('should schedule the message for the authenticated user, not the sender given', async () => {
+      messageService.validateNewMessage.mockResolvedValue({
+        conversation: Conversation.create({
+          id: 'conv1',
+          tenantId: 'tenant123',
+          title: 'General',
+          type: ConversationType.GROUP,
+          participants: ['user1', 'user2'],
+        }),
+        parentMessage: null,
+        content: 'Good morning',
+        contentType: MessageContentType.TEXT,
+        attachmentIds: [],
+      });
+      scheduledMessageRepository.save.mockImplementation((saved) =>
+        Promise.resolve(saved),
+      );
+
+      const result = await service.scheduleMessage(
+        { ...createMessageDto, senderId: 'user2' },
+        'user1',
+      );
+
+      expect(messageService.validateNewMessage).toHaveBeenCalledWith({
+        ...createMessageDto,
+        senderId: 'user1',
+      });
+      expect(result.senderId).toBe('user1');
+      expect(draftService.clearDraft).toHaveBeenCalledWith('conv1', 'user1');
+    });
+
+    it('should store the message redacted', async () => {
+      const redaction = {
+        detected: [PiiType.PHONE],
+        original: { iv: 'iv', tag: 'tag', data: 'data' },
+      };
+      messageService.validateNewMessage.mockResolvedValue({
+        conversation: Conversation.create({
+          id: 'conv1',
+          tenantId: 'tenant123',
+          title: 'General',
+          type: ConversationType.GROUP,
+          participants: ['user1'],
+        }),
+        parentMessage: null,
+        content: 'Call +1 415 555 0100',
+        contentType: MessageContentType.TEXT,
+        attachmentIds: [],
+      });
+      redactionService.redactForStorage.mockReturnValue({
+        content: 'Call [redacted phone]',
+        redaction,
+      });
+      scheduledMessageRepository.save.mockImplementation((saved) =>
+        Promise.resolve(saved),
+      );
+
+      const result = await service.scheduleMessage(
+        {
+          ...createMessageDto,
+          content: 'Call +1 415 555 0100',
+        },
+        'user1',
+      );
+
+      expect(redactionService.redactForStorage).toHaveBeenCalledWith(
+        'tenant123',
+        { content: 'Call +1 415 555 0100', body: undefined },
+      );
+      expect(scheduledMessageRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: 'Call [redacted phone]',
+          redaction,
+        }),
+      );
+      expect(result.redaction).toEqual(redaction);
+    });
+
+    it('should not store a message that fails validation', async () => {
+      messageService.validateNewMessage.mockRejectedValue(
+        new NotFoundException('Conversation not found'),
+      );
+
+      await expect(
+        service.scheduleMessage(createMessageDto, 'user1'),
+      ).rejects.toThrow(NotFoundException);
+      expect(scheduledMessageRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelScheduledMessage', () => {
+    it('should cancel a pending message of the sender', async () => {
+      scheduledMessageRepository.findById.mockResolvedValue(scheduledMessage());
+      scheduledMessageRepository.cancel.mockResolvedValue(true);
+
+      const result = await service.cancelScheduledMessage('sched1', 'user1');
+
+      expect(scheduledMessageRepository.cancel).toHaveBeenCalledWith(
+        'sched1',
+        'tenant123',
+        expect.any(Date),
+      );
+      expect(result?.status).toBe(ScheduledMessageStatus.CANCELLED);
+    });
+
+    it('should return null for messages of another sender', async () => {
+      scheduledMessageRepository.findById.mockResolvedValue(
+        scheduledMessage('user2'),
+      );
+
+      const result = await service.cancelScheduledMessage('sched1', 'user1');
+
+      expect(result).toBeNull();
+      expect(scheduledMessageRepository.cancel).not.toHaveBeenCalled();
+    });
+
+    it('should reject messages that are being sent', async () => {
+      scheduledMessageRepository.findById.mockResolvedValue(scheduledMessage());
+      scheduledMessageRepository.cancel.mockResolvedValue(false);
+
+      await expect(
+        service.cancelScheduledMessage('sched1', 'user1'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { RedactionService } from '../../common/redaction/redaction.service';
+import { CreateMessageDto } from '../dto/create-message.dto';
+import { ScheduledMessage } from '../entities/scheduled-message.entity';
+import { ScheduledMessageRepository } from '../repositories/mongodb-scheduled-message.repository';
+import { MessageApplicationService } from './message-application.service';
+import { DraftApplicationService } from './draft-application.service';
+
+/**
+ * Scheduled Message Application Service
+ *
+ * Holds messages back until their send time. Scheduled messages are not
+ * visible, cached, indexed or announced until the dispatcher sends them.
+ */
+@Injectable()
+export class ScheduledMessageApplicationService {
+  private readonly logger = new Logger(ScheduledMessageApplicationService.name);
+
+  constructor(
+    private readonly scheduledMessageRepository: ScheduledMessageRepository,
+    private readonly messageService: MessageApplicationService,
+    private readonly draftService: DraftApplicationService,
+    private readonly redactionService: RedactionService,
+    private readonly tenantContext: TenantContext,
+  ) {
+    this.logger.log('ScheduledMessageApplicationService initialized');
+  }
+
+  /**
+   * Schedule a message to be sent at `sendAt`
+   *
+   * The message is validated now, so that an invalid one is rejected right
+   * away; it is validated again when it is sent. Personal data is redacted
+   * before the message is stored, as for a message sent right away.
+   *
+   * @param createMessageDto DTO containing message creation data and the send time
+   * @param senderId The authenticated user, who sends the message; the sender given in the DTO is ignored
+   * @returns Promise resolving to the scheduled message
+   * @throws NotFoundException if the conversation or the parent message does not exist
+   * @throws ConflictException if the conversation is closed
+   * @throws BadRequestException if the parent message or an attachment belongs to another conversation
+   */
+  async scheduleMessage(
+    createMessageDto: CreateMessageDto & { sendAt: Date },
+    senderId: string,
+  ): Promise<ScheduledMessage> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Scheduling message of sender: ${senderId} for tenant: ${tenantId} at ${createMessageDto.sendAt.toISOString()}`,
+    );
+
+    const { content, contentType, body, templateId, attachmentIds } =
+      await this.messageService.validateNewMessage({
+        ...createMessageDto,
+        senderId,
+      });
+    const redacted = this.redactionService.redactForStorage(tenantId, {
+      content,
+      body,
+    });
+
+    const scheduledMessage = ScheduledMessage.create({
+      id: uuidv4(),
+      tenantId,
+      conversationId: createMessageDto.conversationId,
+      senderId,
+      content: redacted.content,
+      contentType,
+      body: redacted.body,
+      metadata: createMessageDto.metadata,
+      parentMessageId: createMessageDto.parentMessageId,
+      attachmentIds,
+      expiresAt: createMessageDto.expiresAt,
+      ttlSeconds: createMessageDto.ttlSeconds,
+      templateId,
+      redaction: redacted.redaction,
+      sendAt: createMessageDto.sendAt,
+      messageId: uuidv4(),
+    });
+
+    const savedScheduledMessage =
+      await this.scheduledMessageRepository.save(scheduledMessage);
+
+    // The draft has been submitted; it must not be cleared at send time
+    await this.draftService.clearDraft(
+      savedScheduledMessage.conversationId,
+      savedScheduledMessage.senderId,
+    );
+
+    this.logger.log(
+      `Scheduled message ${savedScheduledMessage.id} for ${savedScheduledMessage.sendAt.toISOString()}`,
+    );
+    return savedScheduledMessage;
+  }
+
+  /**
+   * Get the pending scheduled messages of a sender, soonest first
+   *
+   * @param senderId The sender of the messages
+   * @param options Pagination options
+   * @returns Promise resolving to paginated scheduled messages
+   */
+  async getScheduledMessages(
+    senderId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ scheduledMessages: ScheduledMessage[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Finding scheduled messages of sender: ${senderId}, tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    return this.scheduledMessageRepository.findPendingBySender(
+      senderId,
+      tenantId,
+      options,
+    );
+  }
+
+  /**
+   * Cancel a pending scheduled message of a sender
+   *
+   * @param id The ID of the scheduled message
+   * @param senderId The user cancelling the message
+   * @returns Promise resolving to the cancelled message, or null if the sender has no such message
+   * @throws ConflictException if the message was already sent, cancelled or is being sent
+   */
+  async cancelScheduledMessage(
+    id: string,
+    senderId: string,
+  ): Promise<ScheduledMessage | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Cancelling scheduled message: ${id} for tenant: ${tenantId}`,
+    );
+
+    const scheduledMessage = await this.scheduledMessageRepository.findById(
+      id,
+      tenantId,
+    );
+
+    // Other senders' messages are reported as missing
+    if (!scheduledMessage || scheduledMessage.senderId !== senderId) {
+      this.logger.warn(`Scheduled message not found with ID: ${id}`);
+      return null;
+    }
+
+    const cancelledAt = new Date();
+    const cancelled =
+      scheduledMessage.isPending() &&
+      (await this.scheduledMessageRepository.cancel(id, tenantId, cancelledAt));
+
+    if (!cancelled) {
+      throw new ConflictException(
+        `Scheduled message with ID "${id}" can no longer be cancelled`,
+      );
+    }
+
+    scheduledMessage.cancel(cancelledAt);
+    this.logger.log(`Cancelled scheduled message: ${id}`);
+    return scheduledMessage;
+  }
+}
@@ -0,0 +1,263 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { ConflictException } from '@nestjs/common';
+import { ScheduledMessageDispatcher } from './scheduled-message-dispatcher.service';
+import { ScheduledMessageRepository } from '../repositories/mongodb-scheduled-message.repository';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ScheduledMessage } from '../entities/scheduled-message.entity';
+import { Message } from '../entities/message.entity';
+
+jest.mock('../repositories/mongodb-scheduled-message.repository');
+jest.mock('../repositories/mongodb-message.repository');
+
+describe('ScheduledMessageDispatcher', () => {
+  let dispatcher: ScheduledMessageDispatcher;
+  let scheduledMessageRepository: jest.Mocked<ScheduledMessageRepository>;
+  let messageRepository: jest.Mocked<MessageRepository>;
+  const tenantContext = { setCurrentTenant: jest.fn() };
+  const messageService = { createMessage: jest.fn() };
+  const moduleRef = {
+    resolve: jest.fn((token: unknown) =>
+      Promise.resolve(token === TenantContext ? tenantContext : messageService),
+    ),
+  };
+  const config: Record<string, unknown> = {
+    'scheduledMessages.lockSeconds': 60,
+    'scheduledMessages.maxAttempts': 3,
+  };
+
+  const buildScheduledMessage = (id: string, attempts = 1) =>
+    ScheduledMessage.fromDatabase({
+      ...ScheduledMessage.create({
+        id,
+        tenantId: 'tenant123',
+        conversationId: 'conv1',
+        senderId: 'user1',
+        content: 'Good morning',
+        attachmentIds: ['att1'],
+        sendAt: new Date('2024-01-01T09:00:00Z'),
+        messageId: `message-of-${id}`,
+      }).toDatabase(),
+      status: 'processing',
+      attempts,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledMessageDispatcher,
+        ScheduledMessageRepository,
+        MessageRepository,
+        {
+          provide: ModuleRef,
+          useValue: moduleRef,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key in config ? config[key] : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get<ScheduledMessageDispatcher>(
+      ScheduledMessageDispatcher,
+    );
+    scheduledMessageRepository = module.get(ScheduledMessageRepository);
+    messageRepository = module.get(MessageRepository);
+
+    messageRepository.findById.mockResolvedValue(null);
+    scheduledMessageRepository.markSent.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('dispatchDue', () => {
+    const now = new Date('2024-01-01T09:00:05Z');
+
+    it('should send due messages in the tenant of each message', async () => {
+      const scheduledMessage = buildScheduledMessage('sched1');
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(scheduledMessage)
+        .mockResolvedValueOnce(null);
+
+      const result = await dispatcher.dispatchDue(now);
+
+      expect(result).toBe(1);
+      expect(scheduledMessageRepository.claimDue).toHaveBeenCalledWith(
+        now,
+        expect.any(Date),
+      );
+      expect(tenantContext.setCurrentTenant).toHaveBeenCalledWith('tenant123');
+      expect(messageService.createMessage).toHaveBeenCalledWith(
+        {
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Good morning',
+          metadata: undefined,
+          parentMessageId: undefined,
+          attachmentIds: ['att1'],
+          expiresAt: undefined,
+          ttlSeconds: undefined,
+        },
+        { id: 'message-of-sched1' },
+      );
+      expect(scheduledMessageRepository.markSent).toHaveBeenCalledWith(
+        scheduledMessage,
+        expect.any(Date),
+      );
+    });
+
+    it('should take the lease of each claim from the time it is claimed', async () => {
+      jest.useFakeTimers({
+        now: new Date('2024-01-01T09:00:05Z'),
+        doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate'],
+      });
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(buildScheduledMessage('sched1'))
+        .mockResolvedValueOnce(buildScheduledMessage('sched2'))
+        .mockResolvedValueOnce(null);
+      // Sending the first message takes longer than the lease
+      messageService.createMessage.mockImplementationOnce(() => {
+        jest.setSystemTime(new Date('2024-01-01T09:02:05Z'));
+        return Promise.resolve();
+      });
+
+      try {
+        await dispatcher.dispatchDue(now);
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(scheduledMessageRepository.claimDue).toHaveBeenNthCalledWith(
+        1,
+        now,
+        new Date('2024-01-01T09:01:05Z'),
+      );
+      expect(scheduledMessageRepository.claimDue).toHaveBeenNthCalledWith(
+        2,
+        now,
+        new Date('2024-01-01T09:03:05Z'),
+      );
+    });
+
+    it('should leave a message to the dispatcher that took it over', async () => {
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(buildScheduledMessage('sched1'))
+        .mockResolvedValueOnce(null);
+      scheduledMessageRepository.markSent.mockResolvedValue(false);
+
+      const result = await dispatcher.dispatchDue(now);
+
+      expect(result).toBe(0);
+      expect(scheduledMessageRepository.release).not.toHaveBeenCalled();
+      expect(scheduledMessageRepository.markFailed).not.toHaveBeenCalled();
+    });
+
+    it('should count a message another dispatcher created meanwhile as sent', async () => {
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(buildScheduledMessage('sched1'))
+        .mockResolvedValueOnce(null);
+      messageService.createMessage.mockRejectedValueOnce(
+        Object.assign(new Error('E11000 duplicate key error'), {
+          code: 11000,
+        }),
+      );
+
+      const result = await dispatcher.dispatchDue(now);
+
+      expect(result).toBe(1);
+      expect(scheduledMessageRepository.markSent).toHaveBeenCalled();
+      expect(scheduledMessageRepository.release).not.toHaveBeenCalled();
+    });
+
+    it('should not create a message that a previous attempt already created', async () => {
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(buildScheduledMessage('sched1', 2))
+        .mockResolvedValueOnce(null);
+      messageRepository.findById.mockResolvedValue(
+        Message.create({
+          id: 'message-of-sched1',
+          conversationId: 'conv1',
+          senderId: 'user1',
+          content: 'Good morning',
+          tenantId: 'tenant123',
+        }),
+      );
+
+      const result = await dispatcher.dispatchDue(now);
+
+      expect(result).toBe(1);
+      expect(messageService.createMessage).not.toHaveBeenCalled();
+      expect(scheduledMessageRepository.markSent).toHaveBeenCalled();
+    });
+
+    it('should release a message after a transient failure and end the run', async () => {
+      const scheduledMessage = buildScheduledMessage('sched1');
+      scheduledMessageRepository.claimDue.mockResolvedValueOnce(
+        scheduledMessage,
+      );
+      messageService.createMessage.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      const result = await dispatcher.dispatchDue(now);
+
+      expect(result).toBe(0);
+      expect(scheduledMessageRepository.release).toHaveBeenCalledWith(
+        scheduledMessage,
+        'Connection lost',
+      );
+      expect(scheduledMessageRepository.claimDue).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail a message rejected by validation and continue', async () => {
+      const rejected = buildScheduledMessage('sched1');
+      const accepted = buildScheduledMessage('sched2');
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(rejected)
+        .mockResolvedValueOnce(accepted)
+        .mockResolvedValueOnce(null);
+      messageService.createMessage.mockRejectedValueOnce(
+        new ConflictException('Conversation is closed'),
+      );
+
+      const result = await dispatcher.dispatchDue(now);
+
+      expect(result).toBe(1);
+      expect(scheduledMessageRepository.markFailed).toHaveBeenCalledWith(
+        rejected,
+        'Conversation is closed',
+      );
+      expect(scheduledMessageRepository.markSent).toHaveBeenCalledWith(
+        accepted,
+        expect.any(Date),
+      );
+    });
+
+    it('should fail a message that ran out of attempts', async () => {
+      const scheduledMessage = buildScheduledMessage('sched1', 3);
+      scheduledMessageRepository.claimDue
+        .mockResolvedValueOnce(scheduledMessage)
+        .mockResolvedValueOnce(null);
+      messageService.createMessage.mockRejectedValueOnce(
+        new Error('Connection lost'),
+      );
+
+      await dispatcher.dispatchDue(now);
+
+      expect(scheduledMessageRepository.markFailed).toHaveBeenCalledWith(
+        scheduledMessage,
+        'Connection lost',
+      );
+      expect(scheduledMessageRepository.release).not.toHaveBeenCalled();
+    });
+  });
+});
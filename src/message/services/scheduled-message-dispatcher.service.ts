@@ -0,0 +1,262 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ContextIdFactory, ModuleRef } from '@nestjs/core';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { ScheduledMessage } from '../entities/scheduled-message.entity';
+import { MessageRepository } from '../repositories/mongodb-message.repository';
+import { ScheduledMessageRepository } from '../repositories/mongodb-scheduled-message.repository';
+import { MessageApplicationService } from './message-application.service';
+
+// Error code of MongoDB for a violated unique index
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+/**
+ * Scheduled Message Dispatcher
+ *
+ * Background job that sends scheduled messages once they are due. State is
+ * kept in the database, so messages survive restarts, and every message is
+ * claimed atomically with a lease, so several instances can run the job
+ * side by side. A message whose dispatcher dies is picked up again when its
+ * lease expires; its pre-assigned ID, unique among the messages of the
+ * tenant, guarantees it is only created once. A dispatcher that lost its
+ * claim leaves the message to the one holding it.
+ *
+ * Runs outside of any request, so it works across all tenants.
+ */
+@Injectable()
+export class ScheduledMessageDispatcher
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(ScheduledMessageDispatcher.name);
+
+  // Maximum number of messages sent per run
+  private readonly DISPATCH_BATCH_SIZE = 100;
+
+  private readonly pollIntervalSeconds: number;
+  private readonly lockSeconds: number;
+  private readonly maxAttempts: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly scheduledMessageRepository: ScheduledMessageRepository,
+    private readonly messageRepository: MessageRepository,
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+  ) {
+    this.pollIntervalSeconds = this.configService.get<number>(
+      'scheduledMessages.pollIntervalSeconds',
+      5,
+    );
+    this.lockSeconds = this.configService.get<number>(
+      'scheduledMessages.lockSeconds',
+      60,
+    );
+    this.maxAttempts = this.configService.get<number>(
+      'scheduledMessages.maxAttempts',
+      5,
+    );
+  }
+
+  /**
+   * Schedules the dispatch job
+   */
+  onModuleInit(): void {
+    this.timer = setInterval(() => {
+      void this.dispatchDue();
+    }, this.pollIntervalSeconds * 1000);
+    // Do not keep the process alive only for the dispatch job
+    this.timer.unref();
+
+    this.logger.log(
+      `Dispatching scheduled messages every ${this.pollIntervalSeconds}s`,
+    );
+  }
+
+  /**
+   * Stops the dispatch job
+   */
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Send all scheduled messages that are due
+   *
+   * Skips the run if the previous one is still in progress. A message that
+   * fails to send is released and retried on the next run, until it runs
+   * out of attempts or is rejected by validation.
+   *
+   * @param now Point in time up to which messages are due
+   * @returns Promise resolving to the number of sent messages
+   */
+  async dispatchDue(now: Date = new Date()): Promise<number> {
+    if (this.running) {
+      this.logger.debug('Previous dispatch still running, skipping');
+      return 0;
+    }
+
+    this.running = true;
+    let sent = 0;
+
+    try {
+      for (let i = 0; i < this.DISPATCH_BATCH_SIZE; i++) {
+        // Sending takes time, so the claim counts from the current time
+        const scheduledMessage = await this.scheduledMessageRepository.claimDue(
+          now,
+          this.lockedUntil(),
+        );
+        if (!scheduledMessage) {
+          break;
+        }
+
+        const outcome = await this.dispatch(scheduledMessage);
+        if (outcome === 'sent') {
+          sent++;
+        } else if (outcome === 'released') {
+          // Stop so the released message is not claimed again in a loop
+          break;
+        }
+      }
+
+      if (sent > 0) {
+        this.logger.log(`Sent ${sent} scheduled messages`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch scheduled messages: ${error.message}`,
+        error.stack,
+      );
+    } finally {
+      this.running = false;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Until when a claim taken now holds
+   */
+  private lockedUntil(): Date {
+    return new Date(Date.now() + this.lockSeconds * 1000);
+  }
+
+  /**
+   * Send a claimed message in the context of its tenant
+   *
+   * @param scheduledMessage The claimed message
+   * @returns Promise resolving to whether the message was sent, released for a retry, failed for good, or was taken over by another dispatcher
+   */
+  private async dispatch(
+    scheduledMessage: ScheduledMessage,
+  ): Promise<'sent' | 'released' | 'failed' | 'lost'> {
+    const { id, tenantId, messageId } = scheduledMessage;
+
+    try {
+      // A previous attempt may have created the message before losing its claim
+      const existingMessage = await this.messageRepository.findById(
+        messageId,
+        tenantId,
+        { includeDeleted: true, includeExpired: true },
+      );
+
+      if (!existingMessage) {
+        // Resolve the request-scoped services for the tenant of the message
+        const contextId = ContextIdFactory.create();
+        const tenantContext = await this.moduleRef.resolve(
+          TenantContext,
+          contextId,
+          { strict: false },
+        );
+        tenantContext.setCurrentTenant(tenantId);
+        const messageService = await this.moduleRef.resolve(
+          MessageApplicationService,
+          contextId,
+          { strict: false },
+        );
+
+        try {
+          await messageService.createMessage(
+            {
+              conversationId: scheduledMessage.conversationId,
+              senderId: scheduledMessage.senderId,
+              content: scheduledMessage.content,
+              contentType: scheduledMessage.contentType,
+              body: scheduledMessage.body,
+              metadata: scheduledMessage.metadata,
+              parentMessageId: scheduledMessage.parentMessageId,
+              attachmentIds: scheduledMessage.attachmentIds,
+              expiresAt: scheduledMessage.expiresAt,
+              ttlSeconds: scheduledMessage.ttlSeconds,
+            },
+            // The draft was cleared when the message was scheduled; the
+            // template was rendered and the content redacted then too
+            {
+              id: messageId,
+              templateId: scheduledMessage.templateId,
+              redaction: scheduledMessage.redaction,
+            },
+          );
+        } catch (error) {
+          // Another dispatcher created the message in the meantime
+          if (error?.code !== DUPLICATE_KEY_ERROR_CODE) {
+            throw error;
+          }
+        }
+      }
+
+      if (
+        !(await this.scheduledMessageRepository.markSent(
+          scheduledMessage,
+          new Date(),
+        ))
+      ) {
+        this.logger.warn(`Scheduled message ${id} was taken over`);
+        return 'lost';
+      }
+      return 'sent';
+    } catch (error) {
+      this.logger.error(
+        `Failed to send scheduled message ${id}: ${error.message}`,
+        error.stack,
+      );
+
+      // Validation errors, e.g. a closed conversation, do not go away on retry
+      const outcome =
+        error instanceof HttpException ||
+        scheduledMessage.attempts >= this.maxAttempts
+          ? 'failed'
+          : 'released';
+
+      try {
+        if (outcome === 'failed') {
+          await this.scheduledMessageRepository.markFailed(
+            scheduledMessage,
+            error.message,
+          );
+        } else {
+          await this.scheduledMessageRepository.release(
+            scheduledMessage,
+            error.message,
+          );
+        }
+      } catch (updateError) {
+        this.logger.error(
+          `Failed to update scheduled message ${id}: ${updateError.message}`,
+          updateError.stack,
+        );
+        // The claim expires and the message is retried by the next claim
+        return 'released';
+      }
+      return outcome;
+    }
+  }
+}
@@ -18,7 +18,7 @@ import {
 import { SearchApplicationService } from '../services/search-application.service';
 import { SearchQueryDto } from '../dto/search-query.dto';
 import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
-import { MessageResponseDto } from 'src/message/dto/message-response.dto';
+import { MessageResponseDto } from '../../message/dto/message-response.dto';
 
 /**
  * Controller handling conversation message search operations
@@ -72,6 +72,12 @@ export class SearchController {
     required: false,
     example: 10,
   })
+  @ApiQuery({
+    name: 'threadId',
+    description: 'ID of a thread root message to restrict the search to',
+    type: String,
+    required: false,
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Messages found successfully',
@@ -128,10 +134,22 @@ export class SearchController {
     @Query(new ValidationPipe({ transform: true }))
     searchQueryDto: SearchQueryDto,
   ): Promise<PaginatedResponseDto<MessageResponseDto>> {
-    const { q, page, limit } = searchQueryDto;
-    return this.searchApplicationService.searchMessages(conversationId, q, {
-      page,
-      limit,
-    });
+    const { q, page, limit, threadId } = searchQueryDto;
+    const result = await this.searchApplicationService.searchMessages(
+      conversationId,
+      q,
+      {
+        page,
+        limit,
+        threadId,
+      },
+    );
+
+    return {
+      data: result.data.map((message) =>
+        MessageResponseDto.fromEntity(message),
+      ),
+      pagination: result.pagination,
+    };
   }
 }
@@ -60,4 +60,15 @@ export class SearchQueryDto {
   @IsString()
   @IsNotEmpty()
   q: string;
+
+  /**
+   * Restrict the search to a single thread, identified by its root message.
+   */
+  @ApiProperty({
+    description: 'ID of a thread root message to restrict the search to',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  threadId?: string;
 }
@@ -39,6 +39,7 @@ export class SearchApplicationService {
    * @param searchTerm Search term
    * @param page Page number
    * @param limit Items per page
+   * @param threadId Optional thread the search is restricted to
    * @returns Formatted cache key
    */
   private getSearchCacheKey(
@@ -47,6 +48,7 @@ export class SearchApplicationService {
     searchTerm: string,
     page: number,
     limit: number,
+    threadId?: string,
   ): string {
     // Normalize the search term by trimming, lowercase, and removing extra spaces
     const normalizedSearchTerm = searchTerm
@@ -54,7 +56,9 @@ export class SearchApplicationService {
       .toLowerCase()
       .replace(/\s+/g, ' ');
 
-    return `${this.SEARCH_CACHE_KEY_PREFIX}${tenantId}:${conversationId}:${normalizedSearchTerm}:${page}:${limit}`;
+    const threadSuffix = threadId ? `:thread:${threadId}` : '';
+
+    return `${this.SEARCH_CACHE_KEY_PREFIX}${tenantId}:${conversationId}:${normalizedSearchTerm}:${page}:${limit}${threadSuffix}`;
   }
 
   /**
@@ -92,13 +96,13 @@ export class SearchApplicationService {
    *
    * @param conversationId The conversation to search within
    * @param searchTerm The search query
-   * @param options Pagination options
+   * @param options Pagination options and an optional thread to search within
    * @returns Promise resolving to paginated search results
    */
   async searchMessages(
     conversationId: string,
     searchTerm: string,
-    options: { page: number; limit: number },
+    options: { page: number; limit: number; threadId?: string },
   ): Promise<PaginatedResponseDto<Message>> {
     const tenantId = this.tenantContext.getCurrentTenant();
 
@@ -129,6 +133,7 @@ export class SearchApplicationService {
         searchTerm,
         options.page,
         options.limit,
+        options.threadId,
       );
 
       const cachedResult =
@@ -163,6 +168,7 @@ export class SearchApplicationService {
         searchTerm,
         options.page,
         options.limit,
+        options.threadId,
       );
 
       await this.cacheManager.set(
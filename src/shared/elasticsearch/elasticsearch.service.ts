@@ -5,6 +5,7 @@ import { messageMapping, messageSettings } from './message.mapping';
 import { IndicesCreateRequest } from '@elastic/elasticsearch/lib/api/types';
 import { Message } from '../../message/entities/message.entity';
 import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+import { RedactionService } from '../../common/redaction/redaction.service';
 
 /**
  * Service responsible for handling Elasticsearch operations for messages
@@ -25,10 +26,12 @@ export class ElasticSearchService implements OnModuleInit {
    *
    * @param elasticsearchService - The NestJS Elasticsearch service for interacting with Elasticsearch
    * @param configService - The NestJS Config service for accessing application configuration
+   * @param redactionService - The service redacting personal data from indexed text
    */
   constructor(
     private readonly elasticsearchService: ElasticsearchService,
     private readonly configService: ConfigService,
+    private readonly redactionService: RedactionService,
   ) {}
 
   /**
@@ -95,6 +98,52 @@ export class ElasticSearchService implements OnModuleInit {
     }
   }
 
+  /**
+   * Builds the search document of a message
+   *
+   * Only searchable fields are indexed, never the encrypted original of a
+   * redacted message. Content, body and text are redacted again with the
+   * policy of the tenant, so that messages stored before the policy applied
+   * do not bring personal data into the index either.
+   *
+   * @private
+   * @param message - The message, or the changed fields of a message
+   * @returns The document, without the fields the message does not have
+   */
+  private toDocument(message: Partial<Message>): Record<string, unknown> {
+    const hasContent = message.content !== undefined;
+    // Partial updates without a tenant get the default policy
+    const { content, body } = this.redactionService.redact(
+      message.tenantId ?? '',
+      { content: message.content ?? '', body: message.body },
+    );
+
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      content: hasContent ? content : undefined,
+      contentType: message.contentType,
+      body,
+      // Keep the plain-text projection in line with the content
+      text: hasContent
+        ? Message.renderText({
+            content,
+            contentType: message.contentType,
+            body,
+          })
+        : undefined,
+      timestamp: message.timestamp,
+      tenantId: message.tenantId,
+      metadata: message.metadata,
+      parentMessageId: message.parentMessageId,
+      threadRootId: message.threadRootId,
+      revision: message.revision,
+      mentionedUserIds: message.mentionedUserIds,
+      expiresAt: message.expiresAt,
+    };
+  }
+
   /**
    * Indexes a message document in Elasticsearch
    *
@@ -110,15 +159,7 @@ export class ElasticSearchService implements OnModuleInit {
       await this.elasticsearchService.index({
         index: this.index,
         id: message.id,
-        document: {
-          id: message.id,
-          conversationId: message.conversationId,
-          senderId: message.senderId,
-          content: message.content,
-          timestamp: message.timestamp,
-          tenantId: message.tenantId,
-          metadata: message.metadata,
-        },
+        document: this.toDocument(message),
         refresh: true,
       });
       this.logger.log(`Successfully indexed message: ${message.id}`);
@@ -150,7 +191,8 @@ export class ElasticSearchService implements OnModuleInit {
       await this.elasticsearchService.update({
         index: this.index,
         id: messageId,
-        doc: partialUpdate,
+        // Fields the update leaves out are left out of the document too
+        doc: this.toDocument(partialUpdate),
         refresh: true,
       });
       this.logger.log(`Successfully updated message: ${messageId}`);
@@ -194,7 +236,7 @@ export class ElasticSearchService implements OnModuleInit {
    * @param conversationId - The ID of the conversation to search within
    * @param tenantId - The ID of the tenant the conversation belongs to
    * @param searchTerm - The text to search for in message content
-   * @param options - Pagination options (page number and limit)
+   * @param options - Pagination options (page number and limit) and an optional thread to search within
    * @returns Promise that resolves to a paginated response containing matching messages
    * @throws Error if search fails
    */
@@ -202,11 +244,26 @@ export class ElasticSearchService implements OnModuleInit {
     conversationId: string,
     tenantId: string,
     searchTerm: string,
-    options: { page: number; limit: number },
+    options: { page: number; limit: number; threadId?: string },
   ): Promise<PaginatedResponseDto<Message>> {
-    const { page, limit } = options;
+    const { page, limit, threadId } = options;
     const from = (page - 1) * limit;
 
+    // A thread consists of its root message and every message pointing at it
+    const filter = threadId
+      ? [
+          {
+            bool: {
+              should: [
+                { term: { threadRootId: threadId } },
+                { term: { id: threadId } },
+              ],
+              minimum_should_match: 1,
+            },
+          },
+        ]
+      : [];
+
     this.logger.debug(
       `Searching for "${searchTerm}" in conversation: ${conversationId}, tenant: ${tenantId} (page: ${page}, limit: ${limit})`,
     );
@@ -222,11 +279,15 @@ export class ElasticSearchService implements OnModuleInit {
               {
                 multi_match: {
                   query: searchTerm,
-                  fields: ['content', 'content.ngram'],
+                  // Documents indexed before `text` was added only have the content
+                  fields: ['text', 'text.ngram', 'content', 'content.ngram'],
                   fuzziness: 'AUTO',
                 },
               },
             ],
+            filter,
+            // Expired messages are only removed once the expiry job has run
+            must_not: [{ range: { expiresAt: { lte: 'now' } } }],
           },
         },
         sort: [{ timestamp: { order: 'desc' } }],
@@ -252,9 +313,14 @@ export class ElasticSearchService implements OnModuleInit {
           conversationId: source.conversationId,
           senderId: source.senderId,
           content: source.content,
+          contentType: source.contentType,
+          body: source.body,
           tenantId: source.tenantId,
           timestamp: source.timestamp,
           metadata: source.metadata,
+          parentMessageId: source.parentMessageId,
+          threadRootId: source.threadRootId,
+          expiresAt: source.expiresAt,
         });
       });
 
@@ -8,9 +8,17 @@
  * @property {Object} properties.conversationId Conversation grouping identifier
  * @property {Object} properties.senderId User or system identifier who sent the message
  * @property {Object} properties.content Main message text content with multiple analysis options
+ * @property {Object} properties.contentType Kind of content of the message
+ * @property {Object} properties.body Structured body of the message, stored but not indexed
+ * @property {Object} properties.text Plain-text projection of the message, searched alongside the content
  * @property {Object} properties.timestamp Message creation time
  * @property {Object} properties.tenantId Multi-tenancy identifier
  * @property {Object} properties.metadata Additional contextual information for the message
+ * @property {Object} properties.parentMessageId Message this message replies to
+ * @property {Object} properties.threadRootId Top-level message of the thread, used to scope searches to a thread
+ * @property {Object} properties.revision Revision of the message, bumped on every edit
+ * @property {Object} properties.mentionedUserIds Users mentioned with `@user` in the content
+ * @property {Object} properties.expiresAt Expiry of an ephemeral message, after which it is no longer found
  */
 export const messageMapping = {
   properties: {
@@ -28,9 +36,26 @@ export const messageMapping = {
         },
       },
     },
+    contentType: { type: 'keyword' },
+    body: { type: 'object', enabled: false },
+    text: {
+      type: 'text',
+      analyzer: 'standard',
+      fields: {
+        ngram: {
+          type: 'text',
+          analyzer: 'ngram_analyzer',
+        },
+      },
+    },
     timestamp: { type: 'date' },
     tenantId: { type: 'keyword' },
     metadata: { type: 'object', enabled: true },
+    parentMessageId: { type: 'keyword' },
+    threadRootId: { type: 'keyword' },
+    revision: { type: 'integer' },
+    mentionedUserIds: { type: 'keyword' },
+    expiresAt: { type: 'date' },
   },
 };
 
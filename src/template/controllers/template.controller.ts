@@ -0,0 +1,296 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Patch,
+  Delete,
+  Query,
+  ValidationPipe,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { TemplateApplicationService } from '../services/template-application.service';
+import { CreateTemplateDto } from '../dto/create-template.dto';
+import { UpdateTemplateDto } from '../dto/update-template.dto';
+import { TemplateQueryDto } from '../dto/template-query.dto';
+import { TemplateResponseDto } from '../dto/template-response.dto';
+import { PaginatedResponseDto } from '../../common/dto/pagination-response.dto';
+
+/**
+ * Template Controller
+ *
+ * Implements API endpoints for message template management.
+ * Provides functionality for creating, reading, updating and deleting templates.
+ */
+@ApiTags('Templates')
+@ApiBearerAuth('JWT-auth')
+@ApiSecurity('tenant-id')
+@Controller({ path: 'api', version: ['1'] })
+export class TemplateController {
+  private readonly logger = new Logger(TemplateController.name);
+
+  constructor(
+    private readonly templateApplicationService: TemplateApplicationService,
+  ) {
+    this.logger.log('TemplateController initialized');
+  }
+
+  /**
+   * Create a new template
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Post('templates')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a new template',
+    description:
+      'Creates a message template with named placeholders such as {{ firstName }}. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The template has been successfully created.',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data, or a malformed placeholder.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async createTemplate(
+    @Body() createTemplateDto: CreateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    this.logger.debug(
+      `Creating template: ${JSON.stringify(createTemplateDto)}`,
+    );
+
+    const template =
+      await this.templateApplicationService.createTemplate(createTemplateDto);
+
+    this.logger.log(`Template created with ID: ${template.id}`);
+    return TemplateResponseDto.fromEntity(template);
+  }
+
+  /**
+   * List templates
+   *
+   * Retrieves the templates of the tenant, ordered by name.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('templates')
+  @ApiOperation({
+    summary: 'List templates',
+    description:
+      'Retrieves templates with pagination, ordered by name. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Templates retrieved successfully.',
+    type: PaginatedResponseDto<TemplateResponseDto>,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid request parameters.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async listTemplates(
+    @Query(new ValidationPipe({ transform: true }))
+    queryDto: TemplateQueryDto,
+  ): Promise<PaginatedResponseDto<TemplateResponseDto>> {
+    const { page = 1, limit = 10 } = queryDto;
+
+    const result = await this.templateApplicationService.listTemplates({
+      page,
+      limit,
+    });
+
+    return {
+      data: result.templates.map((template) =>
+        TemplateResponseDto.fromEntity(template),
+      ),
+      pagination: {
+        totalItems: result.total,
+        page,
+        limit,
+        totalPages: Math.ceil(result.total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a specific template by ID
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Get('templates/:templateId')
+  @ApiOperation({
+    summary: 'Get a template by ID',
+    description:
+      'Retrieves a specific template by its ID, with the names of its variables. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'templateId',
+    description: 'The ID of the template',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Template retrieved successfully.',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Template not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async getTemplateById(
+    @Param('templateId') templateId: string,
+  ): Promise<TemplateResponseDto> {
+    const template =
+      await this.templateApplicationService.getTemplateById(templateId);
+
+    if (!template) {
+      this.logger.warn(`Template with ID: ${templateId} not found`);
+      throw new NotFoundException(`Template with ID "${templateId}" not found`);
+    }
+
+    return TemplateResponseDto.fromEntity(template);
+  }
+
+  /**
+   * Update a template
+   *
+   * Updates the name, content or content type of a template.
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Patch('templates/:templateId')
+  @ApiOperation({
+    summary: 'Update a template',
+    description:
+      'Updates the name, content or content type of a template. Messages already created from it keep their content. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'templateId',
+    description: 'The ID of the template to update',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The template has been successfully updated.',
+    type: TemplateResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Template not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data, or a malformed placeholder.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async updateTemplate(
+    @Param('templateId') templateId: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+  ): Promise<TemplateResponseDto> {
+    const template = await this.templateApplicationService.updateTemplate(
+      templateId,
+      updateTemplateDto,
+    );
+
+    if (!template) {
+      this.logger.warn(`Template with ID: ${templateId} not found`);
+      throw new NotFoundException(`Template with ID "${templateId}" not found`);
+    }
+
+    this.logger.log(`Updated template with ID: ${templateId}`);
+    return TemplateResponseDto.fromEntity(template);
+  }
+
+  /**
+   * Delete a template
+   *
+   * Requires tenant ID header (x-tenant-id).
+   */
+  @Delete('templates/:templateId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a template',
+    description:
+      'Deletes a template by its ID. Messages created from it keep its ID. Requires tenant ID header (x-tenant-id).',
+  })
+  @ApiParam({
+    name: 'templateId',
+    description: 'The ID of the template to delete',
+    type: String,
+    required: true,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The template has been successfully deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Template not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Unauthorized.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Forbidden - Missing or invalid tenant ID',
+  })
+  async deleteTemplate(@Param('templateId') templateId: string): Promise<void> {
+    const result =
+      await this.templateApplicationService.deleteTemplate(templateId);
+
+    if (!result) {
+      this.logger.warn(`Template with ID: ${templateId} not found`);
+      throw new NotFoundException(`Template with ID "${templateId}" not found`);
+    }
+
+    this.logger.log(`Deleted template with ID: ${templateId}`);
+  }
+}
@@ -0,0 +1,38 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  TEMPLATE_CONTENT_TYPES,
+  TemplateContentType,
+} from '../entities/template.entity';
+
+/**
+ * Data Transfer Object for creating a template
+ */
+export class CreateTemplateDto {
+  @ApiProperty({
+    description: 'The name of the template',
+    example: 'Refund confirmation',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description:
+      'The content of the template, with named placeholders such as {{ firstName }}',
+    example: 'Hi {{ firstName }}, your refund of {{ amount }} is on its way.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  content: string;
+
+  @ApiProperty({
+    description: 'The content type of the messages rendered from the template',
+    enum: TEMPLATE_CONTENT_TYPES,
+    default: TEMPLATE_CONTENT_TYPES[0],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TEMPLATE_CONTENT_TYPES)
+  contentType?: TemplateContentType;
+}
@@ -0,0 +1,12 @@
+import { OmitType } from '@nestjs/swagger';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+
+/**
+ * Query parameters for listing templates
+ *
+ * Templates are always listed by name, so they cannot be sorted.
+ */
+export class TemplateQueryDto extends OmitType(PaginationDto, [
+  'sortField',
+  'sortDirection',
+]) {}
@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  TEMPLATE_CONTENT_TYPES,
+  Template,
+  TemplateContentType,
+} from '../entities/template.entity';
+
+/**
+ * Data Transfer Object for template responses
+ */
+export class TemplateResponseDto {
+  @ApiProperty({
+    description: 'The unique identifier of the template',
+    example: '123e4567-e89b-12d3-a456-426614174005',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'The name of the template',
+    example: 'Refund confirmation',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'The content of the template, with named placeholders',
+    example: 'Hi {{ firstName }}, your refund of {{ amount }} is on its way.',
+  })
+  content: string;
+
+  @ApiProperty({
+    description: 'The content type of the messages rendered from the template',
+    enum: TEMPLATE_CONTENT_TYPES,
+    example: TEMPLATE_CONTENT_TYPES[0],
+  })
+  contentType: TemplateContentType;
+
+  @ApiProperty({
+    description:
+      'The names of the variables a message created from the template needs a value for',
+    example: ['firstName', 'amount'],
+    type: [String],
+  })
+  variables: string[];
+
+  @ApiProperty({
+    description: 'The timestamp when the template was created',
+    example: '2023-08-15T10:00:00Z',
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'The timestamp when the template was last changed',
+    example: '2023-08-15T10:30:00Z',
+  })
+  updatedAt: Date;
+
+  /**
+   * Creates a TemplateResponseDto from a Template entity
+   */
+  static fromEntity(template: Template): TemplateResponseDto {
+    const dto = new TemplateResponseDto();
+    dto.id = template.id;
+    dto.name = template.name;
+    dto.content = template.content;
+    dto.contentType = template.contentType;
+    dto.variables = template.variables;
+    dto.createdAt = template.createdAt;
+    dto.updatedAt = template.updatedAt;
+
+    return dto;
+  }
+}
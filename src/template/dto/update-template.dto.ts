@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  TEMPLATE_CONTENT_TYPES,
+  TemplateContentType,
+} from '../entities/template.entity';
+
+/**
+ * Data Transfer Object for updating a template
+ */
+export class UpdateTemplateDto {
+  @ApiProperty({
+    description: 'The name of the template',
+    example: 'Refund confirmation',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiProperty({
+    description:
+      'The content of the template, with named placeholders such as {{ firstName }}',
+    example: 'Hi {{ firstName }}, we refunded {{ amount }}.',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  content?: string;
+
+  @ApiProperty({
+    description: 'The content type of the messages rendered from the template',
+    enum: TEMPLATE_CONTENT_TYPES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(TEMPLATE_CONTENT_TYPES)
+  contentType?: TemplateContentType;
+}
@@ -0,0 +1,155 @@
+import { MessageContentType } from '../../message/entities/message-content';
+
+/**
+ * Content types a template can render
+ */
+export const TEMPLATE_CONTENT_TYPES = [
+  MessageContentType.TEXT,
+  MessageContentType.MARKDOWN,
+] as const;
+
+export type TemplateContentType = (typeof TEMPLATE_CONTENT_TYPES)[number];
+
+/**
+ * A named placeholder, e.g. `{{ firstName }}`
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Template entity
+ *
+ * Represents reusable message content of a tenant with named placeholders,
+ * which are substituted when a message is created from the template
+ */
+export class Template {
+  id: string;
+  tenantId: string;
+  name: string;
+  content: string;
+  contentType: TemplateContentType;
+  createdAt: Date;
+  updatedAt: Date;
+
+  private constructor(props: {
+    id: string;
+    tenantId: string;
+    name: string;
+    content: string;
+    contentType: TemplateContentType;
+    createdAt: Date;
+    updatedAt: Date;
+  }) {
+    this.id = props.id;
+    this.tenantId = props.tenantId;
+    this.name = props.name;
+    this.content = props.content;
+    this.contentType = props.contentType;
+    this.createdAt = props.createdAt;
+    this.updatedAt = props.updatedAt;
+  }
+
+  /**
+   * Creates a new Template instance
+   */
+  static create(props: {
+    id: string;
+    tenantId: string;
+    name: string;
+    content: string;
+    contentType?: TemplateContentType;
+  }): Template {
+    const now = new Date();
+    return new Template({
+      ...props,
+      contentType: props.contentType ?? MessageContentType.TEXT,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Finds a malformed placeholder in template content
+   *
+   * @returns The first malformed placeholder or stray `}}`, or undefined if every placeholder is well-formed
+   */
+  static findInvalidPlaceholder(content: string): string | undefined {
+    return content
+      .replace(PLACEHOLDER_PATTERN, ' ')
+      .match(/\{\{[^{}]*\}{0,2}|\}\}/)?.[0];
+  }
+
+  /**
+   * The names of the variables of the template, in order of first appearance
+   */
+  get variables(): string[] {
+    return [
+      ...new Set(
+        Array.from(this.content.matchAll(PLACEHOLDER_PATTERN), (match) =>
+          String(match[1]),
+        ),
+      ),
+    ];
+  }
+
+  /**
+   * Updates the name of the template
+   */
+  updateName(name: string): void {
+    this.name = name;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Replaces the content of the template
+   */
+  updateContent(content: string, contentType?: TemplateContentType): void {
+    this.content = content;
+    this.contentType = contentType ?? this.contentType;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Renders the content with every placeholder replaced by its value
+   *
+   * Values are inserted as they are, so placeholders in a value are not
+   * substituted again.
+   *
+   * @param values A value for each variable of the template
+   */
+  render(values: Record<string, string>): string {
+    return this.content.replace(
+      PLACEHOLDER_PATTERN,
+      (_placeholder, name: string) => values[name],
+    );
+  }
+
+  /**
+   * Creates a Template instance from database record
+   */
+  static fromDatabase(data: any): Template {
+    return new Template({
+      id: data.id,
+      tenantId: data.tenantId,
+      name: data.name,
+      content: data.content,
+      contentType: data.contentType,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt,
+    });
+  }
+
+  /**
+   * Converts the Template to a database record
+   */
+  toDatabase(): any {
+    return {
+      id: this.id,
+      tenantId: this.tenantId,
+      name: this.name,
+      content: this.content,
+      contentType: this.contentType,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Template } from '../entities/template.entity';
+import { ITemplateRepository } from './template.repository.interface';
+import { TemplateModel, TemplateDocument } from '../schemas/template.schema';
+
+/**
+ * MongoDB implementation of the Template Repository
+ *
+ * Handles persistence operations for templates in MongoDB,
+ * implementing the ITemplateRepository interface for domain consistency.
+ */
+@Injectable()
+export class TemplateRepository implements ITemplateRepository {
+  private readonly logger = new Logger(TemplateRepository.name);
+
+  constructor(
+    @InjectModel(TemplateModel.name)
+    private templateModel: Model<TemplateDocument>,
+  ) {
+    this.logger.log('TemplateRepository initialized');
+  }
+
+  /**
+   * Save a new template to the database
+   *
+   * @param template The template entity to save
+   * @returns Promise resolving to the saved template entity
+   */
+  async save(template: Template): Promise<Template> {
+    this.logger.debug(`Saving template with ID: ${template.id}`);
+    try {
+      const templateDocument = new this.templateModel(template.toDatabase());
+      await templateDocument.save();
+      this.logger.debug(`Template saved successfully: ${template.id}`);
+      return template;
+    } catch (error) {
+      this.logger.error(
+        `Failed to save template: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a template by its ID and tenant
+   *
+   * @param id The unique identifier of the template
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the template entity or null if not found
+   */
+  async findById(id: string, tenantId: string): Promise<Template | null> {
+    this.logger.debug(
+      `Finding template with ID: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const templateDocument = await this.templateModel
+        .findOne({
+          id,
+          tenantId,
+        })
+        .exec();
+
+      if (!templateDocument) {
+        this.logger.debug(`Template not found: ${id}`);
+        return null;
+      }
+
+      return Template.fromDatabase(templateDocument.toObject());
+    } catch (error) {
+      this.logger.error(
+        `Error finding template: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find templates of a tenant with pagination
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options
+   * @returns Promise resolving to paginated template results
+   */
+  async findByTenant(
+    tenantId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ templates: Template[]; total: number }> {
+    this.logger.debug(
+      `Finding templates for tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    try {
+      const page = Math.max(1, options.page);
+      const limit = Math.max(1, options.limit);
+      const skip = (page - 1) * limit;
+
+      const filter = { tenantId };
+
+      // Alphabetical, so that agents find a template by its name
+      const templateDocuments = await this.templateModel
+        .find(filter)
+        .sort({ name: 1, id: 1 })
+        .skip(skip)
+        .limit(limit)
+        .exec();
+
+      const total = await this.templateModel.countDocuments(filter).exec();
+
+      const templates = templateDocuments.map((doc) =>
+        Template.fromDatabase(doc.toObject()),
+      );
+
+      this.logger.debug(
+        `Found ${templates.length} templates out of ${total} total`,
+      );
+
+      return { templates, total };
+    } catch (error) {
+      this.logger.error(
+        `Error finding templates: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing template
+   *
+   * @param template The template entity with updated values
+   * @returns Promise resolving to the updated template entity
+   */
+  async update(template: Template): Promise<Template> {
+    this.logger.debug(`Updating template with ID: ${template.id}`);
+    try {
+      const result = await this.templateModel.updateOne(
+        {
+          id: template.id,
+          tenantId: template.tenantId,
+        },
+        template.toDatabase(),
+      );
+
+      if (result.matchedCount === 0) {
+        this.logger.warn(`No template found to update with ID: ${template.id}`);
+      } else {
+        this.logger.debug(`Template updated successfully: ${template.id}`);
+      }
+
+      return template;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update template: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template by its ID and tenant
+   *
+   * @param id The unique identifier of the template to delete
+   * @param tenantId The tenant identifier for multi-tenancy
+   */
+  async delete(id: string, tenantId: string): Promise<void> {
+    this.logger.debug(
+      `Deleting template with ID: ${id} for tenant: ${tenantId}`,
+    );
+    try {
+      const result = await this.templateModel.deleteOne({
+        id,
+        tenantId,
+      });
+
+      if (result.deletedCount === 0) {
+        this.logger.warn(`No template found to delete with ID: ${id}`);
+      } else {
+        this.logger.debug(`Template deleted successfully: ${id}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete template: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { Template } from '../entities/template.entity';
+
+/**
+ * Template Repository Interface
+ *
+ * Defines the contract for template repositories, allowing for different
+ * storage implementations while keeping behavior consistent.
+ */
+export interface ITemplateRepository {
+  /**
+   * Save a new template
+   *
+   * @param template The template entity to save
+   * @returns Promise resolving to the saved template entity
+   */
+  save(template: Template): Promise<Template>;
+
+  /**
+   * Find a template by its ID and tenant
+   *
+   * @param id The unique identifier of the template
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving to the template entity or null if not found
+   */
+  findById(id: string, tenantId: string): Promise<Template | null>;
+
+  /**
+   * Find templates of a tenant with pagination
+   *
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @param options Pagination options
+   * @returns Promise resolving to paginated template results
+   */
+  findByTenant(
+    tenantId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ templates: Template[]; total: number }>;
+
+  /**
+   * Update an existing template
+   *
+   * @param template The template entity with updated values
+   * @returns Promise resolving to the updated template entity
+   */
+  update(template: Template): Promise<Template>;
+
+  /**
+   * Delete a template by its ID and tenant
+   *
+   * @param id The unique identifier of the template to delete
+   * @param tenantId The tenant identifier for multi-tenancy
+   * @returns Promise resolving when the template is deleted
+   */
+  delete(id: string, tenantId: string): Promise<void>;
+}
@@ -0,0 +1,72 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import {
+  TEMPLATE_CONTENT_TYPES,
+  TemplateContentType,
+} from '../entities/template.entity';
+
+/**
+ * Type definition for TemplateDocument combining TemplateModel with Mongoose Document
+ */
+export type TemplateDocument = TemplateModel & Document;
+
+/**
+ * Mongoose schema for template data
+ *
+ * Represents reusable message content of a tenant
+ */
+@Schema({
+  collection: 'templates',
+})
+export class TemplateModel {
+  /**
+   * Unique identifier for the template
+   * @example "tmpl_123456789"
+   */
+  @Prop({ required: true, index: true })
+  id: string;
+
+  /**
+   * Identifier of the tenant this template belongs to
+   * @example "tenant_54321"
+   */
+  @Prop({ required: true, index: true })
+  tenantId: string;
+
+  /**
+   * Human readable name of the template
+   */
+  @Prop({ required: true })
+  name: string;
+
+  /**
+   * Content of the template, with `{{ name }}` placeholders
+   */
+  @Prop({ required: true })
+  content: string;
+
+  /**
+   * Content type of the messages rendered from the template
+   */
+  @Prop({ required: true, enum: TEMPLATE_CONTENT_TYPES })
+  contentType: TemplateContentType;
+
+  /**
+   * Timestamp when the template was created
+   */
+  @Prop({ required: true })
+  createdAt: Date;
+
+  /**
+   * Timestamp when the template was last changed
+   */
+  @Prop({ required: true })
+  updatedAt: Date;
+}
+
+// Create the schema from the class
+export const TemplateSchema = SchemaFactory.createForClass(TemplateModel);
+
+// Create compound indexes for efficient queries
+TemplateSchema.index({ tenantId: 1, id: 1 }, { unique: true });
+TemplateSchema.index({ tenantId: 1, name: 1 });
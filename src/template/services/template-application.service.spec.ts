@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { TemplateApplicationService } from './template-application.service';
+import { TemplateRepository } from '../repositories/mongodb-template.repository';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { Template } from '../entities/template.entity';
+import { MessageContentType } from '../../message/entities/message-content';
+
+jest.mock('../repositories/mongodb-template.repository');
+jest.mock('../../common/contexts/tenant.context');
+
+describe('TemplateApplicationService', () => {
+  let service: TemplateApplicationService;
+  let templateRepository: jest.Mocked<TemplateRepository>;
+  let tenantContext: jest.Mocked<TenantContext>;
+
+  const buildTemplate = (content: string) =>
+    Template.create({
+      id: 'tmpl1',
+      tenantId: 'tenant123',
+      name: 'Refund confirmation',
+      content,
+    });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplateApplicationService,
+        TemplateRepository,
+        TenantContext,
+      ],
+    }).compile();
+
+    service = module.get<TemplateApplicationService>(
+      TemplateApplicationService,
+    );
+    templateRepository = module.get(TemplateRepository);
+    tenantContext = module.get(TenantContext);
+
+    tenantContext.getCurrentTenant.mockReturnValue('tenant123');
+    templateRepository.save.mockImplementation((t) => Promise.resolve(t));
+    templateRepository.update.mockImplementation((t) => Promise.resolve(t));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTemplate', () => {
+    it('should create a text template of the tenant', async () => {
+      const result = await service.createTemplate({
+        name: 'Refund confirmation',
+        content: 'Hi {{ firstName }}, we refunded {{amount}} to {{firstName}}',
+      });
+
+      expect(templateRepository.save).toHaveBeenCalledWith(result);
+      expect(result.tenantId).toBe('tenant123');
+      expect(result.contentType).toBe(MessageContentType.TEXT);
+      expect(result.variables).toEqual(['firstName', 'amount']);
+    });
+
+    it.each([
+      ['a name with a space', 'Hi {{ first name }}', '{{ first name }}'],
+      ['an unclosed placeholder', 'Hi {{ firstName', '{{ firstName'],
+      ['a stray closing brace pair', 'Hi firstName }}', '}}'],
+      ['a name starting with a digit', 'Hi {{1st}}', '{{1st}}'],
+    ])(
+      'should reject content with %s',
+      async (_description, content, placeholder) => {
+        await expect(
+          service.createTemplate({ name: 'Greeting', content }),
+        ).rejects.toThrow(
+          new BadRequestException(
+            `Template content has a malformed placeholder "${placeholder}"`,
+          ),
+        );
+        expect(templateRepository.save).not.toHaveBeenCalled();
+      },
+    );
+  });
+
+  describe('updateTemplate', () => {
+    it('should replace the content of a template', async () => {
+      templateRepository.findById.mockResolvedValue(buildTemplate('Hi'));
+
+      const result = await service.updateTemplate('tmpl1', {
+        content: '# Hi {{ firstName }}',
+        contentType: MessageContentType.MARKDOWN,
+      });
+
+      expect(result?.content).toBe('# Hi {{ firstName }}');
+      expect(result?.contentType).toBe(MessageContentType.MARKDOWN);
+      expect(result?.variables).toEqual(['firstName']);
+      expect(templateRepository.update).toHaveBeenCalledWith(result);
+    });
+
+    it('should return null if the template does not exist', async () => {
+      templateRepository.findById.mockResolvedValue(null);
+
+      expect(await service.updateTemplate('missing', { name: 'x' })).toBeNull();
+      expect(templateRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should delete a template of the tenant', async () => {
+      templateRepository.findById.mockResolvedValue(buildTemplate('Hi'));
+
+      expect(await service.deleteTemplate('tmpl1')).toBe(true);
+      expect(templateRepository.delete).toHaveBeenCalledWith(
+        'tmpl1',
+        'tenant123',
+      );
+    });
+
+    it('should return false if the template does not exist', async () => {
+      templateRepository.findById.mockResolvedValue(null);
+
+      expect(await service.deleteTemplate('missing')).toBe(false);
+      expect(templateRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderTemplate', () => {
+    beforeEach(() => {
+      templateRepository.findById.mockResolvedValue(
+        buildTemplate('Hi {{ firstName }}, we refunded {{ amount }}.'),
+      );
+    });
+
+    it('should substitute every placeholder', async () => {
+      const result = await service.renderTemplate('tmpl1', {
+        firstName: 'Jane',
+        amount: '$25.00',
+      });
+
+      expect(result.content).toBe('Hi Jane, we refunded $25.00.');
+      expect(result.template.id).toBe('tmpl1');
+      expect(templateRepository.findById).toHaveBeenCalledWith(
+        'tmpl1',
+        'tenant123',
+      );
+    });
+
+    it('should not substitute placeholders inside values', async () => {
+      const result = await service.renderTemplate('tmpl1', {
+        firstName: '{{ amount }}',
+        amount: '$25.00',
+      });
+
+      expect(result.content).toBe('Hi {{ amount }}, we refunded $25.00.');
+    });
+
+    it.each([
+      [
+        'missing values',
+        { firstName: 'Jane' },
+        'Missing values for template variables: amount',
+      ],
+      [
+        'unknown variables',
+        { firstName: 'Jane', amount: '$25.00', orderId: '42' },
+        'Unknown template variables: orderId',
+      ],
+      [
+        'a value that is not a string',
+        { firstName: 'Jane', amount: 25 },
+        'Template variable "amount" must be a non-empty string',
+      ],
+      [
+        'a blank value',
+        { firstName: ' ', amount: '$25.00' },
+        'Template variable "firstName" must be a non-empty string',
+      ],
+    ])('should reject %s', async (_description, variables, message) => {
+      await expect(service.renderTemplate('tmpl1', variables)).rejects.toThrow(
+        new BadRequestException(message),
+      );
+    });
+
+    it('should throw NotFoundException if the template does not exist', async () => {
+      templateRepository.findById.mockResolvedValue(null);
+
+      await expect(service.renderTemplate('missing', {})).rejects.toThrow(
+        new NotFoundException('Template with ID "missing" not found'),
+      );
+    });
+  });
+});
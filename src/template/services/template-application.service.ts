@@ -0,0 +1,249 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { TenantContext } from '../../common/contexts/tenant.context';
+import { Template } from '../entities/template.entity';
+import { TemplateRepository } from '../repositories/mongodb-template.repository';
+import { CreateTemplateDto } from '../dto/create-template.dto';
+import { UpdateTemplateDto } from '../dto/update-template.dto';
+
+/**
+ * Template Application Service
+ *
+ * Handles business logic for message templates including creating, reading,
+ * updating and deleting templates while enforcing tenant separation, and
+ * renders templates for the message module.
+ */
+@Injectable()
+export class TemplateApplicationService {
+  private readonly logger = new Logger(TemplateApplicationService.name);
+
+  constructor(
+    private readonly templateRepository: TemplateRepository,
+    private readonly tenantContext: TenantContext,
+  ) {
+    this.logger.log('TemplateApplicationService initialized');
+  }
+
+  /**
+   * Ensure every placeholder of template content is well-formed
+   *
+   * @param content The content of the template
+   * @throws BadRequestException if a placeholder is malformed
+   */
+  private assertValidContent(content: string): void {
+    const invalidPlaceholder = Template.findInvalidPlaceholder(content);
+    if (invalidPlaceholder !== undefined) {
+      throw new BadRequestException(
+        `Template content has a malformed placeholder "${invalidPlaceholder}"`,
+      );
+    }
+  }
+
+  /**
+   * Create a new template
+   *
+   * @param createTemplateDto DTO containing template creation data
+   * @returns Promise resolving to the created Template entity
+   * @throws BadRequestException if a placeholder is malformed
+   */
+  async createTemplate(
+    createTemplateDto: CreateTemplateDto,
+  ): Promise<Template> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Creating template for tenant: ${tenantId}`);
+
+    this.assertValidContent(createTemplateDto.content);
+
+    const template = Template.create({
+      id: uuidv4(),
+      tenantId,
+      name: createTemplateDto.name,
+      content: createTemplateDto.content,
+      contentType: createTemplateDto.contentType,
+    });
+
+    const savedTemplate = await this.templateRepository.save(template);
+
+    this.logger.log(`Created template with ID: ${savedTemplate.id}`);
+    return savedTemplate;
+  }
+
+  /**
+   * Get a template by its ID
+   *
+   * @param id The unique identifier of the template
+   * @returns Promise resolving to the Template entity or null if not found
+   */
+  async getTemplateById(id: string): Promise<Template | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Retrieving template ID: ${id} for tenant: ${tenantId}`);
+
+    const template = await this.templateRepository.findById(id, tenantId);
+    if (!template) {
+      this.logger.warn(
+        `Template with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    return template;
+  }
+
+  /**
+   * List templates of the current tenant with pagination
+   *
+   * @param options Pagination options
+   * @returns Promise resolving to paginated template results, ordered by name
+   */
+  async listTemplates(options: {
+    page: number;
+    limit: number;
+  }): Promise<{ templates: Template[]; total: number }> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(
+      `Listing templates for tenant: ${tenantId}, page: ${options.page}, limit: ${options.limit}`,
+    );
+
+    const result = await this.templateRepository.findByTenant(
+      tenantId,
+      options,
+    );
+
+    this.logger.log(
+      `Retrieved ${result.templates.length} templates for tenant: ${tenantId} (total: ${result.total})`,
+    );
+    return result;
+  }
+
+  /**
+   * Update an existing template
+   *
+   * Messages already created from the template keep their content.
+   *
+   * @param id The unique identifier of the template to update
+   * @param updateTemplateDto DTO containing template update data
+   * @returns Promise resolving to the updated Template entity or null if not found
+   * @throws BadRequestException if a placeholder is malformed
+   */
+  async updateTemplate(
+    id: string,
+    updateTemplateDto: UpdateTemplateDto,
+  ): Promise<Template | null> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Updating template ID: ${id} for tenant: ${tenantId}`);
+
+    if (updateTemplateDto.content) {
+      this.assertValidContent(updateTemplateDto.content);
+    }
+
+    const template = await this.templateRepository.findById(id, tenantId);
+    if (!template) {
+      this.logger.warn(
+        `Template with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return null;
+    }
+
+    if (updateTemplateDto.name) {
+      template.updateName(updateTemplateDto.name);
+    }
+
+    if (updateTemplateDto.content || updateTemplateDto.contentType) {
+      template.updateContent(
+        updateTemplateDto.content ?? template.content,
+        updateTemplateDto.contentType,
+      );
+    }
+
+    const updatedTemplate = await this.templateRepository.update(template);
+
+    this.logger.log(`Updated template with ID: ${id}`);
+    return updatedTemplate;
+  }
+
+  /**
+   * Delete a template by its ID
+   *
+   * Messages created from the template keep its ID.
+   *
+   * @param id The unique identifier of the template to delete
+   * @returns Promise resolving to a boolean indicating success
+   */
+  async deleteTemplate(id: string): Promise<boolean> {
+    const tenantId = this.tenantContext.getCurrentTenant();
+    this.logger.debug(`Deleting template ID: ${id} for tenant: ${tenantId}`);
+
+    const template = await this.templateRepository.findById(id, tenantId);
+    if (!template) {
+      this.logger.warn(
+        `Template with ID: ${id} not found for tenant: ${tenantId}`,
+      );
+      return false;
+    }
+
+    await this.templateRepository.delete(id, tenantId);
+
+    this.logger.log(`Deleted template with ID: ${id}`);
+    return true;
+  }
+
+  /**
+   * Render a template with the values of its variables
+   *
+   * Called by the message module when a message is created from a template.
+   * All values are checked before anything is rendered.
+   *
+   * @param id The unique identifier of the template
+   * @param variables A value for each variable of the template
+   * @returns Promise resolving to the template and the rendered content
+   * @throws NotFoundException if the template does not exist
+   * @throws BadRequestException if a variable has no value, a value is not a non-empty string, or a value is given for a variable the template does not have
+   */
+  async renderTemplate(
+    id: string,
+    variables: Record<string, unknown> = {},
+  ): Promise<{ template: Template; content: string }> {
+    const template = await this.getTemplateById(id);
+    if (!template) {
+      throw new NotFoundException(`Template with ID "${id}" not found`);
+    }
+
+    const unknown = Object.keys(variables).filter(
+      (name) => !template.variables.includes(name),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown template variables: ${unknown.join(', ')}`,
+      );
+    }
+
+    const missing = template.variables.filter(
+      (name) => variables[name] === undefined,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Missing values for template variables: ${missing.join(', ')}`,
+      );
+    }
+
+    const invalid = template.variables.find((name) => {
+      const value = variables[name];
+      return typeof value !== 'string' || value.trim().length === 0;
+    });
+    if (invalid !== undefined) {
+      throw new BadRequestException(
+        `Template variable "${invalid}" must be a non-empty string`,
+      );
+    }
+
+    return {
+      template,
+      content: template.render(variables as Record<string, string>),
+    };
+  }
+}
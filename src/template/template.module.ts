@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TemplateModel, TemplateSchema } from './schemas/template.schema';
+import { TemplateRepository } from './repositories/mongodb-template.repository';
+import { TemplateController } from './controllers/template.controller';
+import { TemplateApplicationService } from './services/template-application.service';
+
+/**
+ * Template module
+ *
+ * Owns message templates. Exports the application service so the message
+ * module can render a template when a message is created from it.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: TemplateModel.name, schema: TemplateSchema },
+    ]),
+  ],
+  controllers: [TemplateController],
+  providers: [TemplateApplicationService, TemplateRepository],
+  exports: [TemplateApplicationService],
+})
+export class TemplateModule {}
@@ -35,6 +35,19 @@ describe('MessageController (e2e)', () => {
     });
 
     await app.init();
+
+    // Messages can only be posted to an existing conversation
+    const response = await request(app.getHttpServer())
+      .post('/v1/api/conversations')
+      .set('X-Tenant-Id', tenantId)
+      .set('Authorization', 'Bearer valid-token')
+      .send({
+        title: 'E2E conversation',
+        type: 'group',
+        participants: [uuidv4()],
+      })
+      .expect(201);
+    conversationId = response.body.data.id;
   });
 
   afterAll(async () => {
@@ -42,11 +55,12 @@ describe('MessageController (e2e)', () => {
   });
 
   const tenantId = 'test-tenant';
+  let conversationId: string;
 
   describe('/v1/api/messages (POST)', () => {
     it('should create a new message', () => {
       const createMessageDto: CreateMessageDto = {
-        conversationId: uuidv4(),
+        conversationId,
         senderId: uuidv4(),
         content: 'Test message content',
         metadata: { test: true },
@@ -99,8 +113,6 @@ describe('MessageController (e2e)', () => {
 
   describe('/v1/api/messages/conversations/:conversationId (GET)', () => {
     it('should retrieve messages for a conversation with pagination', async () => {
-      const conversationId = '123e4567-e89b-12d3-a456-426614174000';
-
       const createMessageDto: CreateMessageDto = {
         conversationId,
         senderId: '123e4567-e89b-12d3-a456-426614174001',
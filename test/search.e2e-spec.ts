@@ -33,6 +33,19 @@ describe('SearchController (e2e)', () => {
     });
 
     await app.init();
+
+    // Messages can only be posted to an existing conversation
+    const response = await request(app.getHttpServer())
+      .post('/v1/api/conversations')
+      .set('X-Tenant-Id', tenantId)
+      .set('Authorization', 'Bearer valid-token')
+      .send({
+        title: 'Search E2E conversation',
+        type: 'group',
+        participants: ['123e4567-e89b-12d3-a456-426614174001'],
+      })
+      .expect(201);
+    conversationId = response.body.data.id;
   });
 
   afterAll(async () => {
@@ -40,7 +53,7 @@ describe('SearchController (e2e)', () => {
   });
 
   const tenantId = 'test';
-  const conversationId = '123e4567-e89b-12d3-a456-426614174000';
+  let conversationId: string;
   const searchTerm = 'world!';
 
   describe('/v1/api/conversations/:conversationId/messages/search (GET)', () => {